@@ -0,0 +1,49 @@
+// Currencies prices are set in and exchange rates are quoted against
+export const BASE_CURRENCY = 'USD';
+
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  // Locale used to format amounts in this currency
+  locale: string;
+  // Digits after the decimal point
+  decimals: number;
+}
+
+const KNOWN_CURRENCIES: Record<string, CurrencyInfo> = {
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$', locale: 'en-US', decimals: 2 },
+  INR: { code: 'INR', name: 'Indian Rupee', symbol: '₹', locale: 'en-IN', decimals: 2 },
+  EUR: { code: 'EUR', name: 'Euro', symbol: '€', locale: 'de-DE', decimals: 2 },
+  GBP: { code: 'GBP', name: 'British Pound', symbol: '£', locale: 'en-GB', decimals: 2 },
+  AUD: { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', locale: 'en-AU', decimals: 2 },
+  CAD: { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$', locale: 'en-CA', decimals: 2 },
+  SGD: { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$', locale: 'en-SG', decimals: 2 },
+  AED: { code: 'AED', name: 'UAE Dirham', symbol: 'AED', locale: 'en-AE', decimals: 2 },
+  JPY: { code: 'JPY', name: 'Japanese Yen', symbol: '¥', locale: 'ja-JP', decimals: 0 },
+};
+
+/**
+ * Currencies users can pay and hold wallets in, from the comma-separated
+ * `SUPPORTED_CURRENCIES` (default USD and INR). The base currency is always
+ * supported. Codes not listed above are formatted with their code.
+ */
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = Array.from(
+  new Set([
+    BASE_CURRENCY,
+    ...(process.env.SUPPORTED_CURRENCIES || 'USD,INR')
+      .split(',')
+      .map(code => code.trim().toUpperCase())
+      .filter(Boolean),
+  ])
+).map(code => KNOWN_CURRENCIES[code] || { code, name: code, symbol: code, locale: 'en-US', decimals: 2 });
+
+export const isSupportedCurrency = (code: unknown): boolean =>
+  typeof code === 'string' && SUPPORTED_CURRENCIES.some(currency => currency.code === code.toUpperCase());
+
+/**
+ * An amount in the smallest unit of its currency, which is what Stripe
+ * expects: cents for most currencies, whole yen for JPY
+ */
+export const toMinorUnits = (amount: number, code: string): number =>
+  Math.round(amount * 10 ** (KNOWN_CURRENCIES[code.toUpperCase()]?.decimals ?? 2));
@@ -23,6 +23,12 @@ const connectDB = async (): Promise<void> => {
     
     console.log(`MongoDB Connected: ${conn.connection.host}`);
     
+    // Wallet and ledger writes use transactions, which need a replica set (or a sharded cluster)
+    const hello = await conn.connection.db!.admin().command({ hello: 1 });
+    if (!hello.setName && hello.msg !== 'isdbgrid') {
+      throw new Error('MongoDB must run as a replica set, since wallet payments are written in transactions');
+    }
+    
     // Handle connection events
     mongoose.connection.on('error', (err) => {
       console.error(`MongoDB connection error: ${err}`);
@@ -4,6 +4,9 @@ import Venue from '../models/Venue';
 import Equipment from '../models/Equipment';
 import Tutorial from '../models/Tutorial';
 import mongoose from 'mongoose';
+import { refreshStockStatusForBooking } from '../utils/equipmentAvailability';
+import { checkInWithToken } from '../utils/checkInPass';
+import { forgiveNoShow, recordNoShow } from '../utils/noShowPolicy';
 
 // @desc    Get all bookings for admin's items (venues, equipment, tutorials)
 // @route   GET /api/admin/bookings
@@ -78,10 +81,21 @@ export const getAdminBookings = async (req: Request, res: Response) => {
         booking.venue && booking.venue._id.toString() === venue._id.toString()
       );
       
+      // Venues with courts also list their bookings per court
+      const resources = venue.resources && venue.resources.length > 0
+        ? venue.resources.map(resource => ({
+            resource,
+            bookings: bookings.filter(booking =>
+              booking.resource && booking.resource.toString() === resource._id.toString()
+            )
+          }))
+        : undefined;
+      
       return {
         item: venue,
         type: 'venue',
-        bookings
+        bookings,
+        ...(resources && { resources })
       };
     });
     
@@ -159,7 +173,7 @@ export const updateBookingStatus = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Booking ID and status are required' });
     }
     
-    if (!['pending', 'confirmed', 'canceled', 'completed'].includes(status)) {
+    if (!['pending', 'confirmed', 'canceled', 'completed', 'no_show'].includes(status)) {
       return res.status(400).json({ message: 'Invalid status value' });
     }
     
@@ -222,6 +236,11 @@ export const updateBookingStatus = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Not authorized to update this booking' });
     }
     
+    // Rentals are completed by checking the equipment back in
+    if (status === 'completed' && booking.itemType === 'equipment' && !booking.checkIn) {
+      return res.status(400).json({ message: 'Check the equipment in to complete this rental' });
+    }
+    
     console.log(`Updating booking ${bookingId} status from ${booking.status} to ${status}`);
     
     // Use findByIdAndUpdate instead of save() to bypass validation
@@ -237,6 +256,20 @@ export const updateBookingStatus = async (req: Request, res: Response) => {
     
     console.log('Booking updated successfully');
     
+    // Marking a booking missed counts against the customer; correcting it takes the no-show back
+    if (updatedBooking && status !== booking.status) {
+      if (status === 'no_show') {
+        await recordNoShow(updatedBooking);
+      } else if (booking.status === 'no_show') {
+        await forgiveNoShow(updatedBooking);
+      }
+    }
+    
+    // Canceled or completed rentals free up stock
+    if (updatedBooking) {
+      await refreshStockStatusForBooking(updatedBooking);
+    }
+    
     res.json({
       success: true,
       data: updatedBooking
@@ -251,7 +284,61 @@ export const updateBookingStatus = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Check a customer in by scanning the QR code for their booking
+// @route   POST /api/admin/bookings/scan
+// @access  Private/Admin
+export const scanCheckInCode = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    const adminId = req.user!.id;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ message: 'Check-in code is required' });
+    }
+
+    const result = await checkInWithToken(token, {
+      id: adminId,
+      // Only the owner of the venue or equipment may check its customers in
+      canManage: async (booking) => {
+        if (booking.itemType === 'venue' && booking.venue) {
+          const venue = await Venue.findById(booking.venue);
+          return venue?.creator?.toString() === adminId;
+        }
+        if (booking.itemType === 'equipment' && booking.equipment?.length) {
+          const equipment = await Equipment.find({ _id: { $in: booking.equipment } });
+          return equipment.some(item => item.creator?.toString() === adminId);
+        }
+        return false;
+      }
+    });
+
+    if (!result.checkedIn) {
+      return res.status(result.status).json({
+        message: result.reason,
+        ...(result.booking && { data: result.booking })
+      });
+    }
+
+    const booking = await Booking.findById(result.booking._id)
+      .populate('user', 'name email')
+      .populate('venue', 'name')
+      .populate('equipment', 'name');
+
+    res.json({
+      success: true,
+      data: booking
+    });
+  } catch (error: any) {
+    console.error('Scan check-in code error:', error);
+    res.status(500).json({
+      message: 'Server error checking booking in',
+      error: error.message
+    });
+  }
+};
+
 export default {
   getAdminBookings,
   updateBookingStatus,
+  scanCheckInCode,
 }; 
\ No newline at end of file
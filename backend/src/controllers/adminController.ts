@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import Venue from '../models/Venue';
 import Equipment from '../models/Equipment';
+import { openWalletLedgers } from '../utils/walletLedger';
 
 // @desc    Check admin API access
 // @route   GET /api/admin/ping
@@ -24,7 +25,8 @@ export const pingAdminAPI = async (req: Request, res: Response) => {
   }
 };
 
-// @desc    Migrate existing venues and equipment data to add creator field
+// @desc    Migrate existing venues and equipment data to add creator field, and open
+//          the ledger of wallets created before it with their current balances
 // @route   POST /api/admin/migrate-data
 // @access  Private/Admin
 export const migrateData = async (req: Request, res: Response) => {
@@ -47,12 +49,15 @@ export const migrateData = async (req: Request, res: Response) => {
       { $set: { creator: adminId } }
     );
     
+    const walletsOpened = await openWalletLedgers();
+    
     res.json({
       success: true,
       message: 'Data migration completed successfully',
       data: {
         venues: venueUpdateResult.modifiedCount,
-        equipment: equipmentUpdateResult.modifiedCount
+        equipment: equipmentUpdateResult.modifiedCount,
+        wallets: walletsOpened
       }
     });
   } catch (error: any) {
@@ -3,10 +3,24 @@ import Booking, { IBooking } from '../models/Booking';
 import Venue from '../models/Venue';
 import Equipment from '../models/Equipment';
 import Tutorial from '../models/Tutorial';
+import Package from '../models/Package';
+import Payment from '../models/Payment';
 import User from '../models/User';
 import mongoose from 'mongoose';
 import logger from '../utils/logger';
 import emailService from '../utils/emailService';
+import { cancelBookingWithPolicy } from '../utils/bookingCancellation';
+import { cancelPackageBooking } from '../utils/packageBooking';
+import { rescheduleBookingWithPolicy } from '../utils/bookingReschedule';
+import { findParticipant } from '../utils/groupBooking';
+import { refreshStockStatusForBooking } from '../utils/equipmentAvailability';
+import { prepareVenueBooking, prepareEquipmentBooking } from '../utils/bookingPreparation';
+import { getHoldExpiry, holdVenueSlot, releaseSlotHolds } from '../utils/slotHolds';
+import { applyNoShowPenalty } from '../utils/noShowPolicy';
+import { confirmPaidBooking, refundStripePayment } from '../utils/paymentService';
+import getStripeInstance from '../config/stripe';
+import { renderBookingInvite } from '../utils/calendarFeed';
+import { ensureCheckInPass, isCheckInConfigured, issueCheckInQrCode, renderCheckInQrCode } from '../utils/checkInPass';
 
 // Helper function to get item name based on type
 const getItemNameById = async (
@@ -33,19 +47,28 @@ const getItemNameById = async (
 // @access  Private
 export const createBooking = async (req: Request, res: Response) => {
   try {
-    const { itemType, itemId, date, timeSlot, notes, subtotalPrice, totalPrice } = req.body;
+    const {
+      itemType,
+      itemId,
+      resourceId,
+      quantity,
+      equipmentItems,
+      date,
+      returnDate,
+      timeSlot,
+      notes,
+      subtotalPrice,
+      totalPrice
+    } = req.body;
     
     logger.debug('Creating new booking', { itemType, itemId, date });
     
-    // Validate required fields
-    if (!itemType || !itemId || !date) {
+    // Validate required fields (equipment can be given as lines instead of an item id)
+    if (!itemType || (!itemId && !(itemType === 'equipment' && equipmentItems)) || !date) {
       logger.warn('Missing required booking fields', { itemType, itemId, date });
       return res.status(400).json({ message: 'Please provide all required fields' });
     }
 
-    // Calculate price based on item type if not provided
-    let calculatedTotalPrice = totalPrice;
-    let calculatedSubtotalPrice = subtotalPrice;
     let bookingData: Partial<IBooking> = {
       user: new mongoose.Types.ObjectId(req.user!.id),
       itemType,
@@ -54,130 +77,66 @@ export const createBooking = async (req: Request, res: Response) => {
       notes
     };
 
-    // Add the appropriate item ID field based on itemType
-    if (itemType === 'venue') {
-      bookingData.venue = new mongoose.Types.ObjectId(itemId);
-    } else if (itemType === 'equipment') {
-      const equipmentIds = Array.isArray(itemId) ? itemId : [itemId];
-      bookingData.equipment = equipmentIds.map(id => new mongoose.Types.ObjectId(id));
-    } else if (itemType === 'tutorial') {
-      bookingData.tutorial = new mongoose.Types.ObjectId(itemId);
-    }
-
-    // If prices are provided in the request, use them directly
-    if (subtotalPrice !== undefined && totalPrice !== undefined) {
-      bookingData.subtotalPrice = subtotalPrice;
-      bookingData.totalPrice = totalPrice;
-    } else {
-      // Otherwise calculate prices based on item type
-      
-      // Venue booking
-      if (itemType === 'venue') {
-        const venue = await Venue.findById(itemId);
-        if (!venue) {
-          logger.warn('Venue not found', { itemId });
-          return res.status(404).json({ message: 'Venue not found' });
-        }
-
-        // Enhanced check for overlapping bookings
-        if (timeSlot) {
-          const proposedStartTime = timeSlot.start;
-          const proposedEndTime = timeSlot.end;
-          
-          // Convert time strings to integers for easier comparison (e.g., "09:00" -> 9)
-          const proposedStartHour = parseInt(proposedStartTime.split(':')[0]);
-          const proposedEndHour = parseInt(proposedEndTime.split(':')[0]);
-          
-          // Query for any bookings that overlap with the proposed time slot
-          const overlappingBooking = await Booking.findOne({
-            venue: itemId,
-            date: { $eq: new Date(date) },
-            status: { $in: ['pending', 'confirmed'] },
-            $and: [
-              // Existing booking starts before our proposed end time
-              { 'timeSlot.start': { $lt: proposedEndTime } },
-              // Existing booking ends after our proposed start time
-              { 'timeSlot.end': { $gt: proposedStartTime } }
-            ]
-          });
-
-          if (overlappingBooking) {
-            logger.warn('Overlapping booking detected', { 
-              venueId: itemId, 
-              date, 
-              proposedTime: `${proposedStartTime}-${proposedEndTime}`,
-              existingTime: `${overlappingBooking.timeSlot?.start}-${overlappingBooking.timeSlot?.end}`
-            });
-            
-            return res.status(400).json({ 
-              message: 'This venue is already booked during the selected time period',
-              conflictingBooking: {
-                start: overlappingBooking.timeSlot?.start,
-                end: overlappingBooking.timeSlot?.end
-              }
-            });
-          }
-        } else {
-          return res.status(400).json({ message: 'Time slot is required for venue bookings' });
-        }
+    // Venue and equipment bookings are always validated and priced on the server
+    if (itemType === 'venue' || itemType === 'equipment') {
+      const prepared = itemType === 'venue'
+        ? await prepareVenueBooking({ venueId: itemId, date: new Date(date), timeSlot, resourceId })
+        : await prepareEquipmentBooking({
+          itemId,
+          quantity,
+          equipmentItems,
+          date: new Date(date),
+          returnDate: returnDate ? new Date(returnDate) : undefined
+        });
 
-        // Calculate price based on venue pricing and duration
-        if (timeSlot) {
-          const startHour = parseInt(timeSlot.start.split(':')[0]);
-          const endHour = parseInt(timeSlot.end.split(':')[0]);
-          const duration = endHour - startHour;
-          calculatedTotalPrice = venue.pricePerHour * duration;
-          calculatedSubtotalPrice = calculatedTotalPrice; // Set subtotal equal to total before any discounts
-          bookingData.timeSlot = timeSlot;
-        } else {
-          // Default to 1 hour if no time slot provided
-          calculatedTotalPrice = venue.pricePerHour;
-          calculatedSubtotalPrice = calculatedTotalPrice;
-        }
+      if (!prepared.valid) {
+        return res.status(prepared.status).json({
+          message: prepared.reason,
+          ...prepared.details,
+          ...(prepared.taken && { canJoinWaitlist: true })
+        });
       }
-      
-      // Equipment booking
-      else if (itemType === 'equipment') {
-        // Handle single equipment or array of equipment
-        const equipmentIds = Array.isArray(itemId) ? itemId : [itemId];
-        
-        // Validate all equipment exists
-        const equipment = await Equipment.find({ _id: { $in: equipmentIds } });
-        if (equipment.length !== equipmentIds.length) {
-          logger.warn('Some equipment not found', { equipmentIds });
-          return res.status(404).json({ message: 'One or more equipment items not found' });
-        }
+      bookingData = { ...bookingData, ...prepared.bookingData };
 
-        // Check if any equipment is already booked
-        const existingBooking = await Booking.findOne({
-          equipment: { $in: equipmentIds },
-          date: { $eq: new Date(date) },
-          status: { $in: ['pending', 'confirmed'] }
-        });
+      // Customers who have missed bookings before may be suspended or owe a no-show deposit
+      const penalty = await applyNoShowPenalty(req.user!.id, bookingData);
+      if (!penalty.success) {
+        return res.status(penalty.status).json({ message: penalty.reason });
+      }
 
-        if (existingBooking) {
-          logger.warn('Equipment already booked', { equipmentIds, date });
-          return res.status(400).json({ message: 'One or more equipment items are already booked for the selected date' });
+      // The booking is held for the customer while they check out; venue slots
+      // are held atomically so a concurrent checkout cannot take the same time
+      bookingData._id = new mongoose.Types.ObjectId();
+      bookingData.holdExpiresAt = getHoldExpiry();
+      if (itemType === 'venue') {
+        const hold = await holdVenueSlot(bookingData._id as mongoose.Types.ObjectId, req.user!.id, bookingData);
+        if (!hold.success) {
+          return res.status(409).json({ message: hold.reason, canJoinWaitlist: true });
         }
-
-        // Calculate total price based on daily rental prices
-        calculatedTotalPrice = equipment.reduce((sum, item) => sum + item.rentalPriceDaily, 0);
-        calculatedSubtotalPrice = calculatedTotalPrice;
+        bookingData.holdExpiresAt = hold.expiresAt;
       }
-      
-      else {
-        logger.warn('Invalid item type', { itemType });
-        return res.status(400).json({ message: 'Invalid item type' });
+    }
+    // If prices are provided in the request, use them directly
+    else if (subtotalPrice !== undefined && totalPrice !== undefined) {
+      if (itemType === 'tutorial') {
+        bookingData.tutorial = new mongoose.Types.ObjectId(itemId);
       }
-      
-      // Set the calculated prices
-      bookingData.subtotalPrice = calculatedSubtotalPrice;
-      bookingData.totalPrice = calculatedTotalPrice;
+      bookingData.subtotalPrice = subtotalPrice;
+      bookingData.totalPrice = totalPrice;
+    } else {
+      logger.warn('Invalid item type', { itemType });
+      return res.status(400).json({ message: 'Invalid item type' });
     }
     
-    // Create the booking
-    const booking = await Booking.create(bookingData);
+    // Create the booking (giving back the slot hold if that fails)
+    const booking = await Booking.create(bookingData).catch(async (error) => {
+      if (bookingData._id) {
+        await releaseSlotHolds(bookingData._id as mongoose.Types.ObjectId);
+      }
+      throw error;
+    });
     logger.info('Booking created successfully', { bookingId: booking._id, userId: req.user!.id });
+    await refreshStockStatusForBooking(booking);
 
     // Populate user and item details for response and email
     const populatedBooking = await Booking.findById(booking._id)
@@ -192,6 +151,12 @@ export const createBooking = async (req: Request, res: Response) => {
       let itemName = '';
       if (itemType === 'venue' && populatedBooking?.venue) {
         itemName = (populatedBooking.venue as any).name;
+        if (bookingData.resource) {
+          const resource = (populatedBooking.venue as any).resources?.find(
+            (r: any) => r._id.toString() === bookingData.resource!.toString()
+          );
+          itemName = resource ? `${itemName} - ${resource.name}` : itemName;
+        }
       } else if (itemType === 'equipment' && populatedBooking?.equipment) {
         // For equipment, we might have multiple items, just use the first one's name
         const firstEquipment = Array.isArray(populatedBooking.equipment) 
@@ -203,7 +168,8 @@ export const createBooking = async (req: Request, res: Response) => {
         itemName = await getItemNameById(itemType, itemId);
       }
 
-      // Send booking confirmation email
+      // Send booking confirmation email, with the QR code to check in with once the booking is confirmed
+      const checkInQrCode = await issueCheckInQrCode(booking);
       emailService.sendBookingConfirmationEmail(
         user.email,
         user.name,
@@ -213,7 +179,9 @@ export const createBooking = async (req: Request, res: Response) => {
           itemName,
           date: booking.date,
           timeSlot: booking.timeSlot,
-          totalPrice: booking.totalPrice
+          totalPrice: booking.totalPrice,
+          checkInQrCode,
+          calendarInvite: await renderBookingInvite(booking)
         }
       ).catch(error => {
         logger.error('Failed to send booking confirmation email', { 
@@ -233,6 +201,58 @@ export const createBooking = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Price a venue slot or equipment rental without booking it
+// @route   POST /api/bookings/quote
+// @access  Private
+export const getBookingQuote = async (req: Request, res: Response) => {
+  try {
+    const { itemType, itemId, resourceId, quantity, equipmentItems, date, returnDate, timeSlot } = req.body;
+
+    if (!['venue', 'equipment'].includes(itemType) || !date || isNaN(new Date(date).getTime())) {
+      return res.status(400).json({ message: 'Please provide a venue or equipment item and a valid date' });
+    }
+
+    // Quotes go through the same checks and pricing as creating the booking
+    const prepared = itemType === 'venue'
+      ? await prepareVenueBooking({ venueId: itemId, date: new Date(date), timeSlot, resourceId })
+      : await prepareEquipmentBooking({
+        itemId,
+        quantity,
+        equipmentItems,
+        date: new Date(date),
+        returnDate: returnDate ? new Date(returnDate) : undefined
+      });
+
+    if (!prepared.valid) {
+      return res.status(prepared.status).json({
+        message: prepared.reason,
+        ...prepared.details,
+        ...(prepared.taken && { canJoinWaitlist: true })
+      });
+    }
+
+    const penalty = await applyNoShowPenalty(req.user!.id, prepared.bookingData);
+    if (!penalty.success) {
+      return res.status(penalty.status).json({ message: penalty.reason });
+    }
+
+    res.json({
+      itemType,
+      itemName: prepared.itemName,
+      subtotalPrice: prepared.bookingData.subtotalPrice,
+      totalPrice: prepared.bookingData.totalPrice,
+      ...(prepared.bookingData.priceBreakdown && { priceBreakdown: prepared.bookingData.priceBreakdown }),
+      ...(prepared.bookingData.deposit && { deposit: prepared.bookingData.deposit.amount })
+    });
+  } catch (error: any) {
+    logger.error('Booking quote error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while pricing booking',
+      error: error.message
+    });
+  }
+};
+
 // @desc    Get user's bookings
 // @route   GET /api/bookings
 // @access  Private
@@ -372,6 +392,17 @@ export const updateBookingStatus = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Not authorized to update this booking' });
     }
 
+    // Rentals are completed by checking the equipment back in
+    if (status === 'completed' && booking.itemType === 'equipment' && !booking.checkIn) {
+      return res.status(400).json({ message: 'Check the equipment in to complete this rental' });
+    }
+
+    // Missed bookings count towards no-show penalties, so they are only changed
+    // through the admin booking status update, which keeps that count in step
+    if (booking.status === 'no_show') {
+      return res.status(400).json({ message: 'This booking was missed and its status is final' });
+    }
+
     // Update the booking status
     const oldStatus = booking.status;
     booking.status = status;
@@ -387,6 +418,7 @@ export const updateBookingStatus = async (req: Request, res: Response) => {
     }
     
     await booking.save();
+    await refreshStockStatusForBooking(booking);
     logger.info('Booking status updated', { 
       bookingId: id, 
       oldStatus, 
@@ -468,8 +500,12 @@ export const getBookingById = async (req: Request, res: Response) => {
     
     console.log(`Booking found. Belongs to user: ${booking.user._id}`);
     
-    // Regular users can only view their own bookings
-    if (req.user!.role !== 'admin' && booking.user._id.toString() !== req.user!.id) {
+    // Regular users can only view their own bookings and those they share the cost of
+    if (
+      req.user!.role !== 'admin'
+      && booking.user._id.toString() !== req.user!.id
+      && !findParticipant(booking, req.user!)
+    ) {
       console.log(`Authorization failed. User ${req.user!.id} trying to access booking of user ${booking.user._id}`);
       return res.status(403).json({ message: 'Not authorized to view this booking' });
     }
@@ -489,7 +525,7 @@ export const getBookingById = async (req: Request, res: Response) => {
 // @access  Private
 export const createVenueBooking = async (req: Request, res: Response) => {
   try {
-    const { venueId, date, timeSlot, notes } = req.body;
+    const { venueId, resourceId, date, timeSlot, notes } = req.body;
     
     if (!venueId || !date || !timeSlot) {
       return res.status(400).json({ message: 'Please provide venue, date and time slot' });
@@ -499,6 +535,7 @@ export const createVenueBooking = async (req: Request, res: Response) => {
     req.body = {
       itemType: 'venue',
       itemId: venueId,
+      resourceId,
       date,
       timeSlot,
       notes
@@ -519,9 +556,9 @@ export const createVenueBooking = async (req: Request, res: Response) => {
 // @access  Private
 export const createEquipmentBooking = async (req: Request, res: Response) => {
   try {
-    const { equipmentId, date, notes } = req.body;
+    const { equipmentId, quantity, equipmentItems, date, returnDate, notes } = req.body;
     
-    if (!equipmentId || !date) {
+    if ((!equipmentId && !equipmentItems) || !date) {
       return res.status(400).json({ message: 'Please provide equipment and date' });
     }
     
@@ -529,7 +566,10 @@ export const createEquipmentBooking = async (req: Request, res: Response) => {
     req.body = {
       itemType: 'equipment',
       itemId: equipmentId,
+      quantity,
+      equipmentItems,
       date,
+      returnDate,
       notes
     };
     
@@ -600,15 +640,69 @@ export const handlePaymentSuccess = async (req: Request, res: Response) => {
       });
     }
     
-    // Update booking status to confirmed and payment status to paid
-    booking.status = 'confirmed';
-    booking.paymentStatus = 'paid';
-    await Booking.findByIdAndUpdate(bookingId, {
-      status: 'confirmed',
-      paymentStatus: 'paid'
-    });
+    // Only a booking whose checkout hold is still running can be confirmed
+    const confirmed = await confirmPaidBooking(bookingId);
+    if (!confirmed) {
+      logger.warn('Payment success reported for a booking that can no longer be confirmed', {
+        bookingId,
+        status: booking.status
+      });
+
+      // A card payment that went through after the hold ran out is given
+      // back, but only once Stripe says it succeeded and nothing used it yet
+      const holdExpired = booking.status === 'pending'
+        && !!booking.holdExpiresAt && booking.holdExpiresAt <= new Date();
+      const payment = holdExpired
+        ? await Payment.findOne({
+            booking: bookingId,
+            user: userId,
+            paymentMethod: 'stripe',
+            status: 'pending',
+            'metadata.purpose': null
+          }).sort({ createdAt: -1 })
+        : null;
+      const stripe = getStripeInstance();
+      const paymentIntent = payment?.stripePaymentId && stripe
+        ? await stripe.paymentIntents.retrieve(payment.stripePaymentId)
+        : null;
+
+      if (!payment || paymentIntent?.status !== 'succeeded') {
+        return res.status(409).json({
+          success: false,
+          message: 'This booking can no longer be confirmed'
+        });
+      }
+
+      // Claim the booking first so the payment is refunded only once
+      const expired = await Booking.findOneAndUpdate(
+        { _id: bookingId, status: 'pending', paymentStatus: 'pending', holdExpiresAt: { $lte: new Date() } },
+        {
+          status: 'canceled',
+          paymentStatus: 'refunded',
+          $set: {
+            'metadata.expirationReason': 'Payment not received before the checkout hold expired',
+            'metadata.expiredAt': new Date()
+          }
+        },
+        { new: true }
+      );
+      if (!expired) {
+        return res.status(409).json({
+          success: false,
+          message: 'This booking can no longer be confirmed'
+        });
+      }
+      await releaseSlotHolds([bookingId]);
+      await refreshStockStatusForBooking(expired);
+      await refundStripePayment(payment, 'Payment arrived after the booking hold expired');
+
+      return res.status(409).json({
+        success: false,
+        message: 'The hold on this booking ran out before the payment went through, so the payment has been refunded'
+      });
+    }
     
-    console.log(`Booking ${bookingId} marked as confirmed after successful payment`);
+    logger.info('Booking confirmed after successful payment', { bookingId });
     
     res.status(200).json({
       success: true,
@@ -664,18 +758,20 @@ export const cancelBooking = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Cannot cancel a completed booking' });
     }
 
-    // Import cancellation policy dynamically to avoid circular dependencies
-    const cancellationPolicy = await import('../utils/cancellationPolicy');
-    
-    // Calculate refund amount based on the cancellation policy
-    const cancellationResult = cancellationPolicy.default.calculateCancellationFee(
-      booking.itemType,
-      booking.date,
-      booking.totalPrice
-    );
+    if (booking.status === 'no_show') {
+      logger.warn('Attempted to cancel a missed booking', { bookingId: id });
+      return res.status(400).json({ message: 'Cannot cancel a missed booking' });
+    }
+
+    // Apply the cancellation policy and refund if applicable; bookings made with
+    // a package are canceled together under the policy for the whole package
+    const outcome = booking.packageGroup
+      ? await cancelPackageBooking(booking, { reason, canceledBy: req.user!.id })
+      : await cancelBookingWithPolicy(booking, { reason, canceledBy: req.user!.id });
+    const { canceled, cancellation: cancellationResult, refundProcessed } = outcome;
 
     // Check if cancellation is allowed
-    if (!cancellationResult.canCancel) {
+    if (!canceled) {
       logger.warn('Cancellation not allowed', { 
         bookingId: id, 
         reason: cancellationResult.reason 
@@ -686,57 +782,6 @@ export const cancelBooking = async (req: Request, res: Response) => {
       });
     }
 
-    // Process cancellation
-    booking.status = 'canceled';
-    booking.metadata = {
-      ...booking.metadata,
-      cancellationReason: reason || 'Canceled by user',
-      canceledAt: new Date(),
-      canceledBy: req.user!.id,
-      refundPercentage: cancellationResult.refundPercentage,
-      refundAmount: cancellationResult.refundAmount,
-      cancellationFee: cancellationResult.cancellationFee
-    };
-    
-    await booking.save();
-    
-    logger.info('Booking canceled successfully', { 
-      bookingId: id, 
-      refundAmount: cancellationResult.refundAmount, 
-      refundPercentage: cancellationResult.refundPercentage 
-    });
-
-    // Process refund if applicable
-    let refundResult = null;
-    if (booking.paymentStatus === 'paid' && cancellationResult.refundAmount > 0) {
-      // Import payment service
-      const { processRefund } = await import('../utils/paymentService');
-      
-      // Process the refund
-      refundResult = await processRefund({
-        userId: booking.user.toString(),
-        bookingId: booking._id.toString(),
-        amount: cancellationResult.refundAmount,
-        reason: `Refund for canceled booking - ${cancellationResult.reason}`
-      });
-      
-      if (refundResult.success) {
-        logger.info('Refund processed for canceled booking', { 
-          bookingId: id, 
-          refundAmount: cancellationResult.refundAmount 
-        });
-        
-        // Update payment status
-        booking.paymentStatus = 'refunded';
-        await booking.save();
-      } else {
-        logger.error('Failed to process refund for canceled booking', { 
-          bookingId: id, 
-          error: refundResult.message 
-        });
-      }
-    }
-
     // Send cancellation email notification
     try {
       // Get user info
@@ -754,6 +799,12 @@ export const cancelBooking = async (req: Request, res: Response) => {
         } else if (booking.itemType === 'tutorial' && booking.tutorial) {
           itemName = await getItemNameById('tutorial', booking.tutorial);
         }
+
+        // A package is canceled as a whole, so the email names the package
+        if (booking.venuePackage) {
+          const venuePackage = await Package.findById(booking.venuePackage).select('name');
+          itemName = venuePackage ? `${venuePackage.name} package` : itemName;
+        }
         
         // Send email notification
         const emailService = await import('../utils/emailService');
@@ -782,12 +833,13 @@ export const cancelBooking = async (req: Request, res: Response) => {
     res.json({
       success: true,
       booking,
+      ...('bookings' in outcome && { packageBookings: outcome.bookings }),
       cancellationDetails: {
         refundPercentage: cancellationResult.refundPercentage,
         refundAmount: cancellationResult.refundAmount,
         cancellationFee: cancellationResult.cancellationFee,
         reason: cancellationResult.reason,
-        refundProcessed: refundResult?.success || false
+        refundProcessed
       }
     });
   } catch (error: any) {
@@ -799,8 +851,131 @@ export const cancelBooking = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Move a booking to another date or time slot, settling the price difference
+// @route   POST /api/bookings/:id/reschedule
+// @access  Private
+export const rescheduleBooking = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { date, returnDate, timeSlot, resourceId, reason, paymentMethod } = req.body;
+
+    logger.debug('Processing booking reschedule request', { bookingId: id, date });
+
+    if (!date || isNaN(new Date(date).getTime())) {
+      return res.status(400).json({ message: 'Please provide a valid new date' });
+    }
+    if (returnDate && isNaN(new Date(returnDate).getTime())) {
+      return res.status(400).json({ message: 'Please provide a valid return date' });
+    }
+    if (paymentMethod && !['wallet', 'stripe'].includes(paymentMethod)) {
+      return res.status(400).json({ message: 'Payment method must be wallet or stripe' });
+    }
+
+    const booking = await Booking.findById(id);
+    if (!booking) {
+      logger.warn('Booking not found for reschedule', { bookingId: id });
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    // Check if user owns the booking or is an admin
+    const isOwner = booking.user.toString() === req.user!.id;
+    const isAdmin = req.user!.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      logger.warn('Unauthorized booking reschedule attempt', {
+        bookingId: id,
+        userId: req.user!.id
+      });
+      return res.status(403).json({ message: 'Not authorized to reschedule this booking' });
+    }
+
+    const outcome = await rescheduleBookingWithPolicy(booking, {
+      date: new Date(date),
+      returnDate: returnDate ? new Date(returnDate) : undefined,
+      timeSlot,
+      resourceId,
+      reason,
+      paymentMethod,
+      rescheduledBy: req.user!.id,
+      bypassWindow: isAdmin
+    });
+
+    if (!outcome.rescheduled) {
+      logger.warn('Reschedule not allowed', { bookingId: id, reason: outcome.reason });
+      return res.status(outcome.status).json({
+        message: outcome.reason,
+        ...outcome.details,
+        ...(outcome.taken && { canJoinWaitlist: true })
+      });
+    }
+
+    res.status(outcome.awaitingPayment ? 202 : 200).json({
+      success: true,
+      booking,
+      ...(outcome.awaitingPayment && {
+        message: 'The booking will move to the new slot once the price difference is paid'
+      }),
+      rescheduleDetails: {
+        previousTotalPrice: outcome.reschedule.previousTotalPrice,
+        newTotalPrice: outcome.reschedule.newTotalPrice,
+        priceDifference: outcome.reschedule.priceDifference,
+        charge: outcome.reschedule.charge,
+        ...(outcome.clientSecret && { clientSecret: outcome.clientSecret })
+      }
+    });
+  } catch (error: any) {
+    logger.error('Booking reschedule error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while rescheduling booking',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get the QR code to check in for a confirmed booking
+// @route   GET /api/bookings/:id/check-in-pass
+// @access  Private
+export const getCheckInPass = async (req: Request, res: Response) => {
+  try {
+    const booking = await Booking.findById(req.params.id);
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    // Anyone sharing the booking may show the code on arrival
+    if (booking.user.toString() !== req.user!.id && !findParticipant(booking, req.user!)) {
+      return res.status(403).json({ message: 'Not authorized to view this booking' });
+    }
+    if (booking.itemType !== 'venue' && booking.itemType !== 'equipment') {
+      return res.status(400).json({ message: 'Only venue and equipment bookings are checked in' });
+    }
+    if (booking.status !== 'confirmed') {
+      return res.status(400).json({ message: 'Check-in codes are only available for confirmed bookings' });
+    }
+    if (!isCheckInConfigured()) {
+      return res.status(503).json({ message: 'Check-in codes are not configured on this server' });
+    }
+
+    const pass = await ensureCheckInPass(booking);
+
+    res.json({
+      token: pass.token,
+      expiresAt: pass.expiresAt,
+      checkedInAt: pass.checkedInAt,
+      qrCode: await renderCheckInQrCode(pass.token)
+    });
+  } catch (error: any) {
+    logger.error('Get check-in pass error', { error: error.message, bookingId: req.params.id });
+    res.status(500).json({
+      message: 'Server error fetching check-in code',
+      error: error.message
+    });
+  }
+};
+
 export default {
   createBooking,
+  getBookingQuote,
   getUserBookings,
   getAllBookings,
   getBookingById,
@@ -809,5 +984,7 @@ export default {
   updateBookingStatus,
   updatePaymentStatus,
   handlePaymentSuccess,
-  cancelBooking
+  cancelBooking,
+  rescheduleBooking,
+  getCheckInPass
 }; 
\ No newline at end of file
@@ -0,0 +1,383 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Booking from '../models/Booking';
+import BookingSeries, { IBookingSeries } from '../models/BookingSeries';
+import Venue, { IVenue } from '../models/Venue';
+import logger from '../utils/logger';
+import { resolveVenueResource, parseDateKey, ANY_RESOURCE } from '../utils/venueAvailability';
+import { calculateVenuePrice } from '../utils/venuePricing';
+import {
+  validateRecurrenceRule,
+  parseRRule,
+  formatRRule,
+  generateOccurrenceDates,
+  RecurrenceRule,
+} from '../utils/recurrence';
+import { cancelBookingWithPolicy } from '../utils/bookingCancellation';
+import { applyNoShowPenalty } from '../utils/noShowPolicy';
+import { holdVenueSlot, releaseSlotHolds } from '../utils/slotHolds';
+import { TimeSlotInput } from '../utils/timeRange';
+import { roundToCents } from '../utils/money';
+
+// Body of a series preview or creation request
+interface BookingSeriesRequest {
+  venueId?: string;
+  resourceId?: string;
+  startDate?: string;
+  timeSlot?: TimeSlotInput;
+  recurrence?: Parameters<typeof validateRecurrenceRule>[0];
+  rrule?: string;
+  notes?: string;
+}
+
+interface OccurrenceCheck {
+  date: string;
+  available: boolean;
+  reason?: string;
+  resourceId?: mongoose.Types.ObjectId;
+  resourceName?: string;
+  conflictingBooking?: {
+    start?: string;
+    end?: string;
+  };
+  price: number;
+}
+
+type SeriesRequestResult =
+  | {
+      valid: true;
+      venue: IVenue;
+      startDate: Date;
+      timeSlot: TimeSlotInput;
+      rule: RecurrenceRule;
+      occurrences: OccurrenceCheck[];
+    }
+  | { valid: false; status: number; message: string };
+
+// Validate a series request body and check every occurrence for conflicts
+const checkSeriesRequest = async (body: BookingSeriesRequest): Promise<SeriesRequestResult> => {
+  const { venueId, resourceId, startDate, timeSlot, recurrence, rrule } = body;
+
+  if (!venueId || !startDate || !timeSlot || (!recurrence && !rrule)) {
+    return {
+      valid: false,
+      status: 400,
+      message: 'Please provide venue, start date, time slot and recurrence'
+    };
+  }
+
+  const parsedStartDate = parseDateKey(startDate);
+  if (!parsedStartDate) {
+    return { valid: false, status: 400, message: 'Start date must be provided in yyyy-MM-dd format' };
+  }
+
+  const ruleResult = validateRecurrenceRule(rrule ? parseRRule(rrule) : recurrence!, parsedStartDate);
+  if (!ruleResult.valid) {
+    return { valid: false, status: 400, message: ruleResult.reason };
+  }
+
+  const venue = await Venue.findById(venueId);
+  if (!venue) {
+    return { valid: false, status: 404, message: 'Venue not found' };
+  }
+
+  const dates = generateOccurrenceDates(parsedStartDate, ruleResult.rule);
+  const occurrences: OccurrenceCheck[] = [];
+
+  for (const date of dates) {
+    const dateKey = date.toISOString().split('T')[0];
+    // With "any free court" each occurrence may land on a different court
+    const resolution = await resolveVenueResource(venue, date, timeSlot, resourceId);
+
+    if (!resolution.valid) {
+      occurrences.push({
+        date: dateKey,
+        available: false,
+        reason: resolution.reason,
+        ...(resolution.conflictingBooking && { conflictingBooking: resolution.conflictingBooking }),
+        price: 0
+      });
+      continue;
+    }
+
+    occurrences.push({
+      date: dateKey,
+      available: true,
+      ...(resolution.resource && {
+        resourceId: resolution.resource._id,
+        resourceName: resolution.resource.name
+      }),
+      price: calculateVenuePrice(venue, date, resolution.range, resolution.resource).total
+    });
+  }
+
+  return { valid: true, venue, startDate: parsedStartDate, timeSlot, rule: ruleResult.rule, occurrences };
+};
+
+// @desc    Check every occurrence of a recurring venue booking for conflicts
+// @route   POST /api/bookings/series/preview
+// @access  Private
+export const previewBookingSeries = async (req: Request, res: Response) => {
+  try {
+    const result = await checkSeriesRequest(req.body as BookingSeriesRequest);
+
+    if (!result.valid) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const conflicts = result.occurrences.filter(occurrence => !occurrence.available);
+
+    res.json({
+      rrule: formatRRule(result.rule),
+      occurrences: result.occurrences,
+      conflicts,
+      totalPrice: roundToCents(result.occurrences.reduce((sum, occurrence) => sum + occurrence.price, 0))
+    });
+  } catch (error: any) {
+    logger.error('Preview booking series error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while checking booking series',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Create a recurring venue booking series
+// @route   POST /api/bookings/series
+// @access  Private
+export const createBookingSeries = async (req: Request, res: Response) => {
+  try {
+    const { notes, resourceId } = req.body as BookingSeriesRequest;
+    const result = await checkSeriesRequest(req.body as BookingSeriesRequest);
+
+    if (!result.valid) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    // Nothing is created unless every occurrence is free
+    const conflicts = result.occurrences.filter(occurrence => !occurrence.available);
+    if (conflicts.length > 0) {
+      logger.warn('Booking series has conflicting occurrences', {
+        venueId: result.venue._id,
+        conflicts: conflicts.map(conflict => conflict.date)
+      });
+      return res.status(409).json({
+        message: 'Some occurrences of this series are not available',
+        conflicts
+      });
+    }
+
+    // Customers who have missed bookings before may be suspended or owe a no-show deposit on each occurrence
+    const occurrences = result.occurrences.map(occurrence => ({
+      _id: new mongoose.Types.ObjectId(),
+      user: new mongoose.Types.ObjectId(req.user!.id),
+      itemType: 'venue' as const,
+      venue: result.venue._id as mongoose.Types.ObjectId,
+      resource: occurrence.resourceId,
+      date: parseDateKey(occurrence.date)!,
+      timeSlot: { start: result.timeSlot.start, end: result.timeSlot.end },
+      status: 'pending' as const,
+      subtotalPrice: occurrence.price,
+      totalPrice: occurrence.price,
+      notes
+    }));
+    for (const occurrence of occurrences) {
+      const penalty = await applyNoShowPenalty(req.user!.id, occurrence);
+      if (!penalty.success) {
+        return res.status(penalty.status).json({ message: penalty.reason });
+      }
+    }
+
+    // Every occurrence's slot is held atomically so a concurrent checkout cannot
+    // take one of them; if any is taken, the holds already placed are given back
+    const occurrenceIds = occurrences.map(occurrence => occurrence._id);
+    for (const [index, occurrence] of occurrences.entries()) {
+      const hold = await holdVenueSlot(occurrence._id, req.user!.id, occurrence);
+      if (!hold.success) {
+        await releaseSlotHolds(occurrenceIds);
+        return res.status(409).json({
+          message: hold.reason,
+          conflicts: [{ ...result.occurrences[index], available: false }]
+        });
+      }
+    }
+
+    let series: IBookingSeries;
+    let bookings;
+    try {
+      series = await BookingSeries.create({
+        user: new mongoose.Types.ObjectId(req.user!.id),
+        venue: result.venue._id,
+        ...(resourceId && resourceId !== ANY_RESOURCE && {
+          resource: new mongoose.Types.ObjectId(resourceId)
+        }),
+        timeSlot: { start: result.timeSlot.start, end: result.timeSlot.end },
+        startDate: result.startDate,
+        recurrence: result.rule,
+        rrule: formatRRule(result.rule),
+        occurrenceCount: result.occurrences.length,
+        notes
+      });
+
+      bookings = await Booking.insertMany(
+        occurrences.map(occurrence => ({ ...occurrence, series: series._id }))
+      );
+    } catch (error) {
+      await releaseSlotHolds(occurrenceIds);
+      throw error;
+    }
+
+    logger.info('Booking series created', {
+      seriesId: series._id,
+      userId: req.user!.id,
+      occurrences: bookings.length
+    });
+
+    res.status(201).json({
+      series,
+      bookings,
+      totalPrice: roundToCents(bookings.reduce((sum, booking) => sum + booking.totalPrice, 0))
+    });
+  } catch (error: any) {
+    logger.error('Create booking series error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while creating booking series',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get the current user's booking series
+// @route   GET /api/bookings/series
+// @access  Private
+export const getUserBookingSeries = async (req: Request, res: Response) => {
+  try {
+    const series = await BookingSeries.find({ user: new mongoose.Types.ObjectId(req.user!.id) })
+      .populate('venue', 'name city state')
+      .sort({ createdAt: -1 });
+
+    res.json({ series });
+  } catch (error: any) {
+    logger.error('Get booking series error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching booking series',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get a booking series with its occurrences
+// @route   GET /api/bookings/series/:id
+// @access  Private
+export const getBookingSeriesById = async (req: Request, res: Response) => {
+  try {
+    const series = await BookingSeries.findById(req.params.id).populate('venue');
+
+    if (!series) {
+      return res.status(404).json({ message: 'Booking series not found' });
+    }
+
+    if (req.user!.role !== 'admin' && series.user.toString() !== req.user!.id) {
+      return res.status(403).json({ message: 'Not authorized to view this booking series' });
+    }
+
+    const bookings = await Booking.find({ series: series._id }).sort({ date: 1 });
+
+    res.json({ series, bookings });
+  } catch (error: any) {
+    logger.error('Get booking series by ID error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching booking series',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Cancel all remaining occurrences of a booking series
+// @route   POST /api/bookings/series/:id/cancel
+// @access  Private
+export const cancelBookingSeries = async (req: Request, res: Response) => {
+  try {
+    const { reason } = req.body;
+    const series = await BookingSeries.findById(req.params.id);
+
+    if (!series) {
+      return res.status(404).json({ message: 'Booking series not found' });
+    }
+
+    const isOwner = series.user.toString() === req.user!.id;
+    const isAdmin = req.user!.role === 'admin';
+
+    if (!isOwner && !isAdmin) {
+      logger.warn('Unauthorized booking series cancellation attempt', {
+        seriesId: series._id,
+        userId: req.user!.id
+      });
+      return res.status(403).json({ message: 'Not authorized to cancel this booking series' });
+    }
+
+    if (series.status === 'canceled') {
+      return res.status(400).json({ message: 'Booking series is already canceled' });
+    }
+
+    const bookings = await Booking.find({
+      series: series._id,
+      status: { $in: ['pending', 'confirmed'] }
+    }).sort({ date: 1 });
+
+    // Each occurrence is charged under the cancellation policy on its own date
+    const results = [];
+    for (const booking of bookings) {
+      const outcome = await cancelBookingWithPolicy(booking, {
+        reason: reason || 'Booking series canceled',
+        canceledBy: req.user!.id
+      });
+
+      results.push({
+        bookingId: booking._id,
+        date: booking.date,
+        canceled: outcome.canceled,
+        refundPercentage: outcome.cancellation.refundPercentage,
+        refundAmount: outcome.cancellation.refundAmount,
+        cancellationFee: outcome.cancellation.cancellationFee,
+        reason: outcome.cancellation.reason,
+        refundProcessed: outcome.refundProcessed
+      });
+    }
+
+    series.status = 'canceled';
+    series.canceledAt = new Date();
+    await series.save();
+
+    const canceledResults = results.filter(result => result.canceled);
+
+    logger.info('Booking series canceled', {
+      seriesId: series._id,
+      canceledOccurrences: canceledResults.length
+    });
+
+    res.json({
+      success: true,
+      series,
+      occurrences: results,
+      totals: {
+        refundAmount: roundToCents(canceledResults.reduce((sum, result) => sum + result.refundAmount, 0)),
+        cancellationFee: roundToCents(canceledResults.reduce((sum, result) => sum + result.cancellationFee, 0))
+      }
+    });
+  } catch (error: any) {
+    logger.error('Booking series cancellation error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while canceling booking series',
+      error: error.message
+    });
+  }
+};
+
+export default {
+  previewBookingSeries,
+  createBookingSeries,
+  getUserBookingSeries,
+  getBookingSeriesById,
+  cancelBookingSeries
+};
@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import Venue from '../models/Venue';
+import { generateFeedToken, renderUserCalendar, renderVenueCalendar } from '../utils/calendarFeed';
+import logger from '../utils/logger';
+
+// Feeds are fetched by calendar apps, so their URLs must point at the API itself
+const getFeedUrl = (req: Request, path: string): string =>
+  `${process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}/api`}/calendar/${path}`;
+
+const sendCalendar = (res: Response, calendar: string) => {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', 'inline; filename="sportnexus.ics"');
+  res.set('Cache-Control', 'no-cache');
+  res.send(calendar);
+};
+
+// @desc    Calendar feed of a user's upcoming bookings
+// @route   GET /api/calendar/users/:token.ics
+// @access  Public (secret token)
+export const getUserCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findOne({ calendarFeedToken: req.params.token });
+    if (!user) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    sendCalendar(res, await renderUserCalendar(user));
+  } catch (error: any) {
+    logger.error('User calendar feed error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while building calendar feed',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Calendar feed of a venue's upcoming bookings
+// @route   GET /api/calendar/venues/:token.ics
+// @access  Public (secret token)
+export const getVenueCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    const venue = await Venue.findOne({ calendarFeedToken: req.params.token });
+    if (!venue) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    sendCalendar(res, await renderVenueCalendar(venue));
+  } catch (error: any) {
+    logger.error('Venue calendar feed error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while building calendar feed',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get the user's calendar feed URL, and those of the venues they own
+// @route   GET /api/calendar/feeds
+// @access  Private
+export const getCalendarFeeds = async (req: Request, res: Response) => {
+  try {
+    const user = await User.findById(req.user!.id).select('+calendarFeedToken');
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    // Feed links are created the first time they are asked for
+    if (!user.calendarFeedToken) {
+      user.calendarFeedToken = generateFeedToken();
+      await user.save();
+    }
+
+    const venues = await Venue.find({ creator: req.user!.id }).select('name +calendarFeedToken');
+    for (const venue of venues) {
+      if (!venue.calendarFeedToken) {
+        venue.calendarFeedToken = generateFeedToken();
+        await venue.save();
+      }
+    }
+
+    res.json({
+      userFeedUrl: getFeedUrl(req, `users/${user.calendarFeedToken}.ics`),
+      venues: venues.map(venue => ({
+        venueId: venue._id,
+        name: venue.name,
+        feedUrl: getFeedUrl(req, `venues/${venue.calendarFeedToken}.ics`)
+      }))
+    });
+  } catch (error: any) {
+    logger.error('Get calendar feeds error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error fetching calendar feeds',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Revoke a calendar feed URL and issue a new one (the user's, or a venue's with venueId)
+// @route   POST /api/calendar/feeds/reset
+// @access  Private
+export const resetCalendarFeed = async (req: Request, res: Response) => {
+  try {
+    const { venueId } = req.body;
+    const token = generateFeedToken();
+
+    if (venueId) {
+      const venue = await Venue.findOneAndUpdate(
+        { _id: venueId, creator: req.user!.id },
+        { calendarFeedToken: token },
+        { new: true }
+      );
+      if (!venue) {
+        return res.status(404).json({ message: 'Venue not found' });
+      }
+
+      logger.info('Venue calendar feed reset', { venueId, userId: req.user!.id });
+      return res.json({ venueId, feedUrl: getFeedUrl(req, `venues/${token}.ics`) });
+    }
+
+    const user = await User.findByIdAndUpdate(req.user!.id, { calendarFeedToken: token });
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    logger.info('User calendar feed reset', { userId: req.user!.id });
+    res.json({ userFeedUrl: getFeedUrl(req, `users/${token}.ics`) });
+  } catch (error: any) {
+    logger.error('Reset calendar feed error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error resetting calendar feed',
+      error: error.message
+    });
+  }
+};
+
+export default {
+  getUserCalendarFeed,
+  getVenueCalendarFeed,
+  getCalendarFeeds,
+  resetCalendarFeed
+};
@@ -0,0 +1,342 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import getStripeInstance from '../config/stripe';
+import Cart, { ICart, ICartItem } from '../models/Cart';
+import Payment from '../models/Payment';
+import { parseEquipmentLines } from '../utils/equipmentAvailability';
+import { quoteCart, checkoutCart, completeCartCheckout, abandonCartCheckout } from '../utils/cartCheckout';
+import logger from '../utils/logger';
+
+// Load the user's cart, creating an empty one the first time
+const findOrCreateCart = async (userId: string): Promise<ICart> => {
+  const cart = await Cart.findOne({ user: userId });
+  return cart || Cart.create({ user: userId, items: [] });
+};
+
+// Build a cart line from a request body shaped like a booking request
+const parseCartItem = (body: Record<string, any>): { valid: true; item: Partial<ICartItem> } | { valid: false; reason: string } => {
+  const { itemType, itemId, resourceId, quantity, equipmentItems, date, returnDate, timeSlot, notes } = body;
+
+  if (itemType === 'tutorial') {
+    if (!itemId || !mongoose.Types.ObjectId.isValid(itemId)) {
+      return { valid: false, reason: 'Invalid tutorial id' };
+    }
+    return { valid: true, item: { itemType, tutorial: new mongoose.Types.ObjectId(itemId) } };
+  }
+
+  if (itemType !== 'venue' && itemType !== 'equipment' && itemType !== 'package') {
+    return { valid: false, reason: 'Invalid item type' };
+  }
+  if (!date || isNaN(new Date(date).getTime())) {
+    return { valid: false, reason: 'Please provide a valid date' };
+  }
+
+  if (itemType === 'package') {
+    if (!itemId || !mongoose.Types.ObjectId.isValid(itemId)) {
+      return { valid: false, reason: 'Invalid package id' };
+    }
+    if (!timeSlot?.start || !timeSlot?.end) {
+      return { valid: false, reason: 'Time slot is required for packages' };
+    }
+    return {
+      valid: true,
+      item: {
+        itemType,
+        venuePackage: new mongoose.Types.ObjectId(itemId),
+        resourceId,
+        date: new Date(date),
+        timeSlot: { start: timeSlot.start, end: timeSlot.end },
+        notes
+      }
+    };
+  }
+
+  if (itemType === 'venue') {
+    if (!itemId || !mongoose.Types.ObjectId.isValid(itemId)) {
+      return { valid: false, reason: 'Invalid venue id' };
+    }
+    if (!timeSlot?.start || !timeSlot?.end) {
+      return { valid: false, reason: 'Time slot is required for venue bookings' };
+    }
+    return {
+      valid: true,
+      item: {
+        itemType,
+        venue: new mongoose.Types.ObjectId(itemId),
+        resourceId,
+        date: new Date(date),
+        timeSlot: { start: timeSlot.start, end: timeSlot.end },
+        notes
+      }
+    };
+  }
+
+  const parsed = parseEquipmentLines(itemId, quantity, equipmentItems);
+  if (!parsed.valid) {
+    return { valid: false, reason: parsed.reason };
+  }
+  return {
+    valid: true,
+    item: {
+      itemType,
+      equipmentItems: parsed.lines.map(line => ({
+        equipment: new mongoose.Types.ObjectId(line.equipmentId),
+        quantity: line.quantity
+      })),
+      date: new Date(date),
+      returnDate: returnDate ? new Date(returnDate) : undefined,
+      notes
+    }
+  };
+};
+
+// Cart with its lines populated for display
+const populateCart = (cart: ICart) => cart.populate([
+  { path: 'items.venue', select: 'name location images' },
+  { path: 'items.venuePackage', select: 'name venue' },
+  { path: 'items.equipmentItems.equipment', select: 'name images' },
+  { path: 'items.tutorial', select: 'title thumbnailUrl' }
+]);
+
+// @desc    Get the user's cart with current prices and availability
+// @route   GET /api/cart
+// @access  Private
+export const getCart = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const cart = await findOrCreateCart(userId);
+    const quote = await quoteCart(cart, userId);
+
+    res.json({
+      cart: await populateCart(cart),
+      quote
+    });
+  } catch (error: any) {
+    logger.error('Get cart error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching cart',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Add a venue slot, equipment rental, package or premium tutorial to the cart
+// @route   POST /api/cart/items
+// @access  Private
+export const addCartItem = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const parsed = parseCartItem(req.body);
+    if (!parsed.valid) {
+      return res.status(400).json({ message: parsed.reason });
+    }
+
+    const cart = await findOrCreateCart(userId);
+    if (cart.items.some(item => item.itemType === 'tutorial' && String(item.tutorial) === String(parsed.item.tutorial))) {
+      return res.status(400).json({ message: 'This tutorial is already in your cart' });
+    }
+
+    cart.items.push(parsed.item);
+
+    // Check the new line right away so the customer is not surprised at checkout
+    const quote = await quoteCart(cart, userId);
+    const line = quote.lines[quote.lines.length - 1];
+    if (!line.valid) {
+      return res.status(400).json({ message: line.reason });
+    }
+
+    await cart.save();
+    logger.info('Item added to cart', { userId, itemType: parsed.item.itemType });
+
+    res.status(201).json({
+      cart: await populateCart(cart),
+      quote
+    });
+  } catch (error: any) {
+    logger.error('Add cart item error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while adding item to cart',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Remove a line from the cart
+// @route   DELETE /api/cart/items/:itemId
+// @access  Private
+export const removeCartItem = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const cart = await findOrCreateCart(userId);
+    const item = cart.items.id(req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Cart item not found' });
+    }
+
+    item.deleteOne();
+    await cart.save();
+
+    res.json({
+      cart: await populateCart(cart),
+      quote: await quoteCart(cart, userId)
+    });
+  } catch (error: any) {
+    logger.error('Remove cart item error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while removing item from cart',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Empty the cart
+// @route   DELETE /api/cart
+// @access  Private
+export const clearCart = async (req: Request, res: Response) => {
+  try {
+    const cart = await findOrCreateCart(req.user!.id);
+    cart.set('items', []);
+    cart.discountCode = undefined;
+    await cart.save();
+
+    res.json({ message: 'Cart cleared' });
+  } catch (error: any) {
+    logger.error('Clear cart error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while clearing cart',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Apply a discount code to the whole cart, or remove it with an empty code
+// @route   POST /api/cart/discount
+// @access  Private
+export const applyCartDiscount = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { code } = req.body;
+    const cart = await findOrCreateCart(userId);
+
+    cart.discountCode = code ? String(code).trim().toUpperCase() : undefined;
+    const quote = await quoteCart(cart, userId);
+
+    if (cart.discountCode && (!quote.discountCode || quote.discountAmount === 0)) {
+      return res.status(400).json({ message: 'This discount code is invalid, expired or does not apply to your cart' });
+    }
+
+    await cart.save();
+
+    res.json({
+      cart: await populateCart(cart),
+      quote
+    });
+  } catch (error: any) {
+    logger.error('Apply cart discount error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while applying discount',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Check out the whole cart with one wallet or card payment
+// @route   POST /api/cart/checkout
+// @access  Private
+export const checkout = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { paymentMethod } = req.body;
+    if (!['wallet', 'stripe'].includes(paymentMethod)) {
+      return res.status(400).json({ message: 'Payment method must be wallet or stripe' });
+    }
+
+    const cart = await findOrCreateCart(userId);
+    const result = await checkoutCart(cart, userId, paymentMethod);
+    if (!result.success) {
+      return res.status(result.status || 400).json({
+        message: result.message,
+        ...(result.unavailable && { unavailable: result.unavailable })
+      });
+    }
+
+    logger.info('Cart checkout started', { userId, paymentMethod, total: result.total });
+
+    res.status(paymentMethod === 'wallet' ? 201 : 200).json({
+      success: true,
+      paymentId: result.payment?._id,
+      total: result.total,
+      bookings: result.bookings,
+      purchases: result.purchases,
+      ...(result.clientSecret && { clientSecret: result.clientSecret }),
+      ...(result.deposits?.length && { deposits: result.deposits })
+    });
+  } catch (error: any) {
+    logger.error('Cart checkout error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error during checkout',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Complete a card checkout once Stripe has taken the payment
+// @route   POST /api/cart/checkout/confirm
+// @access  Private
+export const confirmCheckout = async (req: Request, res: Response) => {
+  try {
+    const { paymentIntentId } = req.body;
+    if (!paymentIntentId) {
+      return res.status(400).json({ message: 'Payment intent ID is required' });
+    }
+
+    const payment = await Payment.findOne({ stripePaymentId: paymentIntentId, user: req.user!.id });
+    if (!payment || (!payment.bookings?.length && !payment.purchases?.length)) {
+      return res.status(404).json({ message: 'Checkout payment not found' });
+    }
+
+    const stripe = getStripeInstance();
+    if (!stripe) {
+      return res.status(500).json({ message: 'Stripe is not configured properly' });
+    }
+
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    if (paymentIntent.status !== 'succeeded') {
+      if (paymentIntent.status === 'canceled') {
+        await abandonCartCheckout(payment, 'Card payment canceled');
+      }
+      return res.status(400).json({ message: 'The payment has not been completed' });
+    }
+
+    // The webhook may have completed the checkout already
+    const completed = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: 'pending' },
+      { status: 'completed' },
+      { new: true }
+    );
+    if (completed) {
+      await completeCartCheckout(completed);
+    }
+
+    res.json({
+      success: true,
+      paymentId: payment._id
+    });
+  } catch (error: any) {
+    logger.error('Cart checkout confirmation error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while confirming checkout',
+      error: error.message
+    });
+  }
+};
+
+export default {
+  getCart,
+  addCartItem,
+  removeCartItem,
+  clearCart,
+  applyCartDiscount,
+  checkout,
+  confirmCheckout
+};
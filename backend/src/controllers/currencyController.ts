@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../config/currencies';
+import logger from '../utils/logger';
+import { RateSnapshot, getCurrentRates, getHistoricalRates, refreshExchangeRates } from '../utils/exchangeRates';
+
+// Rates as sent to the client, limited to the supported currencies
+const formatRates = (snapshot: RateSnapshot) => ({
+  rateId: snapshot.id,
+  base: snapshot.base,
+  provider: snapshot.provider,
+  fetchedAt: snapshot.fetchedAt,
+  rates: Object.fromEntries(
+    SUPPORTED_CURRENCIES
+      .filter(currency => snapshot.rates[currency.code])
+      .map(currency => [currency.code, snapshot.rates[currency.code]])
+  ),
+});
+
+// @desc    Get the supported currencies, how to format them and the current exchange rates
+// @route   GET /api/currencies
+// @access  Public
+export const getCurrencies = async (req: Request, res: Response) => {
+  try {
+    res.json({
+      baseCurrency: BASE_CURRENCY,
+      currencies: SUPPORTED_CURRENCIES,
+      ...formatRates(getCurrentRates()),
+    });
+  } catch (error: any) {
+    logger.error('Get currencies error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching currencies',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get the exchange rates in use at a time, or a stored rates record
+// @route   GET /api/currencies/rates?at=&rateId=
+// @access  Public
+export const getRates = async (req: Request, res: Response) => {
+  try {
+    const { at, rateId } = req.query;
+
+    let atDate: Date | undefined;
+    if (at) {
+      atDate = new Date(String(at));
+      if (isNaN(atDate.getTime())) {
+        return res.status(400).json({ message: 'Invalid date' });
+      }
+    }
+
+    if (!atDate && !rateId) {
+      return res.json(formatRates(getCurrentRates()));
+    }
+
+    const snapshot = await getHistoricalRates({ at: atDate, id: rateId ? String(rateId) : undefined });
+    if (!snapshot) {
+      return res.status(404).json({ message: 'No exchange rates found' });
+    }
+
+    res.json(formatRates(snapshot));
+  } catch (error: any) {
+    logger.error('Get exchange rates error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching exchange rates',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Fetch exchange rates from the provider now
+// @route   POST /api/currencies/rates/refresh
+// @access  Private/Admin
+export const refreshRates = async (req: Request, res: Response) => {
+  try {
+    res.json(formatRates(await refreshExchangeRates()));
+  } catch (error: any) {
+    logger.error('Refresh exchange rates error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while refreshing exchange rates',
+      error: error.message
+    });
+  }
+};
@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
+import { differenceInCalendarDays } from 'date-fns';
 import Equipment, { IEquipment } from '../models/Equipment';
+import { getEquipmentAvailability as computeEquipmentAvailability, refreshStockStatus } from '../utils/equipmentAvailability';
+import { parseDateKey, MAX_AVAILABILITY_DAYS } from '../utils/venueAvailability';
 
 // @desc    Get all equipment with pagination and filters
 // @route   GET /api/equipment
@@ -187,20 +190,16 @@ export const updateInventory = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Equipment not found' });
     }
 
-    // Update quantity and availability status
-    equipment.quantity = quantity;
-    
-    // Update availability based on quantity
-    if (quantity === 0) {
-      equipment.availability = 'Out of Stock';
-    } else if (quantity < 5) {
-      equipment.availability = 'Low Stock';
-    } else {
-      equipment.availability = 'In Stock';
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return res.status(400).json({ message: 'Quantity must be a whole number of at least 0' });
     }
 
+    equipment.quantity = quantity;
     await equipment.save();
 
+    // Availability status reflects the units left after today's reservations
+    await refreshStockStatus(equipment);
+
     res.json(equipment);
   } catch (error: any) {
     console.error('Update inventory error:', error);
@@ -211,6 +210,51 @@ export const updateInventory = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Get units of an equipment item free for a period
+// @route   GET /api/equipment/:id/availability?from=&to=
+// @access  Public
+export const getEquipmentAvailability = async (req: Request, res: Response) => {
+  try {
+    const today = parseDateKey(new Date().toISOString().split('T')[0])!;
+    const from = req.query.from ? parseDateKey(req.query.from as string) : today;
+    const to = req.query.to ? parseDateKey(req.query.to as string) : from;
+
+    if (!from || !to) {
+      return res.status(400).json({ message: 'Dates must be provided in yyyy-MM-dd format' });
+    }
+
+    if (to < from) {
+      return res.status(400).json({ message: 'The "to" date must not be before the "from" date' });
+    }
+
+    if (differenceInCalendarDays(to, from) + 1 > MAX_AVAILABILITY_DAYS) {
+      return res.status(400).json({
+        message: `Availability can be requested for at most ${MAX_AVAILABILITY_DAYS} days at a time`
+      });
+    }
+
+    const equipment = await Equipment.findById(req.params.id);
+
+    if (!equipment) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    const [availability] = await computeEquipmentAvailability([equipment], from, to);
+
+    res.json({
+      ...availability,
+      from: from.toISOString().split('T')[0],
+      to: to.toISOString().split('T')[0],
+    });
+  } catch (error: any) {
+    console.error('Get equipment availability error:', error);
+    res.status(500).json({
+      message: 'Server error fetching equipment availability',
+      error: error.message,
+    });
+  }
+};
+
 export default {
   getEquipment,
   getEquipmentById,
@@ -218,4 +262,5 @@ export default {
   updateEquipment,
   deleteEquipment,
   updateInventory,
+  getEquipmentAvailability,
 }; 
\ No newline at end of file
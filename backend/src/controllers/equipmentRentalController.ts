@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { BASE_CURRENCY } from '../config/currencies';
+import Booking, { IBooking, IRentalInspection } from '../models/Booking';
+import Equipment, { EQUIPMENT_CONDITIONS, EquipmentCondition, IEquipment } from '../models/Equipment';
+import User from '../models/User';
+import { getBookedQuantity, refreshStockStatusForBooking } from '../utils/equipmentAvailability';
+import { calculateLateFee } from '../utils/rentalPricing';
+import { chargeBookingFee, settleDeposit } from '../utils/paymentService';
+import emailService from '../utils/emailService';
+import logger from '../utils/logger';
+import { roundToCents } from '../utils/money';
+
+type InspectionResult =
+  | { valid: true; inspection: Omit<IRentalInspection, 'at' | 'by'> }
+  | { valid: false; reason: string };
+
+// Load an equipment booking with its items, if the admin owns the equipment
+const findRentalForAdmin = async (
+  bookingId: string,
+  adminId: string
+): Promise<{ booking: IBooking; equipment: IEquipment[] } | { status: number; message: string }> => {
+  if (!mongoose.Types.ObjectId.isValid(bookingId)) {
+    return { status: 400, message: 'Invalid booking id' };
+  }
+
+  const booking = await Booking.findById(bookingId);
+  if (!booking) {
+    return { status: 404, message: 'Booking not found' };
+  }
+  if (booking.itemType !== 'equipment' || !booking.equipment?.length) {
+    return { status: 400, message: 'Only equipment rentals can be checked out and in' };
+  }
+
+  const equipment = await Equipment.find({ _id: { $in: booking.equipment } });
+  if (!equipment.some(item => item.creator?.toString() === adminId)) {
+    return { status: 403, message: 'Not authorized to update this booking' };
+  }
+
+  return { booking, equipment };
+};
+
+/**
+ * Read the condition of every rented item, photos and notes from a request.
+ * A single `condition` applies to all items; `conditions` sets them per item.
+ */
+const parseInspection = (
+  body: {
+    condition?: string;
+    conditions?: { equipmentId: string; condition: string }[];
+    photos?: unknown;
+    notes?: unknown;
+  },
+  equipment: IEquipment[]
+): InspectionResult => {
+  const items: IRentalInspection['items'] = [];
+
+  for (const item of equipment) {
+    const condition = body.conditions?.find(entry => entry.equipmentId === String(item._id))?.condition
+      ?? body.condition;
+    if (!condition) {
+      return { valid: false, reason: `Please record the condition of ${item.name}` };
+    }
+    if (!EQUIPMENT_CONDITIONS.includes(condition as EquipmentCondition)) {
+      return { valid: false, reason: `Condition must be one of: ${EQUIPMENT_CONDITIONS.join(', ')}` };
+    }
+    items.push({ equipment: item._id as mongoose.Types.ObjectId, condition: condition as EquipmentCondition });
+  }
+
+  const photos = body.photos ?? [];
+  if (!Array.isArray(photos) || photos.some(photo => typeof photo !== 'string' || !photo.trim())) {
+    return { valid: false, reason: 'Photos must be a list of image URLs' };
+  }
+  if (body.notes !== undefined && typeof body.notes !== 'string') {
+    return { valid: false, reason: 'Notes must be text' };
+  }
+
+  return {
+    valid: true,
+    inspection: {
+      items,
+      photos: photos.map((photo: string) => photo.trim()),
+      notes: body.notes?.trim() || undefined
+    }
+  };
+};
+
+// @desc    Record the hand-over of rented equipment to the customer
+// @route   POST /api/admin/bookings/:id/check-out
+// @access  Private/Admin
+export const checkOutRental = async (req: Request, res: Response) => {
+  try {
+    const adminId = req.user!.id;
+    const rental = await findRentalForAdmin(req.params.id, adminId);
+    if ('status' in rental) {
+      return res.status(rental.status).json({ message: rental.message });
+    }
+
+    const { booking, equipment } = rental;
+    if (booking.status !== 'confirmed') {
+      return res.status(400).json({ message: 'Only confirmed rentals can be checked out' });
+    }
+    if (booking.checkOut) {
+      return res.status(400).json({ message: 'This rental has already been checked out' });
+    }
+    if (booking.deposit && booking.deposit.amount > 0 && booking.deposit.status !== 'held') {
+      return res.status(400).json({ message: 'The security deposit for this rental has not been held yet' });
+    }
+
+    const parsed = parseInspection(req.body, equipment);
+    if (!parsed.valid) {
+      return res.status(400).json({ message: parsed.reason });
+    }
+
+    booking.checkOut = {
+      ...parsed.inspection,
+      at: new Date(),
+      by: new mongoose.Types.ObjectId(adminId)
+    };
+    await booking.save();
+
+    logger.info('Rental checked out', { bookingId: booking._id, adminId });
+
+    res.json({
+      success: true,
+      booking
+    });
+  } catch (error: any) {
+    logger.error('Rental check-out error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while checking out rental',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Record the return of rented equipment, settle the deposit and fees and complete the booking
+// @route   POST /api/admin/bookings/:id/check-in
+// @access  Private/Admin
+export const checkInRental = async (req: Request, res: Response) => {
+  try {
+    const adminId = req.user!.id;
+    const rental = await findRentalForAdmin(req.params.id, adminId);
+    if ('status' in rental) {
+      return res.status(rental.status).json({ message: rental.message });
+    }
+
+    const { booking, equipment } = rental;
+    if (!booking.checkOut) {
+      return res.status(400).json({ message: 'This rental has not been checked out yet' });
+    }
+    if (booking.checkIn) {
+      return res.status(400).json({ message: 'This rental has already been checked in' });
+    }
+
+    const parsed = parseInspection(req.body, equipment);
+    if (!parsed.valid) {
+      return res.status(400).json({ message: parsed.reason });
+    }
+
+    const damageCharge = Number(req.body.damageCharge ?? 0);
+    if (isNaN(damageCharge) || damageCharge < 0) {
+      return res.status(400).json({ message: 'Damage charge must be a positive amount' });
+    }
+
+    const { paymentMethod } = req.body;
+    if (paymentMethod !== undefined && !['wallet', 'stripe'].includes(paymentMethod)) {
+      return res.status(400).json({ message: 'Payment method must be wallet or stripe' });
+    }
+
+    const returnedAt = new Date();
+    const { daysLate, lateFee } = calculateLateFee(
+      equipment.map(item => ({ equipment: item, quantity: getBookedQuantity(booking, String(item._id)) })),
+      booking.returnDate || booking.date,
+      returnedAt
+    );
+
+    booking.checkIn = {
+      ...parsed.inspection,
+      at: returnedAt,
+      by: new mongoose.Types.ObjectId(adminId),
+      daysLate,
+      lateFee,
+      damageCharge: roundToCents(damageCharge)
+    };
+
+    // Late and damage fees (in the base currency, like booking prices) come out of the security
+    // deposit first; the rest of the deposit is released and anything it does
+    // not cover is charged to the customer's wallet or card
+    const fees = roundToCents(lateFee + damageCharge);
+    if (booking.deposit?.status === 'held') {
+      const deposit = await settleDeposit(
+        booking,
+        Math.min(fees, booking.deposit.amount),
+        fees > 0 ? 'Late return and damage charges' : 'Equipment returned'
+      );
+      if (!deposit.success) {
+        return res.status(400).json({ message: deposit.message || 'Failed to settle the security deposit' });
+      }
+      booking.checkIn.depositDeduction = deposit.deducted;
+    }
+
+    const amount = roundToCents(fees - (booking.checkIn.depositDeduction || 0));
+    let clientSecret: string | null | undefined;
+    if (amount > 0) {
+      const charge = await chargeBookingFee({
+        amount,
+        currency: BASE_CURRENCY,
+        userId: booking.user.toString(),
+        bookingId: String(booking._id),
+        description: `Late return and damage charges for booking #${String(booking._id).slice(-6)}`,
+        purpose: 'rental_check_in',
+        paymentMethod
+      });
+
+      if (charge.success) {
+        booking.checkIn.charge = {
+          amount,
+          currency: BASE_CURRENCY,
+          paymentMethod: charge.paymentMethod!,
+          status: charge.status!,
+          payment: charge.payment?._id as mongoose.Types.ObjectId
+        };
+        clientSecret = charge.clientSecret;
+      } else if (booking.checkIn.depositDeduction) {
+        // The deposit is already settled, so record the shortfall instead of undoing the return
+        logger.error('Failed to charge fees not covered by the deposit', { bookingId: booking._id, amount });
+        booking.checkIn.charge = {
+          amount,
+          currency: BASE_CURRENCY,
+          paymentMethod: paymentMethod || 'wallet',
+          status: 'failed'
+        };
+      } else {
+        return res.status(400).json({ message: charge.message || 'Failed to charge late and damage fees' });
+      }
+    }
+
+    // The returned items now carry the condition they came back in
+    for (const item of parsed.inspection.items) {
+      await Equipment.findByIdAndUpdate(item.equipment, { condition: item.condition });
+    }
+
+    booking.status = 'completed';
+    await booking.save();
+    await refreshStockStatusForBooking(booking);
+
+    logger.info('Rental checked in', { bookingId: booking._id, adminId, daysLate, lateFee, damageCharge });
+
+    const user = await User.findById(booking.user);
+    if (user) {
+      const charges = [
+        lateFee > 0 && `late return fee of ${lateFee} for ${daysLate} day(s)`,
+        damageCharge > 0 && `damage charge of ${booking.checkIn.damageCharge}`
+      ].filter(Boolean);
+
+      emailService.sendBookingStatusUpdateEmail(
+        user.email,
+        user.name,
+        {
+          bookingId: String(booking._id),
+          itemType: booking.itemType,
+          itemName: equipment.map(item => item.name).join(', '),
+          date: booking.date,
+          status: 'completed',
+          reason: charges.length > 0 ? `Equipment returned with a ${charges.join(' and a ')}` : undefined
+        }
+      ).catch(error => {
+        logger.error('Failed to send rental check-in email', {
+          error: error instanceof Error ? error.message : String(error),
+          bookingId: booking._id
+        });
+      });
+    }
+
+    res.json({
+      success: true,
+      booking,
+      ...(clientSecret && { clientSecret })
+    });
+  } catch (error: any) {
+    logger.error('Rental check-in error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while checking in rental',
+      error: error.message
+    });
+  }
+};
+
+export default {
+  checkOutRental,
+  checkInRental
+};
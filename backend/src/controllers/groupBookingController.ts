@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import Booking from '../models/Booking';
+import User from '../models/User';
+import { findParticipant, payParticipantShare, setGroupParticipants } from '../utils/groupBooking';
+import logger from '../utils/logger';
+
+// @desc    Split a pending booking between participants, evenly or by custom shares
+// @route   POST /api/bookings/:id/participants
+// @access  Private
+export const setBookingParticipants = async (req: Request, res: Response) => {
+  try {
+    const { participants, splitMethod } = req.body;
+
+    const booking = await Booking.findOne({ _id: req.params.id, user: req.user!.id });
+    if (!booking) {
+      return res.status(404).json({ message: 'Booking not found' });
+    }
+
+    const organiser = await User.findById(req.user!.id);
+    if (!organiser) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const result = await setGroupParticipants(booking, organiser, participants, splitMethod);
+    if (!result.success) {
+      return res.status(result.status).json({ message: result.reason });
+    }
+
+    res.json(result.booking);
+  } catch (error: any) {
+    logger.error('Set booking participants error', { error: error.message, bookingId: req.params.id });
+    res.status(500).json({
+      message: 'Server error while splitting booking',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get group bookings the user has been invited to share
+// @route   GET /api/bookings/shared
+// @access  Private
+export const getSharedBookings = async (req: Request, res: Response) => {
+  try {
+    const bookings = await Booking.find({
+      user: { $ne: req.user!.id },
+      $or: [
+        { 'participants.user': req.user!.id },
+        { participants: { $elemMatch: { email: req.user!.email?.toLowerCase(), user: { $exists: false } } } }
+      ]
+    })
+      .populate('user', 'name email')
+      .populate('venue', 'name location')
+      .populate('equipment', 'name')
+      .sort({ date: -1 });
+
+    res.json(bookings);
+  } catch (error: any) {
+    logger.error('Get shared bookings error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error fetching shared bookings',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Pay the user's share of a group booking from their wallet or by card
+// @route   POST /api/bookings/:id/participants/pay
+// @access  Private
+export const payBookingShare = async (req: Request, res: Response) => {
+  try {
+    const { paymentMethod = 'wallet' } = req.body;
+
+    if (!['wallet', 'stripe'].includes(paymentMethod)) {
+      return res.status(400).json({ message: 'Payment method must be wallet or stripe' });
+    }
+
+    const booking = await Booking.findById(req.params.id);
+    const participant = booking && findParticipant(booking, req.user!);
+    if (!booking || !participant) {
+      return res.status(404).json({ message: 'Group booking not found' });
+    }
+
+    const result = await payParticipantShare(booking, participant, req.user!.id, paymentMethod);
+    if (!result.success) {
+      return res.status(result.status).json({ message: result.reason });
+    }
+
+    res.json({
+      success: true,
+      booking: result.booking,
+      share: participant.share,
+      ...(result.clientSecret && { clientSecret: result.clientSecret })
+    });
+  } catch (error: any) {
+    logger.error('Pay booking share error', { error: error.message, bookingId: req.params.id });
+    res.status(500).json({
+      message: 'Server error while paying share',
+      error: error.message
+    });
+  }
+};
+
+export default {
+  setBookingParticipants,
+  getSharedBookings,
+  payBookingShare
+};
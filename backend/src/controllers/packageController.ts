@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Equipment from '../models/Equipment';
+import Package, { IPackage, PACKAGE_PRICING_TYPES, PackagePricingType } from '../models/Package';
+import Venue from '../models/Venue';
+import logger from '../utils/logger';
+import { parseEquipmentLines } from '../utils/equipmentAvailability';
+import { preparePackageBooking } from '../utils/packageBooking';
+import { findVenueResource } from '../utils/venueAvailability';
+import { roundToCents } from '../utils/money';
+
+type PackageInput = Pick<IPackage, 'name' | 'venue' | 'equipmentItems' | 'pricingType' | 'value'>
+  & Partial<Pick<IPackage, 'description' | 'resource'>>;
+
+// Check a package request body: the venue, court and equipment must exist and the price must make sense
+const parsePackageInput = async (
+  body: Record<string, any>
+): Promise<{ valid: true; input: PackageInput } | { valid: false; status: number; reason: string }> => {
+  const { name, description, venueId, resourceId, equipmentItems, pricingType, value } = body;
+
+  if (!name || !venueId || !pricingType || value === undefined) {
+    return { valid: false, status: 400, reason: 'Please provide a name, venue, equipment, pricing type and value' };
+  }
+  if (!PACKAGE_PRICING_TYPES.includes(pricingType)) {
+    return { valid: false, status: 400, reason: `Pricing type must be one of: ${PACKAGE_PRICING_TYPES.join(', ')}` };
+  }
+
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    return { valid: false, status: 400, reason: 'Package price or percentage must be a positive number' };
+  }
+  if (pricingType === 'percentage_off' && amount > 100) {
+    return { valid: false, status: 400, reason: 'Percentage off cannot be more than 100' };
+  }
+
+  if (!mongoose.Types.ObjectId.isValid(venueId)) {
+    return { valid: false, status: 400, reason: 'Invalid venue id' };
+  }
+  const venue = await Venue.findById(venueId);
+  if (!venue) {
+    return { valid: false, status: 404, reason: 'Venue not found' };
+  }
+  if (resourceId && !findVenueResource(venue, resourceId)) {
+    return { valid: false, status: 404, reason: 'Court not found at this venue' };
+  }
+
+  const parsed = parseEquipmentLines(undefined, undefined, equipmentItems);
+  if (!parsed.valid) {
+    return { valid: false, status: 400, reason: parsed.reason };
+  }
+  const equipmentCount = await Equipment.countDocuments({
+    _id: { $in: parsed.lines.map(line => line.equipmentId) }
+  });
+  if (equipmentCount !== parsed.lines.length) {
+    return { valid: false, status: 404, reason: 'One or more equipment items not found' };
+  }
+
+  return {
+    valid: true,
+    input: {
+      name,
+      description,
+      venue: venue._id as mongoose.Types.ObjectId,
+      ...(resourceId && { resource: new mongoose.Types.ObjectId(resourceId) }),
+      equipmentItems: parsed.lines.map(line => ({
+        equipment: new mongoose.Types.ObjectId(line.equipmentId),
+        quantity: line.quantity
+      })),
+      pricingType: pricingType as PackagePricingType,
+      value: amount
+    }
+  };
+};
+
+// @desc    Get active packages, optionally for one venue
+// @route   GET /api/packages?venueId=
+// @access  Public
+export const getPackages = async (req: Request, res: Response) => {
+  try {
+    const { venueId } = req.query;
+    if (venueId && !mongoose.Types.ObjectId.isValid(String(venueId))) {
+      return res.status(400).json({ message: 'Invalid venue id' });
+    }
+
+    const packages = await Package.find({ isActive: true, ...(venueId && { venue: String(venueId) }) })
+      .populate('venue', 'name city state')
+      .populate('equipmentItems.equipment', 'name images rentalPriceDaily')
+      .sort({ createdAt: -1 });
+
+    res.json({ packages });
+  } catch (error: any) {
+    logger.error('Get packages error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching packages',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get a package
+// @route   GET /api/packages/:id
+// @access  Public
+export const getPackageById = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid package id' });
+    }
+
+    const venuePackage = await Package.findById(req.params.id)
+      .populate('venue', 'name city state')
+      .populate('equipmentItems.equipment', 'name images rentalPriceDaily');
+
+    if (!venuePackage) {
+      return res.status(404).json({ message: 'Package not found' });
+    }
+
+    res.json(venuePackage);
+  } catch (error: any) {
+    logger.error('Get package error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching package',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Check a package for a date and slot and price it against booking its parts separately
+// @route   POST /api/packages/:id/quote
+// @access  Private
+export const getPackageQuote = async (req: Request, res: Response) => {
+  try {
+    const { date, timeSlot, resourceId } = req.body;
+
+    if (!date || isNaN(new Date(date).getTime())) {
+      return res.status(400).json({ message: 'Please provide a valid date' });
+    }
+
+    const prepared = await preparePackageBooking({
+      packageId: req.params.id,
+      date: new Date(date),
+      timeSlot,
+      resourceId
+    });
+
+    if (!prepared.valid) {
+      return res.status(prepared.status).json({ message: prepared.reason, ...prepared.details });
+    }
+
+    res.json({
+      itemName: prepared.itemName,
+      componentPrice: prepared.componentPrice,
+      totalPrice: prepared.price,
+      saving: roundToCents(prepared.componentPrice - prepared.price),
+      bookings: prepared.bookings.map(booking => ({
+        itemType: booking.itemType,
+        subtotalPrice: booking.subtotalPrice,
+        totalPrice: booking.totalPrice,
+        ...(booking.deposit && { deposit: booking.deposit.amount })
+      }))
+    });
+  } catch (error: any) {
+    logger.error('Package quote error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while pricing package',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Create a package of a venue slot and equipment
+// @route   POST /api/packages
+// @access  Private/Admin
+export const createPackage = async (req: Request, res: Response) => {
+  try {
+    const parsed = await parsePackageInput(req.body);
+    if (!parsed.valid) {
+      return res.status(parsed.status).json({ message: parsed.reason });
+    }
+
+    const venuePackage = await Package.create({ ...parsed.input, creator: req.user!.id });
+
+    logger.info('Package created', { packageId: venuePackage._id, venueId: parsed.input.venue });
+    res.status(201).json(venuePackage);
+  } catch (error: any) {
+    logger.error('Create package error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while creating package',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Update a package; bookings already made keep their price
+// @route   PUT /api/packages/:id
+// @access  Private/Admin
+export const updatePackage = async (req: Request, res: Response) => {
+  try {
+    const venuePackage = await Package.findById(req.params.id);
+    if (!venuePackage) {
+      return res.status(404).json({ message: 'Package not found' });
+    }
+
+    const parsed = await parsePackageInput(req.body);
+    if (!parsed.valid) {
+      return res.status(parsed.status).json({ message: parsed.reason });
+    }
+
+    venuePackage.set({ ...parsed.input, resource: parsed.input.resource });
+    if (req.body.isActive !== undefined) {
+      venuePackage.isActive = Boolean(req.body.isActive);
+    }
+    await venuePackage.save();
+
+    res.json(venuePackage);
+  } catch (error: any) {
+    logger.error('Update package error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while updating package',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Stop selling a package; bookings already made are kept
+// @route   DELETE /api/packages/:id
+// @access  Private/Admin
+export const deletePackage = async (req: Request, res: Response) => {
+  try {
+    const venuePackage = await Package.findByIdAndUpdate(req.params.id, { isActive: false }, { new: true });
+    if (!venuePackage) {
+      return res.status(404).json({ message: 'Package not found' });
+    }
+
+    logger.info('Package deactivated', { packageId: venuePackage._id });
+    res.json({ message: 'Package removed' });
+  } catch (error: any) {
+    logger.error('Delete package error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while removing package',
+      error: error.message
+    });
+  }
+};
+
+export default {
+  getPackages,
+  getPackageById,
+  getPackageQuote,
+  createPackage,
+  updatePackage,
+  deletePackage
+};
@@ -1,14 +1,29 @@
 import { Request, Response } from 'express';
 import getStripeInstance from '../config/stripe';
-import Payment from '../models/Payment';
-import Booking from '../models/Booking';
-import { createPaymentIntent, processWalletPayment, addFundsToWallet } from '../utils/paymentService';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES, isSupportedCurrency } from '../config/currencies';
+import Payment, { IPayment } from '../models/Payment';
+import Booking, { IBooking } from '../models/Booking';
+import {
+  createPaymentIntent,
+  processWalletPayment,
+  addFundsToWallet,
+  holdDeposit,
+  confirmDepositHold,
+  settleDeposit,
+  confirmPaidBooking,
+  refundStripePayment,
+} from '../utils/paymentService';
+import { completeCartCheckout, abandonCartCheckout } from '../utils/cartCheckout';
+import { settleRescheduleCharge } from '../utils/bookingReschedule';
+import { recordSharePayment } from '../utils/groupBooking';
+import { extendCheckoutHold } from '../utils/slotHolds';
+import { handleWithdrawalRefundUpdate } from '../utils/walletWithdrawal';
 import logger from '../utils/logger';
 
 // Create a payment intent (for Stripe)
 export const createPayment = async (req: Request, res: Response) => {
   try {
-    const { amount, currency, bookingId, paymentMethod, discountCode } = req.body;
+    const { amount, currency, bookingId, paymentMethod, discountCode, exchangeRateId } = req.body;
     logger.info('Payment request received', { amount, currency, bookingId, paymentMethod, discountCode });
     
     if (!amount || !currency || !paymentMethod) {
@@ -19,6 +34,13 @@ export const createPayment = async (req: Request, res: Response) => {
       });
     }
     
+    if (!isSupportedCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        message: `Currency must be one of: ${SUPPORTED_CURRENCIES.map(supported => supported.code).join(', ')}`,
+      });
+    }
+    
     if (!req.user) {
       logger.warn('Unauthenticated payment attempt');
       return res.status(401).json({
@@ -30,9 +52,10 @@ export const createPayment = async (req: Request, res: Response) => {
     const userId = req.user.id;
     
     // If booking ID is provided, verify it exists and belongs to user
+    let booking: IBooking | null = null;
     if (bookingId) {
       logger.debug('Verifying booking ownership', { bookingId, userId });
-      const booking = await Booking.findOne({ _id: bookingId, user: userId });
+      booking = await Booking.findOne({ _id: bookingId, user: userId });
       
       if (!booking) {
         logger.warn('Booking not found or does not belong to user', { bookingId, userId });
@@ -42,8 +65,37 @@ export const createPayment = async (req: Request, res: Response) => {
         });
       }
       logger.debug('Booking verified', { bookingId });
+      
+      if (booking.status === 'canceled') {
+        return res.status(400).json({
+          success: false,
+          message: 'This booking has been canceled or has expired',
+        });
+      }
+      
+      // Split bookings are paid share by share
+      if (booking.participants?.length) {
+        return res.status(400).json({
+          success: false,
+          message: 'This booking is split between participants. Pay your share instead.',
+        });
+      }
+      
+      // Paying keeps the slot held; once the hold has run out the booking is released
+      if (booking.status === 'pending' && !(await extendCheckoutHold(booking))) {
+        logger.warn('Checkout hold expired before payment', { bookingId, userId });
+        return res.status(409).json({
+          success: false,
+          message: 'Your hold on this booking has expired. Please book again.',
+        });
+      }
     }
     
+    // Equipment rentals with a security deposit hold it alongside the payment
+    const depositDue = booking?.deposit && ['pending', 'failed'].includes(booking.deposit.status)
+      ? booking.deposit.amount
+      : 0;
+    
     // Process based on payment method
     if (paymentMethod === 'stripe') {
       logger.info('Processing Stripe payment', { amount, currency });
@@ -65,21 +117,70 @@ export const createPayment = async (req: Request, res: Response) => {
         bookingId,
         paymentMethod,
         discountCode,
+        exchangeRateId,
       });
       
       logger.info('Payment intent result', { success: result.success });
-      return res.status(result.success ? 200 : 400).json(result);
+      if (!result.success || depositDue === 0) {
+        return res.status(result.success ? 200 : 400).json(result);
+      }
+      
+      // The deposit is a separate manual-capture intent the customer confirms with the same card
+      const deposit = await holdDeposit({
+        amount: depositDue,
+        currency: BASE_CURRENCY, // booking prices, and so deposits, are in the base currency
+        userId,
+        bookingId,
+        paymentMethod: 'stripe',
+      });
+      
+      logger.info('Deposit hold result', { bookingId, success: deposit.success });
+      return res.status(deposit.success ? 200 : 400).json({
+        ...result,
+        deposit: deposit.success
+          ? { amount: depositDue, currency: BASE_CURRENCY, clientSecret: deposit.clientSecret }
+          : { amount: depositDue, currency: BASE_CURRENCY, message: deposit.message },
+      });
     } else if (paymentMethod === 'wallet') {
       logger.info('Processing wallet payment', { amount, currency });
+      
+      // Hold the deposit first so a wallet that cannot cover it is not charged at all
+      if (depositDue > 0) {
+        const deposit = await holdDeposit({
+          amount: depositDue,
+          currency: BASE_CURRENCY, // booking prices, and so deposits, are in the base currency
+          userId,
+          bookingId,
+          paymentMethod: 'wallet',
+        });
+        
+        logger.info('Deposit hold result', { bookingId, success: deposit.success });
+        if (!deposit.success) {
+          return res.status(400).json(deposit);
+        }
+      }
+      
       const result = await processWalletPayment({
         amount,
         currency,
         userId,
         bookingId,
         description: `Payment for booking ${bookingId}`,
+        // Rates the price shown in another currency was converted with
+        metadata: exchangeRateId ? { priceExchangeRateId: exchangeRateId } : undefined,
       });
       
       logger.info('Wallet payment result', { success: result.success });
+      
+      // Give the deposit back if the payment itself did not go through
+      if (!result.success && depositDue > 0) {
+        const heldBooking = await Booking.findById(bookingId);
+        if (heldBooking) {
+          await settleDeposit(heldBooking, 0, 'Payment failed');
+          await heldBooking.save();
+        }
+      }
+      
       return res.status(result.success ? 200 : 400).json(result);
     } else {
       logger.warn('Unsupported payment method', { paymentMethod });
@@ -148,6 +249,25 @@ export const handleStripeWebhook = async (req: Request, res: Response) => {
         const failedPayment = event.data.object;
         await handleFailedPayment(failedPayment);
         break;
+      
+      // A fee the customer will not pay now, such as a reschedule replaced by another one
+      case 'payment_intent.canceled':
+        const { purpose } = event.data.object.metadata;
+        if (purpose && purpose !== 'deposit_hold') {
+          await handleFailedPayment(event.data.object);
+        }
+        break;
+      
+      // A manual-capture intent (security deposit) has been authorised
+      case 'payment_intent.amount_capturable_updated':
+        await confirmDepositHold(event.data.object.id);
+        break;
+      
+      // Refunds paying out wallet withdrawals can still fail after they are made
+      case 'refund.updated':
+      case 'refund.failed':
+        await handleWithdrawalRefundUpdate(event.data.object);
+        break;
     }
     
     res.json({ received: true });
@@ -158,6 +278,40 @@ export const handleStripeWebhook = async (req: Request, res: Response) => {
   }
 };
 
+// Confirm a security deposit authorised with a card
+export const confirmDeposit = async (req: Request, res: Response) => {
+  try {
+    const { paymentIntentId } = req.body;
+    
+    if (!paymentIntentId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Payment intent ID is required',
+      });
+    }
+    
+    const payment = await Payment.findOne({ stripePaymentId: paymentIntentId, user: req.user!.id });
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Deposit payment not found',
+      });
+    }
+    
+    const result = await confirmDepositHold(paymentIntentId);
+    logger.info('Deposit confirmation result', { paymentIntentId, success: result.success });
+    return res.status(result.success ? 200 : 400).json(result);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Deposit confirmation error', { error: errorMessage });
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to confirm security deposit',
+      error: errorMessage,
+    });
+  }
+};
+
 // Get user's payment history
 export const getPaymentHistory = async (req: Request, res: Response) => {
   try {
@@ -275,7 +429,8 @@ export const processRefund = async (req: Request, res: Response) => {
         payment.user instanceof Object ? payment.user.toString() : String(payment.user),
         payment.amount,
         payment.currency,
-        payment._id instanceof Object ? payment._id.toString() : String(payment._id)
+        payment._id instanceof Object ? payment._id.toString() : String(payment._id),
+        'refund'
       );
       
       if (success) {
@@ -316,18 +471,69 @@ export const processRefund = async (req: Request, res: Response) => {
 };
 
 // Helper functions
+const settleBookingFee = async (payment: IPayment, status: 'paid' | 'failed', purpose?: string) => {
+  // Rescheduled bookings only move once the price difference is paid
+  if (purpose === 'reschedule') {
+    await settleRescheduleCharge(payment, status);
+    return;
+  }
+  
+  const booking = await Booking.findOneAndUpdate(
+    { 'checkIn.charge.payment': payment._id },
+    { 'checkIn.charge.status': status },
+    { new: true }
+  );
+  
+  if (booking) {
+    logger.info('Booking fee settlement updated', { bookingId: booking._id, status });
+  } else {
+    logger.warn('No booking charge found for fee payment', { paymentId: payment._id });
+  }
+};
+
 const handleSuccessfulPayment = async (paymentIntent: any) => {
   try {
     logger.info('Processing successful payment', { paymentIntentId: paymentIntent.id });
-    const { userId, bookingId } = paymentIntent.metadata;
+    const { userId, bookingId, purpose } = paymentIntent.metadata;
     
     if (!userId) {
       logger.error('Missing userId in payment intent metadata', { paymentIntentId: paymentIntent.id });
       return;
     }
     
+    // Deposit captures are recorded when the deposit is settled on check-in
+    if (purpose === 'deposit_hold') {
+      return;
+    }
+    
     logger.debug('Payment metadata received', { userId, bookingId });
     
+    // Cart checkouts confirm every booking and purchase paid for together
+    if (paymentIntent.metadata.cartCheckout) {
+      const cartPayment = await Payment.findOneAndUpdate(
+        { stripePaymentId: paymentIntent.id, status: 'pending' },
+        { status: 'completed' },
+        { new: true }
+      );
+      if (cartPayment) {
+        await completeCartCheckout(cartPayment);
+      }
+      return;
+    }
+    
+    // A participant's share of a group booking, recorded once however often the event is delivered
+    if (paymentIntent.metadata.groupShare) {
+      const sharePayment = await Payment.findOneAndUpdate(
+        { stripePaymentId: paymentIntent.id, status: 'pending' },
+        { status: 'completed' },
+        { new: true }
+      );
+      if (sharePayment) {
+        await recordSharePayment(sharePayment);
+      }
+      return;
+    }
+    
     // Update the payment status in our database
     const payment = await Payment.findOneAndUpdate(
       { stripePaymentId: paymentIntent.id },
@@ -342,20 +548,24 @@ const handleSuccessfulPayment = async (paymentIntent: any) => {
     
     logger.debug('Payment status updated', { paymentId: payment._id });
     
+    // Fees charged after the booking (late returns, damage, reschedules) settle the charge only
+    if (paymentIntent.metadata.purpose) {
+      await settleBookingFee(payment, 'paid', paymentIntent.metadata.purpose);
+      return;
+    }
+    
     // If there's a booking associated, update its payment status
     if (bookingId) {
       logger.debug('Updating booking status', { bookingId });
-      const booking = await Booking.findByIdAndUpdate(
-        bookingId, 
-        { 
-          paymentStatus: 'paid',
-          status: 'confirmed', 
-        },
-        { new: true }
-      );
+      const booking = await confirmPaidBooking(bookingId);
       
       if (!booking) {
-        logger.error('Booking not found for payment', { bookingId });
+        // The booking expired before the payment arrived, and its slot may be taken already
+        logger.warn('Payment arrived for a booking that can no longer be confirmed', {
+          bookingId,
+          paymentId: payment._id
+        });
+        await refundStripePayment(payment, 'Payment arrived after the booking hold expired');
       } else {
         logger.info('Booking updated successfully', { bookingId });
       }
@@ -371,6 +581,15 @@ const handleFailedPayment = async (paymentIntent: any) => {
   try {
     logger.info('Processing failed payment', { paymentIntentId: paymentIntent.id });
     
+    // A failed cart checkout releases everything it reserved
+    if (paymentIntent.metadata.cartCheckout) {
+      const cartPayment = await Payment.findOne({ stripePaymentId: paymentIntent.id, status: 'pending' });
+      if (cartPayment) {
+        await abandonCartCheckout(cartPayment, 'Card payment failed');
+      }
+      return;
+    }
+    
     // Update the payment status in our database
     const payment = await Payment.findOneAndUpdate(
       { stripePaymentId: paymentIntent.id },
@@ -385,6 +604,21 @@ const handleFailedPayment = async (paymentIntent: any) => {
     
     logger.debug('Payment status updated to failed', { paymentId: payment._id });
     
+    if (paymentIntent.metadata.purpose === 'deposit_hold') {
+      await Booking.findOneAndUpdate({ 'deposit.payment': payment._id }, { 'deposit.status': 'failed' });
+      return;
+    }
+    
+    if (paymentIntent.metadata.purpose) {
+      await settleBookingFee(payment, 'failed', paymentIntent.metadata.purpose);
+      return;
+    }
+    
+    // The share stays unpaid; the participant can try again until the organiser covers it
+    if (paymentIntent.metadata.groupShare) {
+      return;
+    }
+    
     // Update booking status if applicable
     const { bookingId } = paymentIntent.metadata;
     
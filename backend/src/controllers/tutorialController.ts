@@ -1,11 +1,21 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import Tutorial, { ITutorial } from '../models/Tutorial';
 import Purchase from '../models/Purchase';
 import Wallet from '../models/Wallet';
-import Transaction from '../models/Transaction';
+import Transaction, { ITransaction } from '../models/Transaction';
 import Payment from '../models/Payment';
 import Discount from '../models/Discount';
 import getStripeInstance from '../config/stripe';
+import { BASE_CURRENCY, toMinorUnits } from '../config/currencies';
+import {
+  PLATFORM_ACCOUNTS,
+  WalletEntryRejectedError,
+  postWalletTransfer,
+  trackOriginalUsdBalance,
+  walletAccount
+} from '../utils/walletLedger';
+import { convertCurrency, rateMetadata } from '../utils/exchangeRates';
 
 // Get Stripe instance
 const stripe = getStripeInstance() || {
@@ -551,46 +561,71 @@ export const processTutorialPayment = async (req: Request, res: Response) => {
 
 // Helper function to process wallet payment
 const processWalletPayment = async (userId: string, tutorial: any, amount: number) => {
-  // Check wallet balance
   const wallet = await Wallet.findOne({ user: userId });
-  if (!wallet || wallet.balance < amount) {
+
+  // Tutorial prices are in the base currency, so the wallet is charged the converted amount
+  const conversion = convertCurrency(amount, BASE_CURRENCY, wallet ? wallet.currency : BASE_CURRENCY);
+  const walletAmount = conversion.amount;
+
+  // The wallet debit and the purchase transaction are written together, and
+  // the debit only goes through while the balance still covers it
+  let transaction: ITransaction | undefined;
+  if (wallet) {
+    const transactionId = new mongoose.Types.ObjectId();
+    trackOriginalUsdBalance(wallet, -walletAmount);
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        await postWalletTransfer(wallet, {
+          kind: 'payment',
+          from: walletAccount(wallet.user),
+          to: PLATFORM_ACCOUNTS.revenue,
+          amount: walletAmount,
+          description: wallet.currency !== BASE_CURRENCY
+            ? `Tutorial purchase: ${tutorial.title} (Converted from ${amount} ${BASE_CURRENCY})`
+            : `Tutorial purchase: ${tutorial.title}`,
+          reference: transactionId.toString(),
+          metadata: {
+            tutorialId: tutorial._id.toString(),
+            transactionId: transactionId.toString(),
+            originalAmount: amount,
+            originalCurrency: BASE_CURRENCY,
+            ...rateMetadata(conversion)
+          }
+        }, { session });
+
+        [transaction] = await Transaction.create([{
+          _id: transactionId,
+          user: userId,
+          amount,
+          type: 'purchase',
+          status: 'completed',
+          description: `Purchase of tutorial: ${tutorial.title}`,
+          itemType: 'tutorial',
+          itemId: tutorial._id
+        }], { session });
+      });
+    } catch (error) {
+      if (!(error instanceof WalletEntryRejectedError)) {
+        throw error;
+      }
+      // The transaction was aborted, so nothing written in it counts
+      transaction = undefined;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  if (!wallet || !transaction) {
     return {
       success: false,
       message: 'Insufficient funds in your wallet. Please add funds to continue.',
       currentBalance: wallet ? wallet.balance : 0,
-      requiredAmount: amount
+      requiredAmount: walletAmount,
+      currency: wallet ? wallet.currency : BASE_CURRENCY
     };
   }
 
-  // Create transaction
-  const transaction = await Transaction.create({
-    user: userId,
-    amount,
-    type: 'purchase',
-    status: 'completed',
-    description: `Purchase of tutorial: ${tutorial.title}`,
-    itemType: 'tutorial',
-    itemId: tutorial._id
-  });
-
-  // Update wallet balance
-  wallet.balance -= amount;
-  
-  // Add transaction record to wallet
-  wallet.transactions.push({
-    amount,
-    type: 'debit',
-    description: `Tutorial purchase: ${tutorial.title}`,
-    reference: transaction._id.toString(),
-    createdAt: new Date(),
-    metadata: {
-      tutorialId: tutorial._id.toString(),
-      transactionId: transaction._id.toString()
-    }
-  });
-  
-  await wallet.save();
-
   return {
     success: true,
     transactionId: transaction._id,
@@ -598,6 +633,8 @@ const processWalletPayment = async (userId: string, tutorial: any, amount: numbe
       _id: transaction._id,
       amount: transaction.amount,
       method: 'wallet',
+      walletAmount,
+      walletCurrency: wallet.currency,
       newBalance: wallet.balance
     }
   };
@@ -679,8 +716,8 @@ const processCardPayment = async (
     } else {
       // Create new payment intent
       paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Stripe requires amount in cents
-        currency: 'usd',
+        amount: toMinorUnits(amount, BASE_CURRENCY), // Stripe requires amounts in the smallest currency unit
+        currency: BASE_CURRENCY.toLowerCase(),
         payment_method_types: ['card'],
         payment_method: stripeToken,
         confirm: true,
@@ -1,5 +1,23 @@
 import { Request, Response } from 'express';
-import Venue, { IVenue } from '../models/Venue';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import mongoose from 'mongoose';
+import Venue, { IVenue, IVenueDateException, IVenuePricingRule } from '../models/Venue';
+import {
+  getVenueAvailability as computeVenueAvailability,
+  getResourceAvailability,
+  mergeResourceAvailability,
+  findVenueResource,
+  getActiveResources,
+  parseDateKey,
+  MAX_AVAILABILITY_DAYS,
+  ANY_RESOURCE,
+} from '../utils/venueAvailability';
+import {
+  parseDateException,
+  findExceptionConflicts,
+  notifyExceptionConflicts,
+} from '../utils/venueExceptions';
+import { parsePricingRule } from '../utils/venuePricing';
 
 // @desc    Get all venues with pagination and filters
 // @route   GET /api/venues
@@ -158,10 +176,265 @@ export const deleteVenue = async (req: Request, res: Response) => {
   }
 };
 
+// @desc    Get free and booked time slots per day for a venue
+// @route   GET /api/venues/:id/availability?from=&to=&resourceId=
+// @access  Public
+export const getVenueAvailability = async (req: Request, res: Response) => {
+  try {
+    const today = parseDateKey(new Date().toISOString().split('T')[0])!;
+    const from = req.query.from ? parseDateKey(req.query.from as string) : today;
+    const to = req.query.to ? parseDateKey(req.query.to as string) : (from && addDays(from, 6));
+
+    if (!from || !to) {
+      return res.status(400).json({ message: 'Dates must be provided in yyyy-MM-dd format' });
+    }
+
+    if (to < from) {
+      return res.status(400).json({ message: 'The "to" date must not be before the "from" date' });
+    }
+
+    if (differenceInCalendarDays(to, from) + 1 > MAX_AVAILABILITY_DAYS) {
+      return res.status(400).json({
+        message: `Availability can be requested for at most ${MAX_AVAILABILITY_DAYS} days at a time`
+      });
+    }
+
+    const venue = await Venue.findById(req.params.id);
+
+    if (!venue) {
+      return res.status(404).json({ message: 'Venue not found' });
+    }
+
+    const resourceId = req.query.resourceId as string | undefined;
+    const range = {
+      venueId: venue._id,
+      from: from.toISOString().split('T')[0],
+      to: to.toISOString().split('T')[0],
+    };
+
+    // Venues with courts report each court plus a merged "any free court" grid
+    if (getActiveResources(venue).length > 0 && (!resourceId || resourceId === ANY_RESOURCE)) {
+      const resources = await getResourceAvailability(venue, from, to);
+      return res.json({
+        ...range,
+        days: mergeResourceAvailability(resources),
+        resources,
+      });
+    }
+
+    if (resourceId && resourceId !== ANY_RESOURCE && !findVenueResource(venue, resourceId)) {
+      return res.status(404).json({ message: 'Court not found at this venue' });
+    }
+
+    const days = await computeVenueAvailability(venue, from, to, new Date(), resourceId);
+
+    res.json({
+      ...range,
+      ...(resourceId && resourceId !== ANY_RESOURCE && { resourceId }),
+      days,
+    });
+  } catch (error: any) {
+    console.error('Get venue availability error:', error);
+    res.status(500).json({
+      message: 'Server error fetching venue availability',
+      error: error.message,
+    });
+  }
+};
+
+// @desc    Get a venue's closures and special opening hours, with the bookings each one affects
+// @route   GET /api/venues/:id/exceptions
+// @access  Private/Admin
+export const getVenueExceptions = async (req: Request, res: Response) => {
+  try {
+    const venue = await Venue.findById(req.params.id);
+
+    if (!venue) {
+      return res.status(404).json({ message: 'Venue not found' });
+    }
+
+    const exceptions = venue.toObject().dateExceptions.sort((a, b) => a.date.getTime() - b.date.getTime());
+    const withConflicts = await Promise.all(exceptions.map(async (exception) => ({
+      ...exception,
+      conflicts: await findExceptionConflicts(venue, exception),
+    })));
+
+    res.json(withConflicts);
+  } catch (error: any) {
+    console.error('Get venue exceptions error:', error);
+    res.status(500).json({
+      message: 'Server error fetching venue exceptions',
+      error: error.message,
+    });
+  }
+};
+
+// @desc    Close a venue (or one court) on a date, or set special opening hours for it
+// @route   POST /api/venues/:id/exceptions
+// @access  Private/Admin
+export const addVenueException = async (req: Request, res: Response) => {
+  try {
+    const venue = await Venue.findById(req.params.id);
+
+    if (!venue) {
+      return res.status(404).json({ message: 'Venue not found' });
+    }
+
+    const parsed = parseDateException(venue, req.body);
+    if (!parsed.valid) {
+      return res.status(400).json({ message: parsed.reason });
+    }
+
+    venue.dateExceptions.push({
+      ...parsed.exception,
+      ...(req.user && { createdBy: new mongoose.Types.ObjectId(req.user.id) }),
+    } as IVenueDateException);
+    await venue.save();
+    const exception = venue.toObject().dateExceptions[venue.dateExceptions.length - 1];
+
+    // Existing bookings outside the new hours are flagged to the owner
+    const conflicts = await findExceptionConflicts(venue, exception);
+    await notifyExceptionConflicts(venue, exception, conflicts);
+
+    res.status(201).json({
+      ...exception,
+      conflicts,
+    });
+  } catch (error: any) {
+    console.error('Add venue exception error:', error);
+    res.status(500).json({
+      message: 'Server error adding venue exception',
+      error: error.message,
+    });
+  }
+};
+
+// @desc    Remove a closure or special opening hours, restoring the weekly hours for that date
+// @route   DELETE /api/venues/:id/exceptions/:exceptionId
+// @access  Private/Admin
+export const removeVenueException = async (req: Request, res: Response) => {
+  try {
+    const venue = await Venue.findById(req.params.id);
+
+    if (!venue) {
+      return res.status(404).json({ message: 'Venue not found' });
+    }
+
+    const exception = venue.dateExceptions.find(
+      (entry) => entry._id.toString() === req.params.exceptionId
+    );
+    if (!exception) {
+      return res.status(404).json({ message: 'Venue exception not found' });
+    }
+
+    venue.set(
+      'dateExceptions',
+      venue.dateExceptions.filter((entry) => entry._id.toString() !== req.params.exceptionId)
+    );
+    await venue.save();
+
+    res.json({ message: 'Venue exception removed' });
+  } catch (error: any) {
+    console.error('Remove venue exception error:', error);
+    res.status(500).json({
+      message: 'Server error removing venue exception',
+      error: error.message,
+    });
+  }
+};
+
+// @desc    Get a venue's peak, off-peak and seasonal pricing rules
+// @route   GET /api/venues/:id/pricing-rules
+// @access  Private/Admin
+export const getVenuePricingRules = async (req: Request, res: Response) => {
+  try {
+    const venue = await Venue.findById(req.params.id);
+
+    if (!venue) {
+      return res.status(404).json({ message: 'Venue not found' });
+    }
+
+    res.json(venue.toObject().pricingRules);
+  } catch (error: any) {
+    console.error('Get venue pricing rules error:', error);
+    res.status(500).json({
+      message: 'Server error fetching venue pricing rules',
+      error: error.message,
+    });
+  }
+};
+
+// @desc    Add a pricing rule that adjusts a venue's hourly rate
+// @route   POST /api/venues/:id/pricing-rules
+// @access  Private/Admin
+export const addVenuePricingRule = async (req: Request, res: Response) => {
+  try {
+    const venue = await Venue.findById(req.params.id);
+
+    if (!venue) {
+      return res.status(404).json({ message: 'Venue not found' });
+    }
+
+    const parsed = parsePricingRule(venue, req.body);
+    if (!parsed.valid) {
+      return res.status(400).json({ message: parsed.reason });
+    }
+
+    venue.pricingRules.push(parsed.rule as IVenuePricingRule);
+    await venue.save();
+
+    res.status(201).json(venue.toObject().pricingRules[venue.pricingRules.length - 1]);
+  } catch (error: any) {
+    console.error('Add venue pricing rule error:', error);
+    res.status(500).json({
+      message: 'Server error adding venue pricing rule',
+      error: error.message,
+    });
+  }
+};
+
+// @desc    Remove a pricing rule; bookings already made keep their price
+// @route   DELETE /api/venues/:id/pricing-rules/:ruleId
+// @access  Private/Admin
+export const removeVenuePricingRule = async (req: Request, res: Response) => {
+  try {
+    const venue = await Venue.findById(req.params.id);
+
+    if (!venue) {
+      return res.status(404).json({ message: 'Venue not found' });
+    }
+
+    if (!venue.pricingRules.some((rule) => rule._id.toString() === req.params.ruleId)) {
+      return res.status(404).json({ message: 'Pricing rule not found' });
+    }
+
+    venue.set(
+      'pricingRules',
+      venue.pricingRules.filter((rule) => rule._id.toString() !== req.params.ruleId)
+    );
+    await venue.save();
+
+    res.json({ message: 'Pricing rule removed' });
+  } catch (error: any) {
+    console.error('Remove venue pricing rule error:', error);
+    res.status(500).json({
+      message: 'Server error removing venue pricing rule',
+      error: error.message,
+    });
+  }
+};
+
 export default {
   getVenues,
   getVenueById,
   createVenue,
   updateVenue,
   deleteVenue,
+  getVenueAvailability,
+  getVenueExceptions,
+  addVenueException,
+  removeVenueException,
+  getVenuePricingRules,
+  addVenuePricingRule,
+  removeVenuePricingRule,
 }; 
\ No newline at end of file
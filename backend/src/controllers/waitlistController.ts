@@ -0,0 +1,160 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import WaitlistEntry, { IWaitlistEntry } from '../models/WaitlistEntry';
+import { parseEquipmentLines } from '../utils/equipmentAvailability';
+import { validateRentalPeriod } from '../utils/rentalPricing';
+import { leaveWaitlist, prepareWaitlistBooking } from '../utils/waitlistService';
+import logger from '../utils/logger';
+
+// @desc    Join the waitlist for a venue slot or equipment dates that are already taken
+// @route   POST /api/waitlist
+// @access  Private
+export const joinWaitlist = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const { itemType, itemId, resourceId, quantity, equipmentItems, date, returnDate, timeSlot, notes } = req.body;
+
+    if (!['venue', 'equipment'].includes(itemType) || !date || isNaN(new Date(date).getTime())) {
+      return res.status(400).json({ message: 'Please provide a venue or equipment item and a valid date' });
+    }
+
+    const entryData: Partial<IWaitlistEntry> = {
+      user: new mongoose.Types.ObjectId(userId),
+      itemType,
+      date: new Date(date),
+      notes
+    };
+
+    if (itemType === 'venue') {
+      if (!itemId || !mongoose.Types.ObjectId.isValid(itemId)) {
+        return res.status(400).json({ message: 'Invalid venue id' });
+      }
+      if (!timeSlot?.start || !timeSlot?.end) {
+        return res.status(400).json({ message: 'Time slot is required for venue bookings' });
+      }
+      entryData.venue = new mongoose.Types.ObjectId(itemId);
+      entryData.resourceId = resourceId;
+      entryData.timeSlot = { start: timeSlot.start, end: timeSlot.end };
+    } else {
+      const parsed = parseEquipmentLines(itemId, quantity, equipmentItems);
+      if (!parsed.valid) {
+        return res.status(400).json({ message: parsed.reason });
+      }
+      const period = validateRentalPeriod(new Date(date), returnDate ? new Date(returnDate) : undefined);
+      if (!period.valid) {
+        return res.status(400).json({ message: period.reason });
+      }
+      entryData.equipmentItems = parsed.lines.map(line => ({
+        equipment: new mongoose.Types.ObjectId(line.equipmentId),
+        quantity: line.quantity
+      }));
+      entryData.date = period.pickupDate;
+      entryData.returnDate = period.returnDate;
+    }
+
+    // Only requests that are valid but already booked can be waitlisted
+    const entry = new WaitlistEntry(entryData);
+    const prepared = await prepareWaitlistBooking(entry);
+    if (prepared.valid) {
+      return res.status(400).json({ message: 'This is available right now, so you can book it straight away' });
+    }
+    if (!prepared.taken) {
+      return res.status(prepared.status).json({ message: prepared.reason });
+    }
+
+    const existing = await WaitlistEntry.findOne({
+      user: userId,
+      itemType,
+      date: entry.date,
+      status: { $in: ['waiting', 'offered'] },
+      ...(itemType === 'venue'
+        ? { venue: entry.venue, 'timeSlot.start': entry.timeSlot!.start, 'timeSlot.end': entry.timeSlot!.end }
+        : { 'equipmentItems.equipment': { $all: entry.equipmentItems!.map(line => line.equipment) } })
+    });
+    if (existing) {
+      return res.status(400).json({ message: 'You are already on the waitlist for this' });
+    }
+
+    await entry.save();
+    const position = await WaitlistEntry.countDocuments({
+      status: 'waiting',
+      itemType,
+      createdAt: { $lte: entry.createdAt },
+      ...(itemType === 'venue'
+        ? { venue: entry.venue, date: entry.date }
+        : { 'equipmentItems.equipment': { $in: entry.equipmentItems!.map(line => line.equipment) } })
+    });
+
+    logger.info('User joined waitlist', { entryId: entry._id, userId, itemType });
+
+    res.status(201).json({
+      entry,
+      position
+    });
+  } catch (error: any) {
+    logger.error('Join waitlist error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while joining waitlist',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Get the user's waitlist entries and offers
+// @route   GET /api/waitlist
+// @access  Private
+export const getMyWaitlist = async (req: Request, res: Response) => {
+  try {
+    const entries = await WaitlistEntry.find({ user: req.user!.id })
+      .populate('venue', 'name city state resources')
+      .populate('equipmentItems.equipment', 'name')
+      .sort({ createdAt: -1 });
+
+    res.json(entries);
+  } catch (error: any) {
+    logger.error('Get waitlist error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while fetching waitlist',
+      error: error.message
+    });
+  }
+};
+
+// @desc    Leave the waitlist, declining any pending offer
+// @route   DELETE /api/waitlist/:id
+// @access  Private
+export const leaveWaitlistEntry = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid waitlist entry id' });
+    }
+
+    const entry = await WaitlistEntry.findOne({ _id: req.params.id, user: req.user!.id });
+    if (!entry) {
+      return res.status(404).json({ message: 'Waitlist entry not found' });
+    }
+    if (!['waiting', 'offered'].includes(entry.status)) {
+      return res.status(400).json({ message: `This waitlist entry is already ${entry.status}` });
+    }
+
+    await leaveWaitlist(entry);
+    logger.info('User left waitlist', { entryId: entry._id, userId: req.user!.id });
+
+    res.json({
+      message: 'You have left the waitlist',
+      entry
+    });
+  } catch (error: any) {
+    logger.error('Leave waitlist error', { error: error.message });
+    res.status(500).json({
+      message: 'Server error while leaving waitlist',
+      error: error.message
+    });
+  }
+};
+
+export default {
+  joinWaitlist,
+  getMyWaitlist,
+  leaveWaitlistEntry
+};
@@ -1,8 +1,32 @@
 import { Request, Response } from 'express';
-import Wallet from '../models/Wallet';
+import mongoose from 'mongoose';
+import Wallet, { IWallet } from '../models/Wallet';
 import Payment from '../models/Payment';
+import LedgerEntry from '../models/LedgerEntry';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES, isSupportedCurrency, toMinorUnits } from '../config/currencies';
+import WalletWithdrawal, { WITHDRAWAL_STATUSES, WithdrawalStatus } from '../models/WalletWithdrawal';
 import { addFundsToWallet } from '../utils/paymentService';
 import getStripeInstance from '../config/stripe';
+import { getTransferLimit, transferBetweenWallets } from '../utils/walletTransfer';
+import {
+  WithdrawalResult,
+  approveWithdrawal,
+  cancelWithdrawal,
+  getWithdrawableAmount,
+  rejectWithdrawal,
+  requestWithdrawal
+} from '../utils/walletWithdrawal';
+import { convertAmount, convertCurrency } from '../utils/exchangeRates';
+import logger from '../utils/logger';
+import { findWalletDrift, getWalletStatement, postWalletConversion, walletAccount } from '../utils/walletLedger';
+
+const supportedCurrencyCodes = () => SUPPORTED_CURRENCIES.map(currency => currency.code);
+
+// Wallet as sent to the client, with its transaction history from the ledger
+const withTransactions = async (wallet: IWallet) => ({
+  ...wallet.toObject(),
+  transactions: await getWalletStatement(wallet.user),
+});
 
 // Get user's wallet
 export const getWallet = async (req: Request, res: Response) => {
@@ -21,19 +45,20 @@ export const getWallet = async (req: Request, res: Response) => {
     
     // Create a wallet if it doesn't exist
     if (!wallet) {
-      // Use preferredCurrency if provided in the query, otherwise default to USD
-      const currency = preferredCurrency === 'INR' ? 'INR' : 'USD';
+      // Use preferredCurrency if provided in the query and supported, otherwise the base currency
+      const currency = isSupportedCurrency(preferredCurrency)
+        ? String(preferredCurrency).toUpperCase()
+        : BASE_CURRENCY;
       wallet = await Wallet.create({
         user: userId,
         balance: 0,
-        currency, // Use either INR or USD based on preference
-        transactions: [],
+        currency,
       });
     }
     
     return res.status(200).json({
       success: true,
-      wallet,
+      wallet: await withTransactions(wallet),
     });
   } catch (error: unknown) {
     console.error('Get wallet error:', error);
@@ -55,7 +80,7 @@ export const addFunds = async (req: Request, res: Response) => {
       });
     }
     
-    const { amount, currency = 'USD' } = req.body;
+    const { amount, currency = BASE_CURRENCY } = req.body;
     const userId = req.user.id;
     
     if (!amount || amount <= 0) {
@@ -65,6 +90,13 @@ export const addFunds = async (req: Request, res: Response) => {
       });
     }
     
+    if (!isSupportedCurrency(currency)) {
+      return res.status(400).json({
+        success: false,
+        message: `Currency must be one of: ${supportedCurrencyCodes().join(', ')}`,
+      });
+    }
+    
     // Get Stripe instance
     const stripe = getStripeInstance();
     if (!stripe) {
@@ -76,7 +108,7 @@ export const addFunds = async (req: Request, res: Response) => {
     
     // Create a payment intent for adding funds to wallet
     const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Stripe requires amounts in cents
+      amount: toMinorUnits(amount, currency), // Stripe requires amounts in the smallest currency unit
       currency: currency.toLowerCase(),
       metadata: {
         userId,
@@ -198,7 +230,7 @@ export const processWalletFunding = async (req: Request, res: Response) => {
     return res.status(200).json({
       success: true,
       message: 'Funds added to wallet successfully',
-      wallet: result.wallet,
+      wallet: await withTransactions(result.wallet!),
     });
   } catch (error: unknown) {
     console.error('Process wallet funding error:', error);
@@ -231,10 +263,8 @@ export const getTransactions = async (req: Request, res: Response) => {
       });
     }
     
-    // Sort transactions from newest to oldest
-    const transactions = [...wallet.transactions].sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    // Transactions from newest to oldest
+    const transactions = await getWalletStatement(userId);
     
     return res.status(200).json({
       success: true,
@@ -263,12 +293,12 @@ export const updateWalletCurrency = async (req: Request, res: Response) => {
     }
     
     const userId = req.user.id;
-    const { currency } = req.body;
+    const currency = typeof req.body.currency === 'string' ? req.body.currency.toUpperCase() : undefined;
     
-    if (!currency || !['USD', 'INR'].includes(currency)) {
+    if (!currency || !isSupportedCurrency(currency)) {
       return res.status(400).json({
         success: false,
-        message: 'Valid currency (USD or INR) is required',
+        message: `Valid currency (${supportedCurrencyCodes().join(', ')}) is required`,
       });
     }
     
@@ -286,21 +316,36 @@ export const updateWalletCurrency = async (req: Request, res: Response) => {
       return res.status(200).json({
         success: true,
         message: 'Wallet already using this currency',
-        wallet,
+        wallet: await withTransactions(wallet),
+      });
+    }
+    
+    // Held withdrawal funds are in the current currency until the withdrawal is settled
+    const openWithdrawal = await WalletWithdrawal.exists({
+      user: userId,
+      status: { $in: ['pending', 'processing'] }
+    });
+    
+    if (openWithdrawal) {
+      return res.status(400).json({
+        success: false,
+        message: 'Wallet currency cannot be changed while a withdrawal is waiting for approval',
+        wallet: await withTransactions(wallet),
       });
     }
     
     // Check for recent conversions (within the last 5 seconds) to prevent multiple rapid conversions
-    const recentConversion = wallet.transactions.find(t => 
-      t.type === 'conversion' && 
-      (new Date().getTime() - new Date(t.createdAt).getTime()) < 5000
-    );
+    const recentConversion = await LedgerEntry.exists({
+      kind: 'conversion',
+      'lines.account': walletAccount(userId),
+      createdAt: { $gt: new Date(Date.now() - 5000) }
+    });
     
     if (recentConversion) {
       return res.status(429).json({
         success: false,
         message: 'Please wait a moment before converting currency again',
-        wallet,
+        wallet: await withTransactions(wallet),
       });
     }
     
@@ -311,91 +356,54 @@ export const updateWalletCurrency = async (req: Request, res: Response) => {
     
     // Only do conversion if currency is changing
     if (wallet.currency !== currency) {
-      // Define exchange rates (These should ideally come from a real-time API)
-      const exchangeRates = {
-        USD_TO_INR: 83.0, // 1 USD = 83.0 INR (example rate)
-        INR_TO_USD: 1/83.0, // 1 INR = 1/83.0 USD (inverse of USD_TO_INR to ensure precision)
-      };
-      
       // Get the previous balance before conversion
       const previousBalance = wallet.balance;
       const previousCurrency = wallet.currency;
       
-      // Convert the balance based on the currency change
-      if (wallet.currency === 'USD' && currency === 'INR') {
-        // Converting from USD to INR - store the USD value
-        wallet.metadata.originalUsdBalance = wallet.balance;
-        wallet.balance = Math.round(wallet.balance * exchangeRates.USD_TO_INR * 100) / 100;
-        
-        // For each transaction, add metadata about original currency if not yet present
-        wallet.transactions.forEach(transaction => {
-          if (!transaction.metadata) {
-            transaction.metadata = {};
-          }
-          if (!transaction.metadata.originalCurrency) {
-            transaction.metadata.originalCurrency = 'USD';
-            transaction.metadata.originalAmount = transaction.amount;
-          }
-        });
+      // The base currency value remembered from earlier conversions is kept, so converting
+      // back and forth does not lose money to rounding, unless the balance has
+      // changed since
+      let usdBalance = wallet.balance;
+      if (previousCurrency !== BASE_CURRENCY) {
+        const expectedBalance = wallet.metadata.originalUsdBalance
+          ? convertAmount(wallet.metadata.originalUsdBalance, BASE_CURRENCY, previousCurrency)
+          : 0;
         
-      } else if (wallet.currency === 'INR' && currency === 'USD') {
-        // Check if we need to account for new funds added in INR
-        const expectedInrBalance = wallet.metadata.originalUsdBalance ? 
-          Math.round(wallet.metadata.originalUsdBalance * exchangeRates.USD_TO_INR * 100) / 100 : 
-          0;
-          
-        if (Math.abs(wallet.balance - expectedInrBalance) > 0.01) {
-          // The balance has changed since last conversion, need to update originalUsdBalance
-          console.log("Balance changed since last conversion - updating originalUsdBalance");
-          // Convert the current INR balance to USD
-          const newUsdBalance = Math.round(wallet.balance * exchangeRates.INR_TO_USD * 100) / 100;
-          wallet.metadata.originalUsdBalance = newUsdBalance;
-        }
-      
-        // For each transaction, add metadata about original currency if not yet present
-        wallet.transactions.forEach(transaction => {
-          if (!transaction.metadata) {
-            transaction.metadata = {};
-          }
-          if (!transaction.metadata.originalCurrency) {
-            transaction.metadata.originalCurrency = 'INR';
-            transaction.metadata.originalAmount = transaction.amount;
-          }
-        });
-        
-        // Use the stored or newly calculated USD value
-        if (wallet.metadata.originalUsdBalance) {
-          wallet.balance = wallet.metadata.originalUsdBalance;
+        if (wallet.metadata.originalUsdBalance && Math.abs(wallet.balance - expectedBalance) <= 0.01) {
+          usdBalance = wallet.metadata.originalUsdBalance;
         } else {
-          // Fallback if no metadata available
-          wallet.balance = Math.round(wallet.balance * exchangeRates.INR_TO_USD * 100) / 100;
-          wallet.metadata.originalUsdBalance = wallet.balance;
+          logger.info('Wallet balance changed since last conversion', { walletId: wallet._id });
+          usdBalance = convertAmount(wallet.balance, previousCurrency, BASE_CURRENCY);
         }
       }
+      wallet.metadata.originalUsdBalance = usdBalance;
+      wallet.markModified('metadata');
+      
+      const convertedBalance = currency === BASE_CURRENCY ? usdBalance : convertAmount(usdBalance, BASE_CURRENCY, currency);
       
-      // Update the wallet currency
-      wallet.currency = currency;
+      // Deposits and withdrawals held in the wallet switch currency along with the balance
+      const heldConversion = convertCurrency(wallet.heldBalance || 0, previousCurrency, currency);
+      const convertedHeldBalance = heldConversion.amount;
       
-      // Add a transaction record for the currency conversion
-      wallet.transactions.push({
-        amount: wallet.balance,
-        type: 'conversion',
-        description: `Currency converted from ${previousBalance} ${previousCurrency} to ${wallet.balance} ${currency}`,
-        createdAt: new Date(),
+      // Record the conversion in the ledger, which updates the balances and currency
+      await postWalletConversion(wallet, {
+        currency,
+        balance: convertedBalance,
+        heldBalance: convertedHeldBalance,
+        description: `Currency converted from ${previousBalance} ${previousCurrency} to ${convertedBalance} ${currency}`,
         metadata: {
           originalAmount: previousBalance,
           originalCurrency: previousCurrency,
-          conversionRate: previousCurrency === 'USD' ? exchangeRates.USD_TO_INR : exchangeRates.INR_TO_USD
+          conversionRate: heldConversion.rate,
+          exchangeRateId: heldConversion.rateId
         }
       });
     }
     
-    await wallet.save();
-    
     return res.status(200).json({
       success: true,
       message: 'Wallet currency updated successfully',
-      wallet,
+      wallet: await withTransactions(wallet),
     });
   } catch (error: unknown) {
     console.error('Update wallet currency error:', error);
@@ -405,4 +413,297 @@ export const updateWalletCurrency = async (req: Request, res: Response) => {
       error: error instanceof Error ? error.message : String(error),
     });
   }
-}; 
\ No newline at end of file
+};
+
+// Send money from the user's wallet to another user's wallet
+export const transferFunds = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+    
+    const { recipient, amount, note } = req.body;
+    
+    const result = await transferBetweenWallets({
+      senderId: req.user.id,
+      recipient,
+      amount,
+      note,
+    });
+    
+    if (!result.valid) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.reason,
+        ...result.details,
+      });
+    }
+    
+    const wallet = await Wallet.findOne({ user: req.user.id });
+    
+    return res.status(200).json({
+      success: true,
+      message: `Sent ${result.amount} ${result.currency} to ${result.recipient.name}`,
+      transfer: {
+        _id: result.entry._id,
+        amount: result.amount,
+        currency: result.currency,
+        receivedAmount: result.receivedAmount,
+        receivedCurrency: result.receivedCurrency,
+        recipient: { name: result.recipient.name, email: result.recipient.email },
+      },
+      wallet: wallet && await withTransactions(wallet),
+    });
+  } catch (error: unknown) {
+    console.error('Wallet transfer error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to send money',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Get how much the user can still send to others today
+export const getWalletTransferLimit = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+    
+    return res.status(200).json({
+      success: true,
+      limit: await getTransferLimit(req.user.id),
+    });
+  } catch (error: unknown) {
+    console.error('Get transfer limit error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve transfer limit',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Check every wallet's stored balance against the ledger (admin only)
+export const getLedgerIntegrity = async (req: Request, res: Response) => {
+  try {
+    const drifts = await findWalletDrift();
+    
+    return res.status(200).json({
+      success: true,
+      balanced: drifts.length === 0,
+      drifts,
+    });
+  } catch (error: unknown) {
+    console.error('Ledger integrity check error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to check wallet balances against the ledger',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Send the outcome of a withdrawal action with the wallet after it
+const sendWithdrawalResult = async (res: Response, result: WithdrawalResult, message: string) => {
+  if (!result.valid) {
+    return res.status(result.status).json({
+      success: false,
+      message: result.reason,
+      ...result.details,
+    });
+  }
+  
+  return res.status(200).json({
+    success: true,
+    message,
+    withdrawal: result.withdrawal,
+    wallet: await withTransactions(result.wallet),
+  });
+};
+
+// Ask to withdraw money from the wallet back to the card it was added with
+export const requestWalletWithdrawal = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+    
+    const { amount, reason } = req.body;
+    
+    const result = await requestWithdrawal({ userId: req.user.id, amount, reason });
+    
+    return sendWithdrawalResult(res, result, 'Withdrawal requested. The amount is held until it is approved.');
+  } catch (error: unknown) {
+    console.error('Request withdrawal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to request withdrawal',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Get the user's withdrawals and how much they can withdraw
+export const getWalletWithdrawals = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+    
+    const wallet = await Wallet.findOne({ user: req.user.id });
+    
+    if (!wallet) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wallet not found',
+      });
+    }
+    
+    const withdrawals = await WalletWithdrawal.find({ user: req.user.id })
+      .sort({ createdAt: -1 })
+      .limit(50);
+    
+    return res.status(200).json({
+      success: true,
+      withdrawals,
+      withdrawable: await getWithdrawableAmount(wallet),
+    });
+  } catch (error: unknown) {
+    console.error('Get withdrawals error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve withdrawals',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Cancel a withdrawal that has not been approved yet
+export const cancelWalletWithdrawal = async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+    
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Withdrawal not found',
+      });
+    }
+    
+    const result = await cancelWithdrawal(req.user.id, req.params.id);
+    
+    return sendWithdrawalResult(res, result, 'Withdrawal canceled and funds released');
+  } catch (error: unknown) {
+    console.error('Cancel withdrawal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to cancel withdrawal',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// List withdrawals to review, oldest first (admin only)
+export const getAllWithdrawals = async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as WithdrawalStatus) || 'pending';
+    
+    if (!WITHDRAWAL_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Status must be one of: ${WITHDRAWAL_STATUSES.join(', ')}`,
+      });
+    }
+    
+    const withdrawals = await WalletWithdrawal.find({ status })
+      .populate('user', 'name email')
+      .populate('reviewedBy', 'name email')
+      .sort({ createdAt: 1 })
+      .limit(100);
+    
+    return res.status(200).json({
+      success: true,
+      count: withdrawals.length,
+      withdrawals,
+    });
+  } catch (error: unknown) {
+    console.error('Get all withdrawals error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve withdrawals',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Approve a withdrawal and pay it out as Stripe refunds (admin only)
+export const approveWalletWithdrawal = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Withdrawal not found',
+      });
+    }
+    
+    const result = await approveWithdrawal(req.params.id, req.user!.id, req.body.adminNotes);
+    
+    let message = 'Withdrawal paid out';
+    if (result.valid && result.withdrawal.status === 'failed') {
+      message = 'Withdrawal could not be paid out and the funds were released';
+    } else if (result.valid && result.withdrawal.paidAmount < result.withdrawal.amount) {
+      message = `Paid out ${result.withdrawal.paidAmount} ${result.withdrawal.currency}; the rest was released`;
+    }
+    
+    return sendWithdrawalResult(res, result, message);
+  } catch (error: unknown) {
+    console.error('Approve withdrawal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to approve withdrawal',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Reject a withdrawal and release the held funds (admin only)
+export const rejectWalletWithdrawal = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Withdrawal not found',
+      });
+    }
+    
+    const result = await rejectWithdrawal(req.params.id, req.user!.id, req.body.adminNotes);
+    
+    return sendWithdrawalResult(res, result, 'Withdrawal rejected and funds released');
+  } catch (error: unknown) {
+    console.error('Reject withdrawal error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to reject withdrawal',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
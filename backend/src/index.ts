@@ -13,10 +13,19 @@ import paymentRoutes from './routes/paymentRoutes';
 import walletRoutes from './routes/walletRoutes';
 import subscriptionRoutes from './routes/subscriptionRoutes';
 import discountRoutes from './routes/discountRoutes';
+import cartRoutes from './routes/cartRoutes';
+import waitlistRoutes from './routes/waitlistRoutes';
+import calendarRoutes from './routes/calendarRoutes';
+import packageRoutes from './routes/packageRoutes';
+import currencyRoutes from './routes/currencyRoutes';
+import { handleStripeWebhook } from './controllers/paymentController';
 import { isMongoDBRunning, getMongoDBInstallInstructions } from './utils/mongoCheck';
 import paymentRetry from './utils/paymentRetry';
 import bookingExpiration from './utils/bookingExpirationService';
 import bookingReminder from './utils/bookingReminderService';
+import bookingCompletion from './utils/bookingCompletionService';
+import walletLedger from './utils/walletLedger';
+import exchangeRates from './utils/exchangeRates';
 import logger from './utils/logger';
 
 // Load environment variables
@@ -27,6 +36,8 @@ const app = express();
 
 // Middleware
 app.use(cors());
+// Stripe webhooks are verified against the raw body, so they skip the JSON parser
+app.post('/api/payments/webhook', express.raw({ type: 'application/json' }), handleStripeWebhook);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -77,9 +88,20 @@ const setupBackgroundServices = () => {
   // Setup booking expiration service
   bookingExpiration.scheduleBookingExpirationJob();
   
+  // Setup booking completion and no-show service
+  bookingCompletion.scheduleBookingCompletionJob();
+  
   // Setup booking reminder service
   bookingReminder.scheduleBookingReminders();
   
+  // Move wallets from before the ledger onto it, then setup the wallet ledger integrity check
+  walletLedger.openWalletLedgers()
+    .catch(error => logger.error('Error opening wallet ledgers', { error }))
+    .finally(() => walletLedger.scheduleLedgerIntegrityCheck());
+  
+  // Setup exchange rate refresh
+  exchangeRates.scheduleExchangeRateRefresh();
+  
   logger.info('All background services initialized');
 };
 
@@ -95,6 +117,11 @@ app.use('/api/payments', paymentRoutes);
 app.use('/api/wallet', walletRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
 app.use('/api/discounts', discountRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/packages', packageRoutes);
+app.use('/api/currencies', currencyRoutes);
 
 // Test route to verify API functionality
 app.get('/api/test', (req: Request, res: Response) => {
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import IdempotencyKey from '../models/IdempotencyKey';
+import logger from '../utils/logger';
+
+// How long a key is remembered, and its response replayed, after first use (in hours)
+export const IDEMPOTENCY_KEY_TTL_HOURS = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24;
+
+// How long a request may run before its key is taken as abandoned by a crashed server (in minutes)
+export const IDEMPOTENCY_PROCESSING_TIMEOUT_MINUTES = Number(process.env.IDEMPOTENCY_PROCESSING_TIMEOUT_MINUTES) || 10;
+
+const MAX_KEY_LENGTH = 255;
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// JSON with object keys sorted, so the same payload always hashes the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequest = (method: string, path: string, body: unknown): string =>
+  crypto.createHash('sha256').update(`${method} ${path} ${stableStringify(body ?? {})}`).digest('hex');
+
+/**
+ * Make a money-moving endpoint safe to retry. When the request carries an
+ * `Idempotency-Key` header, the first response sent for that key is stored
+ * and replayed for repeats of the same request; reusing the key for a
+ * different request is rejected. A handler that fails with a server error,
+ * or ends without a JSON response, frees the key; one whose server crashed
+ * frees it after IDEMPOTENCY_PROCESSING_TIMEOUT_MINUTES. Requests without
+ * the header are handled as usual. Must run after `protect`, as keys belong to the signed-in user.
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+  }
+  if (!req.user) {
+    return res.status(401).json({ message: 'Not authorized, authentication required' });
+  }
+
+  const path = `${req.baseUrl}${req.path}`;
+  const requestHash = hashRequest(req.method, path, req.body);
+  let recordId: unknown;
+
+  try {
+    let record = await IdempotencyKey.findOne({ user: req.user.id, key });
+
+    // The TTL index removes expired keys lazily, so treat them as gone
+    if (record && record.expiresAt <= new Date()) {
+      await IdempotencyKey.deleteOne({ _id: record._id });
+      record = null;
+    }
+
+    if (record) {
+      if (record.requestHash !== requestHash) {
+        return res.status(422).json({
+          message: 'This Idempotency-Key was already used for a different request'
+        });
+      }
+      if (record.status === 'completed') {
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(record.responseStatus || 200).json(record.responseBody);
+      }
+
+      // A key still processing long after its request started was left by a
+      // server that crashed mid-request, so this request takes it over.
+      // Claiming it refreshes `updatedAt`, so only one retry gets it.
+      const staleBefore = new Date(Date.now() - IDEMPOTENCY_PROCESSING_TIMEOUT_MINUTES * 60 * 1000);
+      const claimed = await IdempotencyKey.findOneAndUpdate(
+        { _id: record._id, status: 'processing', updatedAt: { $lte: staleBefore } },
+        { requestHash }
+      );
+      if (!claimed) {
+        return res.status(409).json({
+          message: 'A request with this Idempotency-Key is still being processed'
+        });
+      }
+      recordId = claimed._id;
+    } else {
+      const created = await IdempotencyKey.create({
+        key,
+        user: req.user.id,
+        method: req.method,
+        path,
+        requestHash,
+        expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000)
+      });
+      recordId = created._id;
+    }
+  } catch (error) {
+    // Another request with the same key got there first
+    if (isDuplicateKeyError(error)) {
+      return res.status(409).json({
+        message: 'A request with this Idempotency-Key is still being processed'
+      });
+    }
+    logger.error('Idempotency key lookup error', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({ message: 'Server error while checking Idempotency-Key' });
+  }
+
+  let stored = false;
+
+  const logStoreError = (error: unknown) => {
+    logger.error('Failed to store idempotent response', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  };
+
+  // Store the response the handler sends before sending it, so a retry that
+  // arrives once the client has it is replayed. Server errors are not kept, so
+  // the request can be retried with the same key. The handler's response is
+  // stored even if the client has disconnected meanwhile, so a retry replays
+  // it rather than moving the money again.
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    if (stored) {
+      return json(body);
+    }
+    stored = true;
+    const update = res.statusCode >= 500
+      ? IdempotencyKey.deleteOne({ _id: recordId })
+      : IdempotencyKey.updateOne(
+          { _id: recordId },
+          { status: 'completed', responseStatus: res.statusCode, responseBody: body }
+        );
+    update.exec()
+      .catch(logStoreError)
+      .finally(() => json(body));
+    return res;
+  };
+
+  // A handler that finishes without a JSON response leaves nothing to replay
+  const end = res.end.bind(res) as (...args: unknown[]) => Response;
+  res.end = ((...args: unknown[]) => {
+    if (stored) {
+      return end(...args);
+    }
+    stored = true;
+    IdempotencyKey.deleteOne({ _id: recordId }).exec()
+      .catch(logStoreError)
+      .finally(() => end(...args));
+    return res;
+  }) as Response['end'];
+
+  next();
+};
+
+export default idempotent;
@@ -1,28 +1,404 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { EQUIPMENT_CONDITIONS, EquipmentCondition } from './Equipment';
+
+// Condition, photos and notes recorded when rented equipment is handed over or returned
+export interface IRentalInspection {
+  at: Date;
+  by: mongoose.Types.ObjectId;
+  items: {
+    equipment: mongoose.Types.ObjectId;
+    condition: EquipmentCondition;
+  }[];
+  photos: string[];
+  notes?: string;
+}
+
+// Refundable security deposit of an equipment rental (amounts in USD, like booking prices)
+export interface IRentalDeposit {
+  amount: number;
+  status: 'pending' | 'held' | 'released' | 'partially_released' | 'captured' | 'failed';
+  paymentMethod?: 'wallet' | 'stripe';
+  payment?: mongoose.Types.ObjectId;
+  releasedAmount?: number;
+  deductedAmount?: number;
+  settledAt?: Date;
+  // Part of the deposit required because of earlier no-shows, kept if the customer does not turn up
+  noShowAmount?: number;
+}
+
+export interface IRentalCheckIn extends IRentalInspection {
+  daysLate: number;
+  lateFee: number;
+  damageCharge: number;
+  depositDeduction?: number;
+  // Settlement of the late fee and damage charge, when there was anything to pay
+  charge?: {
+    amount: number;
+    currency: string;
+    paymentMethod: 'wallet' | 'stripe';
+    status: 'pending' | 'paid' | 'failed';
+    payment?: mongoose.Types.ObjectId;
+  };
+}
+
+// One stretch of a venue booking charged at a single hourly rate under the venue's pricing rules
+export interface IBookingPriceLine {
+  start: string;
+  end: string;
+  minutes: number;
+  baseRate: number;
+  rate: number;
+  rules: string[];
+  amount: number;
+}
+
+// Where a booking was before it was moved, and how the price difference was settled
+export interface IBookingReschedule {
+  previousDate: Date;
+  previousReturnDate?: Date;
+  previousTimeSlot?: {
+    start: string;
+    end: string;
+  };
+  previousResource?: mongoose.Types.ObjectId;
+  previousTotalPrice: number;
+  newTotalPrice: number;
+  // Positive when the customer paid more, negative when they were refunded
+  priceDifference: number;
+  charge?: {
+    paymentMethod: 'wallet' | 'stripe';
+    status: 'pending' | 'paid' | 'failed' | 'refunded';
+    payment?: mongoose.Types.ObjectId;
+  };
+  rescheduledAt: Date;
+  rescheduledBy: mongoose.Types.ObjectId;
+  reason?: string;
+}
+
+// A move to a pricier slot, made once the price difference is paid
+export interface IBookingPendingReschedule extends IBookingReschedule {
+  date: Date;
+  returnDate?: Date;
+  timeSlot?: {
+    start: string;
+    end: string;
+  };
+  resource?: mongoose.Types.ObjectId;
+  subtotalPrice: number;
+  priceBreakdown?: IBookingPriceLine[];
+}
+
+// Signed QR code the customer shows on arrival, and when staff scanned it.
+// Not to be confused with checkIn, which records a rental being returned.
+export interface IBookingCheckInPass {
+  token: string;
+  expiresAt: Date;
+  checkedInAt?: Date;
+  checkedInBy?: mongoose.Types.ObjectId;
+}
+
+// Someone sharing the cost of a group booking. The organiser (the booking's
+// user) is a participant too and pays whatever the others do not.
+export interface IBookingParticipant {
+  _id: mongoose.Types.ObjectId;
+  user?: mongoose.Types.ObjectId;
+  email: string;
+  name?: string;
+  isOrganiser: boolean;
+  // Amount owed, in USD like booking prices
+  share: number;
+  // 'covered' shares were not paid in time and were charged to the organiser
+  status: 'pending' | 'paid' | 'covered';
+  payment?: mongoose.Types.ObjectId;
+  paidAt?: Date;
+}
 
 export interface IBooking extends Document {
   user: mongoose.Types.ObjectId;
   itemType: 'venue' | 'equipment' | 'tutorial';
   venue?: mongoose.Types.ObjectId;
+  resource?: mongoose.Types.ObjectId;
   equipment?: mongoose.Types.ObjectId[];
+  equipmentItems?: {
+    equipment: mongoose.Types.ObjectId;
+    quantity: number;
+  }[];
   tutorial?: mongoose.Types.ObjectId;
   date: Date;
+  returnDate?: Date;
   timeSlot?: {
     start: string;
     end: string;
   };
-  status: 'pending' | 'confirmed' | 'canceled' | 'completed';
+  status: 'pending' | 'confirmed' | 'canceled' | 'completed' | 'no_show';
   paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
   paymentMethod?: 'stripe' | 'paypal' | 'wallet';
   discountCode?: string;
   discountAmount?: number;
   subtotalPrice: number;
   totalPrice: number;
+  priceBreakdown?: IBookingPriceLine[];
   notes?: string;
+  series?: mongoose.Types.ObjectId;
+  venuePackage?: mongoose.Types.ObjectId;
+  packageGroup?: mongoose.Types.ObjectId;
+  packageDiscount?: number;
+  checkOut?: IRentalInspection;
+  checkIn?: IRentalCheckIn;
+  deposit?: IRentalDeposit;
+  checkInPass?: IBookingCheckInPass;
+  holdExpiresAt?: Date;
+  rescheduleHistory: IBookingReschedule[];
+  pendingReschedule?: IBookingPendingReschedule;
+  splitMethod?: 'even' | 'custom';
+  participants: IBookingParticipant[];
+  metadata?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const RentalInspectionFields = {
+  at: {
+    type: Date,
+    required: true,
+  },
+  by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  items: [
+    {
+      _id: false,
+      equipment: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Equipment',
+        required: true,
+      },
+      condition: {
+        type: String,
+        enum: EQUIPMENT_CONDITIONS,
+        required: true,
+      },
+    },
+  ],
+  photos: [String],
+  notes: String,
+};
+
+const RentalCheckOutSchema = new Schema<IRentalInspection>(RentalInspectionFields, { _id: false });
+
+const RentalCheckInSchema = new Schema<IRentalCheckIn>(
+  {
+    ...RentalInspectionFields,
+    daysLate: {
+      type: Number,
+      default: 0,
+    },
+    lateFee: {
+      type: Number,
+      default: 0,
+    },
+    damageCharge: {
+      type: Number,
+      default: 0,
+      min: [0, 'Damage charge cannot be negative'],
+    },
+    // Part of the late fee and damage charge taken from the security deposit
+    depositDeduction: {
+      type: Number,
+      default: 0,
+    },
+    charge: {
+      amount: Number,
+      currency: String,
+      paymentMethod: {
+        type: String,
+        enum: ['wallet', 'stripe'],
+      },
+      status: {
+        type: String,
+        enum: ['pending', 'paid', 'failed'],
+      },
+      payment: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Payment',
+      },
+    },
+  },
+  { _id: false }
+);
+
+const RentalDepositSchema = new Schema<IRentalDeposit>(
+  {
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Deposit cannot be negative'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'held', 'released', 'partially_released', 'captured', 'failed'],
+      default: 'pending',
+    },
+    paymentMethod: {
+      type: String,
+      enum: ['wallet', 'stripe'],
+    },
+    payment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment',
+    },
+    releasedAmount: Number,
+    deductedAmount: Number,
+    settledAt: Date,
+    noShowAmount: Number,
+  },
+  { _id: false }
+);
+
+const BookingCheckInPassSchema = new Schema<IBookingCheckInPass>(
+  {
+    token: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    checkedInAt: Date,
+    checkedInBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  { _id: false }
+);
+
+const BookingPriceLineSchema = new Schema<IBookingPriceLine>(
+  {
+    start: String,
+    end: String,
+    minutes: Number,
+    baseRate: Number,
+    rate: Number,
+    rules: [String],
+    amount: Number,
+  },
+  { _id: false }
+);
+
+const BookingRescheduleFields = {
+  previousDate: {
+    type: Date,
+    required: true,
+  },
+  previousReturnDate: Date,
+  previousTimeSlot: {
+    start: String,
+    end: String,
+  },
+  previousResource: {
+    type: mongoose.Schema.Types.ObjectId,
+  },
+  previousTotalPrice: {
+    type: Number,
+    required: true,
+  },
+  newTotalPrice: {
+    type: Number,
+    required: true,
+  },
+  priceDifference: {
+    type: Number,
+    default: 0,
+  },
+  charge: {
+    paymentMethod: {
+      type: String,
+      enum: ['wallet', 'stripe'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'paid', 'failed', 'refunded'],
+    },
+    payment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment',
+    },
+  },
+  rescheduledAt: {
+    type: Date,
+    required: true,
+  },
+  rescheduledBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  reason: String,
+};
+
+const BookingRescheduleSchema = new Schema<IBookingReschedule>(BookingRescheduleFields, { _id: false });
+
+const BookingPendingRescheduleSchema = new Schema<IBookingPendingReschedule>(
+  {
+    ...BookingRescheduleFields,
+    date: {
+      type: Date,
+      required: true,
+    },
+    returnDate: Date,
+    timeSlot: {
+      start: String,
+      end: String,
+    },
+    resource: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
+    subtotalPrice: {
+      type: Number,
+      required: true,
+    },
+    priceBreakdown: [BookingPriceLineSchema],
+  },
+  { _id: false }
+);
+
+const BookingParticipantSchema = new Schema<IBookingParticipant>({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  email: {
+    type: String,
+    required: [true, 'Participant email is required'],
+    lowercase: true,
+    trim: true,
+  },
+  name: String,
+  isOrganiser: {
+    type: Boolean,
+    default: false,
+  },
+  share: {
+    type: Number,
+    required: [true, 'Participant share is required'],
+    min: [0, 'Participant share cannot be negative'],
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'paid', 'covered'],
+    default: 'pending',
+  },
+  payment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+  },
+  paidAt: Date,
+});
+
 const BookingSchema = new Schema<IBooking>(
   {
     user: {
@@ -42,6 +418,10 @@ const BookingSchema = new Schema<IBooking>(
         return this.itemType === 'venue';
       },
     },
+    // Court or other sub-resource of the venue; unset for whole-venue bookings
+    resource: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
     equipment: {
       type: [mongoose.Schema.Types.ObjectId],
       ref: 'Equipment',
@@ -49,6 +429,23 @@ const BookingSchema = new Schema<IBooking>(
         return this.itemType === 'equipment';
       },
     },
+    // Units rented per equipment line; bookings without lines reserve one unit of each item
+    equipmentItems: [
+      {
+        _id: false,
+        equipment: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'Equipment',
+          required: true,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: [1, 'Quantity must be at least 1'],
+          default: 1,
+        },
+      },
+    ],
     tutorial: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Tutorial',
@@ -56,10 +453,15 @@ const BookingSchema = new Schema<IBooking>(
         return this.itemType === 'tutorial';
       },
     },
+    // For equipment rentals this is the pickup date
     date: {
       type: Date,
       required: [true, 'Date is required'],
     },
+    // Last day of an equipment rental (inclusive); single-day rentals may omit it
+    returnDate: {
+      type: Date,
+    },
     timeSlot: {
       start: String,
       end: String,
@@ -67,7 +469,7 @@ const BookingSchema = new Schema<IBooking>(
     status: {
       type: String,
       required: [true, 'Status is required'],
-      enum: ['pending', 'confirmed', 'canceled', 'completed'],
+      enum: ['pending', 'confirmed', 'canceled', 'completed', 'no_show'],
       default: 'pending',
     },
     paymentStatus: {
@@ -95,9 +497,51 @@ const BookingSchema = new Schema<IBooking>(
       type: Number,
       required: [true, 'Total price is required'],
     },
+    // Hour-by-hour pricing of venue bookings (before any discount)
+    priceBreakdown: [BookingPriceLineSchema],
     notes: {
       type: String,
     },
+    series: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'BookingSeries',
+    },
+    // Bookings made together as a package share a package group id and are
+    // canceled together; packageDiscount is this booking's part of the saving
+    venuePackage: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Package',
+    },
+    packageGroup: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
+    packageDiscount: {
+      type: Number,
+    },
+    // Equipment rentals only: hand-over to the customer and return
+    checkOut: RentalCheckOutSchema,
+    checkIn: RentalCheckInSchema,
+    deposit: RentalDepositSchema,
+    // Arrival check-in by scanning the booking's QR code
+    checkInPass: BookingCheckInPassSchema,
+    // Unpaid bookings are released when the checkout hold runs out
+    holdExpiresAt: {
+      type: Date,
+    },
+    // Earlier dates and slots of a booking that has been moved, oldest first
+    rescheduleHistory: [BookingRescheduleSchema],
+    pendingReschedule: BookingPendingRescheduleSchema,
+    // Group bookings: the price is split between participants and the booking
+    // is only confirmed once every share is paid
+    splitMethod: {
+      type: String,
+      enum: ['even', 'custom'],
+    },
+    participants: [BookingParticipantSchema],
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
   },
   {
     timestamps: true,
@@ -107,8 +551,14 @@ const BookingSchema = new Schema<IBooking>(
 // Create index for faster queries
 BookingSchema.index({ user: 1, status: 1 });
 BookingSchema.index({ venue: 1, date: 1 });
+BookingSchema.index({ venue: 1, resource: 1, date: 1 });
 BookingSchema.index({ 'equipment': 1, date: 1 });
 BookingSchema.index({ tutorial: 1, date: 1 });
 BookingSchema.index({ paymentStatus: 1 });
+BookingSchema.index({ series: 1, date: 1 });
+BookingSchema.index({ packageGroup: 1 });
+BookingSchema.index({ status: 1, holdExpiresAt: 1 });
+BookingSchema.index({ 'participants.user': 1 });
+BookingSchema.index({ 'participants.email': 1 });
 
 export default mongoose.model<IBooking>('Booking', BookingSchema); 
\ No newline at end of file
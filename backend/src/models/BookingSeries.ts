@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IBookingSeries extends Document {
+  user: mongoose.Types.ObjectId;
+  venue: mongoose.Types.ObjectId;
+  resource?: mongoose.Types.ObjectId;
+  timeSlot: {
+    start: string;
+    end: string;
+  };
+  startDate: Date;
+  recurrence: {
+    frequency: 'WEEKLY';
+    interval: number;
+    count?: number;
+    until?: Date;
+  };
+  rrule: string;
+  occurrenceCount: number;
+  status: 'active' | 'canceled';
+  notes?: string;
+  canceledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingSeriesSchema = new Schema<IBookingSeries>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    venue: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Venue',
+      required: [true, 'Venue is required'],
+    },
+    resource: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
+    timeSlot: {
+      start: {
+        type: String,
+        required: true,
+      },
+      end: {
+        type: String,
+        required: true,
+      },
+    },
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    recurrence: {
+      frequency: {
+        type: String,
+        enum: ['WEEKLY'],
+        default: 'WEEKLY',
+      },
+      interval: {
+        type: Number,
+        enum: [1, 2],
+        default: 1,
+      },
+      count: Number,
+      until: Date,
+    },
+    rrule: {
+      type: String,
+      required: true,
+    },
+    occurrenceCount: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['active', 'canceled'],
+      default: 'active',
+    },
+    notes: {
+      type: String,
+    },
+    canceledAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+BookingSeriesSchema.index({ user: 1, status: 1 });
+BookingSeriesSchema.index({ venue: 1 });
+
+export default mongoose.model<IBookingSeries>('BookingSeries', BookingSeriesSchema);
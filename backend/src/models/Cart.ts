@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICartItem {
+  _id: mongoose.Types.ObjectId;
+  itemType: 'venue' | 'equipment' | 'tutorial' | 'package';
+  venue?: mongoose.Types.ObjectId;
+  venuePackage?: mongoose.Types.ObjectId;
+  resourceId?: string; // court id or 'any'
+  equipmentItems?: {
+    equipment: mongoose.Types.ObjectId;
+    quantity: number;
+  }[];
+  tutorial?: mongoose.Types.ObjectId;
+  date?: Date;
+  returnDate?: Date;
+  timeSlot?: {
+    start: string;
+    end: string;
+  };
+  notes?: string;
+  addedAt: Date;
+}
+
+export interface ICart extends Document {
+  user: mongoose.Types.ObjectId;
+  items: mongoose.Types.DocumentArray<ICartItem & mongoose.Types.Subdocument>;
+  discountCode?: string;
+  // Payment of a checkout still waiting for the card to be confirmed
+  pendingPayment?: mongoose.Types.ObjectId;
+  // When the checkout running on this cart started; only one runs at a time
+  checkoutStartedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CartItemSchema = new Schema<ICartItem>({
+  itemType: {
+    type: String,
+    required: [true, 'Item type is required'],
+    enum: ['venue', 'equipment', 'tutorial', 'package'],
+  },
+  venue: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Venue',
+    required: function(this: ICartItem) {
+      return this.itemType === 'venue';
+    },
+  },
+  // A venue slot with equipment for the same day, booked together
+  venuePackage: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Package',
+    required: function(this: ICartItem) {
+      return this.itemType === 'package';
+    },
+  },
+  resourceId: {
+    type: String,
+  },
+  equipmentItems: [
+    {
+      _id: false,
+      equipment: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Equipment',
+        required: true,
+      },
+      quantity: {
+        type: Number,
+        required: true,
+        min: [1, 'Quantity must be at least 1'],
+        default: 1,
+      },
+    },
+  ],
+  tutorial: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Tutorial',
+    required: function(this: ICartItem) {
+      return this.itemType === 'tutorial';
+    },
+  },
+  // Booking date for venues and packages, pickup date for equipment; unused for tutorials
+  date: {
+    type: Date,
+    required: function(this: ICartItem) {
+      return this.itemType !== 'tutorial';
+    },
+  },
+  returnDate: {
+    type: Date,
+  },
+  timeSlot: {
+    start: String,
+    end: String,
+  },
+  notes: {
+    type: String,
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const CartSchema = new Schema<ICart>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+      unique: true,
+    },
+    items: [CartItemSchema],
+    discountCode: {
+      type: String,
+    },
+    pendingPayment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment',
+    },
+    checkoutStartedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<ICart>('Cart', CartSchema);
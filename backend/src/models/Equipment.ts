@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export const EQUIPMENT_CONDITIONS = ['New', 'Like New', 'Good', 'Fair', 'Poor'] as const;
+
+export type EquipmentCondition = typeof EQUIPMENT_CONDITIONS[number];
+
 export interface IEquipment extends Document {
   name: string;
   description: string;
@@ -8,9 +12,12 @@ export interface IEquipment extends Document {
   model: string;
   images: string[];
   sportType: string;
-  condition: 'New' | 'Like New' | 'Good' | 'Fair' | 'Poor';
+  condition: EquipmentCondition;
   purchasePrice: number;
   rentalPriceDaily: number;
+  rentalPriceWeekly?: number;
+  lateFeeDaily?: number;
+  depositAmount?: number;
   availability: 'In Stock' | 'Low Stock' | 'Out of Stock' | 'Discontinued';
   quantity: number;
   specifications: Record<string, any>;
@@ -52,7 +59,7 @@ const EquipmentSchema = new Schema<IEquipment>(
     condition: {
       type: String,
       required: [true, 'Condition is required'],
-      enum: ['New', 'Like New', 'Good', 'Fair', 'Poor'],
+      enum: EQUIPMENT_CONDITIONS,
     },
     purchasePrice: {
       type: Number,
@@ -62,6 +69,21 @@ const EquipmentSchema = new Schema<IEquipment>(
       type: Number,
       required: [true, 'Rental price is required'],
     },
+    // Discounted price for each full week of a rental; daily price applies when unset
+    rentalPriceWeekly: {
+      type: Number,
+      min: [0, 'Weekly rental price cannot be negative'],
+    },
+    // Charged per unit for each day a rental is returned late; daily price applies when unset
+    lateFeeDaily: {
+      type: Number,
+      min: [0, 'Late fee cannot be negative'],
+    },
+    // Refundable security deposit held per rented unit
+    depositAmount: {
+      type: Number,
+      min: [0, 'Deposit cannot be negative'],
+    },
     availability: {
       type: String,
       enum: ['In Stock', 'Low Stock', 'Out of Stock', 'Discontinued'],
@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Exchange rates as fetched from the rate provider at one point in time.
+ * A new record is kept whenever the rates change, so conversions and prices
+ * can refer back to the rates they used.
+ */
+export interface IExchangeRate extends Document {
+  // Currency the rates are quoted against
+  base: string;
+  // Units of each currency one unit of the base currency buys
+  rates: Map<string, number>;
+  // Name of the provider the rates came from
+  provider: string;
+  createdAt: Date;
+}
+
+const ExchangeRateSchema = new Schema<IExchangeRate>(
+  {
+    base: {
+      type: String,
+      required: true,
+    },
+    rates: {
+      type: Map,
+      of: Number,
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+ExchangeRateSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IExchangeRate>('ExchangeRate', ExchangeRateSchema);
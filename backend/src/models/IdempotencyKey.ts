@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A client-supplied `Idempotency-Key` and the response to the first request
+ * made with it, replayed when the same request is sent again. Removed once
+ * it expires.
+ */
+export interface IIdempotencyKey extends Document {
+  key: string;
+  user: mongoose.Types.ObjectId;
+  method: string;
+  path: string;
+  // Hash of the method, path and body, to spot a key reused for another request
+  requestHash: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['processing', 'completed'],
+      default: 'processing',
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Keys belong to the user who sent them
+IdempotencyKeySchema.index({ user: 1, key: 1 }, { unique: true });
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
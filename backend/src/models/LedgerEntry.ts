@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { roundToCents } from '../utils/money';
+
+// What a journal entry records; wallet statements are built from these
+export const LEDGER_ENTRY_KINDS = [
+  'funding',
+  'payment',
+  'refund',
+  'transfer',
+  'deposit_hold',
+  'deposit_release',
+  'deposit_deduction',
+  'withdrawal_hold',
+  'withdrawal_release',
+  'withdrawal',
+  'conversion',
+  'opening_balance'
+] as const;
+export type LedgerEntryKind = typeof LEDGER_ENTRY_KINDS[number];
+
+export interface ILedgerLine {
+  // Account name, such as `wallet:<userId>` or `platform:revenue`
+  account: string;
+  currency: string;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * An immutable double-entry journal entry. Its lines debit and credit
+ * accounts by the same total in every currency, so money only ever moves
+ * between accounts. Entries are never updated or deleted: mistakes are
+ * corrected with a new entry.
+ */
+export interface ILedgerEntry extends Document {
+  kind: LedgerEntryKind;
+  description: string;
+  // Payment, booking or other record the entry belongs to
+  reference?: string;
+  // Owner of the wallet the entry touches, for statements
+  user?: mongoose.Types.ObjectId;
+  lines: ILedgerLine[];
+  metadata?: Record<string, any>;
+  createdAt: Date;
+}
+
+const LedgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    kind: {
+      type: String,
+      enum: LEDGER_ENTRY_KINDS,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    reference: {
+      type: String,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    lines: {
+      type: [
+        {
+          _id: false,
+          account: { type: String, required: true },
+          currency: { type: String, required: true },
+          debit: { type: Number, default: 0, min: 0 },
+          credit: { type: Number, default: 0, min: 0 },
+        },
+      ],
+      validate: {
+        validator: (lines: ILedgerLine[]) => {
+          if (lines.length < 2) {
+            return false;
+          }
+          const totals = new Map<string, number>();
+          for (const line of lines) {
+            totals.set(line.currency, (totals.get(line.currency) || 0) + line.debit - line.credit);
+          }
+          return [...totals.values()].every(total => roundToCents(total) === 0);
+        },
+        message: 'Ledger entry debits and credits must balance in every currency',
+      },
+    },
+    metadata: {
+      type: Object,
+      default: {},
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+LedgerEntrySchema.index({ 'lines.account': 1, createdAt: -1 });
+LedgerEntrySchema.index({ user: 1, createdAt: -1 });
+
+LedgerEntrySchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Ledger entries cannot be changed once posted'));
+  }
+  next();
+});
+
+// The journal is append-only
+const rejectChange = function (next: (error?: Error) => void) {
+  next(new Error('Ledger entries cannot be changed once posted'));
+};
+LedgerEntrySchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectChange
+);
+LedgerEntrySchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+
+export default mongoose.model<ILedgerEntry>('LedgerEntry', LedgerEntrySchema);
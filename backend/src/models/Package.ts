@@ -0,0 +1,99 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// How a package is priced: a fixed price for everything in it, or a
+// percentage off what its venue slot and equipment would cost separately
+export const PACKAGE_PRICING_TYPES = ['bundle_price', 'percentage_off'] as const;
+export type PackagePricingType = typeof PACKAGE_PRICING_TYPES[number];
+
+/**
+ * A venue slot sold together with equipment rented for the same day, such as
+ * a tennis court with rackets and balls. Booking a package creates a venue
+ * booking and an equipment booking linked by a shared package group id.
+ */
+export interface IPackage extends Document {
+  name: string;
+  description?: string;
+  venue: mongoose.Types.ObjectId;
+  // Always booked on this court; any free court (or the whole venue) when unset
+  resource?: mongoose.Types.ObjectId;
+  equipmentItems: {
+    equipment: mongoose.Types.ObjectId;
+    quantity: number;
+  }[];
+  pricingType: PackagePricingType;
+  // The package price for bundle_price, or the percentage off for percentage_off
+  value: number;
+  isActive: boolean;
+  creator: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PackageSchema = new Schema<IPackage>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Package name is required'],
+      trim: true,
+    },
+    description: {
+      type: String,
+    },
+    venue: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Venue',
+      required: [true, 'Venue is required'],
+    },
+    resource: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
+    equipmentItems: {
+      type: [
+        {
+          _id: false,
+          equipment: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Equipment',
+            required: true,
+          },
+          quantity: {
+            type: Number,
+            required: true,
+            min: [1, 'Quantity must be at least 1'],
+            default: 1,
+          },
+        },
+      ],
+      validate: {
+        validator: (items: unknown[]) => items.length > 0,
+        message: 'A package needs at least one equipment item',
+      },
+    },
+    pricingType: {
+      type: String,
+      enum: PACKAGE_PRICING_TYPES,
+      required: [true, 'Pricing type is required'],
+    },
+    value: {
+      type: Number,
+      required: [true, 'Package price or percentage is required'],
+      min: [0, 'Package price or percentage cannot be negative'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    creator: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PackageSchema.index({ venue: 1, isActive: 1 });
+
+export default mongoose.model<IPackage>('Package', PackageSchema);
@@ -5,9 +5,11 @@ import { IBooking } from './Booking';
 export interface IPayment extends Document {
   user: IUser['_id'];
   booking?: IBooking['_id'];
+  bookings?: mongoose.Types.ObjectId[];
+  purchases?: mongoose.Types.ObjectId[];
   amount: number;
   currency: string;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  status: 'pending' | 'authorized' | 'completed' | 'failed' | 'refunded';
   paymentMethod: 'stripe' | 'paypal' | 'wallet' | 'card';
   stripePaymentId?: string;
   paypalPaymentId?: string;
@@ -42,7 +44,8 @@ const PaymentSchema: Schema = new Schema(
     status: {
       type: String,
       required: true,
-      enum: ['pending', 'completed', 'failed', 'refunded'],
+      // authorized: funds held (e.g. a security deposit) but not yet taken
+      enum: ['pending', 'authorized', 'completed', 'failed', 'refunded'],
       default: 'pending',
     },
     paymentMethod: {
@@ -56,6 +59,19 @@ const PaymentSchema: Schema = new Schema(
     paypalPaymentId: {
       type: String,
     },
+    // Everything paid for together by one cart checkout
+    bookings: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Booking',
+      },
+    ],
+    purchases: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Purchase',
+      },
+    ],
     itemType: {
       type: String,
       enum: ['venue', 'equipment', 'tutorial'],
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * One 15-minute block of a venue (or one of its courts) reserved while a
+ * customer checks out. The unique index means two checkouts can never hold
+ * the same block, however close together they start.
+ */
+export interface ISlotHold extends Document {
+  venue: mongoose.Types.ObjectId;
+  resource: mongoose.Types.ObjectId | null; // null for venues booked as a whole, which hold every court too
+  date: Date;
+  blockStart: number; // minutes since midnight
+  booking: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SlotHoldSchema = new Schema<ISlotHold>(
+  {
+    venue: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Venue',
+      required: true,
+    },
+    resource: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    blockStart: {
+      type: Number,
+      required: true,
+    },
+    booking: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Booking',
+      required: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SlotHoldSchema.index({ venue: 1, resource: 1, date: 1, blockStart: 1 }, { unique: true });
+SlotHoldSchema.index({ booking: 1 });
+SlotHoldSchema.index({ expiresAt: 1 });
+
+export default mongoose.model<ISlotHold>('SlotHold', SlotHoldSchema);
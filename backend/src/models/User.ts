@@ -9,6 +9,11 @@ export interface IUser extends Document {
   authProvider?: 'local' | 'google';
   profilePicture?: string;
   isEmailVerified?: boolean;
+  // Confirmed bookings the user did not turn up for, and the booking suspension they led to
+  noShowCount: number;
+  bookingSuspendedUntil?: Date;
+  // Secret token in the user's calendar feed URL (not selected by default)
+  calendarFeedToken?: string;
   profile?: {
     avatar?: string;
     bio?: string;
@@ -62,6 +67,18 @@ const UserSchema = new Schema<IUser>({
     type: Boolean,
     default: false
   },
+  noShowCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  bookingSuspendedUntil: Date,
+  calendarFeedToken: {
+    type: String,
+    unique: true,
+    sparse: true,
+    select: false
+  },
   profile: {
     avatar: String,
     bio: String,
@@ -1,5 +1,59 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface IVenueResource {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  sportType: string;
+  pricePerHour?: number;
+  capacity?: number;
+  // Changeover time around bookings of this court; the venue's when unset
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  // Falls back to the venue's opening hours when empty
+  availableTimeSlots: {
+    day: string;
+    openTime: string;
+    closeTime: string;
+  }[];
+  isActive: boolean;
+}
+
+// A one-off change to the opening hours on a single date: closed all day
+// (holiday, maintenance, private event) or open at other times
+export interface IVenueDateException {
+  _id: mongoose.Types.ObjectId;
+  date: Date;
+  // Only this court is affected; the whole venue when unset
+  resource?: mongoose.Types.ObjectId;
+  isClosed: boolean;
+  openTime?: string;
+  closeTime?: string;
+  reason?: string;
+  createdBy?: mongoose.Types.ObjectId;
+}
+
+// How a pricing rule changes the hourly rate of the hours it matches
+export const PRICING_ADJUSTMENTS = ['set_rate', 'multiplier', 'surcharge'] as const;
+export type PricingAdjustment = typeof PRICING_ADJUSTMENTS[number];
+
+// A pricing rule evaluated for every hour of a booking, such as a weekend rate,
+// an evening peak surcharge, an early-bird discount or a seasonal price. Every
+// condition that is set must match; unset conditions match any hour.
+export interface IVenuePricingRule {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  // Only hours on this court; every court and the whole venue when unset
+  resource?: mongoose.Types.ObjectId;
+  days: string[];
+  startTime?: string;
+  endTime?: string;
+  startDate?: Date;
+  endDate?: Date;
+  adjustment: PricingAdjustment;
+  value: number;
+  isActive: boolean;
+}
+
 export interface IVenue extends Document {
   name: string;
   description: string;
@@ -12,11 +66,19 @@ export interface IVenue extends Document {
   amenities: string[];
   pricePerHour: number;
   capacity: number;
+  minBookingMinutes: number;
+  slotGranularityMinutes: number;
+  // Changeover time kept free before and after each booking (cleaning, setup); not charged
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
   availableTimeSlots: {
     day: string;
     openTime: string;
     closeTime: string;
   }[];
+  resources: IVenueResource[];
+  dateExceptions: IVenueDateException[];
+  pricingRules: IVenuePricingRule[];
   rules: string[];
   contactInfo: {
     phone: string;
@@ -25,10 +87,133 @@ export interface IVenue extends Document {
   };
   rating: number;
   creator: mongoose.Types.ObjectId;
+  // Secret token in the venue's calendar feed URL (not selected by default)
+  calendarFeedToken?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const TimeSlotSchema = new Schema(
+  {
+    day: {
+      type: String,
+      required: true,
+      enum: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+    },
+    openTime: {
+      type: String,
+      required: true,
+    },
+    closeTime: {
+      type: String,
+      required: true,
+    },
+  }
+);
+
+// A separately bookable court, pitch or lane inside a venue
+const VenueResourceSchema = new Schema<IVenueResource>({
+  name: {
+    type: String,
+    required: [true, 'Resource name is required'],
+    trim: true,
+  },
+  sportType: {
+    type: String,
+    required: [true, 'Resource sport type is required'],
+  },
+  pricePerHour: {
+    type: Number,
+    min: [0, 'Price per hour cannot be negative'],
+  },
+  capacity: {
+    type: Number,
+  },
+  bufferBeforeMinutes: {
+    type: Number,
+    min: [0, 'Buffer time cannot be negative'],
+  },
+  bufferAfterMinutes: {
+    type: Number,
+    min: [0, 'Buffer time cannot be negative'],
+  },
+  availableTimeSlots: [TimeSlotSchema],
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+});
+
+const VenueDateExceptionSchema = new Schema<IVenueDateException>({
+  // Stored at UTC midnight, like booking dates
+  date: {
+    type: Date,
+    required: [true, 'Exception date is required'],
+  },
+  resource: {
+    type: mongoose.Schema.Types.ObjectId,
+  },
+  isClosed: {
+    type: Boolean,
+    default: true,
+  },
+  openTime: {
+    type: String,
+    required: function(this: IVenueDateException) {
+      return !this.isClosed;
+    },
+  },
+  closeTime: {
+    type: String,
+    required: function(this: IVenueDateException) {
+      return !this.isClosed;
+    },
+  },
+  reason: {
+    type: String,
+    trim: true,
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+});
+
+const VenuePricingRuleSchema = new Schema<IVenuePricingRule>({
+  name: {
+    type: String,
+    required: [true, 'Pricing rule name is required'],
+    trim: true,
+  },
+  resource: {
+    type: mongoose.Schema.Types.ObjectId,
+  },
+  days: [{
+    type: String,
+    enum: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+  }],
+  // Time of day the rule applies from (inclusive) and until (exclusive)
+  startTime: String,
+  endTime: String,
+  // Seasonal rules apply between these dates (inclusive, stored at UTC midnight)
+  startDate: Date,
+  endDate: Date,
+  adjustment: {
+    type: String,
+    enum: PRICING_ADJUSTMENTS,
+    required: [true, 'Pricing adjustment is required'],
+  },
+  value: {
+    type: Number,
+    required: [true, 'Pricing rule value is required'],
+    min: [0, 'Pricing rule value cannot be negative'],
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+});
+
 const VenueSchema = new Schema<IVenue>(
   {
     name: {
@@ -70,23 +255,32 @@ const VenueSchema = new Schema<IVenue>(
       type: Number,
       required: [true, 'Capacity is required'],
     },
-    availableTimeSlots: [
-      {
-        day: {
-          type: String,
-          required: true,
-          enum: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
-        },
-        openTime: {
-          type: String,
-          required: true,
-        },
-        closeTime: {
-          type: String,
-          required: true,
-        },
-      },
-    ],
+    minBookingMinutes: {
+      type: Number,
+      default: 60,
+      min: [15, 'Minimum booking length must be at least 15 minutes'],
+    },
+    slotGranularityMinutes: {
+      type: Number,
+      default: 60,
+      enum: [15, 30, 60],
+    },
+    bufferBeforeMinutes: {
+      type: Number,
+      default: 0,
+      min: [0, 'Buffer time cannot be negative'],
+    },
+    bufferAfterMinutes: {
+      type: Number,
+      default: 0,
+      min: [0, 'Buffer time cannot be negative'],
+    },
+    availableTimeSlots: [TimeSlotSchema],
+    resources: [VenueResourceSchema],
+    // Closures and special opening hours on particular dates, overriding availableTimeSlots
+    dateExceptions: [VenueDateExceptionSchema],
+    // Rate changes for particular days, times or seasons, on top of pricePerHour
+    pricingRules: [VenuePricingRuleSchema],
     rules: [String],
     contactInfo: {
       phone: {
@@ -108,6 +302,12 @@ const VenueSchema = new Schema<IVenue>(
       ref: 'User',
       required: [true, 'Creator is required']
     },
+    calendarFeedToken: {
+      type: String,
+      unique: true,
+      sparse: true,
+      select: false,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWaitlistOffer {
+  booking: mongoose.Types.ObjectId; // pending booking reserved for the customer
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+export interface IWaitlistEntry extends Document {
+  user: mongoose.Types.ObjectId;
+  itemType: 'venue' | 'equipment';
+  venue?: mongoose.Types.ObjectId;
+  resourceId?: string; // court id or 'any'
+  equipmentItems?: {
+    equipment: mongoose.Types.ObjectId;
+    quantity: number;
+  }[];
+  date: Date;
+  returnDate?: Date;
+  timeSlot?: {
+    start: string;
+    end: string;
+  };
+  notes?: string;
+  status: 'waiting' | 'offered' | 'accepted' | 'expired' | 'canceled';
+  offer?: IWaitlistOffer;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistOfferSchema = new Schema<IWaitlistOffer>(
+  {
+    booking: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Booking',
+      required: true,
+    },
+    offeredAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+    },
+    itemType: {
+      type: String,
+      required: [true, 'Item type is required'],
+      enum: ['venue', 'equipment'],
+    },
+    venue: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Venue',
+      required: function(this: IWaitlistEntry) {
+        return this.itemType === 'venue';
+      },
+    },
+    resourceId: {
+      type: String,
+    },
+    equipmentItems: [
+      {
+        _id: false,
+        equipment: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'Equipment',
+          required: true,
+        },
+        quantity: {
+          type: Number,
+          required: true,
+          min: [1, 'Quantity must be at least 1'],
+          default: 1,
+        },
+      },
+    ],
+    // Booking date for venues, pickup date for equipment
+    date: {
+      type: Date,
+      required: [true, 'Date is required'],
+    },
+    returnDate: {
+      type: Date,
+    },
+    timeSlot: {
+      start: String,
+      end: String,
+    },
+    notes: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['waiting', 'offered', 'accepted', 'expired', 'canceled'],
+      default: 'waiting',
+    },
+    offer: WaitlistOfferSchema,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// First come, first served per venue or item and date
+WaitlistEntrySchema.index({ venue: 1, date: 1, status: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ 'equipmentItems.equipment': 1, status: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ user: 1, status: 1 });
+WaitlistEntrySchema.index({ 'offer.booking': 1 });
+
+export default mongoose.model<IWaitlistEntry>('WaitlistEntry', WaitlistEntrySchema);
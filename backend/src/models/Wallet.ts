@@ -1,22 +1,16 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IUser } from './User';
 
+/**
+ * A user's wallet. `balance` and `heldBalance` are kept in step with the
+ * wallet's accounts in the ledger (see utils/walletLedger), which holds its
+ * transaction history.
+ */
 export interface IWallet extends Document {
   user: IUser['_id'];
   balance: number;
+  heldBalance: number;
   currency: string;
-  transactions: Array<{
-    amount: number;
-    type: 'credit' | 'debit' | 'conversion';
-    description: string;
-    reference?: string;
-    createdAt: Date;
-    metadata?: {
-      originalAmount?: number;
-      originalCurrency?: string;
-      [key: string]: any;
-    };
-  }>;
   metadata?: {
     originalUsdBalance?: number;
     [key: string]: any;
@@ -38,6 +32,11 @@ const WalletSchema: Schema = new Schema(
       required: true,
       default: 0,
     },
+    // Funds set aside for security deposits and withdrawals; not part of the spendable balance
+    heldBalance: {
+      type: Number,
+      default: 0,
+    },
     currency: {
       type: String,
       required: true,
@@ -47,34 +46,6 @@ const WalletSchema: Schema = new Schema(
       type: Object,
       default: {},
     },
-    transactions: [
-      {
-        amount: {
-          type: Number,
-          required: true,
-        },
-        type: {
-          type: String,
-          enum: ['credit', 'debit', 'conversion'],
-          required: true,
-        },
-        description: {
-          type: String,
-          required: true,
-        },
-        reference: {
-          type: String,
-        },
-        createdAt: {
-          type: Date,
-          default: Date.now,
-        },
-        metadata: {
-          type: Object,
-          default: {},
-        },
-      },
-    ],
   },
   { timestamps: true }
 );
@@ -0,0 +1,112 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const WITHDRAWAL_STATUSES = ['pending', 'processing', 'paid', 'rejected', 'canceled', 'failed'] as const;
+export type WithdrawalStatus = typeof WITHDRAWAL_STATUSES[number];
+
+// One Stripe refund paying out part of a withdrawal
+export interface IWithdrawalPayout {
+  // Wallet funding payment the refund is made against
+  payment: mongoose.Types.ObjectId;
+  stripePaymentId: string;
+  stripeRefundId: string;
+  // In the funding payment's currency
+  amount: number;
+  currency: string;
+  // The same amount in the wallet's currency
+  walletAmount: number;
+  // Rate the wallet amount was converted to the payment's currency with
+  exchangeRate: number;
+  exchangeRateId?: string;
+  status: 'succeeded' | 'pending' | 'failed';
+}
+
+/**
+ * A user's request to take money out of their wallet. The amount is held
+ * from the spendable balance until an admin approves it, when it is paid
+ * back to the cards that funded the wallet as Stripe refunds, or rejects it.
+ */
+export interface IWalletWithdrawal extends Document {
+  user: mongoose.Types.ObjectId;
+  // In the wallet's currency when requested
+  amount: number;
+  currency: string;
+  status: WithdrawalStatus;
+  reason?: string;
+  // How much was paid out, less than `amount` if some refunds failed
+  paidAmount: number;
+  payouts: IWithdrawalPayout[];
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  adminNotes?: string;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WalletWithdrawalSchema = new Schema<IWalletWithdrawal>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0.01,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: WITHDRAWAL_STATUSES,
+      default: 'pending',
+    },
+    reason: {
+      type: String,
+      maxlength: 500,
+    },
+    paidAmount: {
+      type: Number,
+      default: 0,
+    },
+    payouts: [
+      {
+        _id: false,
+        payment: { type: mongoose.Schema.Types.ObjectId, ref: 'Payment', required: true },
+        stripePaymentId: { type: String, required: true },
+        stripeRefundId: { type: String, required: true },
+        amount: { type: Number, required: true },
+        currency: { type: String, required: true },
+        walletAmount: { type: Number, required: true },
+        exchangeRate: { type: Number, default: 1 },
+        exchangeRateId: { type: String },
+        status: { type: String, enum: ['succeeded', 'pending', 'failed'], default: 'pending' },
+      },
+    ],
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    adminNotes: {
+      type: String,
+    },
+    failureReason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+WalletWithdrawalSchema.index({ user: 1, createdAt: -1 });
+WalletWithdrawalSchema.index({ status: 1, createdAt: 1 });
+WalletWithdrawalSchema.index({ 'payouts.stripeRefundId': 1 });
+
+export default mongoose.model<IWalletWithdrawal>('WalletWithdrawal', WalletWithdrawalSchema);
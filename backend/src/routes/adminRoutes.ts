@@ -1,7 +1,9 @@
 import express, { Request, Response } from 'express';
 import { protect, admin } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
 import adminBookingController from '../controllers/adminBookingController';
 import adminController from '../controllers/adminController';
+import equipmentRentalController from '../controllers/equipmentRentalController';
 
 const router = express.Router();
 
@@ -19,4 +21,11 @@ router.post('/migrate-data', adminController.migrateData);
 router.get('/bookings', adminBookingController.getAdminBookings);
 router.patch('/booking-status', adminBookingController.updateBookingStatus);
 
+// Check customers in by scanning their booking QR code
+router.post('/bookings/scan', adminBookingController.scanCheckInCode);
+
+// Equipment rental hand-over and return
+router.post('/bookings/:id/check-out', idempotent, equipmentRentalController.checkOutRental);
+router.post('/bookings/:id/check-in', idempotent, equipmentRentalController.checkInRental);
+
 export default router; 
\ No newline at end of file
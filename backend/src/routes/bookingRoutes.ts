@@ -1,6 +1,7 @@
 import express from 'express';
 import {
   createBooking,
+  getBookingQuote,
   getUserBookings,
   getAllBookings,
   getBookingById,
@@ -10,13 +11,31 @@ import {
   updatePaymentStatus,
   handlePaymentSuccess,
   cancelBooking,
+  rescheduleBooking,
+  getCheckInPass,
 } from '../controllers/bookingController';
+import {
+  previewBookingSeries,
+  createBookingSeries,
+  getUserBookingSeries,
+  getBookingSeriesById,
+  cancelBookingSeries,
+} from '../controllers/bookingSeriesController';
+import {
+  setBookingParticipants,
+  getSharedBookings,
+  payBookingShare,
+} from '../controllers/groupBookingController';
 import { protect, admin } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
 
 const router = express.Router();
 
 // @route   POST /api/bookings
-router.post('/', protect, createBooking);
+router.post('/', protect, idempotent, createBooking);
+
+// @route   POST /api/bookings/quote
+router.post('/quote', protect, getBookingQuote);
 
 // @route   GET /api/bookings
 router.get('/', protect, getUserBookings);
@@ -24,14 +43,33 @@ router.get('/', protect, getUserBookings);
 // @route   GET /api/bookings/admin
 router.get('/admin', protect, admin, getAllBookings);
 
+// Recurring booking series (registered before /:id so "series" is not treated as an ID)
+// @route   POST /api/bookings/series/preview
+router.post('/series/preview', protect, previewBookingSeries);
+
+// @route   POST /api/bookings/series
+router.post('/series', protect, idempotent, createBookingSeries);
+
+// @route   GET /api/bookings/series
+router.get('/series', protect, getUserBookingSeries);
+
+// @route   GET /api/bookings/series/:id
+router.get('/series/:id', protect, getBookingSeriesById);
+
+// @route   POST /api/bookings/series/:id/cancel
+router.post('/series/:id/cancel', protect, idempotent, cancelBookingSeries);
+
+// @route   GET /api/bookings/shared
+router.get('/shared', protect, getSharedBookings);
+
 // @route   GET /api/bookings/:id
 router.get('/:id', protect, getBookingById);
 
 // @route   POST /api/bookings/venue
-router.post('/venue', protect, createVenueBooking);
+router.post('/venue', protect, idempotent, createVenueBooking);
 
 // @route   POST /api/bookings/equipment
-router.post('/equipment', protect, createEquipmentBooking);
+router.post('/equipment', protect, idempotent, createEquipmentBooking);
 
 // @route   PATCH /api/bookings/:id/status
 router.patch('/:id/status', protect, updateBookingStatus);
@@ -40,9 +78,21 @@ router.patch('/:id/status', protect, updateBookingStatus);
 router.patch('/:id/payment', protect, admin, updatePaymentStatus);
 
 // Add route for handling successful payments
-router.post('/:id/payment-success', protect, handlePaymentSuccess);
+router.post('/:id/payment-success', protect, idempotent, handlePaymentSuccess);
 
 // Cancel booking
-router.post('/:id/cancel', protect, cancelBooking);
+router.post('/:id/cancel', protect, idempotent, cancelBooking);
+
+// Move booking to another date or time slot
+router.post('/:id/reschedule', protect, idempotent, rescheduleBooking);
+
+// @route   GET /api/bookings/:id/check-in-pass
+router.get('/:id/check-in-pass', protect, getCheckInPass);
+
+// @route   POST /api/bookings/:id/participants
+router.post('/:id/participants', protect, idempotent, setBookingParticipants);
+
+// @route   POST /api/bookings/:id/participants/pay
+router.post('/:id/participants/pay', protect, idempotent, payBookingShare);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  getUserCalendarFeed,
+  getVenueCalendarFeed,
+  getCalendarFeeds,
+  resetCalendarFeed
+} from '../controllers/calendarController';
+import { protect } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// Feeds are read by calendar apps, which authenticate with the secret token in the URL
+router.get('/users/:token.ics', getUserCalendarFeed);
+router.get('/venues/:token.ics', getVenueCalendarFeed);
+
+// Get the user's feed URLs
+router.get('/feeds', protect, getCalendarFeeds);
+
+// Revoke a feed URL and issue a new one
+router.post('/feeds/reset', protect, resetCalendarFeed);
+
+export default router;
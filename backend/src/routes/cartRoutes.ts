@@ -0,0 +1,38 @@
+import express from 'express';
+import {
+  getCart,
+  addCartItem,
+  removeCartItem,
+  clearCart,
+  applyCartDiscount,
+  checkout,
+  confirmCheckout
+} from '../controllers/cartController';
+import { protect } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
+
+const router = express.Router();
+
+// All cart routes require authentication
+router.use(protect);
+
+// Get the cart with current prices
+router.get('/', getCart);
+
+// Empty the cart
+router.delete('/', clearCart);
+
+// Add and remove cart lines
+router.post('/items', addCartItem);
+router.delete('/items/:itemId', removeCartItem);
+
+// Apply a discount code to the whole cart
+router.post('/discount', applyCartDiscount);
+
+// Pay for everything in the cart
+router.post('/checkout', idempotent, checkout);
+
+// Complete a card checkout
+router.post('/checkout/confirm', idempotent, confirmCheckout);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { getCurrencies, getRates, refreshRates } from '../controllers/currencyController';
+import { protect, admin } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// @route   GET /api/currencies
+router.get('/', getCurrencies);
+
+// @route   GET /api/currencies/rates
+router.get('/rates', getRates);
+
+// @route   POST /api/currencies/rates/refresh
+router.post('/rates/refresh', protect, admin, refreshRates);
+
+export default router;
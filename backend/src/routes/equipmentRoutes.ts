@@ -6,6 +6,7 @@ import {
   updateEquipment,
   deleteEquipment,
   updateInventory,
+  getEquipmentAvailability,
 } from '../controllers/equipmentController';
 import { protect, admin } from '../middleware/authMiddleware';
 
@@ -14,6 +15,9 @@ const router = express.Router();
 // @route   GET /api/equipment
 router.get('/', getEquipment);
 
+// @route   GET /api/equipment/:id/availability
+router.get('/:id/availability', getEquipmentAvailability);
+
 // @route   GET /api/equipment/:id
 router.get('/:id', getEquipmentById);
 
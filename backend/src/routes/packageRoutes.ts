@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+  getPackages,
+  getPackageById,
+  getPackageQuote,
+  createPackage,
+  updatePackage,
+  deletePackage
+} from '../controllers/packageController';
+import { protect, admin } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// @route   GET /api/packages
+router.get('/', getPackages);
+
+// @route   GET /api/packages/:id
+router.get('/:id', getPackageById);
+
+// @route   POST /api/packages/:id/quote
+router.post('/:id/quote', protect, getPackageQuote);
+
+// @route   POST /api/packages
+router.post('/', protect, admin, createPackage);
+
+// @route   PUT /api/packages/:id
+router.put('/:id', protect, admin, updatePackage);
+
+// @route   DELETE /api/packages/:id
+router.delete('/:id', protect, admin, deletePackage);
+
+export default router;
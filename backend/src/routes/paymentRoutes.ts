@@ -1,32 +1,31 @@
 import express from 'express';
 import {
   createPayment,
-  handleStripeWebhook,
+  confirmDeposit,
   getPaymentHistory,
   processRefund,
 } from '../controllers/paymentController';
 import { protect, restrictTo } from '../middleware/authMiddleware';
-import bodyParser from 'body-parser';
+import { idempotent } from '../middleware/idempotencyMiddleware';
 
 const router = express.Router();
 
+// The Stripe webhook is mounted in index.ts, ahead of the JSON parser and
+// without authentication, since Stripe signs the raw request body
+
 // Routes that require authentication
 router.use(protect);
 
 // Create a payment intent
-router.post('/', createPayment);
+router.post('/', idempotent, createPayment);
+
+// Mark a card-authorised security deposit as held
+router.post('/deposits/confirm', idempotent, confirmDeposit);
 
 // Get payment history
 router.get('/history', getPaymentHistory);
 
 // Process refund (admin only)
-router.post('/refund', restrictTo('admin'), processRefund);
-
-// Stripe webhook route - needs raw body for signature verification
-router.post(
-  '/webhook',
-  bodyParser.raw({ type: 'application/json' }),
-  handleStripeWebhook
-);
+router.post('/refund', restrictTo('admin'), idempotent, processRefund);
 
 export default router; 
\ No newline at end of file
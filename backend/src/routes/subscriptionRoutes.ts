@@ -6,6 +6,7 @@ import {
   cancelSubscription,
 } from '../controllers/subscriptionController';
 import { protect } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
 
 const router = express.Router();
 
@@ -19,7 +20,7 @@ router.use(protect);
 router.get('/', getUserSubscription);
 
 // Create subscription
-router.post('/', createSubscription);
+router.post('/', idempotent, createSubscription);
 
 // Cancel subscription
 router.post('/cancel', cancelSubscription);
@@ -1,6 +1,7 @@
 import express from 'express';
 import tutorialController from '../controllers/tutorialController';
 import { protect, admin, restrictTo } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
 
 const router = express.Router();
 
@@ -21,10 +22,10 @@ router.get('/:id', tutorialController.getTutorialById);
 router.post('/:id/like', tutorialController.likeTutorial);
 
 // @route   POST /api/tutorials/:id/purchase
-router.post('/:id/purchase', tutorialController.purchaseTutorial);
+router.post('/:id/purchase', idempotent, tutorialController.purchaseTutorial);
 
 // @route   POST /api/tutorials/:id/payment
-router.post('/:id/payment', tutorialController.processTutorialPayment);
+router.post('/:id/payment', idempotent, tutorialController.processTutorialPayment);
 
 // Content creator routes
 // @route   POST /api/tutorials
@@ -5,6 +5,13 @@ import {
   createVenue,
   updateVenue,
   deleteVenue,
+  getVenueAvailability,
+  getVenueExceptions,
+  addVenueException,
+  removeVenueException,
+  getVenuePricingRules,
+  addVenuePricingRule,
+  removeVenuePricingRule,
 } from '../controllers/venueController';
 import { protect, admin } from '../middleware/authMiddleware';
 
@@ -13,6 +20,27 @@ const router = express.Router();
 // @route   GET /api/venues
 router.get('/', getVenues);
 
+// @route   GET /api/venues/:id/availability
+router.get('/:id/availability', getVenueAvailability);
+
+// @route   GET /api/venues/:id/exceptions
+router.get('/:id/exceptions', protect, admin, getVenueExceptions);
+
+// @route   POST /api/venues/:id/exceptions
+router.post('/:id/exceptions', protect, admin, addVenueException);
+
+// @route   DELETE /api/venues/:id/exceptions/:exceptionId
+router.delete('/:id/exceptions/:exceptionId', protect, admin, removeVenueException);
+
+// @route   GET /api/venues/:id/pricing-rules
+router.get('/:id/pricing-rules', protect, admin, getVenuePricingRules);
+
+// @route   POST /api/venues/:id/pricing-rules
+router.post('/:id/pricing-rules', protect, admin, addVenuePricingRule);
+
+// @route   DELETE /api/venues/:id/pricing-rules/:ruleId
+router.delete('/:id/pricing-rules/:ruleId', protect, admin, removeVenuePricingRule);
+
 // @route   GET /api/venues/:id
 router.get('/:id', getVenueById);
 
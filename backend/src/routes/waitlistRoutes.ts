@@ -0,0 +1,23 @@
+import express from 'express';
+import {
+  joinWaitlist,
+  getMyWaitlist,
+  leaveWaitlistEntry
+} from '../controllers/waitlistController';
+import { protect } from '../middleware/authMiddleware';
+
+const router = express.Router();
+
+// All waitlist routes require authentication
+router.use(protect);
+
+// Get user's waitlist entries and offers
+router.get('/', getMyWaitlist);
+
+// Join the waitlist for a taken slot or rental period
+router.post('/', joinWaitlist);
+
+// Leave the waitlist or decline an offer
+router.delete('/:id', leaveWaitlistEntry);
+
+export default router;
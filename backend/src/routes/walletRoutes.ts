@@ -4,9 +4,19 @@ import {
   addFunds,
   processWalletFunding,
   getTransactions,
-  updateWalletCurrency
+  updateWalletCurrency,
+  transferFunds,
+  getWalletTransferLimit,
+  getLedgerIntegrity,
+  requestWalletWithdrawal,
+  getWalletWithdrawals,
+  cancelWalletWithdrawal,
+  getAllWithdrawals,
+  approveWalletWithdrawal,
+  rejectWalletWithdrawal
 } from '../controllers/walletController';
-import { protect } from '../middleware/authMiddleware';
+import { protect, admin } from '../middleware/authMiddleware';
+import { idempotent } from '../middleware/idempotencyMiddleware';
 
 const router = express.Router();
 
@@ -17,15 +27,42 @@ router.use(protect);
 router.get('/', getWallet);
 
 // Add funds to wallet
-router.post('/funds', addFunds);
+router.post('/funds', idempotent, addFunds);
 
 // Process successful wallet funding
-router.post('/funds/process', processWalletFunding);
+router.post('/funds/process', idempotent, processWalletFunding);
 
 // Get wallet transaction history
 router.get('/transactions', getTransactions);
 
 // Update wallet currency
-router.post('/currency', updateWalletCurrency);
+router.post('/currency', idempotent, updateWalletCurrency);
+
+// Send money to another user's wallet
+router.post('/transfers', idempotent, transferFunds);
+
+// Get how much can still be sent today
+router.get('/transfers/limit', getWalletTransferLimit);
+
+// Ask to withdraw money back to the card it was added with
+router.post('/withdrawals', idempotent, requestWalletWithdrawal);
+
+// Get the user's withdrawals
+router.get('/withdrawals', getWalletWithdrawals);
+
+// List withdrawals to review (admin only)
+router.get('/withdrawals/all', admin, getAllWithdrawals);
+
+// Cancel a withdrawal that has not been approved yet
+router.post('/withdrawals/:id/cancel', idempotent, cancelWalletWithdrawal);
+
+// Approve and pay out a withdrawal (admin only)
+router.post('/withdrawals/:id/approve', admin, idempotent, approveWalletWithdrawal);
+
+// Reject a withdrawal (admin only)
+router.post('/withdrawals/:id/reject', admin, idempotent, rejectWalletWithdrawal);
+
+// Check wallet balances against the ledger (admin only)
+router.get('/ledger/integrity', admin, getLedgerIntegrity);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { IBooking } from '../models/Booking';
+import { calculateCancellationFee, CancellationFeeResult } from './cancellationPolicy';
+import { processRefund, settleDeposit } from './paymentService';
+import logger from './logger';
+import { refundGroupBooking } from './groupBooking';
+import { refreshStockStatusForBooking } from './equipmentAvailability';
+import { releaseSlotHolds } from './slotHolds';
+import { offerFreedBooking } from './waitlistService';
+
+export interface BookingCancellationOutcome {
+  canceled: boolean;
+  cancellation: CancellationFeeResult;
+  refundProcessed: boolean;
+}
+
+/**
+ * Cancel a single booking under the cancellation policy: calculate the fee,
+ * mark the booking as canceled and refund the refundable part if it was paid.
+ *
+ * Callers are expected to have checked ownership and that the booking is not
+ * already canceled or completed. Bookings canceled as part of a package pass
+ * the package's policy so they are all charged the same way.
+ */
+export const cancelBookingWithPolicy = async (
+  booking: IBooking,
+  options: {
+    reason?: string;
+    canceledBy: string;
+    currentDate?: Date;
+    policy?: { itemType: string; date: Date };
+  }
+): Promise<BookingCancellationOutcome> => {
+  const cancellation = calculateCancellationFee(
+    options.policy?.itemType || booking.itemType,
+    options.policy?.date || booking.date,
+    booking.totalPrice,
+    options.currentDate
+  );
+
+  if (!cancellation.canCancel) {
+    return { canceled: false, cancellation, refundProcessed: false };
+  }
+
+  booking.status = 'canceled';
+  booking.metadata = {
+    ...booking.metadata,
+    cancellationReason: options.reason || 'Canceled by user',
+    canceledAt: new Date(),
+    canceledBy: options.canceledBy,
+    refundPercentage: cancellation.refundPercentage,
+    refundAmount: cancellation.refundAmount,
+    cancellationFee: cancellation.cancellationFee
+  };
+
+  // A held security deposit is given back in full
+  if (booking.deposit?.status === 'held') {
+    const depositResult = await settleDeposit(booking, 0, 'Booking canceled');
+    if (!depositResult.success) {
+      logger.error('Failed to release security deposit for canceled booking', {
+        bookingId: booking._id,
+        error: depositResult.message
+      });
+    }
+  }
+
+  await booking.save();
+  await refreshStockStatusForBooking(booking);
+  await releaseSlotHolds(booking._id as string);
+
+  // The freed slot goes to the first person waiting for it
+  await offerFreedBooking(booking);
+
+  logger.info('Booking canceled successfully', {
+    bookingId: booking._id,
+    refundAmount: cancellation.refundAmount,
+    refundPercentage: cancellation.refundPercentage
+  });
+
+  let refundProcessed = false;
+  if (booking.participants?.length) {
+    // Group bookings are refunded to everyone who paid a share; a booking that was
+    // never fully paid gets back whatever was paid so far
+    const wasPaid = booking.paymentStatus === 'paid';
+    const refundResult = await refundGroupBooking(
+      booking,
+      wasPaid ? cancellation.refundAmount : undefined,
+      `Refund for canceled booking - ${cancellation.reason}`
+    );
+
+    if (refundResult.success && refundResult.refundAmount > 0) {
+      logger.info('Refund processed for canceled group booking', {
+        bookingId: booking._id,
+        refundAmount: refundResult.refundAmount
+      });
+
+      if (wasPaid) {
+        booking.paymentStatus = 'refunded';
+        await booking.save();
+      }
+      refundProcessed = true;
+    } else if (!refundResult.success) {
+      logger.error('Failed to process refund for canceled group booking', {
+        bookingId: booking._id,
+        error: refundResult.message
+      });
+    }
+  } else if (booking.paymentStatus === 'paid' && cancellation.refundAmount > 0) {
+    const refundResult = await processRefund({
+      userId: booking.user.toString(),
+      bookingId: String(booking._id),
+      amount: cancellation.refundAmount,
+      reason: `Refund for canceled booking - ${cancellation.reason}`
+    });
+
+    if (refundResult.success) {
+      logger.info('Refund processed for canceled booking', {
+        bookingId: booking._id,
+        refundAmount: cancellation.refundAmount
+      });
+
+      booking.paymentStatus = 'refunded';
+      await booking.save();
+      refundProcessed = true;
+    } else {
+      logger.error('Failed to process refund for canceled booking', {
+        bookingId: booking._id,
+        error: refundResult.message
+      });
+    }
+  }
+
+  return { canceled: true, cancellation, refundProcessed };
+};
+
+export default {
+  cancelBookingWithPolicy
+};
@@ -0,0 +1,185 @@
+import { format } from 'date-fns';
+import Booking, { IBooking } from '../models/Booking';
+import Equipment from '../models/Equipment';
+import User from '../models/User';
+import Venue from '../models/Venue';
+import emailService from './emailService';
+import logger from './logger';
+import { refreshStockStatusForBooking } from './equipmentAvailability';
+import { NO_SHOW_DEPOSIT_AFTER, NO_SHOW_SUSPEND_AFTER, recordNoShow } from './noShowPolicy';
+import { settleDeposit } from './paymentService';
+import { parseTime } from './timeRange';
+
+// How long after a booking ends it is completed or marked as a no-show (in minutes)
+export const NO_SHOW_GRACE_MINUTES = Number(process.env.NO_SHOW_GRACE_MINUTES) || 60;
+
+// How often past bookings are checked (in minutes)
+const COMPLETION_CHECK_INTERVAL_MINUTES = 15;
+
+// When a booking ends: the end of its time slot for venues, the end of the pickup day for equipment
+const getBookingEnd = (booking: IBooking): Date => {
+  const endMinutes = booking.itemType === 'venue' && booking.timeSlot
+    ? parseTime(booking.timeSlot.end) ?? 24 * 60
+    : 24 * 60;
+  return new Date(booking.date.getTime() + endMinutes * 60 * 1000);
+};
+
+// Name of what was booked, for emails
+const getItemName = async (booking: IBooking): Promise<string> => {
+  if (booking.itemType === 'venue') {
+    const venue = await Venue.findById(booking.venue).select('name');
+    return venue?.name || 'Venue';
+  }
+  const equipment = await Equipment.find({ _id: { $in: booking.equipment || [] } }).select('name');
+  return equipment.map(item => item.name).join(', ') || 'Equipment';
+};
+
+// Tell the customer they missed a booking and what it means for future bookings
+const notifyNoShow = async (booking: IBooking, noShowCount: number, suspendedUntil?: Date) => {
+  const user = await User.findById(booking.user);
+  if (!user) {
+    return;
+  }
+
+  let reason = `You have missed ${noShowCount} booking${noShowCount === 1 ? '' : 's'}.`;
+  if (suspendedUntil) {
+    reason += ` You cannot make new bookings until ${format(suspendedUntil, 'MMMM do, yyyy')}.`;
+  } else if (noShowCount >= NO_SHOW_DEPOSIT_AFTER) {
+    reason += ' New bookings now require a deposit, which is kept if you do not turn up.';
+  } else {
+    reason += ` After ${NO_SHOW_SUSPEND_AFTER} missed bookings you will be unable to book for a while.`;
+  }
+  if (booking.deposit?.deductedAmount) {
+    reason += ` Your $${booking.deposit.deductedAmount.toFixed(2)} no-show deposit has been kept.`;
+  }
+
+  await emailService.sendBookingStatusUpdateEmail(user.email, user.name, {
+    bookingId: String(booking._id),
+    itemType: booking.itemType,
+    itemName: await getItemName(booking),
+    date: booking.date,
+    timeSlot: booking.timeSlot,
+    status: 'no_show',
+    reason
+  });
+};
+
+/**
+ * Close confirmed venue and equipment bookings once they are over. Venue
+ * bookings the customer checked in for are completed and the rest are marked
+ * as no-shows. Rentals are completed when the equipment is returned, so only
+ * those never picked up are marked here. No-shows count against the customer
+ * and forfeit any no-show deposit; other deposits are given back.
+ */
+export const completePastBookings = async (now: Date = new Date()): Promise<void> => {
+  try {
+    logger.debug('Running completion check for past bookings');
+
+    const cutoff = new Date(now.getTime() - NO_SHOW_GRACE_MINUTES * 60 * 1000);
+
+    // Bookings dated up to today; the exact end time is checked below
+    const candidates = await Booking.find({
+      status: 'confirmed',
+      date: { $lte: cutoff },
+      $or: [
+        { itemType: 'venue' },
+        { itemType: 'equipment', checkOut: { $exists: false }, 'checkInPass.checkedInAt': { $exists: false } }
+      ]
+    });
+
+    const pastBookings = candidates.filter(booking => getBookingEnd(booking) <= cutoff);
+    if (pastBookings.length > 0) {
+      logger.info(`Found ${pastBookings.length} past bookings to close`);
+    }
+
+    for (const booking of pastBookings) {
+      try {
+        const showedUp = booking.itemType === 'venue' && !!booking.checkInPass?.checkedInAt;
+        const status = showedUp ? 'completed' : 'no_show';
+
+        // Only close bookings still confirmed, in case an admin changed one meanwhile
+        const closed = await Booking.findOneAndUpdate(
+          { _id: booking._id, status: 'confirmed' },
+          { status, $set: { 'metadata.closedAutomaticallyAt': now } },
+          { new: true }
+        );
+        if (!closed) {
+          continue;
+        }
+
+        if (showedUp) {
+          if (closed.deposit?.status === 'held') {
+            await settleDeposit(closed, 0, 'Booking completed');
+            await closed.save();
+          }
+          logger.info('Booking completed', { bookingId: closed._id });
+          continue;
+        }
+
+        // Rentals that were never picked up free up their stock
+        await refreshStockStatusForBooking(closed);
+        if (closed.deposit?.status === 'held') {
+          await settleDeposit(closed, closed.deposit.noShowAmount || 0, 'Did not turn up for the booking');
+          await closed.save();
+        }
+
+        const user = await recordNoShow(closed, now);
+        logger.info('Booking marked as no-show', {
+          bookingId: closed._id,
+          userId: closed.user,
+          noShowCount: user?.noShowCount
+        });
+
+        if (user) {
+          const suspendedUntil = user.bookingSuspendedUntil && user.bookingSuspendedUntil > now
+            ? user.bookingSuspendedUntil
+            : undefined;
+          notifyNoShow(closed, user.noShowCount, suspendedUntil).catch(error => {
+            logger.error('Failed to send no-show email', {
+              error: error instanceof Error ? error.message : String(error),
+              bookingId: closed._id
+            });
+          });
+        }
+      } catch (error) {
+        logger.error('Error closing past booking', {
+          error: error instanceof Error ? error.message : String(error),
+          bookingId: booking._id
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('Error completing past bookings', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+/**
+ * Schedule the booking completion job to run periodically
+ */
+export const scheduleBookingCompletionJob = (): NodeJS.Timeout => {
+  // Run immediately for the first time
+  completePastBookings().catch(error => {
+    logger.error('Error in initial booking completion job', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+
+  const INTERVAL = COMPLETION_CHECK_INTERVAL_MINUTES * 60 * 1000;
+  const timer = setInterval(() => {
+    completePastBookings().catch(error => {
+      logger.error('Error in scheduled booking completion job', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }, INTERVAL);
+
+  logger.info('Booking completion scheduler initialized');
+  return timer;
+};
+
+export default {
+  completePastBookings,
+  scheduleBookingCompletionJob
+};
@@ -1,28 +1,60 @@
+import mongoose from 'mongoose';
 import Booking from '../models/Booking';
+import SlotHold from '../models/SlotHold';
 import logger from './logger';
+import { refreshStockStatusForBooking } from './equipmentAvailability';
+import { coverUnpaidShares, refundGroupBooking } from './groupBooking';
+import { settleDeposit } from './paymentService';
+import { releaseSlotHolds } from './slotHolds';
+import { expireWaitlistOffers, offerFreedBooking, refreshWaitlist } from './waitlistService';
 
-// Maximum time a booking can remain in 'pending' status without payment (in hours)
+// Bookings created without a checkout hold are kept pending for this long
+// without payment (in hours). Occurrences of a booking series are paid one
+// at a time and are kept until their own date instead.
 const BOOKING_EXPIRATION_HOURS = 24;
 
+// How often expired holds are released (in minutes)
+const EXPIRATION_CHECK_INTERVAL_MINUTES = 1;
+
 /**
- * Expire pending bookings older than the configured time limit
+ * Expire pending bookings whose checkout hold has run out, or that have no
+ * hold and are older than the configured time limit, and release their slots.
+ * Series occurrences without a hold expire once their date arrives unpaid.
  */
 export const expirePendingBookings = async (): Promise<void> => {
   try {
-    logger.info('Running expiration check for pending bookings');
+    logger.debug('Running expiration check for pending bookings');
+
+    // Settle paid waitlist offers first so they are not passed on
+    await refreshWaitlist();
+
+    const now = new Date();
 
-    // Calculate the cutoff time (24 hours ago)
-    const cutoffTime = new Date();
+    // Organisers pay the missing shares of group bookings before those would expire
+    await coverUnpaidShares(now);
+
+    // Calculate the cutoff time for bookings without a hold (24 hours ago)
+    const cutoffTime = new Date(now);
     cutoffTime.setHours(cutoffTime.getHours() - BOOKING_EXPIRATION_HOURS);
 
-    // Find all pending bookings that are older than the cutoff time and haven't been paid
+    // Booking dates are stored as UTC midnight
+    const today = new Date(now);
+    today.setUTCHours(0, 0, 0, 0);
+
+    // Find all pending bookings that haven't been paid before their hold ran out
     const pendingBookings = await Booking.find({
       status: 'pending',
       paymentStatus: 'pending',
-      createdAt: { $lt: cutoffTime }
+      $or: [
+        { holdExpiresAt: { $lte: now } },
+        { holdExpiresAt: { $exists: false }, series: null, createdAt: { $lt: cutoffTime } },
+        { holdExpiresAt: { $exists: false }, series: { $ne: null }, date: { $lte: today } }
+      ]
     });
 
-    logger.info(`Found ${pendingBookings.length} pending bookings to expire`);
+    if (pendingBookings.length > 0) {
+      logger.info(`Found ${pendingBookings.length} pending bookings to expire`);
+    }
 
     // Update all expired bookings to 'canceled' status
     const updatePromises = pendingBookings.map(booking => {
@@ -32,13 +64,18 @@ export const expirePendingBookings = async (): Promise<void> => {
         createdAt: booking.createdAt
       });
 
-      return Booking.findByIdAndUpdate(
-        booking._id,
+      // Only expire bookings still unpaid, in case a payment arrived meanwhile
+      return Booking.findOneAndUpdate(
+        { _id: booking._id, status: 'pending', paymentStatus: 'pending' },
         { 
           status: 'canceled',
           $set: {
-            'metadata.expirationReason': 'Payment not received within 24 hours',
-            'metadata.expiredAt': new Date()
+            'metadata.expirationReason': booking.holdExpiresAt
+              ? 'Payment not received before the checkout hold expired'
+              : booking.series
+                ? 'Payment not received before the booking date'
+                : `Payment not received within ${BOOKING_EXPIRATION_HOURS} hours`,
+            'metadata.expiredAt': now
           }
         },
         { new: true }
@@ -49,7 +86,36 @@ export const expirePendingBookings = async (): Promise<void> => {
     const results = await Promise.all(updatePromises);
     const expiredCount = results.filter(Boolean).length;
 
-    logger.info(`Successfully expired ${expiredCount} pending bookings`);
+    if (expiredCount > 0) {
+      logger.info(`Successfully expired ${expiredCount} pending bookings`);
+    }
+
+    // Give back the slots of expired bookings, and holds that ran out after the booking was paid
+    await releaseSlotHolds(results.flatMap(booking => booking ? [booking._id as string] : []));
+    await SlotHold.deleteMany({ expiresAt: { $lte: now } });
+
+    // Expired rentals no longer hold equipment stock
+    // and give back any security deposit already held
+    for (const booking of results) {
+      if (booking) {
+        await refreshStockStatusForBooking(booking);
+        if (booking.deposit?.status === 'held') {
+          await settleDeposit(booking, 0, 'Booking expired');
+          await booking.save();
+        }
+        // Shares already paid towards a group booking that was never fully funded are given back
+        if (booking.participants?.some(participant => participant.payment)) {
+          await refundGroupBooking(booking, undefined, 'Group booking expired before it was fully paid');
+        }
+      }
+    }
+
+    // Unanswered waitlist offers lapse, and every freed slot goes to the next person waiting
+    const expiredBookings = results.flatMap(booking => booking ? [booking] : []);
+    await expireWaitlistOffers(expiredBookings.map(booking => booking._id as mongoose.Types.ObjectId));
+    for (const booking of expiredBookings) {
+      await offerFreedBooking(booking);
+    }
     
     // Return any errors that occurred during the update
     const errors = results.filter(result => !result);
@@ -72,14 +138,14 @@ export const scheduleBookingExpirationJob = (): NodeJS.Timeout => {
     logger.error('Error in initial booking expiration job', { error: errorMessage });
   });
 
-  // Schedule to run every hour
-  const ONE_HOUR = 60 * 60 * 1000;
+  // Schedule to run every minute so checkout holds are released soon after they run out
+  const INTERVAL = EXPIRATION_CHECK_INTERVAL_MINUTES * 60 * 1000;
   const timer = setInterval(() => {
     expirePendingBookings().catch(error => {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error('Error in scheduled booking expiration job', { error: errorMessage });
     });
-  }, ONE_HOUR);
+  }, INTERVAL);
 
   logger.info('Booking expiration scheduler initialized');
   return timer;
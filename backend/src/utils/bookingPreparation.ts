@@ -0,0 +1,200 @@
+import mongoose from 'mongoose';
+import { IBooking } from '../models/Booking';
+import Venue from '../models/Venue';
+import Equipment from '../models/Equipment';
+import logger from './logger';
+import { resolveVenueResource } from './venueAvailability';
+import { calculateVenuePrice } from './venuePricing';
+import { parseEquipmentLines, getEquipmentAvailability } from './equipmentAvailability';
+import { validateRentalPeriod, calculateRentalPrice } from './rentalPricing';
+import { roundToCents } from './money';
+
+/**
+ * Outcome of checking a venue or equipment request before a booking is
+ * created: the validated booking fields and price, or the HTTP status and
+ * reason to reject it with (plus any details for the response body).
+ * `taken` marks requests that are valid but already booked.
+ */
+export type PreparedBooking =
+  | { valid: true; bookingData: Partial<IBooking>; price: number; itemName: string }
+  | { valid: false; status: number; reason: string; details?: Record<string, unknown>; taken?: boolean };
+
+export interface VenueBookingRequest {
+  venueId: string;
+  date: Date;
+  timeSlot?: { start: string; end: string };
+  resourceId?: string;
+  excludeBookingId?: string | mongoose.Types.ObjectId;
+}
+
+export interface EquipmentBookingRequest {
+  itemId?: string | string[];
+  quantity?: number | string;
+  equipmentItems?: { equipmentId: string; quantity?: number | string }[];
+  date: Date;
+  returnDate?: Date;
+  excludeBookingId?: string | mongoose.Types.ObjectId;
+}
+
+/**
+ * Check a venue slot (a specific court, any free court or the whole venue)
+ * at minute level and price it hour by hour under the venue's pricing rules.
+ */
+export const prepareVenueBooking = async ({
+  venueId,
+  date,
+  timeSlot,
+  resourceId,
+  excludeBookingId
+}: VenueBookingRequest): Promise<PreparedBooking> => {
+  if (!mongoose.Types.ObjectId.isValid(venueId)) {
+    return { valid: false, status: 400, reason: 'Invalid venue id' };
+  }
+
+  const venue = await Venue.findById(venueId);
+  if (!venue) {
+    logger.warn('Venue not found', { venueId });
+    return { valid: false, status: 404, reason: 'Venue not found' };
+  }
+
+  if (!timeSlot) {
+    return { valid: false, status: 400, reason: 'Time slot is required for venue bookings' };
+  }
+
+  // Resolves the requested court (or any free court) and checks it at minute level
+  const resolution = await resolveVenueResource(venue, date, timeSlot, resourceId, excludeBookingId);
+  if (!resolution.valid) {
+    logger.warn('Venue booking rejected', {
+      venueId,
+      resourceId,
+      date,
+      proposedTime: `${timeSlot.start}-${timeSlot.end}`,
+      reason: resolution.reason,
+      existingTime: resolution.conflictingBooking &&
+        `${resolution.conflictingBooking.start}-${resolution.conflictingBooking.end}`
+    });
+
+    return {
+      valid: false,
+      status: resolution.status,
+      reason: resolution.reason,
+      taken: resolution.taken,
+      ...(resolution.conflictingBooking && { details: { conflictingBooking: resolution.conflictingBooking } })
+    };
+  }
+
+  // Price each hour of the slot under the venue's pricing rules
+  const { total: price, breakdown } = calculateVenuePrice(venue, date, resolution.range, resolution.resource);
+
+  return {
+    valid: true,
+    price,
+    itemName: resolution.resource ? `${venue.name} - ${resolution.resource.name}` : venue.name,
+    bookingData: {
+      itemType: 'venue',
+      venue: venue._id as mongoose.Types.ObjectId,
+      date,
+      timeSlot: { start: timeSlot.start, end: timeSlot.end },
+      ...(resolution.resource && { resource: resolution.resource._id }),
+      subtotalPrice: price,
+      totalPrice: price,
+      priceBreakdown: breakdown
+    }
+  };
+};
+
+/**
+ * Check equipment lines against the stock left after other reservations for
+ * the whole rental period, and price them per rental day with weekly rates
+ * where an item has one. Items with a deposit add a pending security deposit.
+ */
+export const prepareEquipmentBooking = async ({
+  itemId,
+  quantity,
+  equipmentItems,
+  date,
+  returnDate,
+  excludeBookingId
+}: EquipmentBookingRequest): Promise<PreparedBooking> => {
+  const parsed = parseEquipmentLines(itemId, quantity, equipmentItems);
+  if (!parsed.valid) {
+    return { valid: false, status: 400, reason: parsed.reason };
+  }
+  const { lines } = parsed;
+  const equipmentIds = lines.map(line => line.equipmentId);
+
+  // Validate all equipment exists
+  const equipment = await Equipment.find({ _id: { $in: equipmentIds } });
+  if (equipment.length !== equipmentIds.length) {
+    logger.warn('Some equipment not found', { equipmentIds });
+    return { valid: false, status: 404, reason: 'One or more equipment items not found' };
+  }
+
+  // The booking date is the pickup date; availability must hold until the return date
+  const period = validateRentalPeriod(date, returnDate);
+  if (!period.valid) {
+    return { valid: false, status: 400, reason: period.reason };
+  }
+
+  const availability = await getEquipmentAvailability(
+    equipment,
+    period.pickupDate,
+    period.returnDate,
+    excludeBookingId
+  );
+  const unavailable = lines
+    .map(line => {
+      const item = availability.find(entry => entry.equipmentId === line.equipmentId)!;
+      return { equipmentId: line.equipmentId, requested: line.quantity, available: item.available };
+    })
+    .filter(line => line.requested > line.available);
+
+  if (unavailable.length > 0) {
+    logger.warn('Not enough equipment available', { unavailable, date });
+    return {
+      valid: false,
+      status: 400,
+      reason: 'Not enough units of one or more equipment items are available for the whole rental period',
+      details: { unavailable },
+      taken: true
+    };
+  }
+
+  const findItem = (equipmentId: string) => equipment.find(entry => String(entry._id) === equipmentId)!;
+
+  // Price each unit per rental day, with weekly rates where the item has one
+  const price = roundToCents(lines.reduce(
+    (sum, line) => sum + calculateRentalPrice(findItem(line.equipmentId), period.days).unitPrice * line.quantity,
+    0
+  ));
+
+  // Refundable security deposit per unit, held when paying and settled on check-in
+  const depositAmount = roundToCents(lines.reduce(
+    (sum, line) => sum + (findItem(line.equipmentId).depositAmount || 0) * line.quantity,
+    0
+  ));
+
+  return {
+    valid: true,
+    price,
+    itemName: lines.map(line => findItem(line.equipmentId).name).join(', '),
+    bookingData: {
+      itemType: 'equipment',
+      date: period.pickupDate,
+      returnDate: period.returnDate,
+      equipment: equipmentIds.map(id => new mongoose.Types.ObjectId(id)),
+      equipmentItems: lines.map(line => ({
+        equipment: new mongoose.Types.ObjectId(line.equipmentId),
+        quantity: line.quantity
+      })),
+      ...(depositAmount > 0 && { deposit: { amount: depositAmount, status: 'pending' as const } }),
+      subtotalPrice: price,
+      totalPrice: price
+    }
+  };
+};
+
+export default {
+  prepareVenueBooking,
+  prepareEquipmentBooking
+};
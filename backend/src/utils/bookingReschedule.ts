@@ -0,0 +1,434 @@
+import mongoose from 'mongoose';
+import getStripeInstance from '../config/stripe';
+import { BASE_CURRENCY } from '../config/currencies';
+import Booking, { IBooking, IBookingPendingReschedule, IBookingReschedule } from '../models/Booking';
+import Equipment from '../models/Equipment';
+import Payment, { IPayment } from '../models/Payment';
+import User from '../models/User';
+import Venue from '../models/Venue';
+import emailService from './emailService';
+import logger from './logger';
+import { prepareVenueBooking, prepareEquipmentBooking } from './bookingPreparation';
+import { chargeBookingFee, processRefund, refundStripePayment } from './paymentService';
+import { refreshStockStatusForBooking } from './equipmentAvailability';
+import { holdVenueSlot, releaseSlotHolds } from './slotHolds';
+import { getBookingStart } from './timeRange';
+import { offerFreedBooking } from './waitlistService';
+import { roundToCents } from './money';
+
+// Bookings can be moved until this many hours before they start (admins may move them later)
+export const RESCHEDULE_WINDOW_HOURS = Number(process.env.RESCHEDULE_WINDOW_HOURS) || 24;
+
+// How many times a single booking can be moved
+export const MAX_RESCHEDULES = Number(process.env.MAX_RESCHEDULES) || 3;
+
+export interface BookingRescheduleRequest {
+  date: Date;
+  returnDate?: Date;
+  timeSlot?: { start: string; end: string };
+  resourceId?: string;
+  reason?: string;
+  paymentMethod?: 'wallet' | 'stripe';
+  rescheduledBy: string;
+  bypassWindow?: boolean;
+  currentDate?: Date;
+}
+
+export type BookingRescheduleOutcome =
+  | {
+      rescheduled: true;
+      reschedule: IBookingReschedule;
+      clientSecret?: string | null;
+      // The booking moves once the price difference is paid with the client secret
+      awaitingPayment?: boolean;
+    }
+  | { rescheduled: false; status: number; reason: string; details?: Record<string, unknown>; taken?: boolean };
+
+// Where a booking is being moved to
+type RescheduleTarget = Pick<BookingRescheduleRequest, 'date' | 'returnDate' | 'timeSlot' | 'resourceId'>;
+
+/**
+ * Check the new slot as if it were a new booking, ignoring the booking's own
+ * reservation, and hold it for venues so a concurrent checkout cannot take it
+ * while the booking moves
+ */
+const claimTarget = async (booking: IBooking, target: RescheduleTarget) => {
+  const prepared = booking.itemType === 'venue'
+    ? await prepareVenueBooking({
+      venueId: String(booking.venue),
+      date: target.date,
+      timeSlot: target.timeSlot,
+      resourceId: target.resourceId ?? (booking.resource ? String(booking.resource) : undefined),
+      excludeBookingId: booking._id as mongoose.Types.ObjectId
+    })
+    : await prepareEquipmentBooking({
+      equipmentItems: booking.equipmentItems?.length
+        ? booking.equipmentItems.map(line => ({ equipmentId: String(line.equipment), quantity: line.quantity }))
+        : (booking.equipment || []).map(id => ({ equipmentId: String(id), quantity: 1 })),
+      date: target.date,
+      returnDate: target.returnDate,
+      excludeBookingId: booking._id as mongoose.Types.ObjectId
+    });
+
+  if (prepared.valid && booking.itemType === 'venue') {
+    await releaseSlotHolds(booking._id as mongoose.Types.ObjectId);
+    const hold = await holdVenueSlot(booking._id as mongoose.Types.ObjectId, booking.user, prepared.bookingData);
+    if (!hold.success) {
+      return { valid: false as const, status: 409, reason: hold.reason, details: undefined, taken: true };
+    }
+  }
+
+  return prepared;
+};
+
+// Let the customer know where their booking has moved to
+const sendRescheduleEmail = async (booking: IBooking, reschedule: IBookingReschedule) => {
+  const user = await User.findById(booking.user);
+  if (!user) {
+    return;
+  }
+
+  let itemName = '';
+  if (booking.itemType === 'venue' && booking.venue) {
+    itemName = (await Venue.findById(booking.venue).select('name'))?.name || 'Unknown Venue';
+  } else if (booking.itemType === 'equipment' && booking.equipment?.length) {
+    itemName = (await Equipment.findById(booking.equipment[0]).select('name'))?.name || 'Unknown Equipment';
+  }
+
+  emailService.sendBookingStatusUpdateEmail(
+    user.email,
+    user.name,
+    {
+      bookingId: String(booking._id),
+      itemType: booking.itemType,
+      itemName,
+      date: booking.date,
+      timeSlot: booking.timeSlot,
+      status: 'rescheduled',
+      reason: reschedule.reason,
+      previousDate: reschedule.previousDate,
+      previousTimeSlot: reschedule.previousTimeSlot
+    }
+  ).catch(error => {
+    logger.error('Failed to send reschedule email', {
+      error: error instanceof Error ? error.message : String(error),
+      bookingId: booking._id
+    });
+  });
+};
+
+/**
+ * Move the booking to its new slot once any price difference is paid: the
+ * reschedule is added to its history, the freed slot offered to the waitlist
+ * and the customer emailed. A cheaper slot is refunded against what was paid.
+ */
+const moveBooking = async (
+  booking: IBooking,
+  move: Omit<IBookingPendingReschedule, keyof IBookingReschedule>,
+  reschedule: IBookingReschedule
+) => {
+  const previous = {
+    _id: booking._id,
+    itemType: booking.itemType,
+    venue: booking.venue,
+    resource: booking.resource,
+    equipment: booking.equipment,
+    date: booking.date,
+    returnDate: booking.returnDate,
+    timeSlot: booking.timeSlot && { start: booking.timeSlot.start, end: booking.timeSlot.end }
+  };
+
+  booking.date = move.date;
+  booking.returnDate = move.returnDate;
+  booking.timeSlot = move.timeSlot;
+  booking.resource = move.resource;
+  booking.subtotalPrice = move.subtotalPrice;
+  booking.totalPrice = reschedule.newTotalPrice;
+  booking.priceBreakdown = move.priceBreakdown;
+  booking.rescheduleHistory.push(reschedule);
+  booking.pendingReschedule = undefined;
+  await booking.save();
+
+  await refreshStockStatusForBooking(booking);
+
+  // The old slot goes to the first person waiting for it
+  await offerFreedBooking(previous);
+
+  logger.info('Booking rescheduled', {
+    bookingId: booking._id,
+    previousDate: previous.date,
+    newDate: booking.date,
+    priceDifference: reschedule.priceDifference
+  });
+
+  // A cheaper slot is refunded against what was paid, which leaves the booking paid for
+  if (reschedule.priceDifference < 0) {
+    const refundResult = await processRefund({
+      userId: booking.user.toString(),
+      bookingId: String(booking._id),
+      amount: -reschedule.priceDifference,
+      reason: 'Refund of the price difference for a rescheduled booking',
+      partial: true
+    });
+
+    const entry = booking.rescheduleHistory[booking.rescheduleHistory.length - 1];
+    entry.charge = {
+      paymentMethod: booking.paymentMethod === 'stripe' ? 'stripe' : 'wallet',
+      status: refundResult.success ? 'refunded' : 'failed'
+    };
+    await booking.save();
+
+    if (!refundResult.success) {
+      logger.error('Failed to refund price difference for rescheduled booking', {
+        bookingId: booking._id,
+        error: refundResult.message
+      });
+    }
+  }
+
+  await sendRescheduleEmail(booking, booking.rescheduleHistory[booking.rescheduleHistory.length - 1]);
+};
+
+/**
+ * Give up a reschedule still waiting for its price difference, canceling the
+ * card payment. Returns false when the payment can no longer be canceled,
+ * such as when it has just gone through.
+ */
+const abandonPendingReschedule = async (booking: IBooking): Promise<boolean> => {
+  const paymentId = booking.pendingReschedule?.charge?.payment;
+  const payment = paymentId ? await Payment.findById(paymentId) : null;
+  if (payment?.status === 'pending' && payment.stripePaymentId) {
+    const stripe = getStripeInstance();
+    try {
+      await stripe?.paymentIntents.cancel(payment.stripePaymentId);
+    } catch (error) {
+      logger.warn('Could not cancel payment for pending reschedule', {
+        bookingId: booking._id,
+        paymentId: payment._id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+    payment.status = 'failed';
+    await payment.save();
+  }
+
+  booking.pendingReschedule = undefined;
+  await booking.save();
+  await releaseSlotHolds(booking._id as mongoose.Types.ObjectId);
+  return true;
+};
+
+/**
+ * Move a paid venue or equipment booking to another date or time slot.
+ * The new slot is checked (and, for venues, held) the same way as a new
+ * booking, the booking is repriced and the difference is charged to the
+ * customer's wallet or card, or refunded against the original payment. A
+ * card charge is left for the customer to pay and the booking only moves once
+ * it goes through (see `settleRescheduleCharge`), kept meanwhile as its
+ * `pendingReschedule`. The previous date and slot are kept in the booking's
+ * reschedule history and the freed slot is offered to the waitlist.
+ *
+ * Callers are expected to have checked ownership.
+ */
+export const rescheduleBookingWithPolicy = async (
+  booking: IBooking,
+  request: BookingRescheduleRequest
+): Promise<BookingRescheduleOutcome> => {
+  const now = request.currentDate || new Date();
+
+  if (booking.itemType !== 'venue' && booking.itemType !== 'equipment') {
+    return { rescheduled: false, status: 400, reason: 'Only venue and equipment bookings can be rescheduled' };
+  }
+  if (booking.status !== 'confirmed' || booking.paymentStatus !== 'paid') {
+    return { rescheduled: false, status: 400, reason: 'Only confirmed, paid bookings can be rescheduled' };
+  }
+  if (booking.participants?.length) {
+    return { rescheduled: false, status: 400, reason: 'Group bookings with split payments cannot be rescheduled' };
+  }
+  if (booking.packageGroup) {
+    return { rescheduled: false, status: 400, reason: 'Bookings made with a package cannot be rescheduled on their own' };
+  }
+  if (booking.checkOut) {
+    return { rescheduled: false, status: 400, reason: 'Equipment that has been picked up cannot be rescheduled' };
+  }
+  if ((booking.rescheduleHistory?.length || 0) >= MAX_RESCHEDULES) {
+    return {
+      rescheduled: false,
+      status: 400,
+      reason: `A booking can be rescheduled at most ${MAX_RESCHEDULES} times`
+    };
+  }
+
+  const hoursUntilStart = (getBookingStart(booking).getTime() - now.getTime()) / (60 * 60 * 1000);
+  if (!request.bypassWindow && hoursUntilStart < RESCHEDULE_WINDOW_HOURS) {
+    return {
+      rescheduled: false,
+      status: 400,
+      reason: `Bookings can only be rescheduled more than ${RESCHEDULE_WINDOW_HOURS} hours before they start`
+    };
+  }
+  if (getBookingStart({ date: request.date, timeSlot: request.timeSlot }) <= now) {
+    return { rescheduled: false, status: 400, reason: 'The new date and time must be in the future' };
+  }
+
+  // A new request replaces a reschedule that was never paid for
+  if (booking.pendingReschedule && !(await abandonPendingReschedule(booking))) {
+    return {
+      rescheduled: false,
+      status: 409,
+      reason: 'The payment for an earlier reschedule of this booking is still being processed'
+    };
+  }
+
+  const prepared = await claimTarget(booking, request);
+  if (!prepared.valid) {
+    return {
+      rescheduled: false,
+      status: prepared.status,
+      reason: prepared.reason,
+      details: prepared.details,
+      taken: prepared.taken
+    };
+  }
+
+  // The original discount still applies to the new price
+  const newTotalPrice = roundToCents(Math.max(0, prepared.price - (booking.discountAmount || 0)));
+  const priceDifference = roundToCents(newTotalPrice - booking.totalPrice);
+
+  const reschedule: IBookingReschedule = {
+    previousDate: booking.date,
+    previousReturnDate: booking.returnDate,
+    previousTimeSlot: booking.timeSlot && { start: booking.timeSlot.start, end: booking.timeSlot.end },
+    previousResource: booking.resource,
+    previousTotalPrice: booking.totalPrice,
+    newTotalPrice,
+    priceDifference,
+    rescheduledAt: now,
+    rescheduledBy: new mongoose.Types.ObjectId(request.rescheduledBy),
+    reason: request.reason
+  };
+  const move = {
+    date: prepared.bookingData.date!,
+    returnDate: prepared.bookingData.returnDate,
+    timeSlot: prepared.bookingData.timeSlot,
+    resource: prepared.bookingData.resource,
+    subtotalPrice: prepared.price,
+    priceBreakdown: prepared.bookingData.priceBreakdown
+  };
+
+  // A more expensive slot is paid for before the booking moves
+  if (priceDifference > 0) {
+    const charge = await chargeBookingFee({
+      amount: priceDifference,
+      currency: BASE_CURRENCY,
+      userId: booking.user.toString(),
+      bookingId: String(booking._id),
+      description: `Price difference for rescheduling booking #${String(booking._id).slice(-6)}`,
+      purpose: 'reschedule',
+      paymentMethod: request.paymentMethod
+    });
+
+    if (!charge.success) {
+      await releaseSlotHolds(booking._id as mongoose.Types.ObjectId);
+      return { rescheduled: false, status: 400, reason: charge.message || 'Failed to charge the price difference' };
+    }
+
+    reschedule.charge = {
+      paymentMethod: charge.paymentMethod!,
+      status: charge.status!,
+      payment: charge.payment?._id as mongoose.Types.ObjectId
+    };
+
+    // A card payment still to be made: the booking stays where it is until it goes through
+    if (charge.status !== 'paid') {
+      booking.pendingReschedule = { ...reschedule, ...move };
+      await booking.save();
+
+      logger.info('Booking reschedule awaiting payment', {
+        bookingId: booking._id,
+        newDate: move.date,
+        priceDifference
+      });
+
+      return {
+        rescheduled: true,
+        reschedule,
+        clientSecret: charge.clientSecret,
+        awaitingPayment: true
+      };
+    }
+  }
+
+  await moveBooking(booking, move, reschedule);
+
+  return {
+    rescheduled: true,
+    reschedule: booking.rescheduleHistory[booking.rescheduleHistory.length - 1]
+  };
+};
+
+/**
+ * Finish a reschedule once its card payment for the price difference has
+ * gone through or failed. A paid reschedule moves the booking if the new slot
+ * is still free; otherwise, or when the booking was canceled or rescheduled
+ * again meanwhile, the payment is refunded. A failed one leaves the booking
+ * where it was and gives up the new slot.
+ */
+export const settleRescheduleCharge = async (payment: IPayment, status: 'paid' | 'failed') => {
+  // Webhooks can arrive more than once
+  if (await Booking.exists({ 'rescheduleHistory.charge.payment': payment._id })) {
+    return;
+  }
+
+  const booking = await Booking.findOne({ 'pendingReschedule.charge.payment': payment._id });
+  const pending = booking?.pendingReschedule;
+  if (!booking || !pending) {
+    if (status === 'paid') {
+      logger.warn('Reschedule payment arrived for a reschedule that is no longer pending', { paymentId: payment._id });
+      await refundStripePayment(payment, 'Reschedule was replaced or given up before it was paid');
+    }
+    return;
+  }
+
+  if (status === 'failed') {
+    booking.pendingReschedule = undefined;
+    await booking.save();
+    await releaseSlotHolds(booking._id as mongoose.Types.ObjectId);
+    logger.info('Booking reschedule given up after its payment failed', { bookingId: booking._id });
+    return;
+  }
+
+  // The slot was only held for a while, so it is checked again before the booking moves
+  const claimed = booking.status === 'confirmed'
+    ? await claimTarget(booking, {
+      date: pending.date,
+      returnDate: pending.returnDate,
+      timeSlot: pending.timeSlot,
+      resourceId: pending.resource ? String(pending.resource) : undefined
+    })
+    : null;
+  if (!claimed?.valid) {
+    booking.pendingReschedule = undefined;
+    await booking.save();
+    logger.warn('Booking could not be moved after the reschedule was paid', {
+      bookingId: booking._id,
+      status: booking.status,
+      reason: claimed?.reason
+    });
+    await refundStripePayment(payment, 'The new slot was no longer available when the reschedule was paid');
+    return;
+  }
+
+  const { date, returnDate, timeSlot, resource, subtotalPrice, priceBreakdown, ...reschedule } =
+    booking.toObject().pendingReschedule as IBookingPendingReschedule;
+  reschedule.charge = { ...reschedule.charge!, status: 'paid' };
+  await moveBooking(booking, { date, returnDate, timeSlot, resource, subtotalPrice, priceBreakdown }, reschedule);
+};
+
+export default {
+  RESCHEDULE_WINDOW_HOURS,
+  MAX_RESCHEDULES,
+  rescheduleBookingWithPolicy,
+  settleRescheduleCharge
+};
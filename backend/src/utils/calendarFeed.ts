@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { addDays, format } from 'date-fns';
+import Booking, { IBooking } from '../models/Booking';
+import Equipment, { IEquipment } from '../models/Equipment';
+import { IUser } from '../models/User';
+import Venue, { IVenue } from '../models/Venue';
+import logger from './logger';
+
+// How far back feeds go, so bookings from earlier today and recent cancellations still show (in days)
+const FEED_LOOKBACK_DAYS = 1;
+
+const PRODUCT_ID = '-//SportNexus//Bookings//EN';
+
+// Secret part of a calendar feed URL; anyone with the URL can read the feed
+export const generateFeedToken = (): string => crypto.randomBytes(24).toString('hex');
+
+// Escape text for an iCalendar property value (RFC 5545 section 3.3.11)
+const escapeText = (value: string): string => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) {
+      cut--;
+    }
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+};
+
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+// Booking dates are stored at UTC midnight; the calendar date is that UTC date
+const formatDateValue = (date: Date): string => date.toISOString().split('T')[0].replace(/-/g, '');
+
+// Venue time slots are in the venue's local time, so they are written as floating times;
+// a slot ending at 24:00 ends at midnight the next day
+const formatLocalTime = (date: Date, time: string): string => time === '24:00'
+  ? `${formatDateValue(addDays(date, 1))}T000000`
+  : `${formatDateValue(date)}T${time.replace(':', '')}00`;
+
+interface BookingEventContext {
+  venue?: IVenue | null;
+  equipment?: IEquipment[];
+  // Shown after the item name, such as the customer's name in a venue owner's feed
+  attendee?: string;
+}
+
+const getEventStatus = (booking: IBooking): string => {
+  if (booking.status === 'canceled') {
+    return 'CANCELLED';
+  }
+  return booking.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED';
+};
+
+/**
+ * Describe a booking as a VEVENT. The booking id is the event's UID and each
+ * reschedule bumps its SEQUENCE, so calendars move the existing event rather
+ * than adding another one; canceled bookings stay in the feed as CANCELLED so
+ * calendars remove them.
+ */
+const renderBookingEvent = (booking: IBooking, context: BookingEventContext, now: Date): string[] => {
+  const bookingId = String(booking._id);
+  const { venue, equipment = [], attendee } = context;
+
+  let itemName: string;
+  if (booking.itemType === 'venue') {
+    const resource = booking.resource && venue?.resources?.find(
+      entry => String(entry._id) === String(booking.resource)
+    );
+    itemName = `${venue?.name || 'Venue'}${resource ? ` - ${resource.name}` : ''}`;
+  } else {
+    itemName = equipment.map(item => item.name).join(', ') || 'Equipment rental';
+  }
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:booking-${bookingId}@sportnexus`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `SEQUENCE:${booking.rescheduleHistory?.length || 0}`,
+    `STATUS:${getEventStatus(booking)}`
+  ];
+
+  if (booking.itemType === 'venue' && booking.timeSlot) {
+    lines.push(
+      `DTSTART:${formatLocalTime(booking.date, booking.timeSlot.start)}`,
+      `DTEND:${formatLocalTime(booking.date, booking.timeSlot.end)}`
+    );
+  } else {
+    // Rentals are all-day events from pickup to return; DTEND is exclusive
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateValue(booking.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(booking.returnDate || booking.date, 1))}`
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeText(attendee ? `${itemName} (${attendee})` : itemName)}`);
+
+  if (venue) {
+    const address = [venue.address, venue.city, [venue.state, venue.zipCode].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', ');
+    lines.push(`LOCATION:${escapeText(address)}`);
+  }
+
+  const description = [
+    `Booking ID: ${bookingId}`,
+    booking.itemType === 'venue' && booking.timeSlot
+      ? `Time: ${booking.timeSlot.start} - ${booking.timeSlot.end}`
+      : `Rental: ${format(booking.date, 'MMM d, yyyy')} - ${format(booking.returnDate || booking.date, 'MMM d, yyyy')}`,
+    `Status: ${booking.status}`
+  ];
+  lines.push(`DESCRIPTION:${escapeText(description.join('\n'))}`);
+  lines.push(`URL:${process.env.FRONTEND_URL || 'http://localhost:3000'}/bookings/${bookingId}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+};
+
+// Compare a reference that may or may not be populated with a document's id
+// (ObjectIds expose themselves as _id, so both forms have one)
+const sameId = (ref: unknown, id: unknown): boolean => String((ref as { _id: unknown })._id) === String(id);
+
+// Load the venues and equipment a set of bookings refer to
+const loadBookingItems = async (bookings: IBooking[]) => {
+  const venueIds = bookings.flatMap(booking => booking.venue ? [(booking.venue as { _id: unknown })._id] : []);
+  const equipmentIds = bookings.flatMap(booking => (booking.equipment || []).map(ref => (ref as { _id: unknown })._id));
+  const [venues, equipment] = await Promise.all([
+    Venue.find({ _id: { $in: venueIds } }),
+    Equipment.find({ _id: { $in: equipmentIds } }).select('name')
+  ]);
+
+  return {
+    venueFor: (booking: IBooking) => venues.find(venue => booking.venue && sameId(booking.venue, venue._id)),
+    equipmentFor: (booking: IBooking) => equipment.filter(
+      item => booking.equipment?.some(ref => sameId(ref, item._id))
+    )
+  };
+};
+
+const renderCalendar = (name: string, events: string[][]): string => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  `PRODID:${PRODUCT_ID}`,
+  'CALSCALE:GREGORIAN',
+  'METHOD:PUBLISH',
+  `X-WR-CALNAME:${escapeText(name)}`,
+  ...events.flat(),
+  'END:VCALENDAR'
+].map(foldLine).join('\r\n') + '\r\n';
+
+// Bookings worth showing in a feed: upcoming confirmed ones, and cancellations of bookings that had been paid
+const feedBookingFilter = (now: Date) => ({
+  date: { $gte: addDays(new Date(`${now.toISOString().split('T')[0]}T00:00:00.000Z`), -FEED_LOOKBACK_DAYS) },
+  itemType: { $in: ['venue', 'equipment'] },
+  $or: [
+    { status: { $in: ['confirmed', 'completed'] } },
+    { status: 'canceled', paymentStatus: { $in: ['paid', 'refunded'] } }
+  ]
+});
+
+/**
+ * Calendar of a user's upcoming bookings, including group bookings they share
+ */
+export const renderUserCalendar = async (user: IUser, now: Date = new Date()): Promise<string> => {
+  const bookings = await Booking.find({
+    ...feedBookingFilter(now),
+    $and: [{ $or: [{ user: user._id }, { 'participants.user': user._id }] }]
+  }).sort({ date: 1 });
+
+  const items = await loadBookingItems(bookings);
+  const events = bookings.map(booking => renderBookingEvent(
+    booking,
+    { venue: items.venueFor(booking), equipment: items.equipmentFor(booking) },
+    now
+  ));
+
+  return renderCalendar('SportNexus bookings', events);
+};
+
+/**
+ * Calendar of the upcoming bookings at a venue, for its owner and staff
+ */
+export const renderVenueCalendar = async (venue: IVenue, now: Date = new Date()): Promise<string> => {
+  const bookings = await Booking.find({ ...feedBookingFilter(now), venue: venue._id })
+    .populate('user', 'name')
+    .sort({ date: 1 });
+
+  const events = bookings.map(booking => renderBookingEvent(
+    booking,
+    { venue, attendee: (booking.user as unknown as { name?: string } | null)?.name },
+    now
+  ));
+
+  return renderCalendar(`${venue.name} bookings`, events);
+};
+
+/**
+ * A single booking as an .ics file, for confirmation emails. Failures are
+ * logged rather than thrown so the email still goes out without it.
+ */
+export const renderBookingInvite = async (booking: IBooking, now: Date = new Date()): Promise<string | undefined> => {
+  if (booking.itemType !== 'venue' && booking.itemType !== 'equipment') {
+    return undefined;
+  }
+
+  try {
+    const items = await loadBookingItems([booking]);
+    return renderCalendar('SportNexus booking', [renderBookingEvent(
+      booking,
+      { venue: items.venueFor(booking), equipment: items.equipmentFor(booking) },
+      now
+    )]);
+  } catch (error) {
+    logger.error('Failed to build calendar invite', {
+      error: error instanceof Error ? error.message : String(error),
+      bookingId: booking._id
+    });
+    return undefined;
+  }
+};
+
+export default {
+  generateFeedToken,
+  renderUserCalendar,
+  renderVenueCalendar,
+  renderBookingInvite
+};
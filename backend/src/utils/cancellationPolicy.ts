@@ -91,33 +91,34 @@ export const calculateVenueCancellationFee = (
 };
 
 /**
- * Calculate refund amount based on cancellation policy for equipment rentals
+ * Calculate refund amount based on cancellation policy for equipment rentals.
+ * Notice is measured from the pickup date, however long the rental is.
  * 
- * - Cancellations more than 2 days before: Full refund
- * - Cancellations between 2 days and 1 day before: 70% refund
- * - Cancellations less than 1 day before: No refund
+ * - Cancellations more than 2 days before pickup: Full refund
+ * - Cancellations between 2 days and 1 day before pickup: 70% refund
+ * - Cancellations less than 1 day before pickup: No refund
  */
 export const calculateEquipmentCancellationFee = (
-  bookingDate: Date,
+  pickupDate: Date,
   currentDate: Date = new Date(),
   totalAmount: number
 ): CancellationFeeResult => {
-  const daysUntilBooking = differenceInDays(bookingDate, currentDate);
+  const daysUntilBooking = differenceInDays(pickupDate, currentDate);
   
   logger.debug('Calculating equipment cancellation fee', { 
-    bookingDate, 
+    pickupDate, 
     daysUntilBooking, 
     totalAmount 
   });
 
-  // Can't cancel past bookings
+  // Can't cancel once the pickup date has passed
   if (daysUntilBooking < 0) {
     return {
       canCancel: false,
       refundPercentage: 0,
       refundAmount: 0,
       cancellationFee: totalAmount,
-      reason: 'Booking date has passed, cancellation not allowed'
+      reason: 'Pickup date has passed, cancellation not allowed'
     };
   }
 
@@ -156,6 +157,7 @@ export const calculateEquipmentCancellationFee = (
 
 /**
  * Calculate refund amount based on the item type and booking date
+ * (the pickup date for equipment rentals)
  */
 export const calculateCancellationFee = (
   itemType: string,
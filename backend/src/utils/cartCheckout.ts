@@ -0,0 +1,864 @@
+import mongoose from 'mongoose';
+import getStripeInstance from '../config/stripe';
+import { BASE_CURRENCY, toMinorUnits } from '../config/currencies';
+import Booking, { IBooking } from '../models/Booking';
+import Cart, { ICart, ICartItem } from '../models/Cart';
+import Discount, { IDiscount } from '../models/Discount';
+import Payment, { IPayment } from '../models/Payment';
+import Purchase, { IPurchase } from '../models/Purchase';
+import Tutorial from '../models/Tutorial';
+import User from '../models/User';
+import emailService from './emailService';
+import { issueCheckInQrCode } from './checkInPass';
+import { applyNoShowPenalty } from './noShowPolicy';
+import { renderBookingInvite } from './calendarFeed';
+import logger from './logger';
+import { prepareVenueBooking, prepareEquipmentBooking } from './bookingPreparation';
+import { preparePackageBooking } from './packageBooking';
+import { refreshStockStatusForBooking } from './equipmentAvailability';
+import { confirmPaidBooking, holdDeposit, processRefund, processWalletPayment, settleDeposit } from './paymentService';
+import { getHoldExpiry, holdVenueSlot, releaseSlotHolds } from './slotHolds';
+import { roundToCents } from './money';
+
+export interface CartLineQuote {
+  itemId: string;
+  itemType: ICartItem['itemType'];
+  itemName: string;
+  price: number;
+  depositAmount: number;
+  discountAmount: number;
+  valid: boolean;
+  reason?: string;
+}
+
+export interface CartQuote {
+  lines: CartLineQuote[];
+  subtotal: number;
+  discountCode?: string;
+  discountAmount: number;
+  total: number;
+  depositTotal: number;
+  valid: boolean;
+}
+
+type PreparedCartItem =
+  | {
+    valid: true;
+    itemName: string;
+    price: number;
+    // One booking for a venue or equipment line, several for a package; none for tutorials
+    bookings: Partial<IBooking>[];
+    tutorialId?: mongoose.Types.ObjectId;
+  }
+  | { valid: false; itemName: string; reason: string };
+
+// How long a checkout may hold its cart before another one can claim it (in minutes)
+const CHECKOUT_CLAIM_MINUTES = 5;
+
+// Check a cart line against current availability and price it like a single booking would be
+const prepareCartItem = async (item: ICartItem, userId: string): Promise<PreparedCartItem> => {
+  if (item.itemType === 'tutorial') {
+    const tutorial = await Tutorial.findById(item.tutorial);
+    if (!tutorial) {
+      return { valid: false, itemName: 'Tutorial', reason: 'Tutorial not found' };
+    }
+    if (tutorial.tutorialType !== 'Premium') {
+      return { valid: false, itemName: tutorial.title, reason: 'This tutorial is free and does not require payment' };
+    }
+
+    const existingPurchase = await Purchase.findOne({
+      user: userId,
+      tutorialId: tutorial._id,
+      status: 'completed'
+    });
+    if (existingPurchase) {
+      return { valid: false, itemName: tutorial.title, reason: 'You have already purchased this tutorial' };
+    }
+
+    return {
+      valid: true,
+      itemName: tutorial.title,
+      price: tutorial.price,
+      bookings: [],
+      tutorialId: tutorial._id as mongoose.Types.ObjectId
+    };
+  }
+
+  if (item.itemType === 'package') {
+    const prepared = await preparePackageBooking({
+      packageId: String(item.venuePackage),
+      date: item.date!,
+      timeSlot: item.timeSlot,
+      resourceId: item.resourceId
+    });
+    if (!prepared.valid) {
+      return { valid: false, itemName: 'Package', reason: prepared.reason };
+    }
+
+    // A package owes at most one no-show deposit, held with its venue booking
+    const penalty = await applyNoShowPenalty(userId, prepared.bookings[0]);
+    if (!penalty.success) {
+      return { valid: false, itemName: prepared.itemName, reason: penalty.reason };
+    }
+
+    return {
+      valid: true,
+      itemName: prepared.itemName,
+      price: prepared.price,
+      bookings: prepared.bookings
+    };
+  }
+
+  const prepared = item.itemType === 'venue'
+    ? await prepareVenueBooking({
+      venueId: String(item.venue),
+      date: item.date!,
+      timeSlot: item.timeSlot,
+      resourceId: item.resourceId
+    })
+    : await prepareEquipmentBooking({
+      equipmentItems: (item.equipmentItems || []).map(line => ({
+        equipmentId: String(line.equipment),
+        quantity: line.quantity
+      })),
+      date: item.date!,
+      returnDate: item.returnDate
+    });
+
+  if (!prepared.valid) {
+    return { valid: false, itemName: item.itemType === 'venue' ? 'Venue' : 'Equipment', reason: prepared.reason };
+  }
+
+  // Customers who have missed bookings before may be suspended or owe a no-show deposit
+  const penalty = await applyNoShowPenalty(userId, prepared.bookingData);
+  if (!penalty.success) {
+    return { valid: false, itemName: prepared.itemName, reason: penalty.reason };
+  }
+
+  return {
+    valid: true,
+    itemName: prepared.itemName,
+    price: prepared.price,
+    bookings: [prepared.bookingData]
+  };
+};
+
+// Security and no-show deposits held for the bookings of a cart line
+const getDepositAmount = (bookings: Partial<IBooking>[]): number =>
+  roundToCents(bookings.reduce((sum, booking) => sum + (booking.deposit?.amount || 0), 0));
+
+// Find a discount code that can still be used
+const findActiveDiscount = (code: string) => Discount.findOne({
+  code: code.toUpperCase(),
+  isActive: true,
+  expiresAt: { $gt: new Date() },
+  $expr: { $lt: ['$currentUses', '$maxUses'] }
+});
+
+/**
+ * Spread a discount code over the cart lines it applies to. The discount is
+ * worked out once on the eligible total and split between those lines in
+ * proportion to their price, so it is only applied once per basket.
+ */
+const distributeDiscount = (
+  discount: IDiscount | null,
+  lines: { itemType: ICartItem['itemType']; price: number; valid: boolean }[]
+): number[] => {
+  const shares = lines.map(() => 0);
+  if (!discount) {
+    return shares;
+  }
+
+  const eligible = lines
+    .map((line, index) => ({ ...line, index }))
+    .filter(line => line.valid && (discount.applicableItems === 'all' || discount.applicableItems === line.itemType));
+  const eligibleTotal = roundToCents(eligible.reduce((sum, line) => sum + line.price, 0));
+  if (eligibleTotal <= 0 || (discount.minOrderValue && eligibleTotal < discount.minOrderValue)) {
+    return shares;
+  }
+
+  let discountAmount = discount.type === 'percentage'
+    ? eligibleTotal * (discount.value / 100)
+    : discount.value;
+  if (discount.type === 'percentage' && discount.maxDiscountAmount) {
+    discountAmount = Math.min(discountAmount, discount.maxDiscountAmount);
+  }
+  discountAmount = roundToCents(Math.min(discountAmount, eligibleTotal));
+
+  // The last line takes the rounding remainder so the shares add up exactly
+  let remaining = discountAmount;
+  eligible.forEach((line, position) => {
+    const share = position === eligible.length - 1
+      ? remaining
+      : roundToCents(discountAmount * (line.price / eligibleTotal));
+    shares[line.index] = share;
+    remaining = roundToCents(remaining - share);
+  });
+
+  return shares;
+};
+
+/**
+ * Revalidate and price every line of a cart, with the cart's discount code
+ * spread over the lines it applies to. Nothing is reserved.
+ */
+export const quoteCart = async (cart: ICart, userId: string): Promise<CartQuote> => {
+  const lines: CartLineQuote[] = [];
+
+  for (const item of cart.items) {
+    const prepared = await prepareCartItem(item, userId);
+    lines.push({
+      itemId: String(item._id),
+      itemType: item.itemType,
+      itemName: prepared.itemName,
+      price: prepared.valid ? prepared.price : 0,
+      depositAmount: prepared.valid ? getDepositAmount(prepared.bookings) : 0,
+      discountAmount: 0,
+      valid: prepared.valid,
+      ...(!prepared.valid && { reason: prepared.reason })
+    });
+  }
+
+  const discount = cart.discountCode ? await findActiveDiscount(cart.discountCode) : null;
+  distributeDiscount(discount, lines).forEach((share, index) => {
+    lines[index].discountAmount = share;
+  });
+
+  const subtotal = roundToCents(lines.reduce((sum, line) => sum + line.price, 0));
+  const discountAmount = roundToCents(lines.reduce((sum, line) => sum + line.discountAmount, 0));
+
+  return {
+    lines,
+    subtotal,
+    ...(discount && { discountCode: discount.code }),
+    discountAmount,
+    total: roundToCents(subtotal - discountAmount),
+    depositTotal: roundToCents(lines.reduce((sum, line) => sum + line.depositAmount, 0)),
+    valid: lines.length > 0 && lines.every(line => line.valid)
+  };
+};
+
+// Card deposits not yet authorised are canceled along with their payment intents
+const cancelPendingDeposits = async (bookings: IBooking[]) => {
+  const stripe = getStripeInstance();
+  for (const booking of bookings) {
+    if (booking.deposit?.paymentMethod === 'stripe' && booking.deposit.status === 'pending' && booking.deposit.payment) {
+      const depositPayment = await Payment.findById(booking.deposit.payment);
+      if (depositPayment?.stripePaymentId && stripe) {
+        await stripe.paymentIntents.cancel(depositPayment.stripePaymentId).catch(() => undefined);
+      }
+      if (depositPayment?.status === 'pending') {
+        depositPayment.status = 'failed';
+        await depositPayment.save();
+      }
+      booking.deposit.status = 'failed';
+    }
+  }
+};
+
+// Undo the bookings and purchases created for a checkout that did not go through
+const rollBackCheckoutItems = async (
+  bookings: IBooking[],
+  purchases: IPurchase[],
+  reason: string
+) => {
+  for (const booking of bookings) {
+    if (booking.deposit?.status === 'held') {
+      const depositResult = await settleDeposit(booking, 0, reason);
+      if (!depositResult.success) {
+        logger.error('Failed to release security deposit for rolled back checkout', {
+          bookingId: booking._id,
+          error: depositResult.message
+        });
+      }
+    }
+    booking.status = 'canceled';
+    booking.paymentStatus = booking.paymentStatus === 'paid' ? 'refunded' : 'failed';
+    await booking.save();
+    await refreshStockStatusForBooking(booking);
+  }
+  await releaseSlotHolds(bookings.map(booking => booking._id as string));
+
+  for (const purchase of purchases) {
+    purchase.status = 'failed';
+    await purchase.save();
+  }
+
+  logger.info('Cart checkout items rolled back', { bookings: bookings.length, purchases: purchases.length, reason });
+};
+
+export interface CheckoutResult {
+  success: boolean;
+  status?: number;
+  message?: string;
+  unavailable?: CartLineQuote[];
+  payment?: IPayment;
+  bookings?: IBooking[];
+  purchases?: IPurchase[];
+  total?: number;
+  clientSecret?: string | null;
+  deposits?: { bookingId: string; amount: number; clientSecret?: string | null }[];
+}
+
+// The checkout itself, run once the cart has been claimed
+const runCartCheckout = async (
+  cart: ICart,
+  userId: string,
+  paymentMethod: 'wallet' | 'stripe'
+): Promise<CheckoutResult> => {
+  if (cart.items.length === 0) {
+    return { success: false, status: 400, message: 'Your cart is empty' };
+  }
+
+  // Only one checkout at a time: an earlier unpaid card checkout is given up,
+  // unless its payment has gone through or is still going through
+  if (cart.pendingPayment) {
+    const previousPayment = await Payment.findById(cart.pendingPayment);
+    if (previousPayment?.status === 'pending') {
+      const outcome = await abandonCartCheckout(previousPayment, 'Replaced by a new checkout');
+      if (outcome === 'completed') {
+        return {
+          success: false,
+          status: 409,
+          message: 'Your previous checkout has been paid. Check your bookings before checking out again.'
+        };
+      }
+      if (outcome === 'in_progress') {
+        return {
+          success: false,
+          status: 409,
+          message: 'Your previous card payment is still being processed. Please try again shortly.'
+        };
+      }
+    }
+  }
+
+  const bookings: IBooking[] = [];
+  const purchases: IPurchase[] = [];
+  const lines: CartLineQuote[] = [];
+  // Bookings created for each line, in cart order
+  const lineBookings: IBooking[][] = [];
+  const user = new mongoose.Types.ObjectId(userId);
+
+  // Reserve lines one at a time so lines in the same cart cannot overlap each other
+  for (const item of cart.items) {
+    const prepared = await prepareCartItem(item, userId);
+    lines.push({
+      itemId: String(item._id),
+      itemType: item.itemType,
+      itemName: prepared.itemName,
+      price: prepared.valid ? prepared.price : 0,
+      depositAmount: prepared.valid ? getDepositAmount(prepared.bookings) : 0,
+      discountAmount: 0,
+      valid: prepared.valid,
+      ...(!prepared.valid && { reason: prepared.reason })
+    });
+
+    const created: IBooking[] = [];
+    lineBookings.push(created);
+    if (!prepared.valid) {
+      continue;
+    }
+
+    if (prepared.bookings.length > 0) {
+      // A package's bookings are created one by one; if one fails, those made
+      // already are rolled back with the rest of the checkout
+      for (const bookingData of prepared.bookings) {
+        // Venue slots are held atomically so a concurrent checkout cannot take the same time
+        const bookingId = new mongoose.Types.ObjectId();
+        let holdExpiresAt = getHoldExpiry();
+        if (bookingData.itemType === 'venue') {
+          const hold = await holdVenueSlot(bookingId, userId, bookingData);
+          if (!hold.success) {
+            Object.assign(lines[lines.length - 1], { valid: false, price: 0, depositAmount: 0, reason: hold.reason });
+            break;
+          }
+          holdExpiresAt = hold.expiresAt;
+        }
+
+        const booking = await Booking.create({
+          ...bookingData,
+          _id: bookingId,
+          holdExpiresAt,
+          user,
+          status: 'pending',
+          paymentStatus: 'pending',
+          paymentMethod,
+          notes: item.notes
+        });
+        bookings.push(booking);
+        created.push(booking);
+        await refreshStockStatusForBooking(booking);
+      }
+    } else {
+      // A purchase that failed before is reused, as a user can only have one per tutorial
+      const purchase = await Purchase.findOneAndUpdate(
+        { user, tutorialId: prepared.tutorialId, status: { $ne: 'completed' } },
+        {
+          price: prepared.price,
+          originalPrice: prepared.price,
+          status: 'pending',
+          paymentMethod: paymentMethod === 'wallet' ? 'wallet' : 'card',
+          purchaseDate: new Date(),
+          $unset: { discountApplied: 1 }
+        },
+        { upsert: true, new: true }
+      );
+      purchases.push(purchase!);
+    }
+  }
+
+  const unavailable = lines.filter(line => !line.valid);
+  if (unavailable.length > 0) {
+    await rollBackCheckoutItems(bookings, purchases, 'Cart item no longer available');
+    logger.warn('Cart checkout rejected', { userId, unavailable: unavailable.map(line => line.itemId) });
+    return {
+      success: false,
+      status: 409,
+      message: 'Some items in your cart are no longer available',
+      unavailable
+    };
+  }
+
+  // Claim one use of the discount code; it is given back if the checkout fails
+  let discount: IDiscount | null = null;
+  if (cart.discountCode) {
+    discount = await Discount.findOneAndUpdate(
+      {
+        _id: (await findActiveDiscount(cart.discountCode))?._id,
+        $expr: { $lt: ['$currentUses', '$maxUses'] }
+      },
+      { $inc: { currentUses: 1 } },
+      { new: true }
+    );
+  }
+
+  const shares = distributeDiscount(discount, lines);
+  if (discount && shares.every(share => share === 0)) {
+    await Discount.findByIdAndUpdate(discount._id, { $inc: { currentUses: -1 } });
+    discount = null;
+  }
+
+  // Purchases were created in cart order, so walk the lines in step
+  let purchaseIndex = 0;
+  for (const [index, line] of lines.entries()) {
+    const share = shares[index];
+    if (line.itemType === 'tutorial') {
+      const purchase = purchases[purchaseIndex++];
+      purchase.price = roundToCents(line.price - share);
+      if (share > 0 && discount) {
+        purchase.discountApplied = { code: discount.code, value: discount.value, type: discount.type };
+      }
+      await purchase.save();
+    } else if (share > 0 && discount) {
+      // A package's share is split between its bookings in proportion to their price;
+      // the last one takes the rounding remainder
+      let remaining = share;
+      for (const [position, booking] of lineBookings[index].entries()) {
+        const bookingShare = position === lineBookings[index].length - 1
+          ? remaining
+          : roundToCents(share * (booking.totalPrice / line.price));
+        booking.discountCode = discount.code;
+        booking.discountAmount = bookingShare;
+        booking.totalPrice = roundToCents(booking.totalPrice - bookingShare);
+        remaining = roundToCents(remaining - bookingShare);
+        await booking.save();
+      }
+    }
+    line.discountAmount = share;
+  }
+
+  const total = roundToCents(lines.reduce((sum, line) => sum + line.price - line.discountAmount, 0));
+  const description = `Cart checkout (${lines.length} item${lines.length === 1 ? '' : 's'})`;
+
+  const fail = async (message: string, paymentRecord?: IPayment) => {
+    await cancelPendingDeposits(bookings);
+    await rollBackCheckoutItems(bookings, purchases, 'Cart checkout failed');
+    if (discount) {
+      await Discount.findByIdAndUpdate(discount._id, { $inc: { currentUses: -1 } });
+    }
+    if (paymentRecord) {
+      paymentRecord.status = 'failed';
+      await paymentRecord.save();
+    }
+    logger.warn('Cart checkout failed', { userId, message });
+    return { success: false, status: 400, message };
+  };
+
+  if (paymentMethod === 'wallet') {
+    // Deposits are held first so nothing is charged if the wallet cannot cover them
+    for (const booking of bookings) {
+      if (booking.deposit && booking.deposit.amount > 0) {
+        const depositResult = await holdDeposit({
+          amount: booking.deposit.amount,
+          currency: BASE_CURRENCY,
+          userId,
+          bookingId: String(booking._id),
+          paymentMethod: 'wallet'
+        });
+        if (!depositResult.success) {
+          return fail(depositResult.message || 'Failed to hold security deposit');
+        }
+        booking.deposit.status = 'held';
+        booking.deposit.paymentMethod = 'wallet';
+        booking.deposit.payment = depositResult.payment!._id as mongoose.Types.ObjectId;
+      }
+    }
+
+    // The debit, the payment's links to what it paid for and the confirmations
+    // are written in one transaction, so money never leaves the wallet for
+    // bookings that stay pending
+    let payment: IPayment | undefined;
+    let confirmed: IBooking[] = [];
+    let failure: string | undefined;
+    const rejected = new Error('Cart wallet checkout rejected');
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        confirmed = [];
+        const walletResult = await processWalletPayment({
+          amount: total,
+          currency: BASE_CURRENCY,
+          userId,
+          description,
+          confirmBooking: false,
+          session
+        });
+        if (!walletResult.success || !walletResult.payment) {
+          failure = walletResult.message || 'Failed to process wallet payment';
+          throw rejected;
+        }
+
+        payment = walletResult.payment;
+        payment.bookings = bookings.map(booking => booking._id as mongoose.Types.ObjectId);
+        payment.purchases = purchases.map(purchase => purchase._id as mongoose.Types.ObjectId);
+        await payment.save({ session });
+
+        for (const booking of bookings) {
+          const confirmedBooking = await confirmPaidBooking(booking._id, { paymentMethod: 'wallet' }, session);
+          if (!confirmedBooking) {
+            failure = 'A booking in your cart is no longer held for you. Please check out again.';
+            throw rejected;
+          }
+          confirmed.push(confirmedBooking);
+        }
+        await completeCheckoutPurchases(payment, session);
+      });
+    } catch (error) {
+      if (error !== rejected) {
+        logger.error('Cart wallet checkout error', { error: error instanceof Error ? error.message : String(error) });
+        failure = 'Failed to process wallet payment';
+      }
+    } finally {
+      await session.endSession();
+    }
+    if (failure || !payment) {
+      return fail(failure || 'Failed to process wallet payment');
+    }
+
+    await sendCheckoutConfirmations(payment, confirmed);
+
+    return {
+      success: true,
+      payment,
+      bookings: await Booking.find({ _id: { $in: payment.bookings } }),
+      purchases: await Purchase.find({ _id: { $in: payment.purchases } }),
+      total
+    };
+  }
+
+  const stripe = getStripeInstance();
+  if (!stripe) {
+    return fail('Stripe is not configured properly');
+  }
+
+  let payment: IPayment | undefined;
+  try {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: toMinorUnits(total, BASE_CURRENCY), // Stripe requires amounts in the smallest currency unit
+      currency: BASE_CURRENCY.toLowerCase(),
+      description,
+      metadata: {
+        userId,
+        cartCheckout: 'true',
+      },
+    });
+
+    payment = await Payment.create({
+      user: userId,
+      bookings: bookings.map(booking => booking._id),
+      purchases: purchases.map(purchase => purchase._id),
+      amount: total,
+      currency: BASE_CURRENCY,
+      status: 'pending',
+      paymentMethod: 'stripe',
+      stripePaymentId: paymentIntent.id,
+    });
+
+    // Each deposit is its own manual-capture intent confirmed after the main payment
+    const deposits: NonNullable<CheckoutResult['deposits']> = [];
+    for (const booking of bookings) {
+      if (booking.deposit && booking.deposit.amount > 0) {
+        const depositResult = await holdDeposit({
+          amount: booking.deposit.amount,
+          currency: BASE_CURRENCY,
+          userId,
+          bookingId: String(booking._id),
+          paymentMethod: 'stripe'
+        });
+        if (!depositResult.success) {
+          await stripe.paymentIntents.cancel(paymentIntent.id).catch(() => undefined);
+          return fail(depositResult.message || 'Failed to create security deposit', payment);
+        }
+        booking.deposit.status = 'pending';
+        booking.deposit.paymentMethod = 'stripe';
+        booking.deposit.payment = depositResult.payment!._id as mongoose.Types.ObjectId;
+        deposits.push({
+          bookingId: String(booking._id),
+          amount: booking.deposit.amount,
+          clientSecret: depositResult.clientSecret
+        });
+      }
+    }
+
+    cart.pendingPayment = payment._id as mongoose.Types.ObjectId;
+    await cart.save();
+
+    logger.info('Cart checkout awaiting card payment', { userId, paymentId: payment._id, total });
+
+    return {
+      success: true,
+      payment,
+      bookings,
+      purchases,
+      total,
+      clientSecret: paymentIntent.client_secret,
+      deposits
+    };
+  } catch (error) {
+    logger.error('Cart checkout Stripe error', { error: error instanceof Error ? error.message : String(error) });
+    return fail('Stripe API error occurred', payment);
+  }
+};
+
+/**
+ * Turn a cart into bookings and tutorial purchases paid with one payment.
+ * Every line is revalidated and reserved (as a pending booking or purchase)
+ * before any money moves; if a line is no longer available, or the payment
+ * cannot be taken, everything created so far is rolled back. Wallet
+ * checkouts complete straight away; Stripe checkouts complete when the
+ * payment intent succeeds (see `completeCartCheckout`). Only one checkout of
+ * a cart runs at a time.
+ */
+export const checkoutCart = async (
+  cart: ICart,
+  userId: string,
+  paymentMethod: 'wallet' | 'stripe'
+): Promise<CheckoutResult> => {
+  // Claim the cart so two checkouts of it cannot both take payment; a claim
+  // left behind by a checkout that never finished lapses after a while
+  const claimed = await Cart.findOneAndUpdate(
+    {
+      _id: cart._id,
+      $or: [
+        { checkoutStartedAt: null },
+        { checkoutStartedAt: { $lte: new Date(Date.now() - CHECKOUT_CLAIM_MINUTES * 60 * 1000) } }
+      ]
+    },
+    { checkoutStartedAt: new Date() },
+    { new: true }
+  );
+  if (!claimed) {
+    return { success: false, status: 409, message: 'This cart is already being checked out' };
+  }
+
+  try {
+    // The claimed cart is read fresh, so items a finished checkout took are gone
+    return await runCartCheckout(claimed, userId, paymentMethod);
+  } finally {
+    await Cart.updateOne({ _id: cart._id }, { $unset: { checkoutStartedAt: 1 } });
+  }
+};
+
+/**
+ * Confirm everything bought in a cart checkout once its payment has gone
+ * through: bookings are paid and confirmed, purchases completed, the cart is
+ * emptied and confirmation emails are sent.
+ */
+export const completeCartCheckout = async (payment: IPayment) => {
+  const bookings: IBooking[] = [];
+  for (const bookingId of payment.bookings || []) {
+    const booking = await confirmPaidBooking(bookingId, {
+      paymentMethod: payment.paymentMethod === 'wallet' ? 'wallet' : 'stripe'
+    });
+    if (booking) {
+      bookings.push(booking);
+      continue;
+    }
+
+    // The booking expired before the payment arrived and its slot may be taken
+    // already, so its share of the payment is given back instead
+    const expired = await Booking.findById(bookingId);
+    logger.warn('Cart booking could not be confirmed after payment', {
+      paymentId: payment._id,
+      bookingId,
+      status: expired?.status
+    });
+    if (expired) {
+      const refundResult = await processRefund({
+        userId: String(payment.user),
+        bookingId: String(bookingId),
+        amount: expired.totalPrice,
+        reason: 'Payment arrived after the booking hold expired'
+      });
+      if (!refundResult.success) {
+        logger.error('Failed to refund expired cart booking', {
+          paymentId: payment._id,
+          bookingId,
+          error: refundResult.message
+        });
+      }
+    }
+  }
+
+  await completeCheckoutPurchases(payment);
+  await sendCheckoutConfirmations(payment, bookings);
+};
+
+// Complete the purchases a checkout paid for and empty the cart
+const completeCheckoutPurchases = async (payment: IPayment, session?: mongoose.ClientSession) => {
+  await Purchase.updateMany(
+    { _id: { $in: payment.purchases || [] } },
+    { status: 'completed', purchaseDate: new Date() },
+    { session }
+  );
+
+  await Cart.findOneAndUpdate(
+    { user: payment.user },
+    { $set: { items: [] }, $unset: { discountCode: 1, pendingPayment: 1 } },
+    { session }
+  );
+};
+
+// Log a completed checkout and email the customer about each confirmed booking
+const sendCheckoutConfirmations = async (payment: IPayment, bookings: IBooking[]) => {
+  logger.info('Cart checkout completed', {
+    paymentId: payment._id,
+    bookings: bookings.length,
+    purchases: payment.purchases?.length || 0
+  });
+
+  const user = await User.findById(payment.user);
+  if (!user) {
+    return;
+  }
+
+  for (const booking of bookings) {
+    const populated = await booking.populate(['venue', 'equipment']);
+    const itemName = booking.itemType === 'venue'
+      ? (populated.venue as unknown as { name?: string } | undefined)?.name || 'Venue'
+      : (populated.equipment as unknown as { name: string }[]).map(item => item.name).join(', ');
+
+    const checkInQrCode = await issueCheckInQrCode(booking);
+    emailService.sendBookingConfirmationEmail(
+      user.email,
+      user.name,
+      {
+        bookingId: String(booking._id),
+        itemType: booking.itemType,
+        itemName,
+        date: booking.date,
+        timeSlot: booking.timeSlot,
+        totalPrice: booking.totalPrice,
+        checkInQrCode,
+        calendarInvite: await renderBookingInvite(booking)
+      }
+    ).catch(error => {
+      logger.error('Failed to send booking confirmation email', {
+        error: error instanceof Error ? error.message : String(error),
+        bookingId: booking._id
+      });
+    });
+  }
+};
+
+export type AbandonCheckoutResult = 'abandoned' | 'completed' | 'in_progress';
+
+/**
+ * Give up a card checkout that was not paid: its bookings are canceled (with
+ * any deposits released), purchases failed and the discount use returned.
+ * The payment intent is checked first: one Stripe has already taken is
+ * completed instead, and one still being processed, or that cannot be
+ * canceled, is left alone. Returns what happened to the checkout.
+ */
+export const abandonCartCheckout = async (payment: IPayment, reason: string): Promise<AbandonCheckoutResult> => {
+  const stripe = getStripeInstance();
+  if (payment.status === 'pending' && payment.stripePaymentId && stripe) {
+    const paymentIntent = await stripe.paymentIntents.retrieve(payment.stripePaymentId);
+
+    // Paid already, but the webhook has not arrived yet
+    if (paymentIntent.status === 'succeeded') {
+      const completed = await Payment.findOneAndUpdate(
+        { _id: payment._id, status: 'pending' },
+        { status: 'completed' },
+        { new: true }
+      );
+      if (completed) {
+        await completeCartCheckout(completed);
+      }
+      logger.info('Cart checkout paid before it could be abandoned', { paymentId: payment._id, reason });
+      return 'completed';
+    }
+
+    if (paymentIntent.status !== 'canceled') {
+      if (['processing', 'requires_capture'].includes(paymentIntent.status)) {
+        return 'in_progress';
+      }
+      try {
+        await stripe.paymentIntents.cancel(payment.stripePaymentId);
+      } catch (error) {
+        // The intent moved on meanwhile; its webhook settles the checkout
+        logger.warn('Card checkout could not be canceled', {
+          paymentId: payment._id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return 'in_progress';
+      }
+    }
+  }
+
+  const bookings = await Booking.find({ _id: { $in: payment.bookings || [] }, status: 'pending' });
+  const purchases = await Purchase.find({ _id: { $in: payment.purchases || [] }, status: 'pending' });
+
+  await cancelPendingDeposits(bookings);
+  await rollBackCheckoutItems(bookings, purchases, reason);
+
+  const discountCode = bookings.find(booking => booking.discountCode)?.discountCode
+    ?? purchases.find(purchase => purchase.discountApplied?.code)?.discountApplied?.code;
+  if (discountCode) {
+    await Discount.findOneAndUpdate(
+      { code: discountCode, currentUses: { $gt: 0 } },
+      { $inc: { currentUses: -1 } }
+    );
+  }
+
+  if (payment.status === 'pending') {
+    payment.status = 'failed';
+    await payment.save();
+  }
+
+  await Cart.findOneAndUpdate(
+    { user: payment.user, pendingPayment: payment._id },
+    { $unset: { pendingPayment: 1 } }
+  );
+
+  logger.info('Cart checkout abandoned', { paymentId: payment._id, reason });
+  return 'abandoned';
+};
+
+export default {
+  quoteCart,
+  checkoutCart,
+  completeCartCheckout,
+  abandonCartCheckout
+};
@@ -0,0 +1,170 @@
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { format } from 'date-fns';
+import Booking, { IBooking, IBookingCheckInPass } from '../models/Booking';
+import logger from './logger';
+
+// Check-in codes are signed separately from login tokens so one cannot stand in for the other.
+// Without a secret of their own no codes are issued or accepted.
+const CHECK_IN_SECRET = process.env.CHECK_IN_TOKEN_SECRET;
+
+const NOT_CONFIGURED = 'Check-in codes are not configured on this server';
+
+export const isCheckInConfigured = (): boolean => !!CHECK_IN_SECRET;
+
+const CHECK_IN_PURPOSE = 'booking_check_in';
+
+interface CheckInTokenPayload {
+  bookingId: string;
+  date: string;
+  purpose: string;
+}
+
+export type CheckInResult =
+  | { checkedIn: true; booking: IBooking }
+  | { checkedIn: false; status: number; reason: string; booking?: IBooking };
+
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Give a booking a signed check-in code for its date, valid until the end of
+ * that day, unless it already has one for that date. Rescheduled bookings get
+ * a new code and the old one stops working. Saves the booking when it changes.
+ */
+export const ensureCheckInPass = async (booking: IBooking): Promise<IBookingCheckInPass> => {
+  if (!CHECK_IN_SECRET) {
+    throw new Error(NOT_CONFIGURED);
+  }
+  const dateKey = toDateKey(booking.date);
+  if (booking.checkInPass?.token) {
+    try {
+      const payload = jwt.decode(booking.checkInPass.token) as CheckInTokenPayload | null;
+      if (payload?.date === dateKey) {
+        return booking.checkInPass;
+      }
+    } catch {
+      // Fall through and issue a fresh code
+    }
+  }
+
+  // Valid until the end of the booking's date, with a day's grace for time zones
+  const expiresAt = new Date(booking.date.getTime() + 2 * 24 * 60 * 60 * 1000);
+  const token = jwt.sign(
+    { bookingId: String(booking._id), date: dateKey, purpose: CHECK_IN_PURPOSE },
+    CHECK_IN_SECRET,
+    { expiresIn: Math.max(60, Math.floor((expiresAt.getTime() - Date.now()) / 1000)) }
+  );
+
+  booking.checkInPass = { token, expiresAt };
+  await booking.save();
+  return booking.checkInPass;
+};
+
+// Render a check-in code as a QR code image, as a data URL or a PNG buffer for email attachments
+export const renderCheckInQrCode = (token: string): Promise<string> =>
+  QRCode.toDataURL(token, { margin: 1, width: 256 });
+
+export const renderCheckInQrCodeBuffer = (token: string): Promise<Buffer> =>
+  QRCode.toBuffer(token, { margin: 1, width: 256 });
+
+/**
+ * Issue a booking's check-in code and render it for its confirmation email.
+ * Only bookings that are confirmed get one. Failures are logged rather than
+ * thrown so the email still goes out without it.
+ */
+export const issueCheckInQrCode = async (booking: IBooking): Promise<Buffer | undefined> => {
+  if (booking.itemType !== 'venue' && booking.itemType !== 'equipment') {
+    return undefined;
+  }
+  if (booking.status !== 'confirmed' || !CHECK_IN_SECRET) {
+    return undefined;
+  }
+  try {
+    const pass = await ensureCheckInPass(booking);
+    return await renderCheckInQrCodeBuffer(pass.token);
+  } catch (error) {
+    logger.error('Failed to issue check-in code', {
+      error: error instanceof Error ? error.message : String(error),
+      bookingId: booking._id
+    });
+    return undefined;
+  }
+};
+
+/**
+ * Check a customer in with the code scanned from their QR code. The code must
+ * be genuine and unexpired, belong to a confirmed booking for today that the
+ * staff member may manage, and not have been used before.
+ */
+export const checkInWithToken = async (
+  token: string,
+  staff: { id: string; canManage: (booking: IBooking) => Promise<boolean> },
+  now: Date = new Date()
+): Promise<CheckInResult> => {
+  if (!CHECK_IN_SECRET) {
+    return { checkedIn: false, status: 503, reason: NOT_CONFIGURED };
+  }
+
+  let payload: CheckInTokenPayload;
+  try {
+    payload = jwt.verify(token, CHECK_IN_SECRET) as CheckInTokenPayload;
+  } catch (error) {
+    return {
+      checkedIn: false,
+      status: 400,
+      reason: error instanceof jwt.TokenExpiredError ? 'This check-in code has expired' : 'Invalid check-in code'
+    };
+  }
+
+  if (payload.purpose !== CHECK_IN_PURPOSE) {
+    return { checkedIn: false, status: 400, reason: 'Invalid check-in code' };
+  }
+
+  const booking = await Booking.findById(payload.bookingId);
+  if (!booking) {
+    return { checkedIn: false, status: 404, reason: 'Booking not found' };
+  }
+  if (!(await staff.canManage(booking))) {
+    return { checkedIn: false, status: 403, reason: 'Not authorized to check in this booking' };
+  }
+  if (booking.checkInPass?.token !== token) {
+    return { checkedIn: false, status: 400, reason: 'This check-in code has been replaced by a newer one', booking };
+  }
+  if (booking.status !== 'confirmed') {
+    return { checkedIn: false, status: 400, reason: `This booking is ${booking.status}, not confirmed`, booking };
+  }
+
+  const bookingDate = toDateKey(booking.date);
+  // Booking dates are stored as UTC midnight, so today is the UTC date as well
+  if (bookingDate !== toDateKey(now)) {
+    return { checkedIn: false, status: 400, reason: `This booking is for ${bookingDate}, not today`, booking };
+  }
+
+  // Only the first scan counts, even if two happen at once
+  const checkedIn = await Booking.findOneAndUpdate(
+    { _id: booking._id, 'checkInPass.token': token, 'checkInPass.checkedInAt': { $exists: false } },
+    { $set: { 'checkInPass.checkedInAt': now, 'checkInPass.checkedInBy': staff.id } },
+    { new: true }
+  );
+  if (!checkedIn) {
+    const at = booking.checkInPass?.checkedInAt;
+    return {
+      checkedIn: false,
+      status: 409,
+      reason: at ? `Already checked in at ${format(at, 'HH:mm')}` : 'Already checked in',
+      booking
+    };
+  }
+
+  logger.info('Booking checked in', { bookingId: booking._id, staffId: staff.id });
+  return { checkedIn: true, booking: checkedIn };
+};
+
+export default {
+  isCheckInConfigured,
+  ensureCheckInPass,
+  renderCheckInQrCode,
+  renderCheckInQrCodeBuffer,
+  issueCheckInQrCode,
+  checkInWithToken
+};
@@ -134,7 +134,8 @@ const generateEmailTemplate = (
 export const sendEmail = async (
   to: string,
   subject: string,
-  html: string
+  html: string,
+  attachments?: { filename: string; content: Buffer | string; cid?: string; contentType?: string }[]
 ): Promise<boolean> => {
   try {
     const emailTransporter = await getTransporter();
@@ -144,6 +145,7 @@ export const sendEmail = async (
       to,
       subject,
       html,
+      ...(attachments && { attachments }),
     };
     
     logger.debug('Sending email', { to, subject });
@@ -179,9 +181,13 @@ export const sendBookingConfirmationEmail = async (
     date: Date;
     timeSlot?: { start: string; end: string };
     totalPrice: number;
+    // PNG of the booking's check-in QR code, embedded in the email
+    checkInQrCode?: Buffer;
+    // The booking as an .ics file to add to a calendar
+    calendarInvite?: string;
   }
 ) => {
-  const { bookingId, itemType, itemName, date, timeSlot, totalPrice } = bookingDetails;
+  const { bookingId, itemType, itemName, date, timeSlot, totalPrice, checkInQrCode, calendarInvite } = bookingDetails;
   
   // Format date
   const formattedDate = format(new Date(date), 'MMMM do, yyyy');
@@ -206,7 +212,10 @@ export const sendBookingConfirmationEmail = async (
       ${timeSlotText ? `<strong>${timeSlotText}</strong><br>` : ''}
       <strong>Total Amount:</strong> $${totalPrice.toFixed(2)}
     </p>
-    
+    ${checkInQrCode ? `
+    <p>Show this QR code when you arrive on the day of your booking to check in:</p>
+    <p style="text-align: center;"><img src="cid:checkin-qr" alt="Check-in QR code" width="200" height="200"></p>
+    ` : ''}
     <p>You can view and manage your booking in your account dashboard.</p>
   `;
   
@@ -219,7 +228,12 @@ export const sendBookingConfirmationEmail = async (
     dashboardUrl
   );
   
-  return await sendEmail(userEmail, subject, emailHtml);
+  const attachments = [
+    ...(checkInQrCode ? [{ filename: 'check-in.png', content: checkInQrCode, cid: 'checkin-qr' }] : []),
+    ...(calendarInvite ? [{ filename: 'booking.ics', content: calendarInvite, contentType: 'text/calendar; method=PUBLISH' }] : [])
+  ];
+  
+  return await sendEmail(userEmail, subject, emailHtml, attachments.length > 0 ? attachments : undefined);
 };
 
 export const sendBookingStatusUpdateEmail = async (
@@ -233,9 +247,12 @@ export const sendBookingStatusUpdateEmail = async (
     timeSlot?: { start: string; end: string };
     status: string;
     reason?: string;
+    // Where a rescheduled booking was before it moved
+    previousDate?: Date;
+    previousTimeSlot?: { start: string; end: string };
   }
 ) => {
-  const { bookingId, itemType, itemName, date, timeSlot, status, reason } = bookingDetails;
+  const { bookingId, itemType, itemName, date, timeSlot, status, reason, previousDate, previousTimeSlot } = bookingDetails;
   
   // Format date
   const formattedDate = format(new Date(date), 'MMMM do, yyyy');
@@ -262,6 +279,18 @@ export const sendBookingStatusUpdateEmail = async (
       statusTitle = 'Booking Completed';
       statusMessage = 'Thank you for using our service. Your booking has been marked as completed.';
       break;
+    case 'no_show':
+      statusTitle = 'Missed Booking';
+      statusMessage = 'You did not check in for your booking, so it has been marked as a no-show.';
+      break;
+    case 'rescheduled':
+      statusTitle = 'Booking Rescheduled';
+      statusMessage = previousDate
+        ? `Your booking has been moved from ${format(new Date(previousDate), 'MMMM do, yyyy')}${
+          previousTimeSlot ? ` (${previousTimeSlot.start} - ${previousTimeSlot.end})` : ''
+        } to the new date below.`
+        : 'Your booking has been moved to the new date below.';
+      break;
     default:
       statusTitle = 'Booking Update';
       statusMessage = `Your booking status has been updated to: ${status}.`;
@@ -350,6 +379,255 @@ export const sendBookingReminderEmail = async (
   return await sendEmail(userEmail, subject, emailHtml);
 };
 
+export const sendWaitlistOfferEmail = async (
+  userEmail: string,
+  userName: string,
+  offerDetails: {
+    bookingId: string;
+    itemType: string;
+    itemName: string;
+    date: Date;
+    timeSlot?: { start: string; end: string };
+    totalPrice: number;
+    expiresAt: Date;
+  }
+) => {
+  const { bookingId, itemType, itemName, date, timeSlot, totalPrice, expiresAt } = offerDetails;
+  
+  // Format date
+  const formattedDate = format(new Date(date), 'MMMM do, yyyy');
+  const formattedExpiry = format(new Date(expiresAt), "MMMM do, yyyy 'at' h:mm a");
+  
+  // Format time slot if available
+  const timeSlotText = timeSlot 
+    ? `Time: ${timeSlot.start} - ${timeSlot.end}` 
+    : '';
+  
+  const subject = `Good news: ${itemName} is available on ${formattedDate}`;
+  
+  const content = `
+    <p>Hello ${userName},</p>
+    
+    <p>A spot you were on the waitlist for has opened up, and we are holding it for you.</p>
+    
+    <h3>Booking Details:</h3>
+    <p>
+      <strong>Item:</strong> ${itemName} (${itemType})<br>
+      <strong>Date:</strong> ${formattedDate}<br>
+      ${timeSlotText ? `<strong>${timeSlotText}</strong><br>` : ''}
+      <strong>Total Amount:</strong> $${totalPrice.toFixed(2)}
+    </p>
+    
+    <p>Complete your payment by <strong>${formattedExpiry}</strong> to confirm the booking. After that the offer passes to the next person on the waitlist.</p>
+  `;
+  
+  const checkoutUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/bookings/checkout/${bookingId}`;
+  
+  const emailHtml = generateEmailTemplate(
+    'Your Waitlist Spot Is Available',
+    content,
+    'Complete Booking',
+    checkoutUrl
+  );
+  
+  return await sendEmail(userEmail, subject, emailHtml);
+};
+
+export const sendGroupBookingInviteEmail = async (
+  participantEmail: string,
+  participantName: string | undefined,
+  inviteDetails: {
+    organiserName: string;
+    itemName: string;
+    date: Date;
+    timeSlot?: { start: string; end: string };
+    share: number;
+    totalPrice: number;
+    payBy?: Date;
+  }
+) => {
+  const { organiserName, itemName, date, timeSlot, share, totalPrice, payBy } = inviteDetails;
+  
+  const formattedDate = format(new Date(date), 'MMMM do, yyyy');
+  const timeSlotText = timeSlot 
+    ? `Time: ${timeSlot.start} - ${timeSlot.end}` 
+    : '';
+  
+  const subject = `${organiserName} invited you to share a booking of ${itemName}`;
+  
+  const content = `
+    <p>Hello ${participantName || 'there'},</p>
+    
+    <p>${organiserName} has booked ${itemName} and is splitting the cost with you.</p>
+    
+    <h3>Booking Details:</h3>
+    <p>
+      <strong>Item:</strong> ${itemName}<br>
+      <strong>Date:</strong> ${formattedDate}<br>
+      ${timeSlotText ? `<strong>${timeSlotText}</strong><br>` : ''}
+      <strong>Total Amount:</strong> $${totalPrice.toFixed(2)}<br>
+      <strong>Your Share:</strong> $${share.toFixed(2)}
+    </p>
+    
+    <p>The booking is confirmed once everyone has paid.${payBy ? ` Please pay your share by <strong>${format(new Date(payBy), "MMMM do, yyyy 'at' h:mm a")}</strong>; after that ${organiserName} covers it.` : ''} If you do not have an account yet, sign up with this email address to pay.</p>
+  `;
+  
+  const bookingsUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/bookings`;
+  
+  const emailHtml = generateEmailTemplate(
+    'You Have Been Invited to a Group Booking',
+    content,
+    'Pay My Share',
+    bookingsUrl
+  );
+  
+  return await sendEmail(participantEmail, subject, emailHtml);
+};
+
+export const sendGroupBookingShortfallEmail = async (
+  organiserEmail: string,
+  organiserName: string,
+  shortfallDetails: {
+    bookingId: string;
+    itemName: string;
+    date: Date;
+    unpaidParticipants: string[];
+    amount: number;
+    covered: boolean;
+  }
+) => {
+  const { bookingId, itemName, date, unpaidParticipants, amount, covered } = shortfallDetails;
+  
+  const formattedDate = format(new Date(date), 'MMMM do, yyyy');
+  
+  const subject = covered
+    ? `Unpaid shares of your ${itemName} booking were charged to you`
+    : `Your group booking of ${itemName} could not be fully paid`;
+  
+  const content = `
+    <p>Hello ${organiserName},</p>
+    
+    <p>Not everyone paid their share of your group booking of ${itemName} on ${formattedDate} in time:</p>
+    
+    <ul>
+      ${unpaidParticipants.map(participant => `<li>${participant}</li>`).join('')}
+    </ul>
+    
+    ${covered
+      ? `<p>The outstanding <strong>$${amount.toFixed(2)}</strong> has been charged to your wallet and the booking is confirmed.</p>`
+      : `<p>Your wallet did not cover the outstanding <strong>$${amount.toFixed(2)}</strong>, so the booking will be released and the shares already paid will be refunded.</p>`}
+  `;
+  
+  const dashboardUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/bookings/${bookingId}`;
+  
+  const emailHtml = generateEmailTemplate(
+    covered ? 'Group Booking Confirmed' : 'Group Booking Not Funded',
+    content,
+    'View Booking',
+    dashboardUrl
+  );
+  
+  return await sendEmail(organiserEmail, subject, emailHtml);
+};
+
+// Text typed by another user, made safe to put in an email
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export const sendWalletTransferReceivedEmail = async (
+  recipientEmail: string,
+  recipientName: string,
+  transferDetails: {
+    senderName: string;
+    amount: number;
+    currency: string;
+    note?: string;
+  }
+) => {
+  const { senderName, amount, currency, note } = transferDetails;
+  
+  const subject = `${senderName} sent you ${amount.toFixed(2)} ${currency}`;
+  
+  const content = `
+    <p>Hello ${recipientName},</p>
+    
+    <p>${senderName} sent <strong>${amount.toFixed(2)} ${currency}</strong> to your SportNexus wallet.</p>
+    
+    ${note ? `<p>Their note: <em>${escapeHtml(note)}</em></p>` : ''}
+    
+    <p>You can use it for your next booking or send it on to someone else.</p>
+  `;
+  
+  const walletUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/payment-settings`;
+  
+  const emailHtml = generateEmailTemplate(
+    'Money Received',
+    content,
+    'View Wallet',
+    walletUrl
+  );
+  
+  return await sendEmail(recipientEmail, subject, emailHtml);
+};
+
+export const sendVenueExceptionConflictEmail = async (
+  ownerEmail: string,
+  ownerName: string,
+  exceptionDetails: {
+    venueName: string;
+    date: Date;
+    isClosed: boolean;
+    openTime?: string;
+    closeTime?: string;
+    reason?: string;
+    conflicts: {
+      bookingId: string;
+      customerName: string;
+      customerEmail: string;
+      resourceName?: string;
+      timeSlot?: { start: string; end: string };
+    }[];
+  }
+) => {
+  const { venueName, date, isClosed, openTime, closeTime, reason, conflicts } = exceptionDetails;
+  
+  // Format date
+  const formattedDate = format(new Date(date), 'MMMM do, yyyy');
+  
+  const change = isClosed
+    ? `is now closed on ${formattedDate}`
+    : `now opens from ${openTime} to ${closeTime} on ${formattedDate}`;
+  
+  const subject = `Action needed: ${conflicts.length} booking(s) affected at ${venueName} on ${formattedDate}`;
+  
+  const content = `
+    <p>Hello ${ownerName},</p>
+    
+    <p>${venueName} ${change}${reason ? ` (${reason})` : ''}, but the following bookings fall outside the new hours. Please contact these customers to cancel or reschedule their bookings.</p>
+    
+    <ul>
+      ${conflicts.map(conflict => `
+        <li>
+          <strong>${conflict.customerName}</strong> (${conflict.customerEmail})<br>
+          ${conflict.timeSlot ? `${conflict.timeSlot.start} - ${conflict.timeSlot.end}` : ''}${conflict.resourceName ? ` · ${conflict.resourceName}` : ''}<br>
+          Booking ID: ${conflict.bookingId}
+        </li>
+      `).join('')}
+    </ul>
+  `;
+  
+  const adminUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/admin/venue-schedule`;
+  
+  const emailHtml = generateEmailTemplate(
+    'Bookings Affected by a Schedule Change',
+    content,
+    'Review Schedule',
+    adminUrl
+  );
+  
+  return await sendEmail(ownerEmail, subject, emailHtml);
+};
+
 export const sendPasswordResetEmail = async (
   userEmail: string,
   userName: string,
@@ -384,5 +662,10 @@ export default {
   sendBookingConfirmationEmail,
   sendBookingStatusUpdateEmail,
   sendBookingReminderEmail,
+  sendWaitlistOfferEmail,
+  sendGroupBookingInviteEmail,
+  sendGroupBookingShortfallEmail,
+  sendVenueExceptionConflictEmail,
+  sendWalletTransferReceivedEmail,
   sendPasswordResetEmail
 }; 
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import Equipment, { IEquipment } from '../models/Equipment';
+import logger from './logger';
+
+// Below this many free units an item is shown as "Low Stock"
+export const LOW_STOCK_THRESHOLD = 5;
+
+export interface EquipmentLine {
+  equipmentId: string;
+  quantity: number;
+}
+
+export interface EquipmentAvailability {
+  equipmentId: string;
+  quantity: number;
+  reserved: number;
+  available: number;
+}
+
+export type EquipmentLinesResult =
+  | { valid: true; lines: EquipmentLine[] }
+  | { valid: false; reason: string };
+
+// Format a date as the "yyyy-MM-dd" key used for booking dates (stored at UTC midnight)
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Normalise the equipment part of a booking request into one line per item.
+ *
+ * Accepts either explicit lines (`[{ equipmentId, quantity }]`) or one or more
+ * equipment ids with an optional quantity for a single item. Repeated ids are
+ * merged into a single line.
+ */
+export const parseEquipmentLines = (
+  itemId: string | string[] | undefined,
+  quantity?: number | string,
+  items?: { equipmentId: string; quantity?: number | string }[]
+): EquipmentLinesResult => {
+  let rawLines: { equipmentId: string; quantity?: number | string }[];
+
+  if (Array.isArray(items) && items.length > 0) {
+    rawLines = items;
+  } else if (itemId) {
+    const ids = Array.isArray(itemId) ? itemId : [itemId];
+    if (quantity !== undefined && ids.length > 1) {
+      return { valid: false, reason: 'Provide quantities per item when booking several equipment items' };
+    }
+    rawLines = ids.map(id => ({ equipmentId: id, quantity }));
+  } else {
+    return { valid: false, reason: 'Please provide the equipment to book' };
+  }
+
+  const merged = new Map<string, number>();
+  for (const line of rawLines) {
+    const lineQuantity = line.quantity !== undefined ? Number(line.quantity) : 1;
+    if (!line.equipmentId || !mongoose.Types.ObjectId.isValid(line.equipmentId)) {
+      return { valid: false, reason: 'Invalid equipment id' };
+    }
+    if (!Number.isInteger(lineQuantity) || lineQuantity < 1) {
+      return { valid: false, reason: 'Quantity must be a whole number of at least 1' };
+    }
+    merged.set(line.equipmentId, (merged.get(line.equipmentId) || 0) + lineQuantity);
+  }
+
+  return {
+    valid: true,
+    lines: Array.from(merged.entries()).map(([equipmentId, lineQuantity]) => ({
+      equipmentId,
+      quantity: lineQuantity
+    }))
+  };
+};
+
+/**
+ * Units of an equipment item held by a booking. Older bookings without
+ * equipment lines hold one unit of each listed item.
+ */
+export const getBookedQuantity = (booking: IBooking, equipmentId: string): number => {
+  const line = booking.equipmentItems?.find(item => item.equipment.toString() === equipmentId);
+  if (line) {
+    return line.quantity;
+  }
+  return booking.equipment?.some(id => id.toString() === equipmentId) ? 1 : 0;
+};
+
+// Calendar days (as date keys) a booking holds its equipment for, from pickup to return
+const getReservedDays = (booking: IBooking): string[] => {
+  const days: string[] = [];
+  const returnDate = booking.returnDate || booking.date;
+  for (let day = booking.date; day <= returnDate; day = addDays(day, 1)) {
+    days.push(toDateKey(day));
+  }
+  return days;
+};
+
+/**
+ * Peak number of units of each item reserved by pending or confirmed
+ * bookings on any day between two dates (inclusive). A rental counts on
+ * every day from its pickup date to its return date.
+ */
+export const getReservedQuantities = async (
+  equipmentIds: (string | mongoose.Types.ObjectId)[],
+  from: Date,
+  to: Date,
+  excludeBookingId?: string | mongoose.Types.ObjectId
+): Promise<Map<string, number>> => {
+  const ids = equipmentIds.map(id => id.toString());
+  const bookings = await Booking.find({
+    equipment: { $in: ids },
+    date: { $lt: addDays(to, 1) },
+    $or: [
+      { returnDate: { $gte: from } },
+      { returnDate: null, date: { $gte: from } }
+    ],
+    status: { $in: ['pending', 'confirmed'] },
+    ...(excludeBookingId && { _id: { $ne: excludeBookingId } })
+  });
+
+  const dayKeys = new Set<string>();
+  for (let i = 0; i <= differenceInCalendarDays(to, from); i++) {
+    dayKeys.add(toDateKey(addDays(from, i)));
+  }
+
+  const reserved = new Map<string, number>();
+  for (const id of ids) {
+    // Units held per day, so overlapping rentals add up while separate days do not
+    const perDay = new Map<string, number>();
+    for (const booking of bookings) {
+      const units = getBookedQuantity(booking, id);
+      if (units === 0) {
+        continue;
+      }
+      for (const day of getReservedDays(booking)) {
+        if (dayKeys.has(day)) {
+          perDay.set(day, (perDay.get(day) || 0) + units);
+        }
+      }
+    }
+    reserved.set(id, Math.max(0, ...perDay.values()));
+  }
+
+  return reserved;
+};
+
+/**
+ * Free units of each item for the whole period between two dates (inclusive)
+ */
+export const getEquipmentAvailability = async (
+  equipment: IEquipment[],
+  from: Date,
+  to: Date,
+  excludeBookingId?: string | mongoose.Types.ObjectId
+): Promise<EquipmentAvailability[]> => {
+  const reserved = await getReservedQuantities(
+    equipment.map(item => item._id as mongoose.Types.ObjectId),
+    from,
+    to,
+    excludeBookingId
+  );
+
+  return equipment.map(item => {
+    const equipmentId = String(item._id);
+    const reservedUnits = reserved.get(equipmentId) || 0;
+    return {
+      equipmentId,
+      quantity: item.quantity,
+      reserved: reservedUnits,
+      available: item.availability === 'Discontinued' ? 0 : Math.max(0, item.quantity - reservedUnits)
+    };
+  });
+};
+
+/**
+ * Stock status for a number of free units
+ */
+export const getStockStatus = (available: number): IEquipment['availability'] => {
+  if (available <= 0) {
+    return 'Out of Stock';
+  }
+  if (available < LOW_STOCK_THRESHOLD) {
+    return 'Low Stock';
+  }
+  return 'In Stock';
+};
+
+/**
+ * Recompute an item's stock status from the units reserved today.
+ * Discontinued items keep their status.
+ */
+export const refreshStockStatus = async (equipment: IEquipment, now: Date = new Date()): Promise<IEquipment> => {
+  if (equipment.availability === 'Discontinued') {
+    return equipment;
+  }
+
+  const today = new Date(`${toDateKey(now)}T00:00:00.000Z`);
+  const [availability] = await getEquipmentAvailability([equipment], today, today);
+  const status = getStockStatus(availability.available);
+
+  if (equipment.availability !== status) {
+    equipment.availability = status;
+    await equipment.save();
+  }
+
+  return equipment;
+};
+
+/**
+ * Recompute the stock status of every item in an equipment booking, e.g.
+ * after it is created, canceled or completed. Failures are logged only.
+ */
+export const refreshStockStatusForBooking = async (booking: IBooking): Promise<void> => {
+  if (booking.itemType !== 'equipment' || !booking.equipment?.length) {
+    return;
+  }
+
+  try {
+    const ids = booking.equipment.map(item => (item as any)._id || item);
+    const equipment = await Equipment.find({ _id: { $in: ids } });
+    for (const item of equipment) {
+      await refreshStockStatus(item);
+    }
+  } catch (error: any) {
+    logger.error('Failed to refresh equipment stock status', {
+      bookingId: booking._id,
+      error: error.message
+    });
+  }
+};
+
+export default {
+  parseEquipmentLines,
+  getBookedQuantity,
+  getReservedQuantities,
+  getEquipmentAvailability,
+  getStockStatus,
+  refreshStockStatus,
+  refreshStockStatusForBooking,
+  LOW_STOCK_THRESHOLD
+};
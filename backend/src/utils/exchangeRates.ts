@@ -0,0 +1,244 @@
+import fs from 'fs/promises';
+import path from 'path';
+import mongoose from 'mongoose';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../config/currencies';
+import ExchangeRate, { IExchangeRate } from '../models/ExchangeRate';
+import logger from './logger';
+import { roundToCents } from './money';
+
+/**
+ * Where exchange rates come from. Providers return how many units of each
+ * currency one unit of `base` buys; register new ones with
+ * `registerExchangeRateProvider` and pick one with `EXCHANGE_RATE_PROVIDER`.
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates(base: string): Promise<Record<string, number>>;
+}
+
+// Rates as used for a conversion, and the stored record they came from
+export interface RateSnapshot {
+  id?: string;
+  base: string;
+  rates: Record<string, number>;
+  provider: string;
+  fetchedAt: Date;
+}
+
+// Example rates against USD, for local use
+export const STATIC_RATES: Record<string, number> = {
+  USD: 1,
+  INR: 83.0,
+  EUR: 0.92,
+  GBP: 0.79,
+  AUD: 1.52,
+  CAD: 1.36,
+  SGD: 1.35,
+  AED: 3.6725,
+  JPY: 150.0,
+};
+
+// How often rates are fetched from the provider (in hours)
+const REFRESH_INTERVAL_HOURS = Number(process.env.EXCHANGE_RATE_REFRESH_HOURS) || 6;
+
+// Quote rates given against one currency against another
+const rebase = (rates: Record<string, number>, from: string, to: string): Record<string, number> => {
+  if (from === to) {
+    return { ...rates };
+  }
+  const divisor = rates[to];
+  if (!divisor) {
+    throw new Error(`No exchange rate for ${to} in rates quoted against ${from}`);
+  }
+  return Object.fromEntries(Object.entries({ ...rates, [from]: 1 }).map(([code, rate]) => [code, rate / divisor]));
+};
+
+export const staticRatesProvider: ExchangeRateProvider = {
+  name: 'static',
+  fetchRates: async base => rebase(STATIC_RATES, 'USD', base),
+};
+
+/**
+ * Rates read from a JSON file shaped like `{ "base": "USD", "rates": { "INR": 83.1 } }`,
+ * re-read on every refresh so the file can be edited while the server runs
+ */
+export const createFileRatesProvider = (filePath: string): ExchangeRateProvider => ({
+  name: 'file',
+  fetchRates: async base => {
+    const data = JSON.parse(await fs.readFile(path.resolve(filePath), 'utf8'));
+    if (!data.rates || typeof data.rates !== 'object') {
+      throw new Error(`Exchange rates file ${filePath} has no rates`);
+    }
+    return rebase(data.rates, String(data.base || BASE_CURRENCY).toUpperCase(), base);
+  },
+});
+
+const providers = new Map<string, () => ExchangeRateProvider>([
+  ['static', () => staticRatesProvider],
+  ['file', () => createFileRatesProvider(process.env.EXCHANGE_RATES_FILE || 'exchange-rates.json')],
+]);
+
+export const registerExchangeRateProvider = (name: string, factory: () => ExchangeRateProvider) => {
+  providers.set(name, factory);
+};
+
+const getProvider = (): ExchangeRateProvider => {
+  const name = process.env.EXCHANGE_RATE_PROVIDER || 'static';
+  const factory = providers.get(name);
+  if (!factory) {
+    logger.warn('Unknown exchange rate provider, using static rates', { provider: name });
+    return staticRatesProvider;
+  }
+  return factory();
+};
+
+const toSnapshot = (record: IExchangeRate): RateSnapshot => ({
+  id: String(record._id),
+  base: record.base,
+  rates: Object.fromEntries(record.rates),
+  provider: record.provider,
+  fetchedAt: record.createdAt,
+});
+
+// Rates conversions use until the first refresh has loaded them
+let current: RateSnapshot = {
+  base: BASE_CURRENCY,
+  rates: rebase(STATIC_RATES, 'USD', BASE_CURRENCY),
+  provider: staticRatesProvider.name,
+  fetchedAt: new Date(),
+};
+
+// The rates conversions use now
+export const getCurrentRates = (): RateSnapshot => current;
+
+/**
+ * Units of `to` one unit of `from` buys, from the given or current rates
+ */
+export const getExchangeRate = (from: string, to: string, snapshot: RateSnapshot = current): number => {
+  const fromCode = from.toUpperCase();
+  const toCode = to.toUpperCase();
+  if (fromCode === toCode) {
+    return 1;
+  }
+  const fromRate = snapshot.rates[fromCode];
+  const toRate = snapshot.rates[toCode];
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate from ${fromCode} to ${toCode}`);
+  }
+  return toRate / fromRate;
+};
+
+export interface Conversion {
+  amount: number;
+  rate: number;
+  // Stored rates record used, missing before rates were first stored
+  rateId?: string;
+}
+
+/**
+ * Convert an amount between currencies, returning the rate used so it can be
+ * recorded alongside the conversion
+ */
+export const convertCurrency = (
+  amount: number,
+  from: string,
+  to: string,
+  snapshot: RateSnapshot = current
+): Conversion => {
+  const rate = getExchangeRate(from, to, snapshot);
+  return {
+    amount: rate === 1 ? amount : roundToCents(amount * rate),
+    rate,
+    rateId: snapshot.id,
+  };
+};
+
+export const convertAmount = (amount: number, from: string, to: string): number =>
+  convertCurrency(amount, from, to).amount;
+
+// Metadata recording the rate a conversion used, or nothing when no conversion took place
+export const rateMetadata = (conversion: Conversion) =>
+  conversion.rate === 1 ? {} : { exchangeRate: conversion.rate, exchangeRateId: conversion.rateId };
+
+/**
+ * The rates in use at a point in time, or a stored rates record by id
+ */
+export const getHistoricalRates = async ({ at, id }: { at?: Date; id?: string }): Promise<RateSnapshot | null> => {
+  if (id) {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+    const record = await ExchangeRate.findById(id);
+    return record && toSnapshot(record);
+  }
+  const record = await ExchangeRate.findOne({ createdAt: { $lte: at || new Date() } }).sort({ createdAt: -1 });
+  return record && toSnapshot(record);
+};
+
+const sameRates = (a: Record<string, number>, b: Record<string, number>): boolean =>
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.entries(a).every(([code, rate]) => Math.abs((b[code] || 0) - rate) < 1e-9);
+
+/**
+ * Fetch rates from the provider and make them the current ones. They are
+ * stored as a new record when they differ from the last stored rates.
+ */
+export const refreshExchangeRates = async (): Promise<RateSnapshot> => {
+  const provider = getProvider();
+  const fetched = await provider.fetchRates(BASE_CURRENCY);
+  const rates: Record<string, number> = { [BASE_CURRENCY]: 1 };
+  for (const [code, rate] of Object.entries(fetched)) {
+    if (Number.isFinite(rate) && rate > 0) {
+      rates[code.toUpperCase()] = rate;
+    }
+  }
+
+  const missing = SUPPORTED_CURRENCIES.filter(currency => !rates[currency.code]).map(currency => currency.code);
+  if (missing.length > 0) {
+    logger.warn('Exchange rate provider has no rates for some supported currencies', {
+      provider: provider.name,
+      missing,
+    });
+  }
+
+  const latest = await ExchangeRate.findOne().sort({ createdAt: -1 });
+  if (latest && latest.base === BASE_CURRENCY && latest.provider === provider.name
+    && sameRates(Object.fromEntries(latest.rates), rates)) {
+    current = toSnapshot(latest);
+    return current;
+  }
+
+  const record = await ExchangeRate.create({ base: BASE_CURRENCY, rates, provider: provider.name });
+  current = toSnapshot(record);
+  logger.info('Exchange rates updated', { provider: provider.name, rateId: current.id });
+  return current;
+};
+
+/**
+ * Load exchange rates now and refresh them every few hours
+ */
+export const scheduleExchangeRateRefresh = (): NodeJS.Timeout => {
+  const runRefresh = () => refreshExchangeRates().catch(error => {
+    logger.error('Error refreshing exchange rates', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+
+  runRefresh();
+  const timer = setInterval(runRefresh, REFRESH_INTERVAL_HOURS * 60 * 60 * 1000);
+
+  logger.info('Exchange rate refresh scheduler initialized');
+  return timer;
+};
+
+export default {
+  registerExchangeRateProvider,
+  getCurrentRates,
+  getExchangeRate,
+  convertCurrency,
+  convertAmount,
+  rateMetadata,
+  getHistoricalRates,
+  refreshExchangeRates,
+  scheduleExchangeRateRefresh
+};
@@ -0,0 +1,495 @@
+import mongoose from 'mongoose';
+import getStripeInstance from '../config/stripe';
+import { BASE_CURRENCY, toMinorUnits } from '../config/currencies';
+import Booking, { IBooking, IBookingParticipant } from '../models/Booking';
+import Equipment from '../models/Equipment';
+import Payment, { IPayment } from '../models/Payment';
+import SlotHold from '../models/SlotHold';
+import User, { IUser } from '../models/User';
+import Venue from '../models/Venue';
+import emailService from './emailService';
+import logger from './logger';
+import { processRefund, processWalletPayment } from './paymentService';
+import { getBookingStart } from './timeRange';
+import { roundToCents } from './money';
+
+// How long participants have to pay their share once invited (in hours)
+export const GROUP_PAYMENT_HOURS = Number(process.env.GROUP_PAYMENT_HOURS) || 24;
+
+// Unpaid shares are charged to the organiser this long before the booking would expire (in minutes)
+export const GROUP_FALLBACK_MINUTES = Number(process.env.GROUP_FALLBACK_MINUTES) || 30;
+
+// Most people a booking can be split between, the organiser included
+export const MAX_PARTICIPANTS = 30;
+
+export interface ParticipantInput {
+  userId?: string;
+  email?: string;
+  share?: number | string;
+}
+
+export type GroupBookingResult =
+  | { success: true; booking: IBooking; clientSecret?: string | null }
+  | { success: false; status: number; reason: string };
+
+// Name of what was booked, for emails
+const getItemName = async (booking: IBooking): Promise<string> => {
+  if (booking.itemType === 'venue') {
+    const venue = await Venue.findById(booking.venue).select('name');
+    return venue?.name || 'Venue';
+  }
+  const equipment = await Equipment.find({ _id: { $in: booking.equipment || [] } }).select('name');
+  return equipment.map(item => item.name).join(', ') || 'Equipment';
+};
+
+/**
+ * Whether a user takes part in a group booking, either by account or, for
+ * people invited before they signed up, by email address
+ */
+export const findParticipant = (
+  booking: IBooking,
+  user: { id: string; email?: string }
+): IBookingParticipant | undefined =>
+  booking.participants?.find(participant =>
+    participant.user
+      ? participant.user.toString() === user.id
+      : !!user.email && participant.email === user.email.toLowerCase()
+  );
+
+/**
+ * Split a pending booking between its organiser and the people they invite,
+ * evenly or by custom shares (the organiser pays whatever is left), and email
+ * the invitations. Participants have GROUP_PAYMENT_HOURS, or until the
+ * booking starts, to pay; the slot stays held until then.
+ *
+ * Callers are expected to have checked that the organiser owns the booking.
+ */
+export const setGroupParticipants = async (
+  booking: IBooking,
+  organiser: IUser,
+  inputs: ParticipantInput[],
+  splitMethod: 'even' | 'custom' = 'even'
+): Promise<GroupBookingResult> => {
+  const now = new Date();
+
+  if (booking.itemType !== 'venue' && booking.itemType !== 'equipment') {
+    return { success: false, status: 400, reason: 'Only venue and equipment bookings can be split' };
+  }
+  if (booking.status !== 'pending' || booking.paymentStatus !== 'pending') {
+    return { success: false, status: 400, reason: 'Only unpaid, pending bookings can be split' };
+  }
+  if (booking.participants?.some(participant => participant.payment)) {
+    return { success: false, status: 400, reason: 'Participants cannot be changed once someone has paid' };
+  }
+  if (booking.holdExpiresAt && booking.holdExpiresAt <= now) {
+    return { success: false, status: 409, reason: 'Your hold on this booking has expired. Please book again.' };
+  }
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    return { success: false, status: 400, reason: 'Please invite at least one participant' };
+  }
+  if (inputs.length + 1 > MAX_PARTICIPANTS) {
+    return { success: false, status: 400, reason: `A booking can be split between at most ${MAX_PARTICIPANTS} people` };
+  }
+  if (!['even', 'custom'].includes(splitMethod)) {
+    return { success: false, status: 400, reason: 'Split method must be even or custom' };
+  }
+
+  // Participants pay before the booking starts, leaving time to charge the organiser for missing shares
+  const payBy = new Date(Math.min(
+    now.getTime() + GROUP_PAYMENT_HOURS * 60 * 60 * 1000,
+    getBookingStart(booking).getTime()
+  ));
+  if (payBy.getTime() - now.getTime() <= GROUP_FALLBACK_MINUTES * 60 * 1000) {
+    return { success: false, status: 400, reason: 'This booking starts too soon to split the payment' };
+  }
+
+  // Resolve invitees to accounts where they have one
+  const invitees: Pick<IBookingParticipant, 'user' | 'email' | 'name'>[] = [];
+  for (const input of inputs) {
+    let user: IUser | null = null;
+    if (input.userId) {
+      user = mongoose.isValidObjectId(input.userId) ? await User.findById(input.userId) : null;
+      if (!user) {
+        return { success: false, status: 404, reason: `User ${input.userId} not found` };
+      }
+    } else if (input.email && /^\S+@\S+\.\S+$/.test(input.email.trim())) {
+      user = await User.findOne({ email: input.email.trim().toLowerCase() });
+    } else {
+      return { success: false, status: 400, reason: 'Each participant needs a valid email address or user id' };
+    }
+
+    const email = user ? user.email : input.email!.trim().toLowerCase();
+    if (email === organiser.email) {
+      return { success: false, status: 400, reason: 'You are already part of your own booking' };
+    }
+    if (invitees.some(invitee => invitee.email === email)) {
+      return { success: false, status: 400, reason: `${email} is invited more than once` };
+    }
+    invitees.push({
+      user: user?._id as mongoose.Types.ObjectId | undefined,
+      email,
+      name: user?.name
+    });
+  }
+
+  // Shares are worked out in cents; the organiser takes any rounding remainder
+  const totalCents = Math.round(booking.totalPrice * 100);
+  let shareCents: number[];
+  if (splitMethod === 'even') {
+    const evenCents = Math.floor(totalCents / (invitees.length + 1));
+    shareCents = invitees.map(() => evenCents);
+  } else {
+    shareCents = inputs.map(input => Math.round(Number(input.share) * 100));
+    if (shareCents.some(cents => isNaN(cents) || cents < 0)) {
+      return { success: false, status: 400, reason: 'Each participant needs a share of at least 0' };
+    }
+  }
+  const organiserCents = totalCents - shareCents.reduce((sum, cents) => sum + cents, 0);
+  if (organiserCents < 0) {
+    return { success: false, status: 400, reason: 'The shares add up to more than the booking costs' };
+  }
+
+  booking.splitMethod = splitMethod;
+  booking.set('participants', [
+    {
+      user: organiser._id,
+      email: organiser.email,
+      name: organiser.name,
+      isOrganiser: true,
+      share: organiserCents / 100,
+      status: organiserCents > 0 ? 'pending' : 'paid'
+    },
+    ...invitees.map((invitee, index) => ({
+      ...invitee,
+      isOrganiser: false,
+      share: shareCents[index] / 100,
+      // Nothing to pay for a share of 0
+      status: shareCents[index] > 0 ? 'pending' : 'paid'
+    }))
+  ]);
+
+  // Keep the slot for as long as participants have to pay
+  booking.holdExpiresAt = payBy;
+  await booking.save();
+  await SlotHold.updateMany({ booking: booking._id }, { expiresAt: payBy });
+
+  logger.info('Group booking participants set', {
+    bookingId: booking._id,
+    participants: booking.participants.length,
+    splitMethod
+  });
+
+  const itemName = await getItemName(booking);
+  for (const participant of booking.participants.filter(entry => !entry.isOrganiser)) {
+    emailService.sendGroupBookingInviteEmail(
+      participant.email,
+      participant.name,
+      {
+        organiserName: organiser.name,
+        itemName,
+        date: booking.date,
+        timeSlot: booking.timeSlot,
+        share: participant.share,
+        totalPrice: booking.totalPrice,
+        payBy: new Date(payBy.getTime() - GROUP_FALLBACK_MINUTES * 60 * 1000)
+      }
+    ).catch(error => {
+      logger.error('Failed to send group booking invite email', {
+        error: error instanceof Error ? error.message : String(error),
+        bookingId: booking._id
+      });
+    });
+  }
+
+  return { success: true, booking };
+};
+
+/**
+ * Confirm a group booking once every share has been paid or covered
+ */
+const confirmIfFunded = async (bookingId: unknown): Promise<IBooking | null> => {
+  const booking = await Booking.findOneAndUpdate(
+    {
+      _id: bookingId,
+      status: 'pending',
+      'participants.0': { $exists: true },
+      // Shares claimed for the organiser count once the organiser's charge is recorded
+      participants: { $not: { $elemMatch: { $or: [{ status: 'pending' }, { status: 'covered', payment: null }] } } }
+    },
+    { status: 'confirmed', paymentStatus: 'paid' },
+    { new: true }
+  );
+
+  if (booking) {
+    logger.info('Group booking fully funded and confirmed', { bookingId });
+  }
+  return booking;
+};
+
+/**
+ * Record a completed payment of a participant's share and confirm the booking
+ * if it was the last one. A share paid after the booking stopped waiting for
+ * it (it expired or was canceled meanwhile) is refunded. Recording the same
+ * payment again changes nothing.
+ */
+export const recordSharePayment = async (payment: IPayment): Promise<IBooking | null> => {
+  const participantId = payment.get('metadata.groupShare');
+
+  const booking = await Booking.findOneAndUpdate(
+    {
+      _id: payment.booking,
+      status: 'pending',
+      participants: { $elemMatch: { _id: participantId, status: 'pending' } }
+    },
+    {
+      $set: {
+        'participants.$.status': 'paid',
+        'participants.$.user': payment.user,
+        'participants.$.payment': payment._id,
+        'participants.$.paidAt': new Date()
+      }
+    },
+    { new: true }
+  );
+
+  if (!booking) {
+    // The same payment recorded already
+    const recorded = await Booking.findOne({ _id: payment.booking, 'participants.payment': payment._id });
+    if (recorded) {
+      return recorded;
+    }
+
+    logger.warn('Share paid for a group booking that no longer needs it; refunding', {
+      paymentId: payment._id,
+      bookingId: payment.booking
+    });
+    await processRefund({
+      userId: String(payment.user),
+      bookingId: String(payment.booking),
+      amount: payment.amount,
+      reason: 'Share paid after the group booking was no longer pending'
+    });
+    return null;
+  }
+
+  return (await confirmIfFunded(booking._id)) || booking;
+};
+
+/**
+ * Pay a participant's share from their wallet, or start a card payment for
+ * it that is recorded when Stripe confirms it
+ */
+export const payParticipantShare = async (
+  booking: IBooking,
+  participant: IBookingParticipant,
+  userId: string,
+  paymentMethod: 'wallet' | 'stripe' = 'wallet'
+): Promise<GroupBookingResult> => {
+  if (booking.status !== 'pending' || (booking.holdExpiresAt && booking.holdExpiresAt <= new Date())) {
+    return { success: false, status: 400, reason: 'This group booking is no longer waiting for payments' };
+  }
+  if (participant.status !== 'pending') {
+    return { success: false, status: 400, reason: 'Your share has already been paid' };
+  }
+
+  const bookingId = String(booking._id);
+  const description = `Share of group booking #${bookingId.slice(-6)}`;
+  const metadata = { groupShare: participant._id.toString() };
+
+  if (paymentMethod === 'stripe') {
+    const stripe = getStripeInstance();
+    if (!stripe) {
+      return { success: false, status: 500, reason: 'Stripe is not configured properly' };
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: toMinorUnits(participant.share, BASE_CURRENCY), // Stripe requires amounts in the smallest currency unit
+      currency: BASE_CURRENCY, // booking prices, and so shares, are in the base currency
+      description,
+      metadata: { userId, bookingId, ...metadata }
+    });
+
+    await Payment.create({
+      user: userId,
+      booking: bookingId,
+      amount: participant.share,
+      currency: BASE_CURRENCY,
+      status: 'pending',
+      paymentMethod: 'stripe',
+      stripePaymentId: paymentIntent.id,
+      metadata
+    });
+
+    return { success: true, booking, clientSecret: paymentIntent.client_secret };
+  }
+
+  const result = await processWalletPayment({
+    amount: participant.share,
+    currency: BASE_CURRENCY,
+    userId,
+    bookingId,
+    description,
+    confirmBooking: false,
+    metadata
+  });
+
+  if (!result.success || !result.payment) {
+    return { success: false, status: 400, reason: result.message || 'Failed to charge wallet' };
+  }
+
+  const updated = await recordSharePayment(result.payment);
+  if (!updated) {
+    return { success: false, status: 400, reason: 'This group booking is no longer waiting for payments; your share has been refunded' };
+  }
+  return { success: true, booking: updated };
+};
+
+/**
+ * Charge organisers the shares that are still unpaid shortly before their
+ * group booking would expire, confirming the booking when their wallet covers
+ * it. The unpaid shares are claimed before the charge, so a participant
+ * paying meanwhile is refunded rather than paid for twice. Organisers are emailed either way; bookings that stay unfunded expire
+ * as usual and the shares paid are refunded.
+ */
+export const coverUnpaidShares = async (now: Date = new Date()): Promise<void> => {
+  const fallbackBefore = new Date(now.getTime() + GROUP_FALLBACK_MINUTES * 60 * 1000);
+  const bookings = await Booking.find({
+    status: 'pending',
+    paymentStatus: 'pending',
+    'participants.status': 'pending',
+    holdExpiresAt: { $lte: fallbackBefore },
+    'metadata.groupShortfallHandledAt': { $exists: false }
+  });
+
+  for (const booking of bookings) {
+    try {
+      // Claim the shares still unpaid first, so one paid meanwhile is not charged to the organiser too
+      const claimed = await Booking.findOneAndUpdate(
+        { _id: booking._id, 'metadata.groupShortfallHandledAt': { $exists: false } },
+        {
+          $set: {
+            'metadata.groupShortfallHandledAt': now,
+            'participants.$[unpaid].status': 'covered',
+            'participants.$[unpaid].paidAt': now
+          }
+        },
+        { new: true, arrayFilters: [{ 'unpaid.status': 'pending' }] }
+      );
+      if (!claimed) {
+        continue;
+      }
+      const unpaid = claimed.participants.filter(participant => participant.status === 'covered' && !participant.payment);
+      const unpaidIds = unpaid.map(participant => participant._id);
+      if (unpaid.length === 0) {
+        continue;
+      }
+      const amount = roundToCents(unpaid.reduce((sum, participant) => sum + participant.share, 0));
+
+      const result = await processWalletPayment({
+        amount,
+        currency: BASE_CURRENCY,
+        userId: booking.user.toString(),
+        bookingId: String(booking._id),
+        description: `Unpaid shares of group booking #${String(booking._id).slice(-6)}`,
+        confirmBooking: false,
+        metadata: { groupShortfall: true }
+      });
+
+      // The claimed shares are recorded as covered by the charge, or handed back to their participants
+      const covered = result.success && !!result.payment;
+      await Booking.updateOne(
+        { _id: booking._id },
+        covered
+          ? { $set: { 'participants.$[claimed].payment': result.payment!._id } }
+          : { $set: { 'participants.$[claimed].status': 'pending' }, $unset: { 'participants.$[claimed].paidAt': 1 } },
+        { arrayFilters: [{ 'claimed._id': { $in: unpaidIds } }] }
+      );
+      if (covered) {
+        await confirmIfFunded(booking._id);
+      }
+
+      logger.info('Unpaid group booking shares handled', { bookingId: booking._id, amount, covered });
+
+      const organiser = await User.findById(booking.user);
+      if (organiser) {
+        emailService.sendGroupBookingShortfallEmail(
+          organiser.email,
+          organiser.name,
+          {
+            bookingId: String(booking._id),
+            itemName: await getItemName(booking),
+            date: booking.date,
+            unpaidParticipants: unpaid.map(participant => participant.name || participant.email),
+            amount,
+            covered
+          }
+        ).catch(error => {
+          logger.error('Failed to send group booking shortfall email', {
+            error: error instanceof Error ? error.message : String(error),
+            bookingId: booking._id
+          });
+        });
+      }
+    } catch (error) {
+      logger.error('Error covering unpaid group booking shares', {
+        error: error instanceof Error ? error.message : String(error),
+        bookingId: booking._id
+      });
+    }
+  }
+};
+
+/**
+ * Refund the people who paid for a group booking, each in proportion to what
+ * they paid. Without an amount everything paid is refunded.
+ */
+export const refundGroupBooking = async (
+  booking: IBooking,
+  amount: number | undefined,
+  reason: string
+): Promise<{ success: boolean; refundAmount: number; message?: string }> => {
+  const payments = await Payment.find({
+    booking: booking._id,
+    status: 'completed',
+    'metadata.purpose': null
+  });
+
+  const paidByUser = new Map<string, number>();
+  for (const payment of payments) {
+    const paid = payment.amount - (payment.get('metadata.refundedAmount') || 0);
+    paidByUser.set(String(payment.user), roundToCents((paidByUser.get(String(payment.user)) || 0) + paid));
+  }
+  const totalPaid = roundToCents([...paidByUser.values()].reduce((sum, paid) => sum + paid, 0));
+  const toRefund = Math.min(amount ?? totalPaid, totalPaid);
+
+  let refundAmount = 0;
+  let message: string | undefined;
+  for (const [userId, paid] of paidByUser) {
+    const share = roundToCents(toRefund * paid / totalPaid);
+    if (share <= 0) {
+      continue;
+    }
+
+    const result = await processRefund({ userId, bookingId: String(booking._id), amount: share, reason });
+    if (result.success && 'refundAmount' in result) {
+      refundAmount = roundToCents(refundAmount + result.refundAmount);
+    } else {
+      message = result.message;
+      logger.error('Failed to refund group booking share', { bookingId: booking._id, userId, error: result.message });
+    }
+  }
+
+  return { success: !message, refundAmount, ...(message && { message }) };
+};
+
+export default {
+  GROUP_PAYMENT_HOURS,
+  GROUP_FALLBACK_MINUTES,
+  MAX_PARTICIPANTS,
+  findParticipant,
+  setGroupParticipants,
+  recordSharePayment,
+  payParticipantShare,
+  coverUnpaidShares,
+  refundGroupBooking
+};
@@ -0,0 +1,10 @@
+// Helpers for amounts of money, which are kept to two decimal places
+
+/**
+ * Round an amount to whole cents
+ */
+export const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+export default {
+  roundToCents
+};
@@ -0,0 +1,103 @@
+import { addDays, format } from 'date-fns';
+import { IBooking } from '../models/Booking';
+import User, { IUser } from '../models/User';
+import logger from './logger';
+import { roundToCents } from './money';
+
+// After this many no-shows new bookings need a deposit, which is kept if the customer misses again
+export const NO_SHOW_DEPOSIT_AFTER = Number(process.env.NO_SHOW_DEPOSIT_AFTER) || 2;
+
+// Size of that deposit (as a percentage of the booking price)
+export const NO_SHOW_DEPOSIT_PERCENT = Number(process.env.NO_SHOW_DEPOSIT_PERCENT) || 50;
+
+// After this many no-shows the customer cannot make new bookings for a while (in days)
+export const NO_SHOW_SUSPEND_AFTER = Number(process.env.NO_SHOW_SUSPEND_AFTER) || 3;
+export const NO_SHOW_SUSPENSION_DAYS = Number(process.env.NO_SHOW_SUSPENSION_DAYS) || 30;
+
+export type NoShowPenaltyResult =
+  | { success: true; depositAmount: number }
+  | { success: false; status: number; reason: string };
+
+/**
+ * Apply a customer's no-show record to a new venue or equipment booking:
+ * suspended customers cannot book, and repeat no-shows pay a deposit on top of
+ * any security deposit the booking already has.
+ */
+export const applyNoShowPenalty = async (
+  userId: string,
+  bookingData: Partial<IBooking>,
+  now: Date = new Date()
+): Promise<NoShowPenaltyResult> => {
+  const user = await User.findById(userId).select('noShowCount bookingSuspendedUntil');
+  if (!user) {
+    return { success: true, depositAmount: 0 };
+  }
+
+  if (user.bookingSuspendedUntil && user.bookingSuspendedUntil > now) {
+    return {
+      success: false,
+      status: 403,
+      reason: `You cannot make bookings until ${format(user.bookingSuspendedUntil, 'MMMM do, yyyy')} after missing ${user.noShowCount} bookings`
+    };
+  }
+
+  if ((user.noShowCount || 0) < NO_SHOW_DEPOSIT_AFTER || !bookingData.totalPrice) {
+    return { success: true, depositAmount: 0 };
+  }
+
+  const depositAmount = roundToCents(bookingData.totalPrice * NO_SHOW_DEPOSIT_PERCENT / 100);
+  bookingData.deposit = {
+    amount: roundToCents((bookingData.deposit?.amount || 0) + depositAmount),
+    status: 'pending',
+    noShowAmount: depositAmount
+  };
+  return { success: true, depositAmount };
+};
+
+/**
+ * Count a no-show against the customer who made the booking, suspending them
+ * from booking once they reach the limit. Returns the updated user.
+ */
+export const recordNoShow = async (booking: IBooking, now: Date = new Date()): Promise<IUser | null> => {
+  const user = await User.findByIdAndUpdate(booking.user, { $inc: { noShowCount: 1 } }, { new: true });
+  if (!user) {
+    return null;
+  }
+
+  if (user.noShowCount >= NO_SHOW_SUSPEND_AFTER) {
+    user.bookingSuspendedUntil = addDays(now, NO_SHOW_SUSPENSION_DAYS);
+    await user.save();
+    logger.info('User suspended from booking after no-shows', {
+      userId: user._id,
+      noShowCount: user.noShowCount,
+      until: user.bookingSuspendedUntil
+    });
+  }
+
+  return user;
+};
+
+/**
+ * Take back a no-show that was recorded by mistake, lifting the customer's
+ * suspension if they are no longer over the limit.
+ */
+export const forgiveNoShow = async (booking: IBooking): Promise<IUser | null> => {
+  const user = await User.findOneAndUpdate(
+    { _id: booking.user, noShowCount: { $gt: 0 } },
+    { $inc: { noShowCount: -1 } },
+    { new: true }
+  );
+
+  if (user && user.bookingSuspendedUntil && user.noShowCount < NO_SHOW_SUSPEND_AFTER) {
+    user.bookingSuspendedUntil = undefined;
+    await user.save();
+  }
+
+  return user;
+};
+
+export default {
+  applyNoShowPenalty,
+  recordNoShow,
+  forgiveNoShow
+};
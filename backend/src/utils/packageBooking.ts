@@ -0,0 +1,175 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import Package, { IPackage } from '../models/Package';
+import { BookingCancellationOutcome, cancelBookingWithPolicy } from './bookingCancellation';
+import { calculateCancellationFee } from './cancellationPolicy';
+import { prepareEquipmentBooking, prepareVenueBooking } from './bookingPreparation';
+import logger from './logger';
+import { roundToCents } from './money';
+
+export interface PackageBookingRequest {
+  packageId: string;
+  date: Date;
+  timeSlot?: { start: string; end: string };
+  resourceId?: string;
+}
+
+/**
+ * Outcome of checking a package request: the linked venue and equipment
+ * bookings to create with the package price spread over them, or the HTTP
+ * status and reason to reject it with, like a single booking.
+ */
+export type PreparedPackage =
+  | {
+      valid: true;
+      venuePackage: IPackage;
+      itemName: string;
+      // What the venue slot and equipment would cost booked separately
+      componentPrice: number;
+      price: number;
+      bookings: Partial<IBooking>[];
+    }
+  | { valid: false; status: number; reason: string; details?: Record<string, unknown>; taken?: boolean };
+
+export interface PackageCancellationOutcome extends BookingCancellationOutcome {
+  bookings: IBooking[];
+}
+
+/**
+ * Price of a package given what its parts cost separately. A package never
+ * costs more than booking its parts one by one.
+ */
+export const getPackagePrice = (venuePackage: IPackage, componentPrice: number): number => {
+  const price = venuePackage.pricingType === 'bundle_price'
+    ? venuePackage.value
+    : componentPrice * (1 - Math.min(venuePackage.value, 100) / 100);
+  return roundToCents(Math.min(price, componentPrice));
+};
+
+/**
+ * Check every part of a package for the requested date and slot, each with
+ * its own availability check, and price the package. The equipment is rented
+ * for the day of the venue booking.
+ */
+export const preparePackageBooking = async ({
+  packageId,
+  date,
+  timeSlot,
+  resourceId
+}: PackageBookingRequest): Promise<PreparedPackage> => {
+  if (!mongoose.Types.ObjectId.isValid(packageId)) {
+    return { valid: false, status: 400, reason: 'Invalid package id' };
+  }
+
+  const venuePackage = await Package.findOne({ _id: packageId, isActive: true });
+  if (!venuePackage) {
+    return { valid: false, status: 404, reason: 'Package not found' };
+  }
+
+  const venue = await prepareVenueBooking({
+    venueId: String(venuePackage.venue),
+    date,
+    timeSlot,
+    // Packages tied to a court are always booked on it
+    resourceId: venuePackage.resource ? String(venuePackage.resource) : resourceId
+  });
+  if (!venue.valid) {
+    return venue;
+  }
+
+  const equipment = await prepareEquipmentBooking({
+    equipmentItems: venuePackage.equipmentItems.map(line => ({
+      equipmentId: String(line.equipment),
+      quantity: line.quantity
+    })),
+    date
+  });
+  if (!equipment.valid) {
+    return equipment;
+  }
+
+  const componentPrice = roundToCents(venue.price + equipment.price);
+  const price = getPackagePrice(venuePackage, componentPrice);
+
+  // The saving is split between the bookings in proportion to their price
+  const saving = roundToCents(componentPrice - price);
+  const venueSaving = componentPrice > 0 ? roundToCents(saving * (venue.price / componentPrice)) : 0;
+  const equipmentSaving = roundToCents(saving - venueSaving);
+
+  const link = {
+    venuePackage: venuePackage._id as mongoose.Types.ObjectId,
+    packageGroup: new mongoose.Types.ObjectId()
+  };
+
+  return {
+    valid: true,
+    venuePackage,
+    itemName: `${venuePackage.name} (${venue.itemName} + ${equipment.itemName})`,
+    componentPrice,
+    price,
+    bookings: [
+      {
+        ...venue.bookingData,
+        ...link,
+        packageDiscount: venueSaving,
+        totalPrice: roundToCents(venue.price - venueSaving)
+      },
+      {
+        ...equipment.bookingData,
+        ...link,
+        packageDiscount: equipmentSaving,
+        totalPrice: roundToCents(equipment.price - equipmentSaving)
+      }
+    ]
+  };
+};
+
+/**
+ * Cancel every booking made with a package. The cancellation policy is
+ * applied to the package as a whole, going by its venue booking, so all its
+ * bookings are refunded the same share of what was paid for them.
+ */
+export const cancelPackageBooking = async (
+  booking: IBooking,
+  options: { reason?: string; canceledBy: string; currentDate?: Date }
+): Promise<PackageCancellationOutcome> => {
+  const others = await Booking.find({
+    packageGroup: booking.packageGroup,
+    _id: { $ne: booking._id },
+    status: { $in: ['pending', 'confirmed'] }
+  });
+  const bookings = [booking, ...others];
+
+  const lead = bookings.find(entry => entry.itemType === 'venue') || booking;
+  const policy = { itemType: lead.itemType, date: lead.date };
+  const cancellation = calculateCancellationFee(
+    policy.itemType,
+    policy.date,
+    roundToCents(bookings.reduce((sum, entry) => sum + entry.totalPrice, 0)),
+    options.currentDate
+  );
+
+  if (!cancellation.canCancel) {
+    return { canceled: false, cancellation, refundProcessed: false, bookings };
+  }
+
+  let refundProcessed = false;
+  for (const entry of bookings) {
+    const outcome = await cancelBookingWithPolicy(entry, { ...options, policy });
+    refundProcessed = refundProcessed || outcome.refundProcessed;
+  }
+
+  logger.info('Package booking canceled', {
+    packageGroup: booking.packageGroup,
+    bookings: bookings.length,
+    refundAmount: cancellation.refundAmount
+  });
+
+  return { canceled: true, cancellation, refundProcessed, bookings };
+};
+
+export default {
+  getPackagePrice,
+  preparePackageBooking,
+  cancelPackageBooking
+};
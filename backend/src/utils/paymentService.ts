@@ -1,9 +1,28 @@
 import getStripeInstance from '../config/stripe';
-import Payment from '../models/Payment';
+import Payment, { IPayment } from '../models/Payment';
 import Wallet from '../models/Wallet';
 import Discount from '../models/Discount';
-import { Types } from 'mongoose';
-import Booking from '../models/Booking';
+import mongoose, { Types } from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import { IWallet } from '../models/Wallet';
+import logger from './logger';
+import {
+  PLATFORM_ACCOUNTS,
+  WalletEntryRejectedError,
+  heldAccount,
+  postWalletTransfer,
+  trackOriginalUsdBalance,
+  walletAccount
+} from './walletLedger';
+import { BASE_CURRENCY, toMinorUnits } from '../config/currencies';
+import {
+  convertCurrency,
+  getCurrentRates,
+  getExchangeRate,
+  getHistoricalRates,
+  rateMetadata
+} from './exchangeRates';
+import { roundToCents } from './money';
 
 interface CreatePaymentIntentParams {
   amount: number;
@@ -12,6 +31,8 @@ interface CreatePaymentIntentParams {
   bookingId?: string;
   paymentMethod: 'stripe' | 'paypal' | 'wallet';
   discountCode?: string;
+  // Rates the price was converted with for display, from GET /api/currencies
+  exchangeRateId?: string;
 }
 
 interface ProcessWalletPaymentParams {
@@ -20,6 +41,29 @@ interface ProcessWalletPaymentParams {
   userId: string;
   bookingId?: string;
   description: string;
+  confirmBooking?: boolean; // mark the booking paid and confirmed (default true)
+  metadata?: Record<string, any>;
+  // Transaction to write the payment in, so the caller can write other records
+  // with it. The caller must abort it when the payment does not succeed.
+  session?: mongoose.ClientSession;
+}
+
+interface HoldDepositParams {
+  amount: number;
+  currency: string;
+  userId: string;
+  bookingId: string;
+  paymentMethod: 'wallet' | 'stripe';
+}
+
+interface ChargeBookingFeeParams {
+  amount: number;
+  currency: string;
+  userId: string;
+  bookingId: string;
+  description: string;
+  purpose: string;
+  paymentMethod?: 'wallet' | 'stripe';
 }
 
 export const calculateDiscountedAmount = async (
@@ -90,6 +134,7 @@ export const createPaymentIntent = async ({
   bookingId,
   paymentMethod,
   discountCode,
+  exchangeRateId,
 }: CreatePaymentIntentParams) => {
   try {
     console.log('Creating payment intent with params:', { 
@@ -109,11 +154,11 @@ export const createPaymentIntent = async ({
         };
       }
       
-      console.log('Creating Stripe payment intent for amount:', Math.round(finalAmount * 100));
+      console.log('Creating Stripe payment intent for amount:', toMinorUnits(finalAmount, currency));
       
       try {
         const paymentIntent = await stripe.paymentIntents.create({
-          amount: Math.round(finalAmount * 100), // Stripe requires amounts in cents
+          amount: toMinorUnits(finalAmount, currency), // Stripe requires amounts in the smallest currency unit
           currency,
           metadata: {
             userId,
@@ -123,6 +168,9 @@ export const createPaymentIntent = async ({
         
         console.log('Payment intent created:', paymentIntent.id);
 
+        // Prices are set in the base currency, so record the rate a price in another currency was converted with
+        const rates = (exchangeRateId && await getHistoricalRates({ id: exchangeRateId })) || getCurrentRates();
+        
         // Create a payment record in our database
         const payment = await Payment.create({
           user: userId,
@@ -132,6 +180,9 @@ export const createPaymentIntent = async ({
           status: 'pending',
           paymentMethod: 'stripe',
           stripePaymentId: paymentIntent.id,
+          metadata: currency.toUpperCase() !== BASE_CURRENCY
+            ? { exchangeRate: getExchangeRate(BASE_CURRENCY, currency, rates), exchangeRateId: rates.id }
+            : undefined,
         });
         
         console.log('Payment record created in database:', payment._id);
@@ -173,10 +224,13 @@ export const processWalletPayment = async ({
   userId,
   bookingId,
   description,
+  confirmBooking = true,
+  metadata,
+  session: outerSession,
 }: ProcessWalletPaymentParams) => {
   try {
     // Find user's wallet
-    const wallet = await Wallet.findOne({ user: userId });
+    const wallet = await Wallet.findOne({ user: userId }).session(outerSession ?? null);
     
     if (!wallet) {
       return {
@@ -185,113 +239,644 @@ export const processWalletPayment = async ({
       };
     }
     
-    // Define exchange rates for currency conversion if needed
-    const exchangeRates = {
-      USD_TO_INR: 83.0,
-      INR_TO_USD: 1/83.0,
+    // Convert the payment amount to the wallet's currency if needed
+    const conversion = convertCurrency(amount, currency, wallet.currency);
+    const paymentAmountInWalletCurrency = conversion.amount;
+    
+    trackOriginalUsdBalance(wallet, -paymentAmountInWalletCurrency);
+    
+    // The debit, the payment record and the booking confirmation are written in
+    // one transaction, and the debit only goes through while the balance covers it
+    let payment: IPayment | undefined;
+    const bookingNotConfirmed = new Error('Booking can no longer be confirmed');
+    const write = async (session: mongoose.ClientSession) => {
+      // Pay from the wallet to the platform, updating the wallet balance
+      await postWalletTransfer(wallet, {
+        kind: 'payment',
+        from: walletAccount(wallet.user),
+        to: PLATFORM_ACCOUNTS.revenue,
+        amount: paymentAmountInWalletCurrency,
+        description: wallet.currency !== currency 
+          ? `${description} (Converted from ${amount} ${currency})` 
+          : description,
+        reference: bookingId,
+        metadata: {
+          originalAmount: amount,
+          originalCurrency: currency,
+          ...rateMetadata(conversion)
+        }
+      }, { session });
+      
+      // Create payment record - always use the original currency for the payment record
+      [payment] = await Payment.create([{
+        user: userId,
+        booking: bookingId,
+        amount, // Original amount in the requested currency
+        currency, // Original currency
+        status: 'completed',
+        paymentMethod: 'wallet',
+        metadata: {
+          ...metadata,
+          walletCurrency: wallet.currency,
+          walletAmount: paymentAmountInWalletCurrency,
+          ...rateMetadata(conversion)
+        }
+      }], { session });
+      
+      // Confirm the booking only while its checkout hold is still running
+      if (bookingId && confirmBooking && !await confirmPaidBooking(bookingId, { paymentMethod: 'wallet' }, session)) {
+        throw bookingNotConfirmed;
+      }
     };
     
-    // Check if currency conversion is needed
-    let paymentAmountInWalletCurrency = amount;
-    if (wallet.currency !== currency) {
-      // Convert the payment amount to the wallet's currency
-      if (currency === 'USD' && wallet.currency === 'INR') {
-        paymentAmountInWalletCurrency = Math.round(amount * exchangeRates.USD_TO_INR * 100) / 100;
-      } else if (currency === 'INR' && wallet.currency === 'USD') {
-        paymentAmountInWalletCurrency = Math.round(amount * exchangeRates.INR_TO_USD * 100) / 100;
+    try {
+      if (outerSession) {
+        await write(outerSession);
+      } else {
+        const session = await mongoose.startSession();
+        try {
+          await session.withTransaction(() => write(session));
+        } finally {
+          await session.endSession();
+        }
+      }
+    } catch (error) {
+      if (error instanceof WalletEntryRejectedError) {
+        return {
+          success: false,
+          message: `Insufficient wallet balance. Available: ${wallet.balance} ${wallet.currency}, Required: ${paymentAmountInWalletCurrency} ${wallet.currency}`,
+        };
       }
+      if (error === bookingNotConfirmed) {
+        return {
+          success: false,
+          message: 'This booking can no longer be confirmed because its checkout hold has run out',
+        };
+      }
+      throw error;
     }
     
-    // Check if wallet has sufficient balance
-    if (wallet.balance < paymentAmountInWalletCurrency) {
+    return {
+      success: true,
+      payment,
+      wallet
+    };
+  } catch (error) {
+    // The caller's transaction decides what to do, and may be retried
+    if (outerSession) {
+      throw error;
+    }
+    console.error('Wallet payment error:', error);
+    return {
+      success: false,
+      message: 'Failed to process wallet payment',
+      error,
+    };
+  }
+};
+
+/**
+ * Mark a booking paid and confirmed once its payment has gone through. Only a
+ * booking that is still pending with its checkout hold running (or that is
+ * confirmed already) is updated: once the hold has run out the slot may have
+ * gone to someone else. Returns the booking, or null when it was not confirmed.
+ * Given a session, the update joins the caller's transaction.
+ */
+export const confirmPaidBooking = (
+  bookingId: unknown,
+  update: Record<string, unknown> = {},
+  session?: mongoose.ClientSession
+) =>
+  Booking.findOneAndUpdate(
+    {
+      _id: bookingId,
+      $or: [
+        { status: 'confirmed' },
+        { status: 'pending', $or: [{ holdExpiresAt: null }, { holdExpiresAt: { $gt: new Date() } }] }
+      ]
+    },
+    { ...update, status: 'confirmed', paymentStatus: 'paid' },
+    { new: true, session }
+  );
+
+/**
+ * Give back all of a card payment that arrived too late to be used, such as
+ * one for a booking whose checkout hold ran out. Safe to call more than once
+ * for the same payment.
+ */
+export const refundStripePayment = async (payment: IPayment, reason: string) => {
+  const stripe = getStripeInstance();
+  if (!stripe || !payment.stripePaymentId) {
+    return {
+      success: false,
+      message: 'Stripe is not configured properly',
+    };
+  }
+
+  try {
+    const refund = await stripe.refunds.create(
+      { payment_intent: payment.stripePaymentId },
+      { idempotencyKey: `late-payment-refund-${payment._id}` }
+    );
+
+    payment.status = 'refunded';
+    payment.refundReason = reason;
+    payment.set('metadata.refundedAmount', payment.amount);
+    await payment.save();
+
+    logger.warn('Late card payment refunded', { paymentId: payment._id, refundId: refund.id, reason });
+    return {
+      success: true,
+      refundId: refund.id,
+    };
+  } catch (error) {
+    logger.error('Failed to refund late card payment', {
+      paymentId: payment._id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return {
+      success: false,
+      message: 'Failed to refund payment',
+    };
+  }
+};
+
+/**
+ * Charge an extra fee against an existing booking, such as a late return or
+ * damage charge. Without a preferred method the wallet is debited when it
+ * covers the amount, otherwise a Stripe payment intent is created for the
+ * customer to pay. The booking's own status is left untouched.
+ */
+export const chargeBookingFee = async ({
+  amount,
+  currency,
+  userId,
+  bookingId,
+  description,
+  purpose,
+  paymentMethod,
+}: ChargeBookingFeeParams) => {
+  if (paymentMethod !== 'stripe') {
+    const walletResult = await processWalletPayment({
+      amount,
+      currency,
+      userId,
+      bookingId,
+      description,
+      confirmBooking: false,
+      metadata: { purpose },
+    });
+
+    if (walletResult.success) {
+      return {
+        success: true,
+        paymentMethod: 'wallet' as const,
+        status: 'paid' as const,
+        payment: walletResult.payment,
+      };
+    }
+
+    if (paymentMethod === 'wallet') {
       return {
         success: false,
-        message: `Insufficient wallet balance. Available: ${wallet.balance} ${wallet.currency}, Required: ${paymentAmountInWalletCurrency} ${wallet.currency}`,
+        message: walletResult.message || 'Failed to charge wallet',
       };
     }
-    
-    // Initialize metadata if it doesn't exist
-    if (!wallet.metadata) {
-      wallet.metadata = {};
+  }
+
+  try {
+    const stripe = getStripeInstance();
+    if (!stripe) {
+      return {
+        success: false,
+        message: 'Stripe is not configured properly',
+      };
     }
-    
-    // Update wallet balance
-    wallet.balance -= paymentAmountInWalletCurrency;
-    
-    // Update originalUsdBalance in metadata
-    if (wallet.currency === 'USD' && wallet.metadata.originalUsdBalance) {
-      wallet.metadata.originalUsdBalance -= paymentAmountInWalletCurrency;
-      if (wallet.metadata.originalUsdBalance < 0) {
-        wallet.metadata.originalUsdBalance = 0;
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: toMinorUnits(amount, currency), // Stripe requires amounts in the smallest currency unit
+      currency,
+      description,
+      metadata: {
+        userId,
+        bookingId,
+        purpose,
+      },
+    });
+
+    const payment = await Payment.create({
+      user: userId,
+      booking: bookingId,
+      amount,
+      currency,
+      status: 'pending',
+      paymentMethod: 'stripe',
+      stripePaymentId: paymentIntent.id,
+      metadata: { purpose },
+    });
+
+    return {
+      success: true,
+      paymentMethod: 'stripe' as const,
+      status: 'pending' as const,
+      payment,
+      clientSecret: paymentIntent.client_secret,
+    };
+  } catch (error) {
+    console.error('Booking fee charge error:', error);
+    return {
+      success: false,
+      message: 'Failed to create payment for booking fee',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Hold a rental's refundable security deposit. Wallet deposits move from the
+ * spendable balance into the wallet's held balance straight away; Stripe
+ * deposits are a manual-capture payment intent that the customer confirms
+ * with their card and that is only captured for deductions on return.
+ */
+export const holdDeposit = async ({
+  amount,
+  currency,
+  userId,
+  bookingId,
+  paymentMethod,
+}: HoldDepositParams) => {
+  try {
+    const description = `Security deposit for booking #${bookingId.slice(-6)}`;
+
+    if (paymentMethod === 'wallet') {
+      const wallet = await Wallet.findOne({ user: userId });
+      if (!wallet) {
+        return {
+          success: false,
+          message: 'Wallet not found for this user',
+        };
+      }
+
+      const conversion = convertCurrency(amount, currency, wallet.currency);
+      const walletAmount = conversion.amount;
+      if (wallet.balance < walletAmount) {
+        return {
+          success: false,
+          message: `Insufficient wallet balance for the security deposit. Available: ${wallet.balance} ${wallet.currency}, Required: ${walletAmount} ${wallet.currency}`,
+        };
       }
-    } else if (wallet.currency === 'INR' && wallet.metadata.originalUsdBalance) {
-      // If spending INR, convert it to USD and subtract from originalUsdBalance
-      const usdAmount = Math.round(paymentAmountInWalletCurrency * exchangeRates.INR_TO_USD * 100) / 100;
-      wallet.metadata.originalUsdBalance -= usdAmount;
-      if (wallet.metadata.originalUsdBalance < 0) {
-        wallet.metadata.originalUsdBalance = 0;
+
+      trackOriginalUsdBalance(wallet, -walletAmount);
+
+      // The funds, the hold payment and the booking's deposit are written in one transaction
+      let payment: IPayment | undefined;
+      const session = await mongoose.startSession();
+      try {
+        await session.withTransaction(async () => {
+          await postWalletTransfer(wallet, {
+            kind: 'deposit_hold',
+            from: walletAccount(wallet.user),
+            to: heldAccount(wallet.user),
+            amount: walletAmount,
+            description,
+            reference: bookingId,
+            metadata: {
+              originalAmount: amount,
+              originalCurrency: currency,
+              ...rateMetadata(conversion)
+            }
+          }, { session });
+
+          [payment] = await Payment.create([{
+            user: userId,
+            booking: bookingId,
+            amount,
+            currency,
+            status: 'authorized',
+            paymentMethod: 'wallet',
+            metadata: {
+              purpose: 'deposit_hold',
+              walletCurrency: wallet.currency,
+              walletAmount
+            }
+          }], { session });
+
+          await Booking.findByIdAndUpdate(bookingId, {
+            'deposit.status': 'held',
+            'deposit.paymentMethod': 'wallet',
+            'deposit.payment': payment._id
+          }, { session });
+        });
+      } finally {
+        await session.endSession();
       }
+
+      return {
+        success: true,
+        status: 'held' as const,
+        payment,
+      };
     }
-    
-    // Add transaction record to the wallet
-    wallet.transactions.push({
-      amount: paymentAmountInWalletCurrency,
-      type: 'debit',
-      description: wallet.currency !== currency 
-        ? `${description} (Converted from ${amount} ${currency})` 
-        : description,
-      reference: bookingId,
-      createdAt: new Date(),
+
+    const stripe = getStripeInstance();
+    if (!stripe) {
+      return {
+        success: false,
+        message: 'Stripe is not configured properly',
+      };
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: toMinorUnits(amount, currency), // Stripe requires amounts in the smallest currency unit
+      currency: currency.toLowerCase(),
+      capture_method: 'manual',
+      description,
       metadata: {
-        originalAmount: amount,
-        originalCurrency: currency
-      }
+        userId,
+        bookingId,
+        purpose: 'deposit_hold',
+      },
     });
-    
-    await wallet.save();
-    
-    // Create payment record - always use the original currency for the payment record
+
     const payment = await Payment.create({
       user: userId,
       booking: bookingId,
-      amount, // Original amount in the requested currency
-      currency, // Original currency
-      status: 'completed',
-      paymentMethod: 'wallet',
-      metadata: {
-        walletCurrency: wallet.currency,
-        walletAmount: paymentAmountInWalletCurrency
-      }
+      amount,
+      currency,
+      status: 'pending',
+      paymentMethod: 'stripe',
+      stripePaymentId: paymentIntent.id,
+      metadata: { purpose: 'deposit_hold' },
     });
-    
-    // Update booking status if bookingId exists
-    if (bookingId) {
-      await Booking.findByIdAndUpdate(bookingId, {
-        paymentStatus: 'paid',
-        status: 'confirmed'
+
+    await Booking.findByIdAndUpdate(bookingId, {
+      'deposit.status': 'pending',
+      'deposit.paymentMethod': 'stripe',
+      'deposit.payment': payment._id
+    });
+
+    return {
+      success: true,
+      status: 'pending' as const,
+      payment,
+      clientSecret: paymentIntent.client_secret,
+    };
+  } catch (error) {
+    console.error('Deposit hold error:', error);
+    return {
+      success: false,
+      message: 'Failed to hold security deposit',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Mark a Stripe deposit as held once the customer has authorised the card
+ * (the payment intent is waiting to be captured)
+ */
+export const confirmDepositHold = async (paymentIntentId: string) => {
+  const stripe = getStripeInstance();
+  if (!stripe) {
+    return {
+      success: false,
+      message: 'Stripe is not configured properly',
+    };
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  if (paymentIntent.status !== 'requires_capture') {
+    return {
+      success: false,
+      message: 'The security deposit has not been authorised',
+    };
+  }
+
+  const payment = await Payment.findOneAndUpdate(
+    { stripePaymentId: paymentIntentId, 'metadata.purpose': 'deposit_hold' },
+    { status: 'authorized' },
+    { new: true }
+  );
+  if (!payment) {
+    return {
+      success: false,
+      message: 'Deposit payment not found',
+    };
+  }
+
+  await Booking.findOneAndUpdate({ 'deposit.payment': payment._id }, { 'deposit.status': 'held' });
+
+  return {
+    success: true,
+    payment,
+  };
+};
+
+/**
+ * Settle a held security deposit: keep `deductAmount` (capped at the deposit)
+ * and give the rest back. Release and deduction are recorded as their own
+ * payments and wallet transactions, written together with the booking's
+ * deposit in one transaction. Also updates `booking.deposit` in memory.
+ */
+export const settleDeposit = async (booking: IBooking, deductAmount: number, reason: string) => {
+  try {
+    if (booking.deposit?.status !== 'held' || !booking.deposit.payment) {
+      return {
+        success: false,
+        message: 'No security deposit is held for this booking',
+      };
+    }
+
+    const hold = await Payment.findById(booking.deposit.payment);
+    if (!hold || hold.status !== 'authorized') {
+      return {
+        success: false,
+        message: 'Security deposit payment not found',
+      };
+    }
+
+    const deducted = roundToCents(Math.min(Math.max(deductAmount, 0), hold.amount));
+    const released = roundToCents(hold.amount - deducted);
+    const bookingId = String(booking._id);
+
+    let wallet: IWallet | null = null;
+    if (hold.paymentMethod === 'wallet') {
+      wallet = await Wallet.findOne({ user: hold.user });
+      if (!wallet) {
+        return {
+          success: false,
+          message: 'Wallet not found for this user',
+        };
+      }
+    } else if (hold.stripePaymentId) {
+      const stripe = getStripeInstance();
+      if (!stripe) {
+        return {
+          success: false,
+          message: 'Stripe is not configured properly',
+        };
+      }
+
+      // Capturing part of the intent releases the remainder of the authorisation
+      if (deducted > 0) {
+        await stripe.paymentIntents.capture(hold.stripePaymentId, {
+          amount_to_capture: toMinorUnits(deducted, hold.currency),
+        });
+      } else {
+        await stripe.paymentIntents.cancel(hold.stripePaymentId);
+      }
+    }
+
+    // What the wallet held is split in the same proportion, so the two parts
+    // add up to it exactly. They are only converted if the wallet has changed
+    // currency since the hold.
+    const heldCurrency: string = hold.get('metadata.walletCurrency') || hold.currency;
+    const heldAmount: number = hold.get('metadata.walletAmount') ?? hold.amount;
+    const heldDeducted = hold.amount > 0 ? roundToCents((heldAmount * deducted) / hold.amount) : 0;
+    const heldReleased = roundToCents(heldAmount - heldDeducted);
+    const releasedConversion = convertCurrency(heldReleased, heldCurrency, wallet?.currency || heldCurrency);
+    const deductedConversion = convertCurrency(heldDeducted, heldCurrency, wallet?.currency || heldCurrency);
+    const heldMetadata = (amount: number) =>
+      wallet && wallet.currency !== heldCurrency ? { heldAmount: amount, heldCurrency } : {};
+    if (wallet) {
+      trackOriginalUsdBalance(wallet, releasedConversion.amount);
+    }
+
+    const holdStatus = deducted > 0 ? 'completed' : 'refunded';
+    const deposit = {
+      status: deducted === 0 ? 'released' : released === 0 ? 'captured' : 'partially_released',
+      releasedAmount: released,
+      deductedAmount: deducted,
+      settledAt: new Date()
+    } as const;
+
+    // Wallet movements, the settlement payments and the booking's deposit are written in one transaction
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        // Only one settlement of a hold goes through
+        const claimed = await Payment.updateOne(
+          { _id: hold._id, status: 'authorized' },
+          { status: holdStatus },
+          { session }
+        );
+        if (claimed.modifiedCount === 0) {
+          throw new Error('Security deposit has already been settled');
+        }
+
+        if (wallet) {
+          // The released part goes back to the wallet and the deducted part is kept by the platform
+          if (released > 0) {
+            await postWalletTransfer(wallet, {
+              kind: 'deposit_release',
+              from: heldAccount(wallet.user),
+              to: walletAccount(wallet.user),
+              amount: releasedConversion.amount,
+              description: `Security deposit released for booking #${bookingId.slice(-6)}`,
+              reference: bookingId,
+              metadata: {
+                originalAmount: released,
+                originalCurrency: hold.currency,
+                ...heldMetadata(heldReleased),
+                ...rateMetadata(releasedConversion)
+              }
+            }, { session });
+          }
+          if (deducted > 0) {
+            await postWalletTransfer(wallet, {
+              kind: 'deposit_deduction',
+              from: heldAccount(wallet.user),
+              to: PLATFORM_ACCOUNTS.deposits,
+              amount: deductedConversion.amount,
+              description: `Deducted from security deposit for booking #${bookingId.slice(-6)}: ${reason}`,
+              reference: bookingId,
+              metadata: {
+                originalAmount: deducted,
+                originalCurrency: hold.currency,
+                ...heldMetadata(heldDeducted),
+                ...rateMetadata(deductedConversion)
+              }
+            }, { session });
+          }
+        }
+
+        const settlements = [];
+        if (released > 0) {
+          settlements.push({
+            user: hold.user,
+            booking: booking._id,
+            amount: released,
+            currency: hold.currency,
+            status: 'refunded',
+            paymentMethod: hold.paymentMethod,
+            refundReason: reason,
+            metadata: { purpose: 'deposit_release', holdPayment: hold._id },
+          });
+        }
+        if (deducted > 0) {
+          settlements.push({
+            user: hold.user,
+            booking: booking._id,
+            amount: deducted,
+            currency: hold.currency,
+            status: 'completed',
+            paymentMethod: hold.paymentMethod,
+            metadata: { purpose: 'deposit_deduction', holdPayment: hold._id, reason },
+          });
+        }
+        if (settlements.length > 0) {
+          await Payment.create(settlements, { session });
+        }
+
+        await Booking.updateOne(
+          { _id: booking._id },
+          {
+            $set: {
+              'deposit.status': deposit.status,
+              'deposit.releasedAmount': deposit.releasedAmount,
+              'deposit.deductedAmount': deposit.deductedAmount,
+              'deposit.settledAt': deposit.settledAt
+            }
+          },
+          { session }
+        );
       });
+    } finally {
+      await session.endSession();
     }
-    
+
+    hold.status = holdStatus;
+    booking.deposit.status = deposit.status;
+    booking.deposit.releasedAmount = released;
+    booking.deposit.deductedAmount = deducted;
+    booking.deposit.settledAt = deposit.settledAt;
+
     return {
       success: true,
-      payment,
-      wallet
+      released,
+      deducted,
     };
   } catch (error) {
-    console.error('Wallet payment error:', error);
+    console.error('Deposit settlement error:', error);
     return {
       success: false,
-      message: 'Failed to process wallet payment',
-      error,
+      message: 'Failed to settle security deposit',
+      error: error instanceof Error ? error.message : String(error),
     };
   }
 };
 
+/**
+ * Credit a wallet from a card payment (`funding`) or with money given back for
+ * a wallet payment (`refund`). Amounts in another currency than the wallet's
+ * are converted. Creates the wallet if the user has none yet.
+ */
 export const addFundsToWallet = async (
   userId: string,
   amount: number,
   currency: string,
-  paymentId?: string
+  paymentId?: string,
+  source: 'funding' | 'refund' = 'funding'
 ) => {
   try {
     let wallet = await Wallet.findOne({ user: userId });
@@ -302,15 +887,10 @@ export const addFundsToWallet = async (
         user: userId,
         balance: 0,
         currency,
-        transactions: [],
         metadata: {
-          originalUsdBalance: currency === 'USD' ? amount : 0
+          originalUsdBalance: 0
         }
       });
-    } else if (wallet.currency !== currency) {
-      // If the wallet exists but currency is different, update the currency
-      // This allows users to switch between USD and INR
-      wallet.currency = currency;
     }
     
     // Initialize metadata if it doesn't exist
@@ -318,34 +898,31 @@ export const addFundsToWallet = async (
       wallet.metadata = {};
     }
     
-    // Update wallet balance
-    wallet.balance += amount;
+    const conversion = convertCurrency(amount, currency, wallet.currency);
+    const walletAmount = conversion.amount;
     
-    // If currency is USD, update the originalUsdBalance
-    if (currency === 'USD') {
-      wallet.metadata.originalUsdBalance = wallet.balance;
-    } else if (currency === 'INR' && wallet.metadata.originalUsdBalance) {
-      // If adding INR, convert it to USD and add to originalUsdBalance
-      // Using exact inverse of USD_TO_INR for precision
-      const USD_TO_INR = 83.0;
-      const exchangeRate = 1/USD_TO_INR; 
-      wallet.metadata.originalUsdBalance += Math.round(amount * exchangeRate * 100) / 100;
+    // If the wallet is in the base currency, update the originalUsdBalance
+    if (wallet.currency === BASE_CURRENCY) {
+      wallet.metadata.originalUsdBalance = roundToCents(wallet.balance + walletAmount);
+      wallet.markModified('metadata');
+    } else {
+      trackOriginalUsdBalance(wallet, walletAmount);
     }
     
-    wallet.transactions.push({
-      amount,
-      type: 'credit',
-      description: 'Added funds to wallet',
+    await postWalletTransfer(wallet, {
+      kind: source,
+      from: source === 'refund' ? PLATFORM_ACCOUNTS.refunds : PLATFORM_ACCOUNTS.stripe,
+      to: walletAccount(wallet.user),
+      amount: walletAmount,
+      description: source === 'refund' ? 'Refund to wallet' : 'Added funds to wallet',
       reference: paymentId,
-      createdAt: new Date(),
       metadata: {
         originalAmount: amount,
-        originalCurrency: currency
+        originalCurrency: currency,
+        ...rateMetadata(conversion)
       }
     });
     
-    await wallet.save();
-    
     return {
       success: true,
       wallet,
@@ -358,4 +935,133 @@ export const addFundsToWallet = async (
       error,
     };
   }
-}; 
\ No newline at end of file
+}; 
+interface ProcessRefundParams {
+  userId: string;
+  bookingId: string;
+  amount: number; // in the base currency, converted to each payment's currency
+  reason: string;
+  partial?: boolean; // the booking stays active, so payments are only refunded once all of them is given back
+}
+
+export const processRefund = async ({
+  userId,
+  bookingId,
+  amount,
+  reason,
+  partial = false,
+}: ProcessRefundParams) => {
+  try {
+    // Find the completed payments that paid for this booking (not later fees),
+    // newest first: a rescheduled booking may have paid a price difference separately
+    const payments = await Payment.find({
+      user: userId,
+      $or: [{ booking: bookingId }, { bookings: bookingId }],
+      status: 'completed',
+      'metadata.purpose': { $in: [null, 'reschedule'] },
+    }).sort({ createdAt: -1 });
+    
+    if (payments.length === 0) {
+      return {
+        success: false,
+        message: 'No completed payment found for this booking',
+      };
+    }
+    
+    let remaining = roundToCents(amount);
+    let refundedTotal = 0;
+    let refundId: string | undefined;
+    let wallet: IWallet | undefined;
+    
+    for (const payment of payments) {
+      if (remaining <= 0) {
+        break;
+      }
+      
+      // The amount to refund is in the base currency, the payment may not be
+      const alreadyRefunded = payment.get('metadata.refundedAmount') || 0;
+      const conversion = convertCurrency(remaining, BASE_CURRENCY, payment.currency);
+      const refundAmount = roundToCents(Math.min(conversion.amount, payment.amount - alreadyRefunded));
+      if (refundAmount <= 0) {
+        continue;
+      }
+      const baseRefundAmount = refundAmount === conversion.amount
+        ? remaining
+        : roundToCents(refundAmount / conversion.rate);
+      
+      // A cart checkout pays for several items and a partial refund leaves the booking
+      // paid for, so those only count as refunded once all of the payment is
+      const markRefunded = () => {
+        const refundedAmount = roundToCents(alreadyRefunded + refundAmount);
+        payment.set('metadata.refundedAmount', refundedAmount);
+        const shared = (payment.bookings?.length || 0) + (payment.purchases?.length || 0) > 1;
+        if ((shared || partial) && refundedAmount < payment.amount) {
+          return;
+        }
+        payment.status = 'refunded';
+      };
+      
+      if (payment.paymentMethod === 'stripe' && payment.stripePaymentId) {
+        const stripe = getStripeInstance();
+        if (!stripe) {
+          return {
+            success: false,
+            message: 'Stripe is not configured properly',
+          };
+        }
+        
+        const refund = await stripe.refunds.create({
+          payment_intent: payment.stripePaymentId,
+          amount: toMinorUnits(refundAmount, payment.currency), // Stripe requires amounts in the smallest currency unit
+        });
+        refundId = refund.id;
+      } else if (payment.paymentMethod === 'wallet') {
+        const result = await addFundsToWallet(
+          userId,
+          refundAmount,
+          payment.currency,
+          payment._id instanceof Object ? payment._id.toString() : String(payment._id),
+          'refund'
+        );
+        
+        if (!result.success) {
+          return {
+            success: false,
+            message: 'Failed to refund to wallet',
+          };
+        }
+        wallet = result.wallet;
+      } else {
+        return {
+          success: false,
+          message: 'Unsupported payment method for refund',
+        };
+      }
+      
+      markRefunded();
+      payment.refundReason = reason;
+      if (conversion.rate !== 1) {
+        payment.set('metadata.refundExchangeRate', conversion.rate);
+        payment.set('metadata.refundExchangeRateId', conversion.rateId);
+      }
+      await payment.save();
+      
+      remaining = roundToCents(remaining - baseRefundAmount);
+      refundedTotal = roundToCents(refundedTotal + baseRefundAmount);
+    }
+    
+    return {
+      success: true,
+      refundAmount: refundedTotal,
+      ...(refundId && { refundId }),
+      ...(wallet && { wallet }),
+    };
+  } catch (error) {
+    console.error('Booking refund error:', error);
+    return {
+      success: false,
+      message: 'Failed to process refund',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
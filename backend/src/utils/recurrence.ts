@@ -0,0 +1,140 @@
+// Recurrence rules for booking series, modelled on a small subset of RFC 5545 RRULE:
+// weekly repetition every N weeks, ending after a number of occurrences or on a date.
+
+export interface RecurrenceRule {
+  frequency: 'WEEKLY';
+  interval: number;   // 1 = every week, 2 = every other week
+  count?: number;     // total number of occurrences, including the first
+  until?: Date;       // last date an occurrence may fall on (inclusive)
+}
+
+export type RecurrenceRuleResult =
+  | { valid: true; rule: RecurrenceRule }
+  | { valid: false; reason: string };
+
+// Upper bound on occurrences generated for a single series (one year of weekly bookings)
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const ALLOWED_INTERVALS = [1, 2];
+const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Format a date as the "yyyyMMdd" form used by RRULE UNTIL values
+const toRRuleDate = (date: Date): string =>
+  date.toISOString().split('T')[0].replace(/-/g, '');
+
+// Parse an RRULE UNTIL value ("yyyyMMdd" or "yyyy-MM-dd") into a UTC midnight date
+const fromRRuleDate = (value: string): Date | null => {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Validate a recurrence rule. Either a count or an end date is required so
+ * that a series never repeats indefinitely.
+ */
+export const validateRecurrenceRule = (
+  input: { frequency?: string; interval?: number | string; count?: number | string; until?: string | Date },
+  startDate: Date
+): RecurrenceRuleResult => {
+  const frequency = (input.frequency || 'WEEKLY').toString().toUpperCase();
+  if (frequency !== 'WEEKLY') {
+    return { valid: false, reason: 'Only weekly recurrence is supported' };
+  }
+
+  const interval = input.interval !== undefined ? Number(input.interval) : 1;
+  if (!ALLOWED_INTERVALS.includes(interval)) {
+    return { valid: false, reason: 'Recurrence interval must be 1 (weekly) or 2 (bi-weekly)' };
+  }
+
+  const count = input.count !== undefined ? Number(input.count) : undefined;
+  const until = input.until !== undefined
+    ? (input.until instanceof Date ? input.until : fromRRuleDate(input.until))
+    : undefined;
+
+  if (count === undefined && until === undefined) {
+    return { valid: false, reason: 'Recurrence must end after a number of occurrences or on an end date' };
+  }
+
+  if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES)) {
+    return { valid: false, reason: `Occurrence count must be between 1 and ${MAX_SERIES_OCCURRENCES}` };
+  }
+
+  if (until === null) {
+    return { valid: false, reason: 'Recurrence end date must be a valid date' };
+  }
+
+  if (until && until < startDate) {
+    return { valid: false, reason: 'Recurrence end date must not be before the start date' };
+  }
+
+  return { valid: true, rule: { frequency: 'WEEKLY', interval, count, until } };
+};
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;COUNT=10"
+ * into the fields accepted by validateRecurrenceRule
+ */
+export const parseRRule = (rrule: string) => {
+  const parts = rrule.replace(/^RRULE:/i, '').split(';');
+  const fields: Record<string, string> = {};
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      fields[key.trim().toUpperCase()] = value.trim();
+    }
+  }
+
+  return {
+    frequency: fields.FREQ,
+    interval: fields.INTERVAL,
+    count: fields.COUNT,
+    until: fields.UNTIL,
+  };
+};
+
+/**
+ * Format a recurrence rule as an RRULE string
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${toRRuleDate(rule.until)}`);
+  }
+  return parts.join(';');
+};
+
+/**
+ * Expand a recurrence rule into the list of occurrence dates, starting with
+ * the start date itself. Stops at the count, the end date or the series cap,
+ * whichever comes first.
+ */
+export const generateOccurrenceDates = (startDate: Date, rule: RecurrenceRule): Date[] => {
+  const dates: Date[] = [];
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  for (let i = 0; dates.length < limit; i++) {
+    // Step in whole UTC weeks so booking dates stay at UTC midnight across DST changes
+    const date = new Date(startDate.getTime() + i * rule.interval * ONE_WEEK_MS);
+    if (rule.until && date > rule.until) {
+      break;
+    }
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+export default {
+  validateRecurrenceRule,
+  parseRRule,
+  formatRRule,
+  generateOccurrenceDates,
+  MAX_SERIES_OCCURRENCES,
+};
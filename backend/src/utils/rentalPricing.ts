@@ -0,0 +1,127 @@
+import { IEquipment } from '../models/Equipment';
+import { roundToCents } from './money';
+
+// Longest equipment rental that can be booked in one go
+export const MAX_RENTAL_DAYS = 30;
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RentalPrice {
+  days: number;
+  weeks: number;
+  extraDays: number;
+  dailyRate: number;
+  weeklyRate?: number;
+  unitPrice: number;      // price of one unit for the whole rental
+  weeklyDiscount: number; // saving per unit against paying the daily rate every day
+}
+
+export interface LateFee {
+  daysLate: number;
+  lateFee: number;
+}
+
+export type RentalPeriodResult =
+  | { valid: true; pickupDate: Date; returnDate: Date; days: number }
+  | { valid: false; reason: string };
+
+/**
+ * Number of days a rental holds the equipment, counting both the pickup
+ * and the return day. Dates are UTC midnight booking dates.
+ */
+export const getRentalDays = (pickupDate: Date, returnDate?: Date | null): number =>
+  Math.round(((returnDate || pickupDate).getTime() - pickupDate.getTime()) / ONE_DAY_MS) + 1;
+
+/**
+ * Validate a rental period: the return date defaults to the pickup date,
+ * must not be before it, and the rental may last at most MAX_RENTAL_DAYS.
+ */
+export const validateRentalPeriod = (pickupDate: Date, returnDate?: Date | null): RentalPeriodResult => {
+  if (isNaN(pickupDate.getTime()) || (returnDate && isNaN(returnDate.getTime()))) {
+    return { valid: false, reason: 'Pickup and return dates must be valid dates' };
+  }
+
+  const end = returnDate || pickupDate;
+  if (end < pickupDate) {
+    return { valid: false, reason: 'Return date must not be before the pickup date' };
+  }
+
+  const days = getRentalDays(pickupDate, end);
+  if (days > MAX_RENTAL_DAYS) {
+    return { valid: false, reason: `Equipment can be rented for at most ${MAX_RENTAL_DAYS} days at a time` };
+  }
+
+  return { valid: true, pickupDate, returnDate: end, days };
+};
+
+/**
+ * Price of renting one unit for a number of days.
+ *
+ * Every full week is charged at the weekly rate when the item has one that
+ * is cheaper than seven daily rates; remaining days are charged daily but
+ * never more than another week would cost.
+ */
+export const calculateRentalPrice = (
+  equipment: Pick<IEquipment, 'rentalPriceDaily' | 'rentalPriceWeekly'>,
+  days: number
+): RentalPrice => {
+  const dailyRate = equipment.rentalPriceDaily;
+  const fullPrice = roundToCents(dailyRate * days);
+  const weeklyRate = equipment.rentalPriceWeekly;
+
+  if (!weeklyRate || weeklyRate >= dailyRate * 7) {
+    return {
+      days,
+      weeks: 0,
+      extraDays: days,
+      dailyRate,
+      weeklyRate,
+      unitPrice: fullPrice,
+      weeklyDiscount: 0
+    };
+  }
+
+  const weeks = Math.floor(days / 7);
+  const extraDays = days % 7;
+  const unitPrice = roundToCents(weeks * weeklyRate + Math.min(extraDays * dailyRate, weeklyRate));
+
+  return {
+    days,
+    weeks,
+    extraDays,
+    dailyRate,
+    weeklyRate,
+    unitPrice,
+    weeklyDiscount: roundToCents(fullPrice - unitPrice)
+  };
+};
+
+/**
+ * Late fee for a rental returned after its due date (the return date, or
+ * the pickup date for single-day rentals). Every unit is charged the item's
+ * late fee, or its daily rate when it has none, for each day past the due
+ * date; returns on the due date itself are on time.
+ */
+export const calculateLateFee = (
+  lines: { equipment: Pick<IEquipment, 'rentalPriceDaily' | 'lateFeeDaily'>; quantity: number }[],
+  dueDate: Date,
+  returnedAt: Date
+): LateFee => {
+  const returnedDay = new Date(`${returnedAt.toISOString().split('T')[0]}T00:00:00.000Z`);
+  const daysLate = Math.max(0, getRentalDays(dueDate, returnedDay) - 1);
+
+  const dailyFee = lines.reduce(
+    (sum, line) => sum + (line.equipment.lateFeeDaily ?? line.equipment.rentalPriceDaily) * line.quantity,
+    0
+  );
+
+  return { daysLate, lateFee: roundToCents(dailyFee * daysLate) };
+};
+
+export default {
+  getRentalDays,
+  validateRentalPeriod,
+  calculateRentalPrice,
+  calculateLateFee,
+  MAX_RENTAL_DAYS
+};
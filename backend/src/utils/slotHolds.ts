@@ -0,0 +1,154 @@
+import mongoose from 'mongoose';
+import { IBooking } from '../models/Booking';
+import SlotHold from '../models/SlotHold';
+import Venue from '../models/Venue';
+import logger from './logger';
+import { SLOT_GRANULARITIES, toTimeRange } from './timeRange';
+import { findOverlappingVenueBooking, findVenueResource, getBookingBuffer } from './venueAvailability';
+
+// How long a slot stays reserved for a customer who has started checking out (in minutes)
+export const SLOT_HOLD_MINUTES = 10;
+
+// Every slot granularity is a multiple of the smallest, so bookings always cover whole blocks
+const HOLD_BLOCK_MINUTES = Math.min(...SLOT_GRANULARITIES);
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+export type SlotHoldResult =
+  | { success: true; expiresAt: Date }
+  | { success: false; reason: string };
+
+/**
+ * When a hold placed now runs out
+ */
+export const getHoldExpiry = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + SLOT_HOLD_MINUTES * 60 * 1000);
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+/**
+ * Give back every block held for the given bookings
+ */
+export const releaseSlotHolds = async (bookingIds: ObjectIdLike | ObjectIdLike[]): Promise<void> => {
+  const ids = Array.isArray(bookingIds) ? bookingIds : [bookingIds];
+  if (ids.length > 0) {
+    await SlotHold.deleteMany({ booking: { $in: ids } });
+  }
+};
+
+/**
+ * Hold the venue slot of a booking that is about to be created, before it is
+ * saved. One hold is inserted per 15-minute block and the unique index on
+ * the blocks rejects a concurrent checkout on any of them, in which case the
+ * blocks already claimed are given back. A hold on the whole venue also
+ * claims each court's blocks. The blocks cover the venue's changeover
+ * buffer too, so two checkouts too close together also collide.
+ * Once held, the slot is checked again so a booking saved just before the
+ * hold is not missed either. The hold lasts SLOT_HOLD_MINUTES unless another
+ * expiry is given.
+ */
+export const holdVenueSlot = async (
+  bookingId: mongoose.Types.ObjectId,
+  userId: ObjectIdLike,
+  bookingData: Partial<IBooking>,
+  expiresAt: Date = getHoldExpiry()
+): Promise<SlotHoldResult> => {
+  const range = toTimeRange(bookingData.timeSlot);
+  if (!bookingData.venue || !bookingData.date || !range) {
+    return { success: false, reason: 'A venue, date and time slot are required to hold a slot' };
+  }
+
+  const venue = await Venue.findById(bookingData.venue).select('bufferBeforeMinutes bufferAfterMinutes resources');
+  const resource = venue && bookingData.resource ? findVenueResource(venue, bookingData.resource.toString()) : undefined;
+  const buffer = venue ? getBookingBuffer(venue, resource) : { before: 0, after: 0 };
+
+  // Buffers that are not a whole number of blocks are rounded out to the next block
+  const holdStart = Math.floor((range.start - buffer.before) / HOLD_BLOCK_MINUTES) * HOLD_BLOCK_MINUTES;
+  const holdEnd = range.end + buffer.after;
+
+  // A court's blocks are keyed on that court. Booking the venue as a whole takes
+  // every court's blocks as well, so it collides with a checkout on any one court.
+  const resourceKeys = bookingData.resource
+    ? [bookingData.resource]
+    : [null, ...(venue?.resources || []).map(venueResource => venueResource._id)];
+
+  const blocks = [];
+  for (const resourceKey of resourceKeys) {
+    for (let blockStart = holdStart; blockStart < holdEnd; blockStart += HOLD_BLOCK_MINUTES) {
+      blocks.push({
+        venue: bookingData.venue,
+        resource: resourceKey,
+        date: bookingData.date,
+        blockStart,
+        booking: bookingId,
+        user: userId,
+        expiresAt
+      });
+    }
+  }
+
+  try {
+    await SlotHold.insertMany(blocks, { ordered: true });
+  } catch (error) {
+    await releaseSlotHolds(bookingId);
+    if (isDuplicateKeyError(error)) {
+      logger.warn('Slot already held by another checkout', {
+        venueId: bookingData.venue,
+        resourceId: bookingData.resource,
+        date: bookingData.date,
+        timeSlot: bookingData.timeSlot
+      });
+      return {
+        success: false,
+        reason: 'Someone else is checking out this time slot. Please try again in a few minutes or pick another time.'
+      };
+    }
+    throw error;
+  }
+
+  const overlapping = await findOverlappingVenueBooking(bookingData.venue, bookingData.date, range, {
+    resourceId: bookingData.resource,
+    excludeBookingId: bookingId,
+    buffer
+  });
+  if (overlapping) {
+    await releaseSlotHolds(bookingId);
+    return { success: false, reason: 'This time slot has just been booked. Please pick another time.' };
+  }
+
+  return { success: true, expiresAt };
+};
+
+/**
+ * Make sure a customer who is paying for a pending booking has at least a
+ * fresh hold's worth of time left. Returns false when the hold has already
+ * run out; bookings without a hold are left as they are. Saves the booking.
+ */
+export const extendCheckoutHold = async (booking: IBooking): Promise<boolean> => {
+  if (!booking.holdExpiresAt) {
+    return true;
+  }
+  if (booking.holdExpiresAt.getTime() <= Date.now()) {
+    return false;
+  }
+
+  const expiresAt = getHoldExpiry();
+  if (expiresAt <= booking.holdExpiresAt) {
+    return true;
+  }
+
+  booking.holdExpiresAt = expiresAt;
+  await booking.save();
+  await SlotHold.updateMany({ booking: booking._id }, { expiresAt: booking.holdExpiresAt });
+
+  return true;
+};
+
+export default {
+  SLOT_HOLD_MINUTES,
+  getHoldExpiry,
+  holdVenueSlot,
+  releaseSlotHolds,
+  extendCheckoutHold
+};
@@ -0,0 +1,145 @@
+// Minute-level time range helpers for venue bookings.
+// Times are exchanged with clients as "HH:MM" strings and handled internally
+// as minutes since midnight so that ranges like 09:30-11:00 compare correctly.
+
+import { roundToCents } from './money';
+
+export interface TimeRange {
+  start: number; // minutes since midnight (inclusive)
+  end: number;   // minutes since midnight (exclusive)
+}
+
+export interface TimeSlotInput {
+  start: string;
+  end: string;
+}
+
+export type TimeRangeResult =
+  | { valid: true; range: TimeRange }
+  | { valid: false; reason: string };
+
+// Allowed slot granularities for venue bookings (in minutes)
+export const SLOT_GRANULARITIES = [15, 30, 60];
+export const DEFAULT_SLOT_GRANULARITY_MINUTES = 60;
+export const DEFAULT_MIN_BOOKING_MINUTES = 60;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse a "HH:MM" string into minutes since midnight.
+ * "24:00" is accepted so that ranges can end at midnight.
+ * Returns null when the string is not a valid time.
+ */
+export const parseTime = (time: string): number | null => {
+  if (typeof time !== 'string') {
+    return null;
+  }
+  if (time === '24:00') {
+    return MINUTES_PER_DAY;
+  }
+  const match = TIME_PATTERN.exec(time);
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+};
+
+/**
+ * Format minutes since midnight as a "HH:MM" string
+ */
+export const formatTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60).toString().padStart(2, '0');
+  const minutes = (totalMinutes % 60).toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+/**
+ * Validate a { start, end } time slot and convert it into a minute range
+ */
+export const parseTimeRange = (timeSlot?: Partial<TimeSlotInput> | null): TimeRangeResult => {
+  if (!timeSlot || !timeSlot.start || !timeSlot.end) {
+    return { valid: false, reason: 'Time slot must include a start and end time' };
+  }
+
+  const start = parseTime(timeSlot.start);
+  const end = parseTime(timeSlot.end);
+
+  if (start === null || end === null) {
+    return { valid: false, reason: 'Times must be provided in HH:MM format' };
+  }
+
+  if (end <= start) {
+    return { valid: false, reason: 'End time must be after start time' };
+  }
+
+  return { valid: true, range: { start, end } };
+};
+
+/**
+ * Convert a stored time slot into a minute range, or null if it is malformed
+ */
+export const toTimeRange = (timeSlot?: Partial<TimeSlotInput> | null): TimeRange | null => {
+  const result = parseTimeRange(timeSlot);
+  return result.valid ? result.range : null;
+};
+
+/**
+ * Two half-open ranges overlap when each starts before the other ends,
+ * so back-to-back ranges (10:00-11:00 and 11:00-12:00) do not overlap
+ */
+export const rangesOverlap = (a: TimeRange, b: TimeRange): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Widen a range by the given minutes on each side, such as a booking's changeover buffer
+ */
+export const padRange = (range: TimeRange, before: number, after: number): TimeRange => ({
+  start: range.start - before,
+  end: range.end + after
+});
+
+/**
+ * Check whether a range lies entirely inside another range
+ */
+export const rangeContains = (outer: TimeRange, inner: TimeRange): boolean =>
+  inner.start >= outer.start && inner.end <= outer.end;
+
+/**
+ * Length of a range in minutes
+ */
+export const rangeDurationMinutes = (range: TimeRange): number => range.end - range.start;
+
+/**
+ * Check that both ends of a range fall on the given granularity (e.g. every 30 minutes)
+ */
+export const isAlignedToGranularity = (range: TimeRange, granularityMinutes: number): boolean =>
+  range.start % granularityMinutes === 0 && range.end % granularityMinutes === 0;
+
+/**
+ * When a booking starts: the start of its time slot for venues, the pickup date for equipment
+ */
+export const getBookingStart = (booking: { date: Date; timeSlot?: Partial<TimeSlotInput> | null }): Date => {
+  const startMinutes = booking.timeSlot?.start ? parseTime(booking.timeSlot.start) || 0 : 0;
+  return new Date(booking.date.getTime() + startMinutes * 60 * 1000);
+};
+
+/**
+ * Prorate an hourly price over a range, rounded to cents
+ */
+export const calculateProratedPrice = (pricePerHour: number, range: TimeRange): number =>
+  roundToCents(pricePerHour * (rangeDurationMinutes(range) / 60));
+
+export default {
+  parseTime,
+  formatTime,
+  parseTimeRange,
+  toTimeRange,
+  rangesOverlap,
+  padRange,
+  rangeContains,
+  rangeDurationMinutes,
+  isAlignedToGranularity,
+  getBookingStart,
+  calculateProratedPrice,
+};
@@ -0,0 +1,601 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import { IVenue, IVenueDateException, IVenueResource } from '../models/Venue';
+import logger from './logger';
+import {
+  TimeRange,
+  TimeSlotInput,
+  parseTimeRange,
+  toTimeRange,
+  formatTime,
+  rangesOverlap,
+  padRange,
+  rangeContains,
+  rangeDurationMinutes,
+  isAlignedToGranularity,
+  DEFAULT_SLOT_GRANULARITY_MINUTES,
+  DEFAULT_MIN_BOOKING_MINUTES,
+} from './timeRange';
+
+// Maximum number of days that can be requested in a single availability query
+export const MAX_AVAILABILITY_DAYS = 31;
+
+// Resource id accepted from clients to let the server pick any free court
+export const ANY_RESOURCE = 'any';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface AvailabilitySlot {
+  start: string;
+  end: string;
+  status: 'available' | 'booked' | 'past';
+}
+
+export interface AvailabilityDay {
+  date: string;
+  day: string;
+  isOpen: boolean;
+  openTime?: string;
+  closeTime?: string;
+  // Set when a date exception closes the day or changes its hours
+  note?: string;
+  slots: AvailabilitySlot[];
+}
+
+export interface ResourceAvailability {
+  resourceId: string;
+  name: string;
+  sportType: string;
+  pricePerHour: number;
+  days: AvailabilityDay[];
+}
+
+// Changeover minutes kept free before and after each booking
+export interface BookingBuffer {
+  before: number;
+  after: number;
+}
+
+export type VenueTimeSlotValidation =
+  | { valid: true; range: TimeRange }
+  | { valid: false; reason: string };
+
+export type VenueResourceResolution =
+  | {
+      valid: true;
+      range: TimeRange;
+      resource?: IVenueResource;
+      pricePerHour: number;
+    }
+  | {
+      valid: false;
+      status: number;
+      reason: string;
+      conflictingBooking?: { start?: string; end?: string };
+      taken?: boolean; // the time is valid but already booked
+    };
+
+// Format a date as the "yyyy-MM-dd" key used for booking dates (stored at UTC midnight)
+const toDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Parse a "yyyy-MM-dd" date string into a UTC midnight Date, matching how
+ * booking dates are stored. Returns null for invalid input.
+ */
+export const parseDateKey = (value: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Active courts (or other sub-resources) of a venue. A venue without any is
+ * booked as a whole.
+ */
+export const getActiveResources = (venue: IVenue): IVenueResource[] =>
+  (venue.resources || []).filter(resource => resource.isActive !== false);
+
+/**
+ * Find an active resource of a venue by id
+ */
+export const findVenueResource = (venue: IVenue, resourceId: string): IVenueResource | undefined =>
+  getActiveResources(venue).find(resource => resource._id.toString() === resourceId);
+
+// Hourly rate of a resource, falling back to the venue's rate
+export const getResourcePricePerHour = (venue: IVenue, resource?: IVenueResource): number =>
+  resource?.pricePerHour ?? venue.pricePerHour;
+
+// Changeover buffer of a resource, falling back to the venue's
+export const getBookingBuffer = (venue: IVenue, resource?: IVenueResource): BookingBuffer => ({
+  before: resource?.bufferBeforeMinutes ?? venue.bufferBeforeMinutes ?? 0,
+  after: resource?.bufferAfterMinutes ?? venue.bufferAfterMinutes ?? 0
+});
+
+// Two bookings conflict when their ranges overlap once both are widened by the
+// buffer, so back-to-back bookings need before + after minutes between them
+const overlapsWithBuffer = (a: TimeRange, b: TimeRange, buffer?: BookingBuffer): boolean =>
+  buffer
+    ? rangesOverlap(padRange(a, buffer.before, buffer.after), padRange(b, buffer.before, buffer.after))
+    : rangesOverlap(a, b);
+
+/**
+ * The date exception in force for a venue (or one of its resources) on a
+ * booking date. A closure of the whole venue always applies; otherwise an
+ * exception for the resource takes precedence over one for the whole venue.
+ */
+export const findDateException = (
+  venue: IVenue,
+  date: Date,
+  resource?: IVenueResource
+): IVenueDateException | undefined => {
+  const dateKey = toDateKey(date);
+  const forDate = (venue.dateExceptions || []).filter(exception => toDateKey(exception.date) === dateKey);
+  const venueWide = forDate.find(exception => !exception.resource);
+  if (venueWide?.isClosed) {
+    return venueWide;
+  }
+  const forResource = resource && forDate.find(
+    exception => exception.resource?.toString() === resource._id.toString()
+  );
+  return forResource || venueWide;
+};
+
+// Describe a date exception for customers, e.g. "Closed: Public holiday"
+const describeException = (exception: IVenueDateException): string => {
+  const summary = exception.isClosed
+    ? 'Closed'
+    : `Special hours ${exception.openTime} - ${exception.closeTime}`;
+  return exception.reason ? `${summary}: ${exception.reason}` : summary;
+};
+
+// Opening hours of a venue (or one of its resources) on the given booking date:
+// the weekly hours for that weekday unless a date exception overrides them
+const getOpeningHours = (venue: IVenue, date: Date, resource?: IVenueResource) => {
+  const dayName = WEEKDAYS[date.getUTCDay()];
+  const exception = findDateException(venue, date, resource);
+  if (exception) {
+    const hours = exception.isClosed
+      ? undefined
+      : { day: dayName, openTime: exception.openTime!, closeTime: exception.closeTime! };
+    const range = hours ? toTimeRange({ start: hours.openTime, end: hours.closeTime }) : null;
+    return { dayName, hours, range, exception };
+  }
+
+  const schedule = resource?.availableTimeSlots?.length
+    ? resource.availableTimeSlots
+    : venue.availableTimeSlots;
+  const hours = schedule.find(slot => slot.day === dayName);
+  const range = hours ? toTimeRange({ start: hours.openTime, end: hours.closeTime }) : null;
+  return { dayName, hours, range, exception: undefined };
+};
+
+// A booking without a resource holds the whole venue, so it blocks every resource
+const blocksResource = (booking: IBooking, resourceId?: string): boolean =>
+  !resourceId || !booking.resource || booking.resource.toString() === resourceId;
+
+/**
+ * Validate a requested time slot against a venue's booking rules: the range
+ * must be well-formed, aligned to the venue's slot granularity, at least the
+ * minimum booking length and inside the opening hours for that weekday
+ * (the resource's own hours when it has them), or for that date when a date
+ * exception closes the venue or changes its hours.
+ */
+export const validateVenueTimeSlot = (
+  venue: IVenue,
+  date: Date,
+  timeSlot?: Partial<TimeSlotInput> | null,
+  resource?: IVenueResource
+): VenueTimeSlotValidation => {
+  const parsed = parseTimeRange(timeSlot);
+  if (!parsed.valid) {
+    return parsed;
+  }
+  const { range } = parsed;
+
+  const granularity = venue.slotGranularityMinutes || DEFAULT_SLOT_GRANULARITY_MINUTES;
+  if (!isAlignedToGranularity(range, granularity)) {
+    return {
+      valid: false,
+      reason: `Booking times must start and end on ${granularity}-minute intervals`
+    };
+  }
+
+  const minMinutes = venue.minBookingMinutes || DEFAULT_MIN_BOOKING_MINUTES;
+  if (rangeDurationMinutes(range) < minMinutes) {
+    return {
+      valid: false,
+      reason: `Bookings at this venue must be at least ${minMinutes} minutes long`
+    };
+  }
+
+  const place = resource ? resource.name : 'This venue';
+  const { dayName, hours, range: openRange, exception } = getOpeningHours(venue, date, resource);
+  // Date exceptions are reported by date rather than weekday
+  const when = exception ? toDateKey(date) : dayName;
+  if (!hours || !openRange) {
+    return {
+      valid: false,
+      reason: `${place} is closed on ${when}${exception?.reason ? ` (${exception.reason})` : ''}`
+    };
+  }
+
+  if (!rangeContains(openRange, range)) {
+    return {
+      valid: false,
+      reason: `${place} is only open from ${hours.openTime} to ${hours.closeTime} on ${when}`
+    };
+  }
+
+  return { valid: true, range };
+};
+
+/**
+ * Find a pending or confirmed booking on the same venue and date whose time
+ * slot overlaps the given range (compared at minute level), counting the
+ * changeover buffer around both when one is given.
+ *
+ * With a resource id only bookings on that resource, or on the whole venue,
+ * count as overlapping; without one every booking at the venue does.
+ */
+export const findOverlappingVenueBooking = async (
+  venueId: string | mongoose.Types.ObjectId,
+  date: Date,
+  range: TimeRange,
+  options: {
+    resourceId?: string | mongoose.Types.ObjectId;
+    excludeBookingId?: string | mongoose.Types.ObjectId;
+    buffer?: BookingBuffer;
+  } = {}
+) => {
+  const { excludeBookingId, buffer } = options;
+  const resourceId = options.resourceId?.toString();
+
+  const bookings = await Booking.find({
+    venue: venueId,
+    date: { $eq: date },
+    status: { $in: ['pending', 'confirmed'] },
+    ...(excludeBookingId && { _id: { $ne: excludeBookingId } })
+  });
+
+  return bookings.find(booking => {
+    const bookedRange = toTimeRange(booking.timeSlot);
+    return bookedRange !== null
+      && blocksResource(booking, resourceId)
+      && overlapsWithBuffer(bookedRange, range, buffer);
+  }) || null;
+};
+
+// Why a slot is taken, mentioning the changeover time when the venue has one
+const describeTaken = (place: string, buffer: BookingBuffer): string => {
+  const changeover = buffer.before + buffer.after;
+  return changeover > 0
+    ? `${place} is already booked during the selected time period or the ${changeover}-minute changeover around it`
+    : `${place} is already booked during the selected time period`;
+};
+
+/**
+ * Resolve the court a venue booking should be placed on and check it is free.
+ *
+ * Venues without resources are validated as a whole. Otherwise the booking
+ * targets the given resource, or with ANY_RESOURCE (or no resource id) the
+ * first active resource that is open and free for the requested slot.
+ */
+export const resolveVenueResource = async (
+  venue: IVenue,
+  date: Date,
+  timeSlot: Partial<TimeSlotInput> | null | undefined,
+  resourceId?: string,
+  excludeBookingId?: string | mongoose.Types.ObjectId
+): Promise<VenueResourceResolution> => {
+  const venueId = venue._id as mongoose.Types.ObjectId;
+  const resources = getActiveResources(venue);
+
+  if (resources.length === 0) {
+    if (resourceId && resourceId !== ANY_RESOURCE) {
+      return { valid: false, status: 400, reason: 'This venue does not have separately bookable courts' };
+    }
+
+    const validation = validateVenueTimeSlot(venue, date, timeSlot);
+    if (!validation.valid) {
+      return { valid: false, status: 400, reason: validation.reason };
+    }
+
+    const buffer = getBookingBuffer(venue);
+    const overlapping = await findOverlappingVenueBooking(venueId, date, validation.range, {
+      excludeBookingId,
+      buffer
+    });
+    if (overlapping) {
+      return {
+        valid: false,
+        status: 400,
+        reason: describeTaken('This venue', buffer),
+        taken: true,
+        conflictingBooking: { start: overlapping.timeSlot?.start, end: overlapping.timeSlot?.end }
+      };
+    }
+
+    return { valid: true, range: validation.range, pricePerHour: venue.pricePerHour };
+  }
+
+  if (resourceId && resourceId !== ANY_RESOURCE) {
+    const resource = findVenueResource(venue, resourceId);
+    if (!resource) {
+      return { valid: false, status: 404, reason: 'Court not found at this venue' };
+    }
+
+    const validation = validateVenueTimeSlot(venue, date, timeSlot, resource);
+    if (!validation.valid) {
+      return { valid: false, status: 400, reason: validation.reason };
+    }
+
+    const buffer = getBookingBuffer(venue, resource);
+    const overlapping = await findOverlappingVenueBooking(venueId, date, validation.range, {
+      resourceId: resource._id,
+      excludeBookingId,
+      buffer
+    });
+    if (overlapping) {
+      return {
+        valid: false,
+        status: 400,
+        reason: describeTaken(resource.name, buffer),
+        taken: true,
+        conflictingBooking: { start: overlapping.timeSlot?.start, end: overlapping.timeSlot?.end }
+      };
+    }
+
+    return {
+      valid: true,
+      range: validation.range,
+      resource,
+      pricePerHour: getResourcePricePerHour(venue, resource)
+    };
+  }
+
+  // Any free court: the first resource that is open and has no overlapping booking
+  let firstInvalidReason: string | null = null;
+  let anyOpen = false;
+
+  for (const resource of resources) {
+    const validation = validateVenueTimeSlot(venue, date, timeSlot, resource);
+    if (!validation.valid) {
+      firstInvalidReason = firstInvalidReason || validation.reason;
+      continue;
+    }
+    anyOpen = true;
+
+    const overlapping = await findOverlappingVenueBooking(venueId, date, validation.range, {
+      resourceId: resource._id,
+      excludeBookingId,
+      buffer: getBookingBuffer(venue, resource)
+    });
+    if (!overlapping) {
+      return {
+        valid: true,
+        range: validation.range,
+        resource,
+        pricePerHour: getResourcePricePerHour(venue, resource)
+      };
+    }
+  }
+
+  if (!anyOpen) {
+    return { valid: false, status: 400, reason: firstInvalidReason || 'No court is open at the selected time' };
+  }
+
+  return { valid: false, status: 400, reason: 'No court is free during the selected time period', taken: true };
+};
+
+// Build the per-day slot grid for one bookable schedule given its booked ranges;
+// slots too close to a booking to leave its changeover time count as booked
+const buildAvailabilityDays = (
+  venue: IVenue,
+  from: Date,
+  dayCount: number,
+  bookedByDate: Map<string, TimeRange[]>,
+  now: Date,
+  resource?: IVenueResource
+): AvailabilityDay[] => {
+  const slotLength = venue.slotGranularityMinutes || DEFAULT_SLOT_GRANULARITY_MINUTES;
+  const buffer = getBookingBuffer(venue, resource);
+  const todayKey = toDateKey(now);
+  const nowMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+  const days: AvailabilityDay[] = [];
+
+  for (let i = 0; i < dayCount; i++) {
+    const date = addDays(from, i);
+    const dateKey = toDateKey(date);
+    const { dayName, hours, range: openRange, exception } = getOpeningHours(venue, date, resource);
+    const note = exception && describeException(exception);
+
+    if (!hours || !openRange) {
+      days.push({ date: dateKey, day: dayName, isOpen: false, ...(note && { note }), slots: [] });
+      continue;
+    }
+
+    const booked = bookedByDate.get(dateKey) || [];
+    const slots: AvailabilitySlot[] = [];
+
+    for (let start = openRange.start; start + slotLength <= openRange.end; start += slotLength) {
+      const slot: TimeRange = { start, end: start + slotLength };
+      let status: AvailabilitySlot['status'] = 'available';
+
+      if (dateKey < todayKey || (dateKey === todayKey && start < nowMinutes)) {
+        status = 'past';
+      } else if (booked.some(range => overlapsWithBuffer(range, slot, buffer))) {
+        status = 'booked';
+      }
+
+      slots.push({ start: formatTime(slot.start), end: formatTime(slot.end), status });
+    }
+
+    days.push({
+      date: dateKey,
+      day: dayName,
+      isOpen: true,
+      openTime: hours.openTime,
+      closeTime: hours.closeTime,
+      ...(note && { note }),
+      slots
+    });
+  }
+
+  return days;
+};
+
+// Group booked ranges by date so each day only checks its own bookings
+const groupBookedRanges = (bookings: IBooking[], resourceId?: string): Map<string, TimeRange[]> => {
+  const bookedByDate = new Map<string, TimeRange[]>();
+  for (const booking of bookings) {
+    const range = toTimeRange(booking.timeSlot);
+    if (!range || !blocksResource(booking, resourceId)) {
+      continue;
+    }
+    const key = toDateKey(booking.date);
+    const ranges = bookedByDate.get(key) || [];
+    ranges.push(range);
+    bookedByDate.set(key, ranges);
+  }
+  return bookedByDate;
+};
+
+const STATUS_PRIORITY: Record<AvailabilitySlot['status'], number> = { available: 2, booked: 1, past: 0 };
+
+/**
+ * Merge per-resource grids into a single "any free court" grid: a slot is
+ * available when at least one resource has it available.
+ */
+export const mergeResourceAvailability = (resources: ResourceAvailability[]): AvailabilityDay[] => {
+  if (resources.length === 0) {
+    return [];
+  }
+
+  return resources[0].days.map((firstDay, index) => {
+    const daysForDate = resources.map(resource => resource.days[index]).filter(day => day.isOpen);
+    if (daysForDate.length === 0) {
+      return { ...firstDay, isOpen: false, slots: [] };
+    }
+
+    const slotsByStart = new Map<string, AvailabilitySlot>();
+    for (const day of daysForDate) {
+      for (const slot of day.slots) {
+        const existing = slotsByStart.get(slot.start);
+        if (!existing || STATUS_PRIORITY[slot.status] > STATUS_PRIORITY[existing.status]) {
+          slotsByStart.set(slot.start, slot);
+        }
+      }
+    }
+
+    const note = daysForDate.find(day => day.note)?.note;
+
+    // "HH:mm" strings sort chronologically
+    const openTimes = daysForDate.map(day => day.openTime!).sort();
+    const closeTimes = daysForDate.map(day => day.closeTime!).sort();
+
+    return {
+      date: firstDay.date,
+      day: firstDay.day,
+      isOpen: true,
+      openTime: openTimes[0],
+      closeTime: closeTimes[closeTimes.length - 1],
+      ...(note && { note }),
+      slots: Array.from(slotsByStart.values()).sort((a, b) => a.start.localeCompare(b.start))
+    };
+  });
+};
+
+/**
+ * Build a per-day grid of bookable slots for each active resource of a
+ * venue between two dates (inclusive). Returns an empty list for venues
+ * without resources.
+ */
+export const getResourceAvailability = async (
+  venue: IVenue,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): Promise<ResourceAvailability[]> => {
+  const resources = getActiveResources(venue);
+  if (resources.length === 0) {
+    return [];
+  }
+
+  const dayCount = differenceInCalendarDays(to, from) + 1;
+  const bookings = await Booking.find({
+    venue: venue._id as mongoose.Types.ObjectId,
+    date: { $gte: from, $lt: addDays(to, 1) },
+    status: { $in: ['pending', 'confirmed'] }
+  }).select('date timeSlot resource');
+
+  return resources.map(resource => {
+    const resourceId = resource._id.toString();
+    return {
+      resourceId,
+      name: resource.name,
+      sportType: resource.sportType,
+      pricePerHour: getResourcePricePerHour(venue, resource),
+      days: buildAvailabilityDays(venue, from, dayCount, groupBookedRanges(bookings, resourceId), now, resource)
+    };
+  });
+};
+
+/**
+ * Build a per-day grid of bookable slots for a venue between two dates (inclusive).
+ *
+ * Opening hours come from the venue's weekly availableTimeSlots, unless a
+ * date exception overrides them, and slots are cut at the venue's slot
+ * granularity; a slot is marked as booked when it overlaps any pending or
+ * confirmed booking or its changeover buffer. For venues with courts the grid
+ * is that of the given resource, or the merged "any free court" grid.
+ */
+export const getVenueAvailability = async (
+  venue: IVenue,
+  from: Date,
+  to: Date,
+  now: Date = new Date(),
+  resourceId?: string
+): Promise<AvailabilityDay[]> => {
+  if (getActiveResources(venue).length > 0) {
+    const resources = await getResourceAvailability(venue, from, to, now);
+    if (resourceId && resourceId !== ANY_RESOURCE) {
+      return resources.find(resource => resource.resourceId === resourceId)?.days || [];
+    }
+    return mergeResourceAvailability(resources);
+  }
+
+  const dayCount = differenceInCalendarDays(to, from) + 1;
+
+  const bookings = await Booking.find({
+    venue: venue._id as mongoose.Types.ObjectId,
+    date: { $gte: from, $lt: addDays(to, 1) },
+    status: { $in: ['pending', 'confirmed'] }
+  }).select('date timeSlot');
+
+  logger.debug('Computing venue availability', {
+    venueId: venue._id,
+    from: toDateKey(from),
+    to: toDateKey(to),
+    bookings: bookings.length
+  });
+
+  return buildAvailabilityDays(venue, from, dayCount, groupBookedRanges(bookings), now);
+};
+
+export default {
+  getVenueAvailability,
+  getResourceAvailability,
+  mergeResourceAvailability,
+  validateVenueTimeSlot,
+  findOverlappingVenueBooking,
+  resolveVenueResource,
+  getActiveResources,
+  findVenueResource,
+  getBookingBuffer,
+  findDateException,
+  parseDateKey,
+  MAX_AVAILABILITY_DAYS
+};
@@ -0,0 +1,178 @@
+import mongoose from 'mongoose';
+import Booking from '../models/Booking';
+import User, { IUser } from '../models/User';
+import { IVenue, IVenueDateException } from '../models/Venue';
+import emailService from './emailService';
+import logger from './logger';
+import { findVenueResource, parseDateKey } from './venueAvailability';
+import { parseTimeRange, rangeContains, toTimeRange } from './timeRange';
+
+export interface DateExceptionInput {
+  date?: string;
+  resourceId?: string;
+  isClosed?: boolean;
+  openTime?: string;
+  closeTime?: string;
+  reason?: string;
+}
+
+// A pending or confirmed booking that falls outside the hours set by a date exception
+export interface ExceptionConflict {
+  bookingId: string;
+  status: string;
+  timeSlot?: { start: string; end: string };
+  resourceId?: string;
+  resourceName?: string;
+  customer: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+}
+
+type DateExceptionParseResult =
+  | { valid: true; exception: Partial<IVenueDateException> }
+  | { valid: false; reason: string };
+
+/**
+ * Validate a closure or special opening hours for a venue (or one of its
+ * courts) on a single "yyyy-MM-dd" date
+ */
+export const parseDateException = (venue: IVenue, input: DateExceptionInput): DateExceptionParseResult => {
+  const date = input.date ? parseDateKey(input.date) : null;
+  if (!date) {
+    return { valid: false, reason: 'Please provide the date in yyyy-MM-dd format' };
+  }
+
+  const exception: Partial<IVenueDateException> = {
+    date,
+    isClosed: input.isClosed !== false,
+    reason: input.reason?.trim() || undefined
+  };
+
+  if (input.resourceId) {
+    const resource = findVenueResource(venue, input.resourceId);
+    if (!resource) {
+      return { valid: false, reason: 'Court not found at this venue' };
+    }
+    exception.resource = resource._id;
+  }
+
+  if (!exception.isClosed) {
+    const parsed = parseTimeRange({ start: input.openTime, end: input.closeTime });
+    if (!parsed.valid) {
+      return { valid: false, reason: `Special opening hours are invalid: ${parsed.reason}` };
+    }
+    exception.openTime = input.openTime;
+    exception.closeTime = input.closeTime;
+  }
+
+  const duplicate = (venue.dateExceptions || []).some(existing =>
+    existing.date.getTime() === date.getTime()
+    && String(existing.resource || '') === String(exception.resource || '')
+  );
+  if (duplicate) {
+    return {
+      valid: false,
+      reason: 'There is already an exception for this date. Remove it before adding a new one.'
+    };
+  }
+
+  return { valid: true, exception };
+};
+
+/**
+ * Find the pending and confirmed bookings that a date exception leaves
+ * outside the opening hours: every booking on a closed date, or those not
+ * inside the special hours. Bookings of the whole venue are affected by an
+ * exception for any of its courts.
+ */
+export const findExceptionConflicts = async (
+  venue: IVenue,
+  exception: Pick<IVenueDateException, 'date' | 'resource' | 'isClosed' | 'openTime' | 'closeTime'>
+): Promise<ExceptionConflict[]> => {
+  const bookings = await Booking.find({
+    venue: venue._id as mongoose.Types.ObjectId,
+    date: { $eq: exception.date },
+    status: { $in: ['pending', 'confirmed'] },
+    ...(exception.resource && {
+      $or: [{ resource: exception.resource }, { resource: { $exists: false } }, { resource: null }]
+    })
+  }).populate<{ user: IUser }>('user', 'name email');
+
+  const openRange = exception.isClosed
+    ? null
+    : toTimeRange({ start: exception.openTime!, end: exception.closeTime! });
+
+  return bookings
+    .filter(booking => {
+      const bookedRange = toTimeRange(booking.timeSlot);
+      return !openRange || !bookedRange || !rangeContains(openRange, bookedRange);
+    })
+    .map(booking => {
+      const resource = booking.resource && venue.resources.find(
+        entry => entry._id.toString() === booking.resource!.toString()
+      );
+      return {
+        bookingId: String(booking._id),
+        status: booking.status,
+        timeSlot: booking.timeSlot && { start: booking.timeSlot.start, end: booking.timeSlot.end },
+        ...(resource && { resourceId: resource._id.toString(), resourceName: resource.name }),
+        customer: {
+          _id: String(booking.user?._id),
+          name: booking.user?.name || 'Unknown customer',
+          email: booking.user?.email || ''
+        }
+      };
+    });
+};
+
+/**
+ * Email the venue's owner the bookings affected by a new date exception
+ */
+export const notifyExceptionConflicts = async (
+  venue: IVenue,
+  exception: Partial<IVenueDateException>,
+  conflicts: ExceptionConflict[]
+): Promise<void> => {
+  if (conflicts.length === 0) {
+    return;
+  }
+
+  const owner = await User.findById(venue.creator);
+  if (!owner) {
+    logger.warn('Venue owner not found for schedule conflict notice', { venueId: venue._id });
+    return;
+  }
+
+  emailService.sendVenueExceptionConflictEmail(
+    owner.email,
+    owner.name,
+    {
+      venueName: venue.name,
+      date: exception.date!,
+      isClosed: exception.isClosed !== false,
+      openTime: exception.openTime,
+      closeTime: exception.closeTime,
+      reason: exception.reason,
+      conflicts: conflicts.map(conflict => ({
+        bookingId: conflict.bookingId,
+        customerName: conflict.customer.name,
+        customerEmail: conflict.customer.email,
+        resourceName: conflict.resourceName,
+        timeSlot: conflict.timeSlot
+      }))
+    }
+  ).catch(error => {
+    logger.error('Failed to send schedule conflict email', {
+      error: error instanceof Error ? error.message : String(error),
+      venueId: venue._id
+    });
+  });
+};
+
+export default {
+  parseDateException,
+  findExceptionConflicts,
+  notifyExceptionConflicts
+};
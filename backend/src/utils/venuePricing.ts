@@ -0,0 +1,212 @@
+import { IBookingPriceLine } from '../models/Booking';
+import {
+  IVenue,
+  IVenuePricingRule,
+  IVenueResource,
+  PRICING_ADJUSTMENTS,
+  PricingAdjustment
+} from '../models/Venue';
+import { findVenueResource, getResourcePricePerHour, parseDateKey } from './venueAvailability';
+import { TimeRange, formatTime, parseTime } from './timeRange';
+import { roundToCents } from './money';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MINUTES_PER_DAY = 24 * 60;
+
+// Rates are set first, then scaled, then surcharged
+const ADJUSTMENT_ORDER: Record<PricingAdjustment, number> = { set_rate: 0, multiplier: 1, surcharge: 2 };
+
+// One stretch of a booking charged at a single hourly rate
+export type VenuePriceLine = IBookingPriceLine;
+
+export interface PricingRuleInput {
+  name?: string;
+  resourceId?: string;
+  days?: string[];
+  startTime?: string;
+  endTime?: string;
+  startDate?: string;
+  endDate?: string;
+  adjustment?: string;
+  value?: number | string;
+  isActive?: boolean;
+}
+
+type PricingRuleParseResult =
+  | { valid: true; rule: Partial<IVenuePricingRule> }
+  | { valid: false; reason: string };
+
+export interface VenuePriceQuote {
+  baseRate: number;
+  total: number;
+  breakdown: VenuePriceLine[];
+}
+
+/**
+ * Validate a pricing rule for a venue (or one of its courts). Times are
+ * "HH:mm" within a day and dates are "yyyy-MM-dd"; either bound may be left
+ * open.
+ */
+export const parsePricingRule = (venue: IVenue, input: PricingRuleInput): PricingRuleParseResult => {
+  const name = input.name?.trim();
+  if (!name) {
+    return { valid: false, reason: 'Please give the pricing rule a name' };
+  }
+
+  if (!PRICING_ADJUSTMENTS.includes(input.adjustment as PricingAdjustment)) {
+    return { valid: false, reason: `Adjustment must be one of: ${PRICING_ADJUSTMENTS.join(', ')}` };
+  }
+
+  const value = Number(input.value);
+  if (input.value === undefined || input.value === '' || isNaN(value) || value < 0) {
+    return { valid: false, reason: 'Pricing rule value must be a number of at least 0' };
+  }
+
+  const days = input.days || [];
+  if (!Array.isArray(days) || days.some(day => !WEEKDAYS.includes(day))) {
+    return { valid: false, reason: 'Days must be full weekday names, e.g. "Saturday"' };
+  }
+
+  const rule: Partial<IVenuePricingRule> = {
+    name,
+    days,
+    adjustment: input.adjustment as PricingAdjustment,
+    value,
+    isActive: input.isActive !== false
+  };
+
+  if (input.resourceId) {
+    const resource = findVenueResource(venue, input.resourceId);
+    if (!resource) {
+      return { valid: false, reason: 'Court not found at this venue' };
+    }
+    rule.resource = resource._id;
+  }
+
+  for (const key of ['startTime', 'endTime'] as const) {
+    if (input[key]) {
+      if (parseTime(input[key]!) === null) {
+        return { valid: false, reason: `${key === 'startTime' ? 'Start' : 'End'} time must be in HH:mm format` };
+      }
+      rule[key] = input[key];
+    }
+  }
+  if (rule.startTime && rule.endTime && parseTime(rule.startTime)! >= parseTime(rule.endTime)!) {
+    return { valid: false, reason: 'Start time must be before end time' };
+  }
+
+  for (const key of ['startDate', 'endDate'] as const) {
+    if (input[key]) {
+      const date = parseDateKey(input[key]!);
+      if (!date) {
+        return { valid: false, reason: `${key === 'startDate' ? 'Start' : 'End'} date must be in yyyy-MM-dd format` };
+      }
+      rule[key] = date;
+    }
+  }
+  if (rule.startDate && rule.endDate && rule.startDate > rule.endDate) {
+    return { valid: false, reason: 'Start date must not be after end date' };
+  }
+
+  return { valid: true, rule };
+};
+
+/**
+ * Whether a pricing rule applies to the hour of a booking starting at the
+ * given minute. Time windows cover [startTime, endTime) within one day.
+ */
+const ruleApplies = (
+  rule: IVenuePricingRule,
+  date: Date,
+  minute: number,
+  resource?: IVenueResource
+): boolean => {
+  if (rule.isActive === false) {
+    return false;
+  }
+  if (rule.resource && rule.resource.toString() !== resource?._id.toString()) {
+    return false;
+  }
+  if (rule.days?.length && !rule.days.includes(WEEKDAYS[date.getUTCDay()])) {
+    return false;
+  }
+  if ((rule.startDate && date < rule.startDate) || (rule.endDate && date > rule.endDate)) {
+    return false;
+  }
+
+  const windowStart = rule.startTime ? parseTime(rule.startTime) ?? 0 : 0;
+  const windowEnd = rule.endTime ? parseTime(rule.endTime) ?? MINUTES_PER_DAY : MINUTES_PER_DAY;
+  return minute >= windowStart && minute < windowEnd;
+};
+
+// Apply the matching rules to a base hourly rate
+const applyRules = (baseRate: number, rules: IVenuePricingRule[]): number => {
+  const ordered = [...rules].sort((a, b) => ADJUSTMENT_ORDER[a.adjustment] - ADJUSTMENT_ORDER[b.adjustment]);
+  return roundToCents(ordered.reduce((rate, rule) => {
+    switch (rule.adjustment) {
+      case 'set_rate':
+        return rule.value;
+      case 'multiplier':
+        return rate * rule.value;
+      case 'surcharge':
+        return rate + rule.value;
+      default:
+        return rate;
+    }
+  }, baseRate));
+};
+
+/**
+ * Price a venue booking hour by hour under the venue's pricing rules. The
+ * range is cut at every full hour, each hour is charged at the base rate
+ * (the court's own rate when it has one) adjusted by the rules that match
+ * its weekday, date and start time, and consecutive hours with the same
+ * rate and rules are combined into one breakdown line.
+ */
+export const calculateVenuePrice = (
+  venue: IVenue,
+  date: Date,
+  range: TimeRange,
+  resource?: IVenueResource
+): VenuePriceQuote => {
+  const baseRate = getResourcePricePerHour(venue, resource);
+  const rules = venue.pricingRules || [];
+  const breakdown: VenuePriceLine[] = [];
+
+  for (let start = range.start; start < range.end;) {
+    const end = Math.min(range.end, (Math.floor(start / 60) + 1) * 60);
+    const matching = rules.filter(rule => ruleApplies(rule, date, start, resource));
+    const rate = applyRules(baseRate, matching);
+    const ruleNames = matching.map(rule => rule.name);
+
+    const previous = breakdown[breakdown.length - 1];
+    if (previous && previous.rate === rate && previous.rules.join('|') === ruleNames.join('|')) {
+      previous.end = formatTime(end);
+      previous.minutes += end - start;
+      previous.amount = roundToCents(rate * previous.minutes / 60);
+    } else {
+      breakdown.push({
+        start: formatTime(start),
+        end: formatTime(end),
+        minutes: end - start,
+        baseRate,
+        rate,
+        rules: ruleNames,
+        amount: roundToCents(rate * (end - start) / 60)
+      });
+    }
+
+    start = end;
+  }
+
+  return {
+    baseRate,
+    total: roundToCents(breakdown.reduce((sum, line) => sum + line.amount, 0)),
+    breakdown
+  };
+};
+
+export default {
+  parsePricingRule,
+  calculateVenuePrice
+};
@@ -0,0 +1,229 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import User from '../models/User';
+import WaitlistEntry, { IWaitlistEntry } from '../models/WaitlistEntry';
+import emailService from './emailService';
+import logger from './logger';
+import { prepareVenueBooking, prepareEquipmentBooking, PreparedBooking } from './bookingPreparation';
+import { refreshStockStatusForBooking } from './equipmentAvailability';
+import { holdVenueSlot, releaseSlotHolds } from './slotHolds';
+import { rangesOverlap, toTimeRange } from './timeRange';
+
+// How long a waitlisted customer has to pay for a freed slot before it moves on (in hours)
+export const WAITLIST_OFFER_HOURS = 2;
+
+// The parts of a booking that say which slot or rental period it frees
+export type FreedBooking = Pick<
+  IBooking,
+  '_id' | 'itemType' | 'venue' | 'resource' | 'equipment' | 'date' | 'returnDate' | 'timeSlot'
+>;
+
+// Check the request of a waitlist entry against current availability
+export const prepareWaitlistBooking = (entry: IWaitlistEntry): Promise<PreparedBooking> =>
+  entry.itemType === 'venue'
+    ? prepareVenueBooking({
+      venueId: String(entry.venue),
+      date: entry.date,
+      timeSlot: entry.timeSlot,
+      resourceId: entry.resourceId
+    })
+    : prepareEquipmentBooking({
+      equipmentItems: (entry.equipmentItems || []).map(line => ({
+        equipmentId: String(line.equipment),
+        quantity: line.quantity
+      })),
+      date: entry.date,
+      returnDate: entry.returnDate
+    });
+
+// Whether a freed booking could make room for a waitlist entry
+const couldFit = (entry: IWaitlistEntry, freed: FreedBooking): boolean => {
+  if (entry.itemType === 'venue') {
+    const freedRange = toTimeRange(freed.timeSlot);
+    const wantedRange = toTimeRange(entry.timeSlot);
+    const sameResource = !freed.resource || !entry.resourceId || entry.resourceId === 'any'
+      || entry.resourceId === String(freed.resource);
+    return freedRange !== null && wantedRange !== null && sameResource && rangesOverlap(freedRange, wantedRange);
+  }
+
+  // Rental periods are whole days from pickup to return
+  const freedEnd = freed.returnDate || freed.date;
+  const wantedEnd = entry.returnDate || entry.date;
+  return entry.date <= freedEnd && wantedEnd >= freed.date;
+};
+
+/**
+ * Reserve the slot for a waitlisted customer as a pending booking held for
+ * WAITLIST_OFFER_HOURS and email them the offer. Returns false when the
+ * request still cannot be met.
+ */
+const offerToEntry = async (entry: IWaitlistEntry): Promise<boolean> => {
+  const prepared = await prepareWaitlistBooking(entry);
+  if (!prepared.valid) {
+    return false;
+  }
+
+  const bookingId = new mongoose.Types.ObjectId();
+  const expiresAt = new Date(Date.now() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000);
+  if (entry.itemType === 'venue') {
+    const hold = await holdVenueSlot(bookingId, entry.user, prepared.bookingData, expiresAt);
+    if (!hold.success) {
+      return false;
+    }
+  }
+
+  const booking = await Booking.create({
+    ...prepared.bookingData,
+    _id: bookingId,
+    user: entry.user,
+    status: 'pending',
+    paymentStatus: 'pending',
+    notes: entry.notes,
+    holdExpiresAt: expiresAt,
+    metadata: { waitlistEntry: entry._id }
+  }).catch(async (error) => {
+    await releaseSlotHolds(bookingId);
+    throw error;
+  });
+  await refreshStockStatusForBooking(booking);
+
+  entry.status = 'offered';
+  entry.offer = { booking: bookingId, offeredAt: new Date(), expiresAt };
+  await entry.save();
+
+  logger.info('Waitlist offer made', { entryId: entry._id, bookingId, userId: entry.user });
+
+  const user = await User.findById(entry.user);
+  if (user) {
+    emailService.sendWaitlistOfferEmail(
+      user.email,
+      user.name,
+      {
+        bookingId: String(bookingId),
+        itemType: booking.itemType,
+        itemName: prepared.itemName,
+        date: booking.date,
+        timeSlot: booking.timeSlot,
+        totalPrice: booking.totalPrice,
+        expiresAt
+      }
+    ).catch(error => {
+      logger.error('Failed to send waitlist offer email', {
+        error: error instanceof Error ? error.message : String(error),
+        entryId: entry._id
+      });
+    });
+  }
+
+  return true;
+};
+
+/**
+ * Offer a slot or rental period freed by a canceled, expired or moved booking to
+ * the waitlist, in the order people joined. Everyone whose request now fits
+ * gets an offer; each offer reserves its slot, so later entries only get
+ * what is still free.
+ */
+export const offerFreedBooking = async (freed: FreedBooking): Promise<void> => {
+  if (freed.itemType !== 'venue' && freed.itemType !== 'equipment') {
+    return;
+  }
+
+  try {
+    const entries = await WaitlistEntry.find({
+      status: 'waiting',
+      itemType: freed.itemType,
+      ...(freed.itemType === 'venue'
+        ? { venue: freed.venue, date: freed.date }
+        : { 'equipmentItems.equipment': { $in: freed.equipment || [] } })
+    }).sort({ createdAt: 1 });
+
+    for (const entry of entries) {
+      if (couldFit(entry, freed)) {
+        await offerToEntry(entry);
+      }
+    }
+  } catch (error) {
+    logger.error('Error offering freed booking to waitlist', {
+      error: error instanceof Error ? error.message : String(error),
+      bookingId: freed._id
+    });
+  }
+};
+
+/**
+ * Mark the waitlist offers of expired bookings as expired, so the freed slot
+ * moves on to the next person in line
+ */
+export const expireWaitlistOffers = async (bookingIds: mongoose.Types.ObjectId[]): Promise<void> => {
+  if (bookingIds.length === 0) {
+    return;
+  }
+
+  const result = await WaitlistEntry.updateMany(
+    { status: 'offered', 'offer.booking': { $in: bookingIds } },
+    { status: 'expired' }
+  );
+  if (result.modifiedCount > 0) {
+    logger.info(`Expired ${result.modifiedCount} waitlist offers`);
+  }
+};
+
+/**
+ * Keep waitlist entries in step with their bookings: offers that were paid
+ * for are accepted, and requests for dates that have passed expire
+ */
+export const refreshWaitlist = async (): Promise<void> => {
+  const offered = await WaitlistEntry.find({ status: 'offered' });
+  if (offered.length > 0) {
+    const paidBookings = await Booking.find({
+      _id: { $in: offered.map(entry => entry.offer?.booking) },
+      status: { $in: ['confirmed', 'completed'] }
+    }).select('_id');
+    const paidIds = new Set(paidBookings.map(booking => String(booking._id)));
+
+    await WaitlistEntry.updateMany(
+      { _id: { $in: offered.filter(entry => paidIds.has(String(entry.offer?.booking))).map(entry => entry._id) } },
+      { status: 'accepted' }
+    );
+  }
+
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  await WaitlistEntry.updateMany({ status: 'waiting', date: { $lt: today } }, { status: 'expired' });
+};
+
+/**
+ * Take a customer off the waitlist. A pending offer is given up and passed
+ * on to the next person in line.
+ */
+export const leaveWaitlist = async (entry: IWaitlistEntry): Promise<void> => {
+  const offeredBooking = entry.status === 'offered' && entry.offer
+    ? await Booking.findOne({ _id: entry.offer.booking, status: 'pending', paymentStatus: 'pending' })
+    : null;
+
+  entry.status = 'canceled';
+  await entry.save();
+
+  if (offeredBooking) {
+    offeredBooking.status = 'canceled';
+    offeredBooking.metadata = {
+      ...offeredBooking.metadata,
+      cancellationReason: 'Waitlist offer declined',
+      canceledAt: new Date()
+    };
+    await offeredBooking.save();
+    await releaseSlotHolds(offeredBooking._id as mongoose.Types.ObjectId);
+    await refreshStockStatusForBooking(offeredBooking);
+    await offerFreedBooking(offeredBooking);
+  }
+};
+
+export default {
+  WAITLIST_OFFER_HOURS,
+  prepareWaitlistBooking,
+  offerFreedBooking,
+  expireWaitlistOffers,
+  refreshWaitlist,
+  leaveWaitlist
+};
@@ -0,0 +1,640 @@
+import mongoose from 'mongoose';
+import LedgerEntry, { ILedgerEntry, ILedgerLine, LedgerEntryKind } from '../models/LedgerEntry';
+import Wallet, { IWallet } from '../models/Wallet';
+import logger from './logger';
+import { roundToCents } from './money';
+import { BASE_CURRENCY } from '../config/currencies';
+import { convertAmount } from './exchangeRates';
+
+// Accounts on the other side of wallet entries
+export const PLATFORM_ACCOUNTS = {
+  // Money paid from wallets for bookings, purchases and fees
+  revenue: 'platform:revenue',
+  // Money given back to wallets for canceled or refunded payments
+  refunds: 'platform:refunds',
+  // Security deposits kept for damage, late returns or no-shows
+  deposits: 'platform:deposits',
+  // Balances moved between currencies when a wallet changes currency
+  exchange: 'platform:exchange',
+  // Balances wallets already had when the ledger was introduced
+  openingBalances: 'platform:opening_balances',
+  // Card payments that fund wallets
+  stripe: 'external:stripe'
+} as const;
+
+// How far a stored balance may differ from the ledger before it is flagged
+const DRIFT_TOLERANCE = 0.01;
+
+// How often wallet balances are checked against the ledger (in hours)
+const INTEGRITY_CHECK_INTERVAL_HOURS = 24;
+
+// Spendable balance of a user's wallet
+export const walletAccount = (userId: unknown): string => `wallet:${String(userId)}`;
+
+// Security deposits and withdrawals held from a user's wallet
+export const heldAccount = (userId: unknown): string => `wallet_held:${String(userId)}`;
+
+// A line that adds `amount` to a wallet-side account (taking it away when negative)
+const creditLine = (account: string, currency: string, amount: number): ILedgerLine => ({
+  account,
+  currency,
+  debit: amount < 0 ? roundToCents(-amount) : 0,
+  credit: amount > 0 ? roundToCents(amount) : 0
+});
+
+/**
+ * Thrown when a wallet cannot take an entry: its balance or held balance does
+ * not cover it, or it changed currency after it was read. Says which wallet
+ * and why.
+ */
+export class WalletEntryRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly walletId: string,
+    public readonly reason: 'balance' | 'currency'
+  ) {
+    super(message);
+    this.name = 'WalletEntryRejectedError';
+  }
+}
+
+interface WalletEntryOptions {
+  filter?: Record<string, unknown>;
+  set?: Record<string, unknown>;
+  session?: mongoose.ClientSession;
+}
+
+interface WalletEntryParams {
+  kind: LedgerEntryKind;
+  description: string;
+  reference?: string;
+  metadata?: Record<string, any>;
+}
+
+// A wallet an entry is applied to, with extra conditions it must meet and fields to set with the balance change
+interface WalletChange extends Omit<WalletEntryOptions, 'session'> {
+  wallet: IWallet;
+}
+
+/**
+ * Keep the base currency balance remembered for currency switches in step
+ * with a balance change. Saved with the next entry posted for the wallet.
+ */
+export const trackOriginalUsdBalance = (wallet: IWallet, walletAmountChange: number) => {
+  if (!wallet.metadata?.originalUsdBalance) {
+    return;
+  }
+  const usdChange = convertAmount(walletAmountChange, wallet.currency, BASE_CURRENCY);
+  wallet.metadata.originalUsdBalance = Math.max(0, wallet.metadata.originalUsdBalance + usdChange);
+  wallet.markModified('metadata');
+};
+
+// Apply the lines on a wallet's own accounts to its stored balances, as one guarded `$inc`
+const applyWalletLines = async (
+  { wallet, filter = {}, set = {} }: WalletChange,
+  kind: LedgerEntryKind,
+  lines: ILedgerLine[],
+  session: mongoose.ClientSession
+) => {
+  const spendable = walletAccount(wallet.user);
+  const held = heldAccount(wallet.user);
+  let balanceChange = 0;
+  let heldChange = 0;
+  for (const line of lines) {
+    const change = line.credit - line.debit;
+    if (line.account === spendable) {
+      balanceChange += change;
+    } else if (line.account === held) {
+      heldChange += change;
+    }
+  }
+  balanceChange = roundToCents(balanceChange);
+  heldChange = roundToCents(heldChange);
+
+  const conditions: Record<string, unknown> = { _id: wallet._id, currency: wallet.currency };
+  if (balanceChange < 0) {
+    conditions.balance = { $gte: -balanceChange };
+  }
+  if (heldChange < 0) {
+    conditions.heldBalance = { $gte: -heldChange };
+  }
+  Object.assign(conditions, filter);
+
+  // Anything else the caller changed on the document, such as its metadata
+  const changedFields: Record<string, unknown> = {};
+  for (const field of wallet.directModifiedPaths()) {
+    if (!['balance', 'heldBalance', 'currency'].includes(field)) {
+      changedFields[field] = wallet.get(field);
+    }
+  }
+
+  const fields = { ...changedFields, ...set };
+  const updated = await Wallet.findOneAndUpdate(
+    conditions,
+    {
+      $inc: { balance: balanceChange, heldBalance: heldChange },
+      ...(Object.keys(fields).length > 0 && { $set: fields })
+    },
+    { new: true, session }
+  );
+  if (!updated) {
+    const stored = await Wallet.findById(wallet._id).select('currency').session(session);
+    if (stored && stored.currency !== wallet.currency) {
+      throw new WalletEntryRejectedError(
+        `Wallet ${String(wallet._id)} has changed currency`,
+        String(wallet._id),
+        'currency'
+      );
+    }
+    throw new WalletEntryRejectedError(
+      `Wallet ${String(wallet._id)} cannot cover this ${kind} entry`,
+      String(wallet._id),
+      'balance'
+    );
+  }
+  return { updated, fields };
+};
+
+// Post one journal entry and apply it to every wallet it touches, in the caller's transaction or a new one
+const postEntry = async (
+  changes: WalletChange[],
+  { kind, description, reference, metadata, lines, user }: WalletEntryParams & { lines: ILedgerLine[]; user: unknown },
+  outerSession?: mongoose.ClientSession
+): Promise<ILedgerEntry> => {
+  let entry = null as ILedgerEntry | null;
+  let applied: Awaited<ReturnType<typeof applyWalletLines>>[] = [];
+  const write = async (session: mongoose.ClientSession) => {
+    applied = [];
+    for (const change of changes) {
+      applied.push(await applyWalletLines(change, kind, lines, session));
+    }
+
+    [entry] = await LedgerEntry.create([{
+      kind,
+      description,
+      reference,
+      user,
+      lines,
+      metadata
+    }], { session });
+  };
+
+  if (outerSession) {
+    await write(outerSession);
+  } else {
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(() => write(session));
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  if (!entry || applied.length !== changes.length) {
+    throw new Error(`Failed to post ${kind} entry`);
+  }
+
+  // Reflect the stored wallets without marking the documents as changed
+  for (const [index, { wallet }] of changes.entries()) {
+    const { updated, fields } = applied[index];
+    wallet.set({ balance: updated.balance, heldBalance: updated.heldBalance, currency: updated.currency });
+    for (const field of ['balance', 'heldBalance', 'currency', ...Object.keys(fields)]) {
+      wallet.unmarkModified(field);
+    }
+  }
+
+  return entry;
+};
+
+/**
+ * Post a journal entry touching a wallet and apply its lines on the wallet's
+ * own accounts to the stored balance and held balance. Lines in every
+ * currency are applied, so a conversion entry that empties the old currency
+ * and fills the new one leaves the converted balance. The entry and the
+ * balance change are written in one MongoDB transaction, as an atomic `$inc`
+ * that only goes through while the wallet still has the currency the lines
+ * were written in and neither balance would drop below zero; otherwise
+ * nothing is written and a WalletEntryRejectedError is thrown. Given a
+ * session, the writes join the caller's transaction instead, so other
+ * records can be written with them. Other changes made to the wallet
+ * document are saved with it, and the document is left holding the stored
+ * balances.
+ */
+export const postWalletEntry = async (
+  wallet: IWallet,
+  params: WalletEntryParams & { lines: ILedgerLine[] },
+  // Extra conditions the wallet must meet, fields to set with the balance change, and the transaction to join
+  { filter, set, session }: WalletEntryOptions = {}
+): Promise<ILedgerEntry> =>
+  postEntry([{ wallet, filter, set }], { ...params, user: wallet.user }, session);
+
+/**
+ * Post one journal entry touching several wallets, such as a transfer
+ * between two users, applying each wallet's lines to it the same way
+ * `postWalletEntry` does. Every wallet must take its change or nothing is
+ * written. The entry is recorded under the given user.
+ */
+export const postMultiWalletEntry = async (
+  wallets: IWallet[],
+  params: WalletEntryParams & { lines: ILedgerLine[]; user: unknown },
+  { session }: Pick<WalletEntryOptions, 'session'> = {}
+): Promise<ILedgerEntry> =>
+  postEntry(wallets.map(wallet => ({ wallet })), params, session);
+
+/**
+ * Move an amount in the wallet's currency from one account to another, one of
+ * them being the wallet's spendable or held account, optionally as part of
+ * the caller's transaction
+ */
+export const postWalletTransfer = async (
+  wallet: IWallet,
+  { from, to, amount, ...params }: WalletEntryParams & { from: string; to: string; amount: number },
+  { session }: Pick<WalletEntryOptions, 'session'> = {}
+): Promise<ILedgerEntry> => {
+  const value = roundToCents(amount);
+  return postWalletEntry(wallet, {
+    ...params,
+    lines: [
+      { account: from, currency: wallet.currency, debit: value, credit: 0 },
+      { account: to, currency: wallet.currency, debit: 0, credit: value }
+    ]
+  }, { session });
+};
+
+/**
+ * Move a wallet's balances into another currency: the old balances are
+ * emptied into the exchange account and the converted ones paid out of it.
+ * Sets the wallet's new currency.
+ */
+export const postWalletConversion = async (
+  wallet: IWallet,
+  { currency, balance, heldBalance, ...params }: Omit<WalletEntryParams, 'kind'> & {
+    currency: string;
+    balance: number;
+    heldBalance: number;
+  }
+): Promise<ILedgerEntry> => {
+  const spendable = walletAccount(wallet.user);
+  const held = heldAccount(wallet.user);
+  const previousCurrency = wallet.currency;
+  const lines = [
+    creditLine(spendable, previousCurrency, -wallet.balance),
+    creditLine(PLATFORM_ACCOUNTS.exchange, previousCurrency, wallet.balance),
+    creditLine(spendable, currency, balance),
+    creditLine(PLATFORM_ACCOUNTS.exchange, currency, -balance)
+  ];
+  if (wallet.heldBalance || heldBalance) {
+    lines.push(
+      creditLine(held, previousCurrency, -(wallet.heldBalance || 0)),
+      creditLine(PLATFORM_ACCOUNTS.exchange, previousCurrency, wallet.heldBalance || 0),
+      creditLine(held, currency, heldBalance),
+      creditLine(PLATFORM_ACCOUNTS.exchange, currency, -heldBalance)
+    );
+  }
+
+  // The lines empty the balances read from the wallet, so they must not have changed since
+  return postWalletEntry(wallet, { ...params, kind: 'conversion', lines }, {
+    filter: {
+      balance: wallet.balance,
+      heldBalance: wallet.heldBalance ? wallet.heldBalance : { $in: [null, 0] }
+    },
+    set: { currency }
+  });
+};
+
+// Net balance (credits less debits) of each account in each currency
+const getAccountBalances = async (match: Record<string, unknown>) => {
+  const totals = await LedgerEntry.aggregate<{ _id: { account: string; currency: string }; total: number }>([
+    { $match: match },
+    { $unwind: '$lines' },
+    { $match: match },
+    {
+      $group: {
+        _id: { account: '$lines.account', currency: '$lines.currency' },
+        total: { $sum: { $subtract: ['$lines.credit', '$lines.debit'] } }
+      }
+    }
+  ]);
+
+  const balances = new Map<string, number>();
+  for (const { _id, total } of totals) {
+    balances.set(`${_id.account}|${_id.currency}`, roundToCents(total));
+  }
+  return balances;
+};
+
+export interface WalletDrift {
+  wallet: string;
+  user: string;
+  currency: string;
+  balance: number;
+  ledgerBalance: number;
+  heldBalance: number;
+  ledgerHeldBalance: number;
+}
+
+/**
+ * Integrity check: find every wallet whose stored balance or held balance
+ * differs from what its ledger entries add up to
+ */
+export const findWalletDrift = async (): Promise<WalletDrift[]> => {
+  const balances = await getAccountBalances({ 'lines.account': /^wallet(_held)?:/ });
+  const drifts: WalletDrift[] = [];
+
+  const wallets = Wallet.find().select('user balance heldBalance currency').cursor();
+  for await (const wallet of wallets) {
+    const ledgerBalance = balances.get(`${walletAccount(wallet.user)}|${wallet.currency}`) || 0;
+    const ledgerHeldBalance = balances.get(`${heldAccount(wallet.user)}|${wallet.currency}`) || 0;
+    const heldBalance = wallet.heldBalance || 0;
+
+    if (
+      Math.abs(wallet.balance - ledgerBalance) > DRIFT_TOLERANCE ||
+      Math.abs(heldBalance - ledgerHeldBalance) > DRIFT_TOLERANCE
+    ) {
+      drifts.push({
+        wallet: String(wallet._id),
+        user: String(wallet.user),
+        currency: wallet.currency,
+        balance: wallet.balance,
+        ledgerBalance,
+        heldBalance,
+        ledgerHeldBalance
+      });
+    }
+  }
+
+  return drifts;
+};
+
+// A transaction from the array wallets embedded before the ledger
+interface LegacyWalletTransaction {
+  amount: number;
+  type: 'credit' | 'debit' | 'conversion';
+  description: string;
+  reference?: string;
+  createdAt?: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Turn the transactions a wallet embedded before the ledger into ledger
+ * entries dated when they happened. The array does not say which currency
+ * each one was in, so it is worked out backwards from the wallet's currency
+ * and the currency each conversion started from. The array is removed from
+ * the wallet once its entries are written.
+ */
+const importLegacyTransactions = async (
+  wallet: { _id: mongoose.Types.ObjectId; user: mongoose.Types.ObjectId; currency: string },
+  transactions: LegacyWalletTransaction[]
+): Promise<number> => {
+  const spendable = walletAccount(wallet.user);
+  const ordered = [...transactions].sort(
+    (a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime()
+  );
+
+  const currencies: string[] = [];
+  let currency = wallet.currency;
+  for (let index = ordered.length - 1; index >= 0; index--) {
+    currencies[index] = currency;
+    if (ordered[index].type === 'conversion' && ordered[index].metadata?.originalCurrency) {
+      currency = ordered[index].metadata!.originalCurrency;
+    }
+  }
+
+  const entries: Record<string, unknown>[] = [];
+  for (const [index, transaction] of ordered.entries()) {
+    const amount = roundToCents(Number(transaction.amount) || 0);
+    const base = {
+      description: transaction.description || 'Wallet transaction',
+      reference: transaction.reference,
+      user: wallet.user,
+      metadata: { ...transaction.metadata, importedFromWallet: true },
+      ...(transaction.createdAt && { createdAt: transaction.createdAt })
+    };
+
+    if (transaction.type === 'conversion') {
+      const originalCurrency = transaction.metadata?.originalCurrency || currencies[index];
+      const originalAmount = roundToCents(Number(transaction.metadata?.originalAmount) || 0);
+      entries.push({
+        ...base,
+        kind: 'conversion',
+        lines: [
+          creditLine(spendable, originalCurrency, -originalAmount),
+          creditLine(PLATFORM_ACCOUNTS.exchange, originalCurrency, originalAmount),
+          creditLine(spendable, currencies[index], amount),
+          creditLine(PLATFORM_ACCOUNTS.exchange, currencies[index], -amount)
+        ]
+      });
+    } else if (amount > 0) {
+      // Only wallet funding was recorded with this description; other credits were refunds
+      const counterAccount = transaction.type === 'debit'
+        ? PLATFORM_ACCOUNTS.revenue
+        : transaction.description === 'Added funds to wallet' ? PLATFORM_ACCOUNTS.stripe : PLATFORM_ACCOUNTS.refunds;
+      const change = transaction.type === 'debit' ? -amount : amount;
+      entries.push({
+        ...base,
+        kind: transaction.type === 'debit'
+          ? 'payment'
+          : counterAccount === PLATFORM_ACCOUNTS.stripe ? 'funding' : 'refund',
+        lines: [
+          creditLine(spendable, currencies[index], change),
+          creditLine(counterAccount, currencies[index], -change)
+        ]
+      });
+    }
+  }
+
+  // The array is removed in the same transaction, so history is never imported twice
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      if (entries.length > 0) {
+        await LedgerEntry.insertMany(entries, { session });
+      }
+      await Wallet.collection.updateOne({ _id: wallet._id }, { $unset: { transactions: '' } }, { session });
+    });
+  } finally {
+    await session.endSession();
+  }
+  return entries.length;
+};
+
+/**
+ * Bring wallets created before the ledger onto it. The transaction history
+ * they embedded is moved into ledger entries and then removed from the
+ * wallet. Those wallets, and wallets with no ledger entries at all, get an
+ * opening balance entry for whatever their ledger does not add up to, so
+ * stored balances reconcile with it. Safe to run more than once. Returns the number of wallets
+ * brought onto the ledger.
+ */
+export const openWalletLedgers = async (): Promise<number> => {
+  let opened = 0;
+
+  // The embedded array is no longer in the schema, so it is read from the collection itself
+  const legacyWallets = Wallet.collection.find(
+    { 'transactions.0': { $exists: true } },
+    { projection: { user: 1, currency: 1, transactions: 1 } }
+  );
+  const migrated = new Set<string>();
+  for await (const wallet of legacyWallets) {
+    const imported = await importLegacyTransactions(
+      { _id: wallet._id, user: wallet.user, currency: wallet.currency },
+      wallet.transactions as LegacyWalletTransaction[]
+    );
+    migrated.add(String(wallet.user));
+    logger.info('Wallet transaction history moved to the ledger', { walletId: wallet._id, entries: imported });
+  }
+
+  const balances = await getAccountBalances({ 'lines.account': /^wallet(_held)?:/ });
+  const wallets = Wallet.find().select('user balance heldBalance currency').cursor();
+  for await (const wallet of wallets) {
+    const spendable = walletAccount(wallet.user);
+    const held = heldAccount(wallet.user);
+    // Wallets already on the ledger are left to the integrity check
+    if (!migrated.has(String(wallet.user)) && await LedgerEntry.exists({ 'lines.account': { $in: [spendable, held] } })) {
+      continue;
+    }
+    const balanceGap = roundToCents(wallet.balance - (balances.get(`${spendable}|${wallet.currency}`) || 0));
+    const heldGap = roundToCents((wallet.heldBalance || 0) - (balances.get(`${held}|${wallet.currency}`) || 0));
+    if (Math.abs(balanceGap) <= DRIFT_TOLERANCE && Math.abs(heldGap) <= DRIFT_TOLERANCE) {
+      continue;
+    }
+
+    await LedgerEntry.create({
+      kind: 'opening_balance',
+      description: 'Opening balance',
+      user: wallet.user,
+      lines: [
+        creditLine(spendable, wallet.currency, balanceGap),
+        creditLine(held, wallet.currency, heldGap),
+        creditLine(PLATFORM_ACCOUNTS.openingBalances, wallet.currency, -(balanceGap + heldGap))
+      ]
+    });
+    opened++;
+  }
+
+  logger.info('Wallet ledgers opened', { opened });
+  return opened;
+};
+
+export interface WalletStatementLine {
+  _id: string;
+  amount: number;
+  type:
+    | 'credit'
+    | 'debit'
+    | 'conversion'
+    | 'deposit_hold'
+    | 'deposit_release'
+    | 'deposit_deduction'
+    | 'withdrawal_hold'
+    | 'withdrawal_release'
+    | 'withdrawal';
+  description: string;
+  reference?: string;
+  createdAt: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A wallet's transaction history, newest first, read from the ledger
+ */
+export const getWalletStatement = async (userId: unknown, limit = 100): Promise<WalletStatementLine[]> => {
+  const spendable = walletAccount(userId);
+  const held = heldAccount(userId);
+  const entries = await LedgerEntry.find({ 'lines.account': { $in: [spendable, held] } })
+    .sort({ createdAt: -1 })
+    .limit(limit);
+
+  return entries.map(entry => {
+    const net = (account: string) => roundToCents(
+      entry.lines
+        .filter(line => line.account === account)
+        .reduce((sum, line) => sum + line.credit - line.debit, 0)
+    );
+    const spendableChange = net(spendable);
+
+    let type: WalletStatementLine['type'];
+    let amount = Math.abs(spendableChange);
+    let description = entry.description;
+    switch (entry.kind) {
+      case 'conversion':
+        type = 'conversion';
+        // The amount the wallet holds in its new currency
+        amount = entry.lines.find(line => line.account === spendable && line.credit > 0)?.credit || 0;
+        break;
+      case 'deposit_hold':
+      case 'deposit_release':
+      case 'withdrawal_hold':
+      case 'withdrawal_release':
+        type = entry.kind;
+        break;
+      case 'deposit_deduction':
+      case 'withdrawal':
+        // Paid out of the held balance
+        type = entry.kind;
+        amount = Math.abs(net(held));
+        break;
+      case 'transfer':
+        // Both users see the same entry, each from their own side
+        type = spendableChange >= 0 ? 'credit' : 'debit';
+        description = spendableChange >= 0
+          ? `Received from ${entry.metadata?.senderName || 'another user'}`
+          : `Sent to ${entry.metadata?.recipientName || 'another user'}`;
+        if (entry.metadata?.note) {
+          description += `: ${entry.metadata.note}`;
+        }
+        break;
+      default:
+        type = spendableChange >= 0 ? 'credit' : 'debit';
+    }
+
+    return {
+      _id: String(entry._id),
+      amount,
+      type,
+      description,
+      reference: entry.reference,
+      createdAt: entry.createdAt,
+      metadata: entry.metadata
+    };
+  });
+};
+
+/**
+ * Check wallet balances against the ledger every day and log any drift
+ */
+export const scheduleLedgerIntegrityCheck = (): NodeJS.Timeout => {
+  const runCheck = () => findWalletDrift()
+    .then(drifts => {
+      if (drifts.length > 0) {
+        logger.warn('Wallet balances differ from the ledger', { count: drifts.length, drifts });
+      }
+    })
+    .catch(error => {
+      logger.error('Error in ledger integrity check', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+
+  runCheck();
+  const timer = setInterval(runCheck, INTEGRITY_CHECK_INTERVAL_HOURS * 60 * 60 * 1000);
+
+  logger.info('Ledger integrity check scheduler initialized');
+  return timer;
+};
+
+export default {
+  PLATFORM_ACCOUNTS,
+  walletAccount,
+  heldAccount,
+  trackOriginalUsdBalance,
+  postWalletEntry,
+  postMultiWalletEntry,
+  postWalletTransfer,
+  postWalletConversion,
+  findWalletDrift,
+  openWalletLedgers,
+  getWalletStatement,
+  scheduleLedgerIntegrityCheck
+};
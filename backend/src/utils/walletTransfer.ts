@@ -0,0 +1,267 @@
+import mongoose from 'mongoose';
+import { BASE_CURRENCY } from '../config/currencies';
+import LedgerEntry, { ILedgerEntry } from '../models/LedgerEntry';
+import User from '../models/User';
+import Wallet from '../models/Wallet';
+import emailService from './emailService';
+import logger from './logger';
+import { convertAmount, convertCurrency, rateMetadata } from './exchangeRates';
+import {
+  PLATFORM_ACCOUNTS,
+  WalletEntryRejectedError,
+  postMultiWalletEntry,
+  trackOriginalUsdBalance,
+  walletAccount
+} from './walletLedger';
+import { roundToCents } from './money';
+
+// Most a user can send to other users each day (in the base currency)
+export const WALLET_TRANSFER_DAILY_LIMIT = Number(process.env.WALLET_TRANSFER_DAILY_LIMIT) || 500;
+
+const MAX_NOTE_LENGTH = 200;
+
+export interface WalletTransferRequest {
+  senderId: string;
+  // Email address or user id of the person to pay
+  recipient: string;
+  // In the sender's wallet currency
+  amount: number;
+  note?: string;
+}
+
+/**
+ * Outcome of a wallet transfer: the ledger entry recording both sides, or
+ * the HTTP status and reason to reject it with
+ */
+export type WalletTransferResult =
+  | {
+      valid: true;
+      entry: ILedgerEntry;
+      amount: number;
+      currency: string;
+      // What the recipient got, in their wallet currency
+      receivedAmount: number;
+      receivedCurrency: string;
+      recipient: { id: string; name: string; email: string };
+    }
+  | { valid: false; status: number; reason: string; details?: Record<string, unknown> };
+
+/**
+ * How much of the daily transfer limit a user has used (in the base currency).
+ * Days run from UTC midnight, whatever the server's timezone.
+ */
+export const getTransferLimit = async (userId: string, session?: mongoose.ClientSession) => {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const entries = await LedgerEntry.find({
+    kind: 'transfer',
+    user: userId,
+    createdAt: { $gte: today }
+  }).select('metadata').session(session ?? null);
+
+  const used = roundToCents(entries.reduce((sum, entry) => sum + (entry.metadata?.amountUsd || 0), 0));
+  return {
+    currency: BASE_CURRENCY,
+    limit: WALLET_TRANSFER_DAILY_LIMIT,
+    used,
+    remaining: roundToCents(Math.max(0, WALLET_TRANSFER_DAILY_LIMIT - used))
+  };
+};
+
+// Find the user to pay by id or email address
+const findRecipient = async (recipient: string) => {
+  if (mongoose.Types.ObjectId.isValid(recipient)) {
+    return User.findById(recipient).select('name email');
+  }
+  return User.findOne({ email: recipient.trim().toLowerCase() }).select('name email');
+};
+
+/**
+ * Move money from one user's wallet to another's. The debit, credit and
+ * ledger entry are posted as one entry in one MongoDB transaction, and the
+ * debit only goes through if the sender's balance still covers it. The amount is
+ * converted when the wallets are held in different currencies.
+ */
+export const transferBetweenWallets = async ({
+  senderId,
+  recipient,
+  amount,
+  note
+}: WalletTransferRequest): Promise<WalletTransferResult> => {
+  const value = roundToCents(Number(amount));
+  if (!Number.isFinite(value) || value <= 0) {
+    return { valid: false, status: 400, reason: 'A valid amount is required' };
+  }
+  if (!recipient) {
+    return { valid: false, status: 400, reason: 'Please provide the email address or user id to send money to' };
+  }
+  if (note && String(note).length > MAX_NOTE_LENGTH) {
+    return { valid: false, status: 400, reason: `Note must be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+
+  const [sender, recipientUser] = await Promise.all([
+    User.findById(senderId).select('name email'),
+    findRecipient(String(recipient))
+  ]);
+  if (!sender) {
+    return { valid: false, status: 404, reason: 'User not found' };
+  }
+  if (!recipientUser) {
+    return { valid: false, status: 404, reason: 'No user found with that email address or id' };
+  }
+  if (String(recipientUser._id) === String(sender._id)) {
+    return { valid: false, status: 400, reason: 'You cannot send money to yourself' };
+  }
+
+  const senderWallet = await Wallet.findOne({ user: senderId });
+  if (!senderWallet) {
+    return { valid: false, status: 404, reason: 'Wallet not found' };
+  }
+
+  const overLimit = (limit: Awaited<ReturnType<typeof getTransferLimit>>): WalletTransferResult => ({
+    valid: false,
+    status: 400,
+    reason: `This transfer would exceed your daily limit of ${limit.limit} ${BASE_CURRENCY}. You can send ${limit.remaining} ${BASE_CURRENCY} more today.`,
+    details: { limit }
+  });
+  const limit = await getTransferLimit(senderId);
+  if (convertAmount(value, senderWallet.currency, BASE_CURRENCY) > limit.remaining) {
+    return overLimit(limit);
+  }
+
+  let result: WalletTransferResult | undefined;
+  // Thrown to abort the transaction once `result` holds the reason
+  const rejected = new Error('Wallet transfer rejected');
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const from = await Wallet.findOne({ user: senderId }).session(session);
+      if (!from) {
+        result = { valid: false, status: 404, reason: 'Wallet not found' };
+        throw rejected;
+      }
+      // Counted against the limit in the currency the wallet has now
+      const amountUsd = convertAmount(value, from.currency, BASE_CURRENCY);
+
+      // Transfers sent since the check above count too. The debit below makes
+      // two transfers from the same wallet conflict, so the one that is
+      // retried sees the other's ledger entry here.
+      const limitNow = await getTransferLimit(senderId, session);
+      if (amountUsd > limitNow.remaining) {
+        result = overLimit(limitNow);
+        throw rejected;
+      }
+
+      let to = await Wallet.findOne({ user: recipientUser._id }).session(session);
+      if (!to) {
+        [to] = await Wallet.create([{ user: recipientUser._id, balance: 0, currency: from.currency }], { session });
+      }
+
+      const conversion = convertCurrency(value, from.currency, to.currency);
+      const received = conversion.amount;
+      trackOriginalUsdBalance(from, -value);
+      trackOriginalUsdBalance(to, received);
+
+      const lines = [
+        { account: walletAccount(sender._id), currency: from.currency, debit: value, credit: 0 },
+        { account: walletAccount(recipientUser._id), currency: to.currency, debit: 0, credit: received }
+      ];
+      // Conversion between the two currencies goes through the exchange account
+      if (from.currency !== to.currency) {
+        lines.push(
+          { account: PLATFORM_ACCOUNTS.exchange, currency: from.currency, debit: 0, credit: value },
+          { account: PLATFORM_ACCOUNTS.exchange, currency: to.currency, debit: received, credit: 0 }
+        );
+      }
+
+      // Only debit if the balance still covers the amount when the write happens,
+      // and only credit while the recipient still has the currency converted to
+      let entry: ILedgerEntry;
+      try {
+        entry = await postMultiWalletEntry([from, to], {
+          kind: 'transfer',
+          description: `Transfer from ${sender.name} to ${recipientUser.name}`,
+          user: sender._id,
+          lines,
+          metadata: {
+            senderName: sender.name,
+            recipientName: recipientUser.name,
+            recipient: String(recipientUser._id),
+            note: note ? String(note) : undefined,
+            amountUsd,
+            ...rateMetadata(conversion)
+          }
+        }, { session });
+      } catch (error) {
+        if (error instanceof WalletEntryRejectedError) {
+          if (error.reason === 'balance') {
+            result = {
+              valid: false,
+              status: 400,
+              reason: `Insufficient wallet balance. Available: ${from.balance} ${from.currency}, Required: ${value} ${from.currency}`
+            };
+          } else {
+            result = {
+              valid: false,
+              status: 409,
+              reason: error.walletId === String(from._id)
+                ? 'Your wallet changed currency during the transfer. Please check the amount and try again.'
+                : 'The recipient\'s wallet changed currency during the transfer. Please try again.'
+            };
+          }
+          throw rejected;
+        }
+        throw error;
+      }
+
+      result = {
+        valid: true,
+        entry,
+        amount: value,
+        currency: from.currency,
+        receivedAmount: received,
+        receivedCurrency: to.currency,
+        recipient: { id: String(recipientUser._id), name: recipientUser.name, email: recipientUser.email }
+      };
+    });
+  } catch (error) {
+    if (error !== rejected) {
+      throw error;
+    }
+  } finally {
+    await session.endSession();
+  }
+
+  if (!result) {
+    return { valid: false, status: 500, reason: 'Transfer could not be completed' };
+  }
+  if (!result.valid) {
+    return result;
+  }
+
+  logger.info('Wallet transfer completed', {
+    entryId: result.entry._id,
+    senderId,
+    recipientId: result.recipient.id,
+    amount: value
+  });
+
+  emailService.sendWalletTransferReceivedEmail(recipientUser.email, recipientUser.name, {
+    senderName: sender.name,
+    amount: result.receivedAmount,
+    currency: result.receivedCurrency,
+    note: note ? String(note) : undefined
+  }).catch(error => {
+    logger.error('Failed to send wallet transfer email', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+
+  return result;
+};
+
+export default {
+  WALLET_TRANSFER_DAILY_LIMIT,
+  getTransferLimit,
+  transferBetweenWallets
+};
@@ -0,0 +1,532 @@
+import Stripe from 'stripe';
+import mongoose from 'mongoose';
+import getStripeInstance from '../config/stripe';
+import { toMinorUnits } from '../config/currencies';
+import Payment, { IPayment } from '../models/Payment';
+import Wallet, { IWallet } from '../models/Wallet';
+import WalletWithdrawal, { IWalletWithdrawal, IWithdrawalPayout } from '../models/WalletWithdrawal';
+import logger from './logger';
+import { convertAmount, convertCurrency } from './exchangeRates';
+import {
+  PLATFORM_ACCOUNTS,
+  WalletEntryRejectedError,
+  heldAccount,
+  postWalletTransfer,
+  walletAccount
+} from './walletLedger';
+import { roundToCents } from './money';
+
+const MAX_REASON_LENGTH = 500;
+
+// Withdrawals whose funds are still held
+const OPEN_STATUSES = ['pending', 'processing'];
+
+/**
+ * Outcome of a withdrawal action: the withdrawal and the wallet after it, or
+ * the HTTP status and reason to reject it with
+ */
+export type WithdrawalResult =
+  | { valid: true; withdrawal: IWalletWithdrawal; wallet: IWallet }
+  | { valid: false; status: number; reason: string; details?: Record<string, unknown> };
+
+// Card payments that funded the wallet and can still be refunded, newest first
+const findFundingPayments = (userId: unknown) =>
+  Payment.find({
+    user: userId,
+    paymentMethod: 'stripe',
+    status: 'completed',
+    stripePaymentId: { $exists: true },
+    'metadata.purpose': 'wallet_funding',
+  }).sort({ createdAt: -1 });
+
+const refundableAmount = (payment: IPayment): number =>
+  roundToCents(payment.amount - (payment.get('metadata.refundedAmount') || 0));
+
+/**
+ * How much a user can withdraw, in their wallet's currency: no more than the
+ * spendable balance, nor than the card payments that funded the wallet still
+ * have left to refund
+ */
+export const getWithdrawableAmount = async (wallet: IWallet) => {
+  const [payments, open] = await Promise.all([
+    findFundingPayments(wallet.user),
+    WalletWithdrawal.find({ user: wallet.user, status: { $in: OPEN_STATUSES } }).select('amount'),
+  ]);
+
+  const refundable = payments.reduce(
+    (sum, payment) => sum + convertAmount(refundableAmount(payment), payment.currency, wallet.currency),
+    0
+  );
+  const requested = open.reduce((sum, withdrawal) => sum + withdrawal.amount, 0);
+
+  return {
+    currency: wallet.currency,
+    balance: wallet.balance,
+    refundable: roundToCents(Math.max(0, refundable - requested)),
+    available: roundToCents(Math.max(0, Math.min(wallet.balance, refundable - requested))),
+  };
+};
+
+// Put held withdrawal funds back into the spendable balance
+const releaseHold = (wallet: IWallet, withdrawal: IWalletWithdrawal, amount: number, description: string) =>
+  postWalletTransfer(wallet, {
+    kind: 'withdrawal_release',
+    from: heldAccount(wallet.user),
+    to: walletAccount(wallet.user),
+    amount,
+    description,
+    reference: String(withdrawal._id),
+  });
+
+/**
+ * Ask to withdraw an amount from the wallet. The amount is held from the
+ * spendable balance until an admin approves or rejects the request.
+ */
+export const requestWithdrawal = async ({
+  userId,
+  amount,
+  reason,
+}: {
+  userId: string;
+  amount: number;
+  reason?: string;
+}): Promise<WithdrawalResult> => {
+  const value = roundToCents(Number(amount));
+  if (!Number.isFinite(value) || value <= 0) {
+    return { valid: false, status: 400, reason: 'A valid amount is required' };
+  }
+  if (reason && String(reason).length > MAX_REASON_LENGTH) {
+    return { valid: false, status: 400, reason: `Reason must be at most ${MAX_REASON_LENGTH} characters` };
+  }
+
+  const wallet = await Wallet.findOne({ user: userId });
+  if (!wallet) {
+    return { valid: false, status: 404, reason: 'Wallet not found' };
+  }
+
+  const alreadyOpen: WithdrawalResult = {
+    valid: false,
+    status: 409,
+    reason: 'You already have a withdrawal waiting for approval. Cancel it or wait for it to be settled.',
+  };
+  const insufficient = (current: IWallet): WithdrawalResult => ({
+    valid: false,
+    status: 400,
+    reason: `Insufficient wallet balance. Available: ${current.balance} ${current.currency}, Required: ${value} ${current.currency}`,
+  });
+
+  if (await WalletWithdrawal.exists({ user: userId, status: { $in: OPEN_STATUSES } })) {
+    return alreadyOpen;
+  }
+  if (wallet.balance < value) {
+    return insufficient(wallet);
+  }
+
+  const withdrawable = await getWithdrawableAmount(wallet);
+  if (value > withdrawable.available) {
+    return {
+      valid: false,
+      status: 400,
+      reason: `Only money added by card can be withdrawn. You can withdraw up to ${withdrawable.available} ${wallet.currency}.`,
+      details: { withdrawable },
+    };
+  }
+
+  let result: WithdrawalResult | undefined;
+  // Thrown to abort the transaction once `result` holds the reason
+  const rejected = new Error('Wallet withdrawal rejected');
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const current = await Wallet.findOne({ user: userId }).session(session);
+      if (!current || current.currency !== wallet.currency) {
+        result = {
+          valid: false,
+          status: 409,
+          reason: 'Your wallet changed currency while the withdrawal was requested. Please try again.',
+        };
+        throw rejected;
+      }
+
+      // The hold below writes to the wallet, so two requests at once conflict
+      // and the one that is retried sees the other's withdrawal here
+      if (await WalletWithdrawal.exists({ user: userId, status: { $in: OPEN_STATUSES } }).session(session)) {
+        result = alreadyOpen;
+        throw rejected;
+      }
+
+      const [withdrawal] = await WalletWithdrawal.create([{
+        user: userId,
+        amount: value,
+        currency: current.currency,
+        reason: reason ? String(reason) : undefined,
+      }], { session });
+
+      try {
+        await postWalletTransfer(current, {
+          kind: 'withdrawal_hold',
+          from: walletAccount(current.user),
+          to: heldAccount(current.user),
+          amount: value,
+          description: 'Withdrawal requested',
+          reference: String(withdrawal._id),
+        }, { session });
+      } catch (error) {
+        if (error instanceof WalletEntryRejectedError) {
+          result = insufficient(current);
+          throw rejected;
+        }
+        throw error;
+      }
+
+      result = { valid: true, withdrawal, wallet: current };
+    });
+  } catch (error) {
+    if (error !== rejected) {
+      throw error;
+    }
+  } finally {
+    await session.endSession();
+  }
+
+  if (!result) {
+    return { valid: false, status: 500, reason: 'Withdrawal could not be requested' };
+  }
+  if (!result.valid) {
+    return result;
+  }
+
+  logger.info('Wallet withdrawal requested', { withdrawalId: result.withdrawal._id, userId, amount: value });
+  return result;
+};
+
+// Move a pending withdrawal on, so it is only ever settled once
+const claimPending = (filter: Record<string, unknown>, update: Record<string, unknown>) =>
+  WalletWithdrawal.findOneAndUpdate({ ...filter, status: 'pending' }, update, { new: true });
+
+const notPending = async (filter: Record<string, unknown>): Promise<WithdrawalResult> => {
+  const existing = await WalletWithdrawal.findOne(filter).select('status');
+  if (!existing) {
+    return { valid: false, status: 404, reason: 'Withdrawal not found' };
+  }
+  return { valid: false, status: 400, reason: `This withdrawal is already ${existing.status}` };
+};
+
+/**
+ * Cancel the user's own pending withdrawal and release the held funds
+ */
+export const cancelWithdrawal = async (userId: string, withdrawalId: string): Promise<WithdrawalResult> => {
+  const filter = { _id: withdrawalId, user: userId };
+  const withdrawal = await claimPending(filter, { status: 'canceled' });
+  if (!withdrawal) {
+    return notPending(filter);
+  }
+
+  const wallet = await Wallet.findOne({ user: userId });
+  if (!wallet) {
+    return { valid: false, status: 404, reason: 'Wallet not found' };
+  }
+  await releaseHold(wallet, withdrawal, withdrawal.amount, 'Withdrawal canceled');
+
+  logger.info('Wallet withdrawal canceled', { withdrawalId, userId });
+  return { valid: true, withdrawal, wallet };
+};
+
+/**
+ * Reject a pending withdrawal and release the held funds (admin)
+ */
+export const rejectWithdrawal = async (
+  withdrawalId: string,
+  adminId: string,
+  adminNotes?: string
+): Promise<WithdrawalResult> => {
+  const filter = { _id: withdrawalId };
+  const withdrawal = await claimPending(filter, {
+    status: 'rejected',
+    reviewedBy: adminId,
+    reviewedAt: new Date(),
+    adminNotes,
+  });
+  if (!withdrawal) {
+    return notPending(filter);
+  }
+
+  const wallet = await Wallet.findOne({ user: withdrawal.user });
+  if (!wallet) {
+    return { valid: false, status: 404, reason: 'Wallet not found' };
+  }
+  await releaseHold(wallet, withdrawal, withdrawal.amount, 'Withdrawal rejected');
+
+  logger.info('Wallet withdrawal rejected', { withdrawalId, adminId });
+  return { valid: true, withdrawal, wallet };
+};
+
+const payoutStatus = (refund: Stripe.Refund): IWithdrawalPayout['status'] => {
+  if (refund.status === 'succeeded') {
+    return 'succeeded';
+  }
+  return refund.status === 'failed' || refund.status === 'canceled' ? 'failed' : 'pending';
+};
+
+/**
+ * Approve a pending withdrawal (admin) and pay it out as Stripe refunds
+ * against the card payments that funded the wallet, newest first. Each
+ * refund is recorded on the withdrawal as soon as it is made. Whatever
+ * cannot be refunded is released back to the wallet; if nothing could be
+ * paid out, or the payout breaks off with an error, the withdrawal fails so
+ * the user can ask again for what was not paid.
+ */
+export const approveWithdrawal = async (
+  withdrawalId: string,
+  adminId: string,
+  adminNotes?: string
+): Promise<WithdrawalResult> => {
+  const stripe = getStripeInstance();
+  if (!stripe) {
+    return { valid: false, status: 500, reason: 'Stripe is not configured properly' };
+  }
+
+  // The wallet is found first, so a claimed withdrawal always has one to settle against
+  const filter = { _id: withdrawalId };
+  const pending = await WalletWithdrawal.findOne({ ...filter, status: 'pending' }).select('user');
+  if (!pending) {
+    return notPending(filter);
+  }
+  const wallet = await Wallet.findOne({ user: pending.user });
+  if (!wallet) {
+    return { valid: false, status: 404, reason: 'Wallet not found' };
+  }
+
+  const withdrawal = await claimPending(filter, {
+    status: 'processing',
+    reviewedBy: adminId,
+    reviewedAt: new Date(),
+    adminNotes,
+  });
+  if (!withdrawal) {
+    return notPending(filter);
+  }
+
+  let remaining = withdrawal.amount;
+  let paid = 0;
+  const failures: string[] = [];
+  // Errors that stopped the payout part way, rather than a single refund failing
+  const errors: string[] = [];
+
+  try {
+    for (const payment of await findFundingPayments(withdrawal.user)) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const refundable = refundableAmount(payment);
+      if (refundable <= 0) {
+        continue;
+      }
+
+      const paymentCurrency = payment.currency.toUpperCase();
+      const conversion = convertCurrency(remaining, withdrawal.currency, paymentCurrency);
+      const wanted = conversion.amount;
+      const refundAmount = roundToCents(Math.min(wanted, refundable));
+      const walletAmount = refundAmount >= wanted
+        ? remaining
+        : Math.min(remaining, convertAmount(refundAmount, paymentCurrency, withdrawal.currency));
+
+      let refund: Stripe.Refund;
+      try {
+        refund = await stripe.refunds.create(
+          {
+            payment_intent: payment.stripePaymentId,
+            amount: toMinorUnits(refundAmount, paymentCurrency), // Stripe requires amounts in the smallest currency unit
+            metadata: { purpose: 'wallet_withdrawal', withdrawalId: String(withdrawal._id) },
+          },
+          // A retried approval must not refund the same payment twice
+          { idempotencyKey: `wallet-withdrawal-${withdrawal._id}-${payment._id}` }
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(message);
+        logger.error('Wallet withdrawal refund failed', {
+          withdrawalId,
+          paymentId: payment._id,
+          error: message,
+        });
+        continue;
+      }
+
+      const status = payoutStatus(refund);
+      if (status === 'failed') {
+        failures.push(refund.failure_reason || `Refund ${refund.id} failed`);
+        continue;
+      }
+
+      // Record the refund before anything else can go wrong, so it is never paid twice
+      withdrawal.payouts.push({
+        payment: payment._id as IWithdrawalPayout['payment'],
+        stripePaymentId: payment.stripePaymentId!,
+        stripeRefundId: refund.id,
+        amount: refundAmount,
+        currency: payment.currency,
+        walletAmount,
+        exchangeRate: conversion.rate,
+        exchangeRateId: conversion.rateId,
+        status,
+      });
+      remaining = roundToCents(remaining - walletAmount);
+      paid = roundToCents(paid + walletAmount);
+      withdrawal.paidAmount = paid;
+      await withdrawal.save();
+
+      const refundedAmount = roundToCents((payment.get('metadata.refundedAmount') || 0) + refundAmount);
+      payment.set('metadata.refundedAmount', refundedAmount);
+      if (refundedAmount >= payment.amount) {
+        payment.status = 'refunded';
+      }
+      payment.refundReason = 'Wallet withdrawal';
+      await payment.save();
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    errors.push(message);
+    logger.error('Wallet withdrawal payout stopped', { withdrawalId, paid, error: message });
+  }
+
+  // The refunds made leave the held balance for Stripe
+  if (paid > 0) {
+    try {
+      await postWalletTransfer(wallet, {
+        kind: 'withdrawal',
+        from: heldAccount(wallet.user),
+        to: PLATFORM_ACCOUNTS.stripe,
+        amount: paid,
+        description: 'Withdrawal paid out to card',
+        reference: String(withdrawal._id),
+        metadata: { refunds: withdrawal.payouts.map(payout => payout.stripeRefundId) },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(message);
+      logger.error('Failed to record wallet withdrawal payout in the ledger', { withdrawalId, paid, error: message });
+    }
+  }
+
+  // What was not refunded goes back to the wallet
+  if (remaining > 0) {
+    try {
+      await releaseHold(
+        wallet,
+        withdrawal,
+        remaining,
+        paid > 0 ? 'Unpaid part of withdrawal released' : 'Withdrawal payout failed'
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(message);
+      logger.error('Failed to release unpaid wallet withdrawal', { withdrawalId, remaining, error: message });
+    }
+  }
+
+  withdrawal.paidAmount = paid;
+  if (errors.length > 0) {
+    withdrawal.status = 'failed';
+    withdrawal.failureReason = [...failures, ...errors].join('; ');
+  } else {
+    withdrawal.status = paid > 0 ? 'paid' : 'failed';
+    if (remaining > 0) {
+      withdrawal.failureReason = failures.join('; ') || 'No card payment left to refund';
+    }
+  }
+  await withdrawal.save();
+
+  logger.info('Wallet withdrawal settled', {
+    withdrawalId,
+    adminId,
+    status: withdrawal.status,
+    paid,
+    released: remaining,
+  });
+  return { valid: true, withdrawal, wallet };
+};
+
+/**
+ * Keep withdrawal payouts in step with Stripe refund updates. A refund that
+ * fails after it was made puts the money back into the wallet, and the
+ * payment can be refunded again. The payout is claimed as failed together
+ * with that credit, so a repeated or second webhook for the same refund
+ * finds nothing left to release.
+ */
+export const handleWithdrawalRefundUpdate = async (refund: Stripe.Refund) => {
+  const status = payoutStatus(refund);
+
+  if (status === 'succeeded') {
+    await WalletWithdrawal.updateOne(
+      { payouts: { $elemMatch: { stripeRefundId: refund.id, status: 'pending' } } },
+      { $set: { 'payouts.$.status': status } }
+    );
+    return;
+  }
+  if (status !== 'failed') {
+    return;
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      const withdrawal = await WalletWithdrawal.findOneAndUpdate(
+        { payouts: { $elemMatch: { stripeRefundId: refund.id, status: { $ne: 'failed' } } } },
+        { $set: { 'payouts.$.status': 'failed' } },
+        { new: true, session }
+      );
+      if (!withdrawal) {
+        return;
+      }
+      const payout = withdrawal.payouts.find(item => item.stripeRefundId === refund.id)!;
+
+      const wallet = await Wallet.findOne({ user: withdrawal.user }).session(session);
+      if (!wallet) {
+        // Leave the payout unclaimed so a redelivered webhook can release it
+        throw new Error(`Wallet not found for failed withdrawal refund ${refund.id}`);
+      }
+
+      await postWalletTransfer(wallet, {
+        kind: 'withdrawal_release',
+        from: PLATFORM_ACCOUNTS.stripe,
+        to: walletAccount(wallet.user),
+        amount: payout.walletAmount,
+        description: 'Withdrawal payout failed',
+        reference: String(withdrawal._id),
+        metadata: { stripeRefundId: refund.id, failureReason: refund.failure_reason },
+      }, { session });
+
+      withdrawal.paidAmount = roundToCents(Math.max(0, withdrawal.paidAmount - payout.walletAmount));
+      withdrawal.failureReason = refund.failure_reason || `Refund ${refund.id} failed`;
+      if (withdrawal.paidAmount === 0) {
+        withdrawal.status = 'failed';
+      }
+      await withdrawal.save({ session });
+
+      const payment = await Payment.findById(payout.payment).session(session);
+      if (payment) {
+        payment.set(
+          'metadata.refundedAmount',
+          roundToCents(Math.max(0, (payment.get('metadata.refundedAmount') || 0) - payout.amount))
+        );
+        payment.status = 'completed';
+        await payment.save({ session });
+      }
+
+      logger.warn('Wallet withdrawal refund failed', { withdrawalId: withdrawal._id, refundId: refund.id });
+    });
+  } finally {
+    await session.endSession();
+  }
+};
+
+export default {
+  getWithdrawableAmount,
+  requestWithdrawal,
+  cancelWithdrawal,
+  rejectWithdrawal,
+  approveWithdrawal,
+  handleWithdrawalRefundUpdate
+};
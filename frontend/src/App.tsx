@@ -19,6 +19,7 @@ const Tutorials = lazy(() => import("./pages/tutorials"));
 const TutorialDetail = lazy(() => import("./pages/tutorials/DetailPage"));
 const Bookings = lazy(() => import("./pages/bookings/Index"));
 const BookingCheckout = lazy(() => import("./pages/bookings/CheckoutPage"));
+const Cart = lazy(() => import("./pages/cart"));
 const Profile = lazy(() => import("./pages/profile"));
 const PaymentSettings = lazy(() => import("./pages/profile/PaymentSettings"));
 const Login = lazy(() => import("./pages/auth/login"));
@@ -29,6 +30,7 @@ const AdminSettings = lazy(() => import("./pages/admin/Settings"));
 const AdminAddTutorial = lazy(() => import("./pages/admin/AddTutorial"));
 const AdminEditTutorial = lazy(() => import("./pages/admin/EditTutorial"));
 const AdminDiscountManager = lazy(() => import("./pages/admin/DiscountManager"));
+const AdminVenueSchedule = lazy(() => import("./pages/admin/VenueSchedule"));
 
 // Import password reset pages
 import ForgotPassword from './pages/auth/ForgotPassword';
@@ -112,6 +114,11 @@ const AppRoutes = () => (
             <BookingCheckout />
           </Suspense>
         } />
+        <Route path="cart" element={
+          <Suspense fallback={<PageLoading />}>
+            <Cart />
+          </Suspense>
+        } />
         <Route path="profile" element={
           <Suspense fallback={<PageLoading />}>
             <Profile />
@@ -158,6 +165,11 @@ const AppRoutes = () => (
             <AdminDiscountManager />
           </Suspense>
         } />
+        <Route path="admin/venue-schedule" element={
+          <Suspense fallback={<PageLoading />}>
+            <AdminVenueSchedule />
+          </Suspense>
+        } />
       </Route>
     </Route>
     
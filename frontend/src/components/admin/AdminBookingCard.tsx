@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { format } from "date-fns";
-import { ChevronDown, ChevronUp, MapPin, Clock, User, Tag, InfoIcon } from "lucide-react";
+import { ChevronDown, ChevronUp, MapPin, Clock, User, Tag, InfoIcon, LayoutGrid, Timer } from "lucide-react";
 import { 
   Card, 
   CardContent, 
@@ -17,16 +17,85 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import { RentalInspectionDialog, RentalInspectionValues } from "@/components/admin/RentalInspectionDialog";
+import { RentalCheckIn, RentalDeposit, RentalInspection } from "@/types";
+import { useCurrencies } from "@/hooks/use-currencies";
+
+interface ResourceBookings {
+  resource: {
+    _id: string;
+    name: string;
+    sportType: string;
+    isActive?: boolean;
+  };
+  bookings: { _id: string; status: string }[];
+}
 
 interface AdminBookingCardProps {
   item: any;
   type: 'venue' | 'equipment' | 'tutorial';
   bookings: any[];
+  resources?: ResourceBookings[];
   onStatusChange: (bookingId: string, status: string) => void;
+  // Extra detail shown under a booking, such as the changeover time around it
+  getBookingNote?: (booking: { timeSlot?: { start: string; end: string }; resource?: string }) => string | undefined;
+  onRentalInspection?: (
+    bookingId: string,
+    mode: "check-out" | "check-in",
+    values: RentalInspectionValues
+  ) => void;
+}
+
+interface InspectionTarget {
+  bookingId: string;
+  mode: "check-out" | "check-in";
 }
 
-export function AdminBookingCard({ item, type, bookings, onStatusChange }: AdminBookingCardProps) {
+export function AdminBookingCard({
+  item,
+  type,
+  bookings,
+  resources,
+  onStatusChange,
+  getBookingNote,
+  onRentalInspection,
+}: AdminBookingCardProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [inspection, setInspection] = useState<InspectionTarget | null>(null);
+  const { baseCurrency, format: formatMoney } = useCurrencies();
+  const formatPrice = (amount: number) => formatMoney(amount, baseCurrency);
+
+  // Units of this equipment item held by a rental (older rentals hold one)
+  const getUnits = (booking: { equipmentItems?: { equipment: string; quantity: number }[] }): number =>
+    booking.equipmentItems?.find((line) => line.equipment === item._id)?.quantity || 1;
+
+  // Hand-over and return of a rental, with any late or damage charges
+  const getRentalProgress = (booking: {
+    checkOut?: RentalInspection;
+    checkIn?: RentalCheckIn;
+    deposit?: RentalDeposit;
+  }): string | undefined => {
+    const deposit = booking.deposit && booking.deposit.amount > 0
+      ? `${formatPrice(booking.deposit.amount)} deposit ${booking.deposit.status.replace("_", " ")}`
+      : undefined;
+
+    if (booking.checkIn) {
+      const charges = booking.checkIn.lateFee + booking.checkIn.damageCharge;
+      const progress = charges > 0
+        ? `Returned · ${formatPrice(charges)} charged (${booking.checkIn.depositDeduction ? `${formatPrice(booking.checkIn.depositDeduction)} from deposit` : booking.checkIn.charge?.status || 'pending'})`
+        : "Returned";
+      return deposit ? `${progress} · ${deposit}` : progress;
+    }
+    if (booking.checkOut) {
+      const progress = `Checked out ${format(new Date(booking.checkOut.at), "PP")}`;
+      return deposit ? `${progress} · ${deposit}` : progress;
+    }
+    return deposit;
+  };
+
+  // Court name for venue bookings placed on a specific court
+  const getResourceName = (booking: { resource?: string }): string | undefined =>
+    resources?.find(({ resource }) => resource._id === booking.resource)?.resource.name;
 
   // Get image based on item type
   const getImage = () => {
@@ -55,12 +124,31 @@ export function AdminBookingCard({ item, type, bookings, onStatusChange }: Admin
           </div>
           <div className="flex items-center text-sm">
             <Clock className="h-4 w-4 mr-1 text-muted-foreground" />
-            <span>${item.pricePerHour}/hr</span>
+            <span>{formatPrice(item.pricePerHour)}/hr</span>
           </div>
           <div className="flex items-center text-sm">
             <User className="h-4 w-4 mr-1 text-muted-foreground" />
             <span>Capacity: {item.capacity}</span>
           </div>
+          {(item.bufferBeforeMinutes > 0 || item.bufferAfterMinutes > 0) && (
+            <div className="flex items-center text-sm">
+              <Timer className="h-4 w-4 mr-1 text-muted-foreground" />
+              <span>
+                Changeover: {item.bufferBeforeMinutes || 0} min before / {item.bufferAfterMinutes || 0} min after
+              </span>
+            </div>
+          )}
+          {resources && resources.length > 0 && (
+            <div className="col-span-2 md:col-span-3 flex flex-wrap gap-2 text-sm">
+              <LayoutGrid className="h-4 w-4 text-muted-foreground" />
+              {resources.map(({ resource, bookings: resourceBookings }) => (
+                <Badge key={resource._id} variant="outline">
+                  {resource.name} · {resource.sportType} ·{" "}
+                  {resourceBookings.filter((booking) => booking.status === 'pending').length} pending
+                </Badge>
+              ))}
+            </div>
+          )}
         </>
       );
     } else if (type === 'equipment') {
@@ -68,7 +156,7 @@ export function AdminBookingCard({ item, type, bookings, onStatusChange }: Admin
         <>
           <div className="flex items-center text-sm">
             <Tag className="h-4 w-4 mr-1 text-muted-foreground" />
-            <span>${item.rentalPriceDaily}/day</span>
+            <span>{formatPrice(item.rentalPriceDaily)}/day</span>
           </div>
           <div className="flex items-center text-sm">
             <InfoIcon className="h-4 w-4 mr-1 text-muted-foreground" />
@@ -185,19 +273,35 @@ export function AdminBookingCard({ item, type, bookings, onStatusChange }: Admin
                             <div className="flex items-center mb-1">
                               <User className="h-4 w-4 mr-1" />
                               <span className="font-medium">{booking.user.name}</span>
+                              {type === 'equipment' && getUnits(booking) > 1 && (
+                                <Badge variant="outline" className="ml-2">{getUnits(booking)} units</Badge>
+                              )}
                             </div>
                             <div className="text-sm">
                               {format(new Date(booking.date), "PPP")}
                               {booking.timeSlot && (
                                 <span> • {booking.timeSlot.start} - {booking.timeSlot.end}</span>
                               )}
+                              {getResourceName(booking) && (
+                                <span> • {getResourceName(booking)}</span>
+                              )}
                             </div>
                             <div className="flex items-center mt-1">
                               <BookingStatusBadge status={booking.status} />
                               <span className="ml-2 text-sm">
-                                ${booking.totalPrice.toFixed(2)}
+                                {formatPrice(booking.totalPrice)}
                               </span>
                             </div>
+                            {getBookingNote?.(booking) && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {getBookingNote(booking)}
+                              </div>
+                            )}
+                            {type === "equipment" && getRentalProgress(booking) && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                {getRentalProgress(booking)}
+                              </div>
+                            )}
                           </div>
                           
                           <div className="flex gap-2 mt-2 md:mt-0">
@@ -220,7 +324,20 @@ export function AdminBookingCard({ item, type, bookings, onStatusChange }: Admin
                               </>
                             )}
                             
-                            {booking.status === "confirmed" && (
+                            {booking.status === "confirmed" && type === "equipment" && onRentalInspection && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setInspection({
+                                  bookingId: booking._id,
+                                  mode: booking.checkOut ? "check-in" : "check-out",
+                                })}
+                              >
+                                {booking.checkOut ? "Check In" : "Check Out"}
+                              </Button>
+                            )}
+
+                            {booking.status === "confirmed" && type !== "equipment" && (
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -229,6 +346,26 @@ export function AdminBookingCard({ item, type, bookings, onStatusChange }: Admin
                                 Mark as Completed
                               </Button>
                             )}
+
+                            {booking.status === "confirmed" && (type !== "equipment" || !booking.checkOut) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => onStatusChange(booking._id, "no_show")}
+                              >
+                                Mark as No-show
+                              </Button>
+                            )}
+
+                            {booking.status === "no_show" && type !== "equipment" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => onStatusChange(booking._id, "completed")}
+                              >
+                                Mark as Attended
+                              </Button>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -240,6 +377,20 @@ export function AdminBookingCard({ item, type, bookings, onStatusChange }: Admin
           </div>
         </div>
       </CardContent>
+
+      {inspection && onRentalInspection && (
+        <RentalInspectionDialog
+          open
+          mode={inspection.mode}
+          itemName={item.name}
+          defaultCondition={item.condition}
+          onOpenChange={(open) => !open && setInspection(null)}
+          onSubmit={(values) => {
+            onRentalInspection(inspection.bookingId, inspection.mode, values);
+            setInspection(null);
+          }}
+        />
+      )}
     </Card>
   );
 } 
\ No newline at end of file
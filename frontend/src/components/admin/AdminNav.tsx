@@ -1,6 +1,6 @@
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { HomeIcon, CalendarClock, Settings } from "lucide-react";
+import { HomeIcon, CalendarClock, CalendarOff, Settings } from "lucide-react";
 
 export function AdminNav() {
   const location = useLocation();
@@ -34,6 +34,17 @@ export function AdminNav() {
         </Link>
       </Button>
       
+      <Button 
+        variant={isActive("/admin/venue-schedule") ? "default" : "outline"} 
+        size="sm" 
+        asChild
+      >
+        <Link to="/admin/venue-schedule">
+          <CalendarOff className="h-4 w-4 mr-2" />
+          Venue Schedule
+        </Link>
+      </Button>
+      
       <Button 
         variant={isActive("/admin/settings") ? "default" : "outline"} 
         size="sm" 
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EquipmentCondition } from "@/types";
+
+const conditionOptions: EquipmentCondition[] = ["New", "Like New", "Good", "Fair", "Poor"];
+
+export interface RentalInspectionValues {
+  condition: EquipmentCondition;
+  photos: string[];
+  notes?: string;
+  damageCharge?: number;
+  paymentMethod?: "wallet" | "stripe";
+}
+
+interface RentalInspectionDialogProps {
+  mode: "check-out" | "check-in";
+  itemName: string;
+  defaultCondition: EquipmentCondition;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: RentalInspectionValues) => void;
+}
+
+export function RentalInspectionDialog({
+  mode,
+  itemName,
+  defaultCondition,
+  open,
+  onOpenChange,
+  onSubmit,
+}: RentalInspectionDialogProps) {
+  const [condition, setCondition] = useState<EquipmentCondition>(defaultCondition);
+  const [photos, setPhotos] = useState("");
+  const [notes, setNotes] = useState("");
+  const [damageCharge, setDamageCharge] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<"auto" | "wallet" | "stripe">("auto");
+
+  const isCheckIn = mode === "check-in";
+
+  const handleSubmit = () => {
+    onSubmit({
+      condition,
+      // One photo URL per line
+      photos: photos.split("\n").map((photo) => photo.trim()).filter(Boolean),
+      notes: notes.trim() || undefined,
+      ...(isCheckIn && {
+        damageCharge: damageCharge ? Number(damageCharge) : 0,
+        paymentMethod: paymentMethod === "auto" ? undefined : paymentMethod,
+      }),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>{isCheckIn ? "Check In" : "Check Out"} {itemName}</DialogTitle>
+          <DialogDescription>
+            {isCheckIn
+              ? "Record the condition the equipment came back in. Late fees are added automatically, and charges come out of any security deposit first."
+              : "Record the condition of the equipment as it is handed to the customer."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Condition</Label>
+            <Select value={condition} onValueChange={(value) => setCondition(value as EquipmentCondition)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select condition" />
+              </SelectTrigger>
+              <SelectContent>
+                {conditionOptions.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inspection-photos">Photo URLs</Label>
+            <Textarea
+              id="inspection-photos"
+              placeholder="One image URL per line"
+              value={photos}
+              onChange={(event) => setPhotos(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inspection-notes">Notes</Label>
+            <Textarea
+              id="inspection-notes"
+              placeholder="Scratches, missing parts, etc."
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+
+          {isCheckIn && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="inspection-damage">Damage charge ($)</Label>
+                <Input
+                  id="inspection-damage"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="0.00"
+                  value={damageCharge}
+                  onChange={(event) => setDamageCharge(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Charge via</Label>
+                <Select
+                  value={paymentMethod}
+                  onValueChange={(value) => setPaymentMethod(value as "auto" | "wallet" | "stripe")}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Wallet, else Stripe</SelectItem>
+                    <SelectItem value="wallet">Wallet only</SelectItem>
+                    <SelectItem value="stripe">Stripe</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit}>
+            {isCheckIn ? "Check In & Complete" : "Check Out"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, Package, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import type { Equipment, PackagePricingType, Venue, VenuePackage } from "@/types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+// Value of the court select that lets customers book the package on any court
+const ANY_COURT = "any";
+
+const PRICING_LABELS: Record<PackagePricingType, string> = {
+  bundle_price: "Package price",
+  percentage_off: "Percentage off",
+};
+
+const formSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    description: z.string().optional(),
+    resourceId: z.string(),
+    pricingType: z.enum(["bundle_price", "percentage_off"]),
+    value: z.coerce.number().min(0, "Value cannot be negative"),
+    equipmentItems: z
+      .array(
+        z.object({
+          equipmentId: z.string().min(1, "Choose the equipment"),
+          quantity: z.coerce.number().int().min(1, "At least 1"),
+        })
+      )
+      .min(1, "Add at least one equipment item"),
+  })
+  .refine((values) => values.pricingType !== "percentage_off" || values.value <= 100, {
+    message: "Percentage off cannot be more than 100",
+    path: ["value"],
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("token")}`,
+});
+
+const describePricing = (venuePackage: VenuePackage): string =>
+  venuePackage.pricingType === "bundle_price" ? `$${venuePackage.value}` : `${venuePackage.value}% off`;
+
+interface VenuePackagesProps {
+  venue: Venue;
+}
+
+export function VenuePackages({ venue }: VenuePackagesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openDialog, setOpenDialog] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      resourceId: ANY_COURT,
+      pricingType: "percentage_off",
+      value: 10,
+      equipmentItems: [{ equipmentId: "", quantity: 1 }],
+    },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "equipmentItems" });
+
+  const { data: packages = [], isLoading } = useQuery<VenuePackage[]>({
+    queryKey: ["venue-packages", venue._id],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/packages`, { params: { venueId: venue._id } });
+      return response.data.packages;
+    },
+  });
+
+  const { data: equipment = [] } = useQuery<Equipment[]>({
+    queryKey: ["package-equipment-options"],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/equipment`, { params: { limit: 100 } });
+      return response.data.equipment;
+    },
+  });
+
+  const addPackageMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await axios.post(
+        `${API_URL}/packages`,
+        {
+          name: values.name,
+          description: values.description || undefined,
+          venueId: venue._id,
+          ...(values.resourceId !== ANY_COURT && { resourceId: values.resourceId }),
+          pricingType: values.pricingType,
+          value: values.value,
+          equipmentItems: values.equipmentItems,
+        },
+        { headers: { "Content-Type": "application/json", ...authHeaders() } }
+      );
+      return response.data as VenuePackage;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Package added",
+        description: "Customers can now book it from the venue page.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["venue-packages", venue._id] });
+      setOpenDialog(false);
+      form.reset();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not add package",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "An error occurred while saving the package.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removePackageMutation = useMutation({
+    mutationFn: async (packageId: string) => {
+      const response = await axios.delete(`${API_URL}/packages/${packageId}`, {
+        headers: authHeaders(),
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Package removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["venue-packages", venue._id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "Failed to remove the package.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRemove = (packageId: string) => {
+    if (window.confirm("Stop selling this package? Bookings already made are kept.")) {
+      removePackageMutation.mutate(packageId);
+    }
+  };
+
+  const getResourceName = (resourceId?: string) =>
+    resourceId ? venue.resources?.find((resource) => resource._id === resourceId)?.name || "Court" : "Any court";
+
+  const pricingType = form.watch("pricingType");
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Packages</CardTitle>
+          <CardDescription>
+            Sell a slot at {venue.name} together with equipment rented for the same day, at a package price.
+          </CardDescription>
+        </div>
+
+        <Dialog open={openDialog} onOpenChange={setOpenDialog}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" /> Add Package
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Add package</DialogTitle>
+              <DialogDescription>
+                Customers pick the date and time; the equipment is checked for availability on that day.
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => addPackageMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Court + rackets and balls" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="pricingType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Pricing</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(PRICING_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="value"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{pricingType === "bundle_price" ? "Price ($)" : "Percent off"}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {venue.resources && venue.resources.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="resourceId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Court</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={ANY_COURT}>Any court</SelectItem>
+                            {venue.resources.map((resource) => (
+                              <SelectItem key={resource._id} value={resource._id}>
+                                {resource.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="space-y-2">
+                  <FormLabel>Equipment</FormLabel>
+                  <FormDescription>Rented for the day of the venue booking</FormDescription>
+                  {fields.map((line, index) => (
+                    <div key={line.id} className="flex items-start gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`equipmentItems.${index}.equipmentId`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Choose equipment" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {equipment.map((item) => (
+                                  <SelectItem key={item._id} value={item._id}>
+                                    {item.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`equipmentItems.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem className="w-20">
+                            <FormControl>
+                              <Input type="number" min={1} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={fields.length === 1}
+                        onClick={() => remove(index)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => append({ equipmentId: "", quantity: 1 })}
+                  >
+                    <Plus className="h-4 w-4 mr-2" /> Add Equipment
+                  </Button>
+                </div>
+
+                <DialogFooter>
+                  <Button type="submit" disabled={addPackageMutation.isPending}>
+                    {addPackageMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : packages.length === 0 ? (
+          <div className="text-center py-8">
+            <Package className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">No packages. Courts and equipment are only booked separately.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {packages.map((venuePackage) => (
+              <div key={venuePackage._id} className="flex items-start justify-between gap-4 rounded-lg border p-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{venuePackage.name}</span>
+                    <Badge variant="secondary">{describePricing(venuePackage)}</Badge>
+                    <Badge variant="outline">{getResourceName(venuePackage.resource)}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {venuePackage.equipmentItems.map((line) => `${line.quantity} × ${line.equipment.name}`).join(", ")}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={removePackageMutation.isPending}
+                  onClick={() => handleRemove(venuePackage._id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
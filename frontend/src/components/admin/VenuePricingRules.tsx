@@ -0,0 +1,451 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { format, parseISO } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, Plus, Tag, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import type { PricingAdjustment, Venue, VenuePricingRule } from "@/types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+// Value of the court select that applies a rule to every court
+const WHOLE_VENUE = "all";
+
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+const ADJUSTMENT_LABELS: Record<PricingAdjustment, string> = {
+  set_rate: "Set hourly rate",
+  multiplier: "Multiply rate",
+  surcharge: "Add to rate",
+};
+
+const formSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    resourceId: z.string(),
+    days: z.array(z.string()),
+    startTime: z.string().optional(),
+    endTime: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    adjustment: z.enum(["set_rate", "multiplier", "surcharge"]),
+    value: z.coerce.number().min(0, "Value cannot be negative"),
+  })
+  .refine((values) => !values.startTime || !values.endTime || values.startTime < values.endTime, {
+    message: "Start time must be before end time",
+    path: ["endTime"],
+  })
+  .refine((values) => !values.startDate || !values.endDate || values.startDate <= values.endDate, {
+    message: "Start date must not be after end date",
+    path: ["endDate"],
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("token")}`,
+});
+
+// Short description of when a rule applies and what it does
+const describeRule = (rule: VenuePricingRule): string => {
+  const parts = [rule.days.length > 0 ? rule.days.map((day) => day.slice(0, 3)).join(", ") : "Every day"];
+  if (rule.startTime || rule.endTime) {
+    parts.push(`${rule.startTime || "00:00"} - ${rule.endTime || "24:00"}`);
+  }
+  if (rule.startDate || rule.endDate) {
+    const formatDate = (date?: string) => (date ? format(parseISO(date.split("T")[0]), "MMM d, yyyy") : "…");
+    parts.push(`${formatDate(rule.startDate)} to ${formatDate(rule.endDate)}`);
+  }
+  return parts.join(" · ");
+};
+
+const describeAdjustment = (rule: VenuePricingRule): string => {
+  switch (rule.adjustment) {
+    case "set_rate":
+      return `$${rule.value}/hour`;
+    case "multiplier":
+      return `× ${rule.value}`;
+    default:
+      return `+ $${rule.value}/hour`;
+  }
+};
+
+interface VenuePricingRulesProps {
+  venue: Venue;
+}
+
+export function VenuePricingRules({ venue }: VenuePricingRulesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openDialog, setOpenDialog] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: "",
+      resourceId: WHOLE_VENUE,
+      days: [],
+      startTime: "",
+      endTime: "",
+      startDate: "",
+      endDate: "",
+      adjustment: "multiplier",
+      value: 1,
+    },
+  });
+
+  const { data: rules = [], isLoading } = useQuery<VenuePricingRule[]>({
+    queryKey: ["venue-pricing-rules", venue._id],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/venues/${venue._id}/pricing-rules`, {
+        headers: authHeaders(),
+      });
+      return response.data;
+    },
+  });
+
+  const addRuleMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await axios.post(
+        `${API_URL}/venues/${venue._id}/pricing-rules`,
+        {
+          name: values.name,
+          ...(values.resourceId !== WHOLE_VENUE && { resourceId: values.resourceId }),
+          days: values.days,
+          startTime: values.startTime || undefined,
+          endTime: values.endTime || undefined,
+          startDate: values.startDate || undefined,
+          endDate: values.endDate || undefined,
+          adjustment: values.adjustment,
+          value: values.value,
+        },
+        { headers: { "Content-Type": "application/json", ...authHeaders() } }
+      );
+      return response.data as VenuePricingRule;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Pricing rule added",
+        description: "New bookings are priced with this rule. Existing bookings keep their price.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["venue-pricing-rules", venue._id] });
+      setOpenDialog(false);
+      form.reset();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not add pricing rule",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "An error occurred while saving the rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const response = await axios.delete(`${API_URL}/venues/${venue._id}/pricing-rules/${ruleId}`, {
+        headers: authHeaders(),
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Pricing rule removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["venue-pricing-rules", venue._id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "Failed to remove the pricing rule.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRemove = (ruleId: string) => {
+    if (window.confirm("Remove this pricing rule?")) {
+      removeRuleMutation.mutate(ruleId);
+    }
+  };
+
+  const getResourceName = (resourceId?: string) =>
+    resourceId ? venue.resources?.find((resource) => resource._id === resourceId)?.name || "Court" : "All courts";
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Pricing rules</CardTitle>
+          <CardDescription>
+            Peak, off-peak and seasonal rates for {venue.name}, applied to each hour of a booking on top of the
+            regular rate of ${venue.pricePerHour}/hour.
+          </CardDescription>
+        </div>
+
+        <Dialog open={openDialog} onOpenChange={setOpenDialog}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" /> Add Rule
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Add pricing rule</DialogTitle>
+              <DialogDescription>
+                Leave days, times or dates empty to apply the rule at all of them.
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => addRuleMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Weekend evenings, Summer season" {...field} />
+                      </FormControl>
+                      <FormDescription>Shown to customers in the price breakdown</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="adjustment"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Adjustment</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(ADJUSTMENT_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="value"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Value</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {venue.resources && venue.resources.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="resourceId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Applies to</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={WHOLE_VENUE}>All courts</SelectItem>
+                            {venue.resources.map((resource) => (
+                              <SelectItem key={resource._id} value={resource._id}>
+                                {resource.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <FormField
+                  control={form.control}
+                  name="days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Days</FormLabel>
+                      <div className="grid grid-cols-4 gap-2">
+                        {WEEKDAYS.map((day) => (
+                          <label key={day} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(day)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked ? [...field.value, day] : field.value.filter((entry) => entry !== day)
+                                )
+                              }
+                            />
+                            {day.slice(0, 3)}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="startTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>From</FormLabel>
+                        <FormControl>
+                          <Input type="time" step={900} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="endTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Until</FormLabel>
+                        <FormControl>
+                          <Input type="time" step={900} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="startDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Season starts</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="endDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Season ends</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <DialogFooter>
+                  <Button type="submit" disabled={addRuleMutation.isPending}>
+                    {addRuleMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8">
+            <Tag className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">No pricing rules. Every hour is charged at the regular rate.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div key={rule._id} className="flex items-start justify-between gap-4 rounded-lg border p-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    <Badge variant="secondary">{describeAdjustment(rule)}</Badge>
+                    <Badge variant="outline">{getResourceName(rule.resource)}</Badge>
+                    {!rule.isActive && <Badge variant="outline">Inactive</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">{describeRule(rule)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={removeRuleMutation.isPending}
+                  onClick={() => handleRemove(rule._id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
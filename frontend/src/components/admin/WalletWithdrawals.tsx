@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { format, parseISO } from "date-fns";
+import { Check, Loader2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useCurrencies } from "@/hooks/use-currencies";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+type WithdrawalStatus = "pending" | "processing" | "paid" | "rejected" | "canceled" | "failed";
+
+interface Withdrawal {
+  _id: string;
+  user: { _id: string; name: string; email: string };
+  amount: number;
+  currency: string;
+  status: WithdrawalStatus;
+  reason?: string;
+  paidAmount: number;
+  adminNotes?: string;
+  failureReason?: string;
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+const STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  pending: "Waiting for approval",
+  processing: "Paying out",
+  paid: "Paid",
+  rejected: "Rejected",
+  canceled: "Canceled",
+  failed: "Failed",
+};
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("token")}`,
+});
+
+export default function WalletWithdrawals() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { format: formatAmount } = useCurrencies();
+  const [status, setStatus] = useState<WithdrawalStatus>("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: withdrawals = [], isLoading } = useQuery<Withdrawal[]>({
+    queryKey: ["wallet-withdrawals", status],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/wallet/withdrawals/all`, {
+        headers: authHeaders(),
+        params: { status },
+      });
+      return response.data.withdrawals;
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "approve" | "reject" }) => {
+      const response = await axios.post(
+        `${API_URL}/wallet/withdrawals/${id}/${action}`,
+        { adminNotes: notes[id] || undefined },
+        { headers: authHeaders() }
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Withdrawal updated",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["wallet-withdrawals"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not update withdrawal",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "An error occurred while reviewing the withdrawal.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Wallet Withdrawals</CardTitle>
+          <CardDescription>
+            Approved withdrawals are refunded to the cards the wallet was funded with. Rejected ones go back to the
+            user's wallet.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as WithdrawalStatus)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : withdrawals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No withdrawals with this status.</p>
+        ) : (
+          <div className="space-y-3">
+            {withdrawals.map((withdrawal) => {
+              const isReviewing = reviewMutation.isPending && reviewMutation.variables?.id === withdrawal._id;
+              return (
+                <div key={withdrawal._id} className="border rounded-md p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="font-medium">
+                        {withdrawal.user?.name} <span className="text-muted-foreground">({withdrawal.user?.email})</span>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        Requested {format(parseISO(withdrawal.createdAt), "PPp")}
+                      </div>
+                      {withdrawal.reason && <p className="text-sm mt-1">{withdrawal.reason}</p>}
+                      {withdrawal.failureReason && (
+                        <p className="text-sm text-destructive mt-1">{withdrawal.failureReason}</p>
+                      )}
+                      {withdrawal.adminNotes && (
+                        <p className="text-sm text-muted-foreground mt-1">Notes: {withdrawal.adminNotes}</p>
+                      )}
+                    </div>
+                    <div className="text-right space-y-1">
+                      <div className="font-semibold">{formatAmount(withdrawal.amount, withdrawal.currency)}</div>
+                      {withdrawal.status === "paid" && withdrawal.paidAmount < withdrawal.amount && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatAmount(withdrawal.paidAmount, withdrawal.currency)} paid out
+                        </div>
+                      )}
+                      <Badge variant={withdrawal.status === "failed" ? "destructive" : "secondary"}>
+                        {STATUS_LABELS[withdrawal.status]}
+                      </Badge>
+                    </div>
+                  </div>
+
+                  {withdrawal.status === "pending" && (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Input
+                        placeholder="Notes (optional)"
+                        value={notes[withdrawal._id] || ""}
+                        onChange={(e) => setNotes({ ...notes, [withdrawal._id]: e.target.value })}
+                      />
+                      <Button
+                        onClick={() => reviewMutation.mutate({ id: withdrawal._id, action: "approve" })}
+                        disabled={isReviewing}
+                      >
+                        {isReviewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => reviewMutation.mutate({ id: withdrawal._id, action: "reject" })}
+                        disabled={isReviewing}
+                      >
+                        <X className="h-4 w-4 mr-2" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
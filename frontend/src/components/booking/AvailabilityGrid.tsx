@@ -0,0 +1,93 @@
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { AvailabilitySlot, VenueAvailabilityDay } from "@/types";
+
+interface AvailabilityGridProps {
+  days: VenueAvailabilityDay[];
+  selectedDate?: string;
+  selectedRange?: { start: string; end: string };
+  onSelectSlot?: (date: string, slot: AvailabilitySlot) => void;
+  className?: string;
+}
+
+const slotStyles: Record<AvailabilitySlot['status'], string> = {
+  available: "border-green-200 bg-green-50 text-green-800 hover:bg-green-100",
+  booked: "border-red-200 bg-red-50 text-red-700 line-through cursor-not-allowed",
+  past: "border-muted bg-muted text-muted-foreground cursor-not-allowed",
+};
+
+// Returns true when a slot lies inside the currently selected start/end range
+const isInRange = (slot: AvailabilitySlot, range?: { start: string; end: string }) =>
+  !!range && slot.start >= range.start && slot.end <= range.end;
+
+export function AvailabilityGrid({
+  days,
+  selectedDate,
+  selectedRange,
+  onSelectSlot,
+  className,
+}: AvailabilityGridProps) {
+  if (days.length === 0) {
+    return <p className="text-sm text-muted-foreground">No availability information.</p>;
+  }
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {days.map((day) => (
+        <div key={day.date}>
+          <div className="flex items-baseline justify-between mb-2">
+            <span className="text-sm font-medium">
+              {format(parseISO(day.date), "EEE, MMM d")}
+            </span>
+            {day.note ? (
+              <span className="text-xs text-amber-600">{day.note}</span>
+            ) : day.isOpen ? (
+              <span className="text-xs text-muted-foreground">
+                {day.openTime} - {day.closeTime}
+              </span>
+            ) : (
+              <span className="text-xs text-muted-foreground">Closed</span>
+            )}
+          </div>
+
+          {day.isOpen && day.slots.length > 0 && (
+            <div className="grid grid-cols-4 gap-2">
+              {day.slots.map((slot) => {
+                const isSelected = day.date === selectedDate && isInRange(slot, selectedRange);
+                return (
+                  <button
+                    key={slot.start}
+                    type="button"
+                    disabled={slot.status !== 'available' || !onSelectSlot}
+                    onClick={() => onSelectSlot?.(day.date, slot)}
+                    title={`${slot.start} - ${slot.end} (${slot.status})`}
+                    className={cn(
+                      "rounded-md border px-2 py-1 text-xs font-medium transition-colors",
+                      slotStyles[slot.status],
+                      !onSelectSlot && slot.status === 'available' && "cursor-default hover:bg-green-50",
+                      isSelected && "border-primary bg-primary text-primary-foreground hover:bg-primary"
+                    )}
+                  >
+                    {slot.start}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm border border-green-200 bg-green-50" /> Available
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm border border-red-200 bg-red-50" /> Booked
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm border border-muted bg-muted" /> Unavailable
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,11 @@ import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import axios from "axios";
 import { useToast } from "@/components/ui/use-toast";
-import { Loader2, Calendar, Clock } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { Loader2, Calendar, Clock, ShoppingCart } from "lucide-react";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
@@ -26,9 +27,23 @@ import {
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Label } from "@/components/ui/label";
+import { AvailabilityGrid } from "@/components/booking/AvailabilityGrid";
+import type {
+  AvailabilitySlot,
+  BookingQuote,
+  EquipmentAvailability,
+  VenueAvailability,
+  VenueResource
+} from "@/types";
+import { calculateProratedPrice, formatDuration, getDurationMinutes } from "@/utils/timeUtils";
+import { calculateRentalPrice, getRentalDays } from "@/utils/rentalUtils";
+import { useCurrencies } from "@/hooks/use-currencies";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
 
+// Lets the server place the booking on any court that is free
+const ANY_RESOURCE = "any";
+
 // Define the form schema with Zod
 const venueBookingSchema = z.object({
   date: z.date({
@@ -39,13 +54,21 @@ const venueBookingSchema = z.object({
   notes: z.string().optional(),
 });
 
+// For equipment the date is the pickup date; the return date defaults to it
 const equipmentBookingSchema = z.object({
   date: z.date({
     required_error: "Please select a date",
   }),
+  returnDate: z.date().optional(),
   notes: z.string().optional(),
 });
 
+// Longest rental the server accepts in one booking
+const MAX_RENTAL_DAYS = 30;
+
+type BookingFormValues = z.infer<typeof equipmentBookingSchema> &
+  Partial<Pick<z.infer<typeof venueBookingSchema>, 'startTime' | 'endTime'>>;
+
 interface BookingFormProps {
   itemType: 'venue' | 'equipment';
   itemId: string;
@@ -55,6 +78,9 @@ interface BookingFormProps {
   minDate?: Date;
   maxDate?: Date;
   redirectToPayment?: boolean;
+  minBookingMinutes?: number;
+  resources?: VenueResource[];
+  weeklyPrice?: number;
 }
 
 export function BookingForm({ 
@@ -65,28 +91,24 @@ export function BookingForm({
   disabledDates = [],
   minDate = new Date(),
   maxDate,
-  redirectToPayment = true
+  redirectToPayment = true,
+  minBookingMinutes = 60,
+  resources = [],
+  weeklyPrice
 }: BookingFormProps) {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [isTimeError, setIsTimeError] = useState(false);
   const [calculatedPrice, setCalculatedPrice] = useState(price);
-  const [selectedCurrency, setSelectedCurrency] = useState(localStorage.getItem('preferredCurrency') || 'USD');
-  
-  // Convert price based on currency
-  const convertPrice = (priceInUsd: number, toCurrency: string): number => {
-    if (toCurrency === 'USD') return priceInUsd;
-    // USD to INR conversion
-    return Math.round(priceInUsd * 83.0 * 100) / 100;
-  };
+  const { baseCurrency, currencies, convert, format: formatCurrency, resolve } = useCurrencies();
+  const [preferredCurrency, setSelectedCurrency] = useState(localStorage.getItem('preferredCurrency') || baseCurrency);
+  const selectedCurrency = resolve(preferredCurrency);
+  const [resourceId, setResourceId] = useState(ANY_RESOURCE);
+  const [quantity, setQuantity] = useState(1);
+  const hasResources = itemType === 'venue' && resources.length > 0;
   
-  // Format currency display
-  const formatCurrency = (amount: number, currency: string) => {
-    return new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : 'en-US', {
-      style: 'currency',
-      currency: currency
-    }).format(amount);
-  };
+  // Convert price based on currency (prices are set in the base currency)
+  const convertPrice = (price: number, toCurrency: string): number => convert(price, baseCurrency, toCurrency);
   
   // Get price in selected currency
   const getPriceInSelectedCurrency = () => {
@@ -96,8 +118,8 @@ export function BookingForm({
   // Define form schema based on item type
   const formSchema = itemType === 'venue' ? venueBookingSchema : equipmentBookingSchema;
   
-  // Initialize form
-  const form = useForm<z.infer<typeof formSchema>>({
+  // Initialize form (start/end times are only used for venue bookings)
+  const form = useForm<BookingFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       notes: ""
@@ -136,22 +158,220 @@ export function BookingForm({
         onSuccess();
       }
     },
-    onError: (error: any) => {
+    onError: (error: any, data) => {
       console.error('Booking error:', error);
+      // Slots and rental dates that are already taken can be waitlisted instead
+      const canJoinWaitlist = Boolean(error.response?.data?.canJoinWaitlist);
       toast({
         title: "Booking failed",
         description: error.response?.data?.message || "An error occurred while creating your booking.",
+        variant: "destructive",
+        ...(canJoinWaitlist && {
+          action: (
+            <ToastAction
+              altText="Join the waitlist"
+              onClick={() => {
+                const { subtotalPrice: _subtotalPrice, totalPrice: _totalPrice, ...waitlistRequest } = data;
+                joinWaitlistMutation.mutate(waitlistRequest);
+              }}
+            >
+              Join Waitlist
+            </ToastAction>
+          )
+        })
+      });
+    }
+  });
+
+  // Join the waitlist for a taken slot, to be offered it if it frees up
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const response = await axios.post(`${API_URL}/waitlist`, data, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Added to waitlist",
+        description: `You are number ${data.position} in line. We will email you if it becomes available.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not join waitlist",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "An error occurred while joining the waitlist.",
         variant: "destructive"
       });
     }
   });
 
-  // Time options for venue bookings
-  const timeOptions = [];
-  for (let hour = 8; hour <= 22; hour++) {
-    const hourString = hour.toString().padStart(2, '0');
-    timeOptions.push(`${hourString}:00`);
-  }
+  // Add the booking to the cart instead, to pay for it together with other items
+  const addToCartMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const response = await axios.post(`${API_URL}/cart/items`, data, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Added to cart",
+        description: "Check out your cart to book everything with one payment.",
+      });
+      form.reset();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not add to cart",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "An error occurred while adding to your cart.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Fetch the free/booked slot grid for the selected date (venues only)
+  const selectedDate = form.watch('date');
+  const selectedDateKey = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : undefined;
+
+  const { data: availability, isLoading: isAvailabilityLoading } = useQuery<VenueAvailability>({
+    queryKey: ["venue-availability", itemId, selectedDateKey, selectedDateKey, resourceId],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/venues/${itemId}/availability`, {
+        params: {
+          from: selectedDateKey,
+          to: selectedDateKey,
+          ...(hasResources && resourceId !== ANY_RESOURCE && { resourceId })
+        }
+      });
+      return response.data;
+    },
+    enabled: itemType === 'venue' && !!selectedDateKey,
+  });
+
+  // Rental period for equipment, from pickup to return (inclusive)
+  const returnDate = form.watch('returnDate');
+  const returnDateKey = returnDate ? format(returnDate, 'yyyy-MM-dd') : selectedDateKey;
+  const rentalDays = selectedDate ? getRentalDays(selectedDate, returnDate) : 1;
+
+  // Units of the equipment free for the whole rental period
+  const { data: equipmentAvailability } = useQuery<EquipmentAvailability>({
+    queryKey: ["equipment-availability", itemId, selectedDateKey, returnDateKey],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/equipment/${itemId}/availability`, {
+        params: { from: selectedDateKey, to: returnDateKey }
+      });
+      return response.data;
+    },
+    enabled: itemType === 'equipment' && !!selectedDateKey && rentalDays >= 1,
+  });
+  const availableUnits = equipmentAvailability?.available;
+
+  const selectedDay = availability?.days?.[0];
+  const daySlots: AvailabilitySlot[] = selectedDay?.slots || [];
+
+  // Only free slots can start a booking
+  const startTimeOptions = daySlots
+    .filter((slot) => slot.status === 'available')
+    .map((slot) => slot.start);
+
+  // A booking can extend across consecutive free slots from the chosen start
+  const getEndTimeOptions = (startTime?: string) => {
+    const startIndex = daySlots.findIndex((slot) => slot.start === startTime);
+    if (startIndex === -1) return [];
+
+    const options: string[] = [];
+    for (let i = startIndex; i < daySlots.length; i++) {
+      const slot = daySlots[i];
+      if (slot.status !== 'available' || (i > startIndex && daySlots[i - 1].end !== slot.start)) break;
+      if (getDurationMinutes(daySlots[startIndex].start, slot.end) >= minBookingMinutes) {
+        options.push(slot.end);
+      }
+    }
+    return options;
+  };
+  const endTimeOptions = getEndTimeOptions(form.watch('startTime'));
+
+  // The court that will be booked: the chosen one, or for "any free court"
+  // the first court free for the whole selected range, as the server picks it
+  const getBookedResource = (startTime?: string, endTime?: string): VenueResource | undefined => {
+    if (!hasResources) return undefined;
+    if (resourceId !== ANY_RESOURCE) {
+      return resources.find((resource) => resource._id === resourceId);
+    }
+    if (!startTime || !endTime) return undefined;
+
+    const freeResource = availability?.resources?.find((resource) => {
+      const slots = resource.days[0]?.slots || [];
+      const covered = slots.filter((slot) => slot.start >= startTime && slot.end <= endTime);
+      return covered.length > 0 && covered.every((slot) => slot.status === 'available');
+    });
+    return resources.find((resource) => resource._id === freeResource?.resourceId);
+  };
+  const bookedResource = getBookedResource(form.watch('startTime'), form.watch('endTime'));
+  const hourlyRate = bookedResource?.pricePerHour ?? price;
+
+  // Picking a slot in the grid starts a booking there, using the shortest allowed length
+  const handleSelectSlot = (_date: string, slot: AvailabilitySlot) => {
+    const [shortestEnd] = getEndTimeOptions(slot.start);
+    form.setValue('startTime', slot.start, { shouldValidate: true });
+    form.setValue('endTime', shortestEnd || '', { shouldValidate: true });
+  };
+
+  // A return date before the new pickup date no longer makes sense
+  useEffect(() => {
+    if (itemType === 'equipment' && selectedDate && returnDate && returnDate < selectedDate) {
+      form.setValue('returnDate', undefined);
+    }
+  }, [selectedDate, returnDate, itemType, form]);
+
+  // Clear chosen times when they are no longer free on the selected date
+  useEffect(() => {
+    if (itemType !== 'venue' || !availability) return;
+    const startTime = form.getValues('startTime');
+    const isFree = availability.days?.[0]?.slots?.some(
+      (slot) => slot.start === startTime && slot.status === 'available'
+    );
+    if (startTime && !isFree) {
+      form.setValue('startTime', '');
+      form.setValue('endTime', '');
+    }
+  }, [availability, itemType, form]);
+
+  // Price the chosen venue slot on the server, which applies peak and off-peak rules hour by hour
+  const quoteStart = form.watch('startTime');
+  const quoteEnd = form.watch('endTime');
+  const { data: quote } = useQuery<BookingQuote>({
+    queryKey: ["booking-quote", itemId, selectedDateKey, quoteStart, quoteEnd, resourceId],
+    queryFn: async () => {
+      const response = await axios.post(`${API_URL}/bookings/quote`, {
+        itemType,
+        itemId,
+        ...(hasResources && { resourceId }),
+        date: selectedDateKey,
+        timeSlot: { start: quoteStart, end: quoteEnd }
+      }, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      return response.data;
+    },
+    enabled: itemType === 'venue' && !!selectedDateKey && !!quoteStart && !!quoteEnd
+      && getDurationMinutes(quoteStart, quoteEnd) > 0 && !!localStorage.getItem('token'),
+    retry: false,
+  });
+  const priceBreakdown = itemType === 'venue' && quoteStart && quoteEnd ? quote?.priceBreakdown : undefined;
 
   // Calculate price when start/end time changes
   useEffect(() => {
@@ -159,28 +379,19 @@ export function BookingForm({
       const startTime = form.watch('startTime');
       const endTime = form.watch('endTime');
       
-      if (startTime && endTime) {
-        const startHour = parseInt(startTime.split(':')[0]);
-        const endHour = parseInt(endTime.split(':')[0]);
-        
-        if (endHour > startHour) {
-          const duration = endHour - startHour;
-          setCalculatedPrice(price * duration);
-        }
+      if (startTime && endTime && getDurationMinutes(startTime, endTime) > 0) {
+        setCalculatedPrice(quote?.subtotalPrice ?? calculateProratedPrice(hourlyRate, startTime, endTime));
       }
     } else {
-      setCalculatedPrice(price);
+      setCalculatedPrice(calculateRentalPrice(price, rentalDays, weeklyPrice) * quantity);
     }
-  }, [form.watch('startTime'), form.watch('endTime'), itemType, price]);
+  }, [form.watch('startTime'), form.watch('endTime'), itemType, price, hourlyRate, quantity, rentalDays, weeklyPrice, quote]);
 
   // Handle form submission
-  const onSubmit = (values: any) => {
+  const onSubmit = (values: any, addToCart = false) => {
     // For venue booking, validate that end time is after start time
     if (itemType === 'venue') {
-      const startHour = parseInt(values.startTime.split(':')[0]);
-      const endHour = parseInt(values.endTime.split(':')[0]);
-      
-      if (endHour <= startHour) {
+      if (getDurationMinutes(values.startTime, values.endTime) <= 0) {
         setIsTimeError(true);
         return;
       } else {
@@ -188,20 +399,44 @@ export function BookingForm({
       }
     }
 
-    // Calculate the total price based on duration for venues
-    let calculatedPrice = price;
+    if (itemType === 'equipment' && availableUnits !== undefined && quantity > availableUnits) {
+      toast({
+        title: "Not enough units available",
+        description: `Only ${availableUnits} available for the whole rental period.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Calculate the total price based on duration for venues and units for equipment
+    let calculatedPrice = itemType === 'equipment'
+      ? calculateRentalPrice(price, rentalDays, weeklyPrice) * quantity
+      : price;
     if (itemType === 'venue' && values.startTime && values.endTime) {
-      const startHour = parseInt(values.startTime.split(':')[0]);
-      const endHour = parseInt(values.endTime.split(':')[0]);
-      const duration = endHour - startHour;
-      calculatedPrice = price * duration;
+      calculatedPrice = quote?.subtotalPrice ?? calculateProratedPrice(hourlyRate, values.startTime, values.endTime);
     }
 
     // Prepare booking data
-    const bookingData = {
+    const bookingData: {
+      itemType: string;
+      itemId: string;
+      resourceId?: string;
+      quantity?: number;
+      date: string;
+      returnDate?: string;
+      subtotalPrice: number;
+      totalPrice: number;
+      timeSlot?: { start: string; end: string };
+      notes?: string;
+    } = {
       itemType,
       itemId,
+      ...(hasResources && { resourceId }),
+      ...(itemType === 'equipment' && { quantity }),
       date: format(values.date, 'yyyy-MM-dd'),
+      ...(itemType === 'equipment' && values.returnDate && {
+        returnDate: format(values.returnDate, 'yyyy-MM-dd')
+      }),
       subtotalPrice: calculatedPrice, // Add subtotalPrice field
       totalPrice: calculatedPrice     // Add totalPrice field
     };
@@ -222,19 +457,24 @@ export function BookingForm({
     // Log the data we're sending
     console.log('Submitting booking data:', bookingData);
 
-    // Submit the booking
+    // Submit the booking, or keep it in the cart (the server prices cart lines itself)
+    if (addToCart) {
+      const { subtotalPrice: _subtotalPrice, totalPrice: _totalPrice, ...cartItem } = bookingData;
+      addToCartMutation.mutate(cartItem);
+      return;
+    }
     createBookingMutation.mutate(bookingData);
   };
 
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <form onSubmit={form.handleSubmit((values) => onSubmit(values))} className="space-y-6">
         <FormField
           control={form.control}
           name="date"
           render={({ field }) => (
             <FormItem className="flex flex-col">
-              <FormLabel>Date</FormLabel>
+              <FormLabel>{itemType === 'equipment' ? "Pickup Date" : "Date"}</FormLabel>
               <Popover>
                 <PopoverTrigger asChild>
                   <FormControl>
@@ -281,8 +521,71 @@ export function BookingForm({
           )}
         />
 
+        {itemType === 'equipment' && (
+          <FormField
+            control={form.control}
+            name="returnDate"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Return Date</FormLabel>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <FormControl>
+                      <Button
+                        variant={"outline"}
+                        className="w-full pl-3 text-left font-normal"
+                        disabled={!selectedDate}
+                      >
+                        {field.value ? (
+                          format(field.value, "PPP")
+                        ) : (
+                          <span className="text-muted-foreground">Same day as pickup</span>
+                        )}
+                        <Calendar className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </FormControl>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <CalendarComponent
+                      mode="single"
+                      selected={field.value}
+                      onSelect={field.onChange}
+                      disabled={(date) =>
+                        !selectedDate ||
+                        date < selectedDate ||
+                        getRentalDays(selectedDate, date) > MAX_RENTAL_DAYS
+                      }
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {itemType === 'venue' && (
           <>
+            {hasResources && (
+              <div className="space-y-2">
+                <Label htmlFor="resource">Court</Label>
+                <select
+                  id="resource"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  value={resourceId}
+                  onChange={(e) => setResourceId(e.target.value)}
+                >
+                  <option value={ANY_RESOURCE}>Any free court</option>
+                  {resources.map((resource) => (
+                    <option key={resource._id} value={resource._id}>
+                      {resource.name} ({resource.sportType})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -295,9 +598,14 @@ export function BookingForm({
                         <select
                           className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                           {...field}
+                          disabled={!selectedDateKey || startTimeOptions.length === 0}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            form.setValue('endTime', '');
+                          }}
                         >
                           <option value="">Select time</option>
-                          {timeOptions.slice(0, -1).map((time) => (
+                          {startTimeOptions.map((time) => (
                             <option key={time} value={time}>
                               {time}
                             </option>
@@ -322,9 +630,10 @@ export function BookingForm({
                         <select
                           className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                           {...field}
+                          disabled={endTimeOptions.length === 0}
                         >
                           <option value="">Select time</option>
-                          {timeOptions.slice(1).map((time) => (
+                          {endTimeOptions.map((time) => (
                             <option key={time} value={time}>
                               {time}
                             </option>
@@ -339,6 +648,33 @@ export function BookingForm({
               />
             </div>
 
+            {!selectedDateKey ? (
+              <p className="text-sm text-muted-foreground">
+                Pick a date to see available time slots
+              </p>
+            ) : isAvailabilityLoading ? (
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading available time slots...
+              </div>
+            ) : selectedDay && !selectedDay.isOpen ? (
+              <p className="text-sm text-muted-foreground">
+                {selectedDay.note ||
+                  `${hasResources && resourceId !== ANY_RESOURCE ? "This court" : "This venue"} is closed on the selected date`}
+              </p>
+            ) : selectedDay && (
+              <AvailabilityGrid
+                days={[selectedDay]}
+                selectedDate={selectedDateKey}
+                selectedRange={
+                  form.watch('startTime') && form.watch('endTime')
+                    ? { start: form.watch('startTime'), end: form.watch('endTime') }
+                    : undefined
+                }
+                onSelectSlot={handleSelectSlot}
+              />
+            )}
+
             {isTimeError && (
               <p className="text-sm font-medium text-destructive">
                 End time must be after start time
@@ -347,6 +683,27 @@ export function BookingForm({
           </>
         )}
 
+        {itemType === 'equipment' && (
+          <div className="space-y-2">
+            <Label htmlFor="quantity">Quantity</Label>
+            <Input
+              id="quantity"
+              type="number"
+              min={1}
+              max={availableUnits || undefined}
+              value={quantity}
+              onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+            {selectedDateKey && availableUnits !== undefined && (
+              <p className={`text-xs ${quantity > availableUnits ? "text-destructive" : "text-muted-foreground"}`}>
+                {availableUnits > 0
+                  ? `${availableUnits} available for the selected ${rentalDays > 1 ? "period" : "date"}`
+                  : `None available for the selected ${rentalDays > 1 ? "period" : "date"}`}
+              </p>
+            )}
+          </div>
+        )}
+
         <FormField
           control={form.control}
           name="notes"
@@ -366,23 +723,18 @@ export function BookingForm({
         
         <div className="space-y-2">
           <Label htmlFor="currency">Display Currency</Label>
-          <div className="flex space-x-2">
-            <Button
-              type="button"
-              variant={selectedCurrency === 'USD' ? 'default' : 'outline'}
-              onClick={() => setSelectedCurrency('USD')}
-              className="flex-1"
-            >
-              USD ($)
-            </Button>
-            <Button
-              type="button"
-              variant={selectedCurrency === 'INR' ? 'default' : 'outline'}
-              onClick={() => setSelectedCurrency('INR')}
-              className="flex-1"
-            >
-              INR (₹)
-            </Button>
+          <div className="flex flex-wrap gap-2">
+            {currencies.map((currency) => (
+              <Button
+                key={currency.code}
+                type="button"
+                variant={selectedCurrency === currency.code ? 'default' : 'outline'}
+                onClick={() => setSelectedCurrency(currency.code)}
+                className="flex-1"
+              >
+                {currency.code} ({currency.symbol})
+              </Button>
+            ))}
           </div>
         </div>
         
@@ -393,14 +745,42 @@ export function BookingForm({
               {formatCurrency(getPriceInSelectedCurrency(), selectedCurrency)}
             </span>
           </div>
+          {priceBreakdown && priceBreakdown.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs">
+              {priceBreakdown.map((line) => (
+                <li key={line.start} className="flex justify-between gap-2">
+                  <span className="text-muted-foreground">
+                    {line.start}–{line.end} at {formatCurrency(convertPrice(line.rate, selectedCurrency), selectedCurrency)}/hour
+                    {line.rules.length > 0 && (
+                      <span className="text-amber-600"> ({line.rules.join(", ")})</span>
+                    )}
+                  </span>
+                  <span>{formatCurrency(convertPrice(line.amount, selectedCurrency), selectedCurrency)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
           {itemType === 'venue' && (
             <p className="text-xs text-muted-foreground mt-1">
-              Based on venue rate of {formatCurrency(convertPrice(price, selectedCurrency), selectedCurrency)}/hour
+              {form.watch('startTime') && form.watch('endTime') && 
+                `${formatDuration(getDurationMinutes(form.watch('startTime')!, form.watch('endTime')!))} · `}
+              {bookedResource
+                ? `Based on ${bookedResource.name} rate of ${formatCurrency(convertPrice(hourlyRate, selectedCurrency), selectedCurrency)}/hour`
+                : `Based on venue rate of ${formatCurrency(convertPrice(price, selectedCurrency), selectedCurrency)}/hour`}
+            </p>
+          )}
+          {itemType === 'venue' && quote?.deposit && (
+            <p className="text-xs text-amber-600 mt-1">
+              A refundable {formatCurrency(convertPrice(quote.deposit, selectedCurrency), selectedCurrency)} deposit
+              is held because of missed bookings, and kept if you do not check in.
             </p>
           )}
           {itemType === 'equipment' && (
             <p className="text-xs text-muted-foreground mt-1">
-              Daily rental rate
+              {quantity > 1 ? `${quantity} × ` : ""}
+              {rentalDays} {rentalDays === 1 ? "day" : "days"} at {formatCurrency(convertPrice(price, selectedCurrency), selectedCurrency)}/day
+              {weeklyPrice && rentalDays >= 7 && weeklyPrice < price * 7 &&
+                ` · Weekly rate of ${formatCurrency(convertPrice(weeklyPrice, selectedCurrency), selectedCurrency)} applied`}
             </p>
           )}
         </div>
@@ -419,6 +799,21 @@ export function BookingForm({
             redirectToPayment ? "Continue to Payment" : "Book Now"
           )}
         </Button>
+
+        <Button 
+          type="button" 
+          variant="outline"
+          className="w-full" 
+          disabled={addToCartMutation.isPending}
+          onClick={form.handleSubmit((values) => onSubmit(values, true))}
+        >
+          {addToCartMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <ShoppingCart className="mr-2 h-4 w-4" />
+          )}
+          Add to Cart
+        </Button>
       </form>
     </Form>
   );
@@ -2,7 +2,7 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 
 interface BookingStatusBadgeProps {
-  status: 'pending' | 'confirmed' | 'canceled' | 'completed';
+  status: 'pending' | 'confirmed' | 'canceled' | 'completed' | 'no_show';
   className?: string;
 }
 
@@ -17,6 +17,8 @@ export function BookingStatusBadge({ status, className }: BookingStatusBadgeProp
         return 'bg-red-100 text-red-800 hover:bg-red-100';
       case 'completed':
         return 'bg-blue-100 text-blue-800 hover:bg-blue-100';
+      case 'no_show':
+        return 'bg-orange-100 text-orange-800 hover:bg-orange-100';
       default:
         return '';
     }
@@ -32,6 +34,8 @@ export function BookingStatusBadge({ status, className }: BookingStatusBadgeProp
         return 'Canceled';
       case 'completed':
         return 'Completed';
+      case 'no_show':
+        return 'No-show';
       default:
         return status;
     }
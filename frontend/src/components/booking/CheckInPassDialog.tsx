@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import axios from "axios";
+import { format } from "date-fns";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { CheckInPass } from "@/types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+interface CheckInPassDialogProps {
+  bookingId: string;
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CheckInPassDialog({ bookingId, title, open, onOpenChange }: CheckInPassDialogProps) {
+  const { data: pass, isLoading, error } = useQuery<CheckInPass>({
+    queryKey: ["check-in-pass", bookingId],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/bookings/${bookingId}/check-in-pass`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+      });
+      return response.data;
+    },
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Check-in code</DialogTitle>
+          <DialogDescription>
+            Show this QR code to staff when you arrive for {title}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error || !pass ? (
+          <p className="text-sm text-destructive text-center py-6">
+            {axios.isAxiosError(error) && error.response?.data?.message
+              ? error.response.data.message
+              : "Could not load the check-in code."}
+          </p>
+        ) : (
+          <div className="flex flex-col items-center gap-3">
+            <img src={pass.qrCode} alt="Check-in QR code" className="h-56 w-56" />
+            {pass.checkedInAt ? (
+              <p className="flex items-center text-sm text-green-600">
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Checked in at {format(new Date(pass.checkedInAt), "MMM d, h:mm a")}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Valid until {format(new Date(pass.expiresAt), "MMM d, h:mm a")}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import axios from "axios";
+import { Loader2, Package, ShoppingCart } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useCurrencies } from "@/hooks/use-currencies";
+import type { PackageQuote, VenuePackage, VenueResource } from "@/types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+// Value of the court select that lets the server pick any free court
+const ANY_COURT = "any";
+
+const authHeaders = () => ({
+  "Content-Type": "application/json",
+  Authorization: `Bearer ${localStorage.getItem("token")}`,
+});
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+interface PackageOffersProps {
+  venueId: string;
+  resources?: VenueResource[];
+}
+
+/**
+ * Packages of a venue slot and equipment that customers can add to their
+ * cart; each part is checked for availability when the package is priced.
+ */
+export function PackageOffers({ venueId, resources = [] }: PackageOffersProps) {
+  const { toast } = useToast();
+  const { baseCurrency, format } = useCurrencies();
+  const [selected, setSelected] = useState<VenuePackage | null>(null);
+  const [date, setDate] = useState("");
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [resourceId, setResourceId] = useState(ANY_COURT);
+
+  // Package prices are set in the base currency
+  const formatPrice = (amount: number) => format(amount, baseCurrency);
+
+  const describePricing = (venuePackage: VenuePackage): string =>
+    venuePackage.pricingType === "bundle_price"
+      ? `${formatPrice(venuePackage.value)} for everything`
+      : `${venuePackage.value}% off`;
+
+  const { data: packages = [] } = useQuery<VenuePackage[]>({
+    queryKey: ["venue-packages", venueId],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/packages`, { params: { venueId } });
+      return response.data.packages;
+    },
+  });
+
+  const request = () => ({
+    date,
+    timeSlot: { start, end },
+    ...(resourceId !== ANY_COURT && { resourceId }),
+  });
+
+  const quoteMutation = useMutation({
+    mutationFn: async (packageId: string) => {
+      const response = await axios.post(`${API_URL}/packages/${packageId}/quote`, request(), {
+        headers: authHeaders(),
+      });
+      return response.data as PackageQuote;
+    },
+  });
+
+  const addToCartMutation = useMutation({
+    mutationFn: async (packageId: string) => {
+      const response = await axios.post(
+        `${API_URL}/cart/items`,
+        { itemType: "package", itemId: packageId, ...request() },
+        { headers: authHeaders() }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Added to cart",
+        description: "The court and equipment are booked together when you check out.",
+      });
+      setSelected(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not add package",
+        description: getErrorMessage(error, "An error occurred while adding the package to your cart."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openPackage = (venuePackage: VenuePackage) => {
+    setSelected(venuePackage);
+    quoteMutation.reset();
+  };
+
+  if (packages.length === 0) {
+    return null;
+  }
+
+  const canSubmit = Boolean(selected && date && start && end);
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-xl font-semibold mb-4">Packages</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {packages.map((venuePackage) => (
+          <Card key={venuePackage._id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Package className="h-5 w-5 text-primary" /> {venuePackage.name}
+              </CardTitle>
+              {venuePackage.description && <CardDescription>{venuePackage.description}</CardDescription>}
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {venuePackage.equipmentItems.map((line) => (
+                  <Badge key={line.equipment._id} variant="outline">
+                    {line.quantity} × {line.equipment.name}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-sm font-medium">{describePricing(venuePackage)}</p>
+            </CardContent>
+            <CardFooter>
+              <Button variant="outline" onClick={() => openPackage(venuePackage)}>
+                <ShoppingCart className="h-4 w-4 mr-2" /> Book Package
+              </Button>
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selected?.name}</DialogTitle>
+            <DialogDescription>
+              The equipment is rented for the day of your booking. Canceling cancels the whole package.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="package-date">Date</Label>
+              <Input id="package-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="package-start">From</Label>
+                <Input
+                  id="package-start"
+                  type="time"
+                  step={900}
+                  value={start}
+                  onChange={(e) => setStart(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="package-end">Until</Label>
+                <Input
+                  id="package-end"
+                  type="time"
+                  step={900}
+                  value={end}
+                  onChange={(e) => setEnd(e.target.value)}
+                />
+              </div>
+            </div>
+            {resources.length > 0 && !selected?.resource && (
+              <div className="space-y-1">
+                <Label>Court</Label>
+                <Select value={resourceId} onValueChange={setResourceId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_COURT}>Any free court</SelectItem>
+                    {resources.map((resource) => (
+                      <SelectItem key={resource._id} value={resource._id}>
+                        {resource.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {quoteMutation.isError && (
+              <p className="text-sm text-destructive">
+                {getErrorMessage(quoteMutation.error, "This package is not available at that time.")}
+              </p>
+            )}
+            {quoteMutation.data && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span>Booked separately</span>
+                  <span className="line-through text-muted-foreground">
+                    {formatPrice(quoteMutation.data.componentPrice)}
+                  </span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Package price</span>
+                  <span>{formatPrice(quoteMutation.data.totalPrice)}</span>
+                </div>
+                {quoteMutation.data.saving > 0 && (
+                  <p className="text-xs text-muted-foreground">You save {formatPrice(quoteMutation.data.saving)}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              disabled={!canSubmit || quoteMutation.isPending}
+              onClick={() => selected && quoteMutation.mutate(selected._id)}
+            >
+              {quoteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Check Price
+            </Button>
+            <Button
+              disabled={!canSubmit || addToCartMutation.isPending}
+              onClick={() => selected && addToCartMutation.mutate(selected._id)}
+            >
+              {addToCartMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add to Cart
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
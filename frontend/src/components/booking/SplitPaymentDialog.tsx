@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useCurrencies } from "@/hooks/use-currencies";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+interface InviteRow {
+  email: string;
+  share: string;
+}
+
+interface SplitPaymentDialogProps {
+  bookingId: string;
+  totalPrice: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SplitPaymentDialog({ bookingId, totalPrice, open, onOpenChange }: SplitPaymentDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [splitMethod, setSplitMethod] = useState<"even" | "custom">("even");
+  const [rows, setRows] = useState<InviteRow[]>([{ email: "", share: "" }]);
+  const { baseCurrency, format } = useCurrencies();
+
+  const invitees = rows.filter((row) => row.email.trim());
+
+  // What the organiser is left to pay; the server takes any rounding remainder the same way
+  const organiserShare = splitMethod === "even"
+    ? totalPrice - Math.floor((totalPrice * 100) / (invitees.length + 1)) * invitees.length / 100
+    : totalPrice - invitees.reduce((sum, row) => sum + (Number(row.share) || 0), 0);
+
+  const splitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post(
+        `${API_URL}/bookings/${bookingId}/participants`,
+        {
+          splitMethod,
+          participants: invitees.map((row) => ({
+            email: row.email.trim(),
+            ...(splitMethod === "custom" && { share: Number(row.share) || 0 }),
+          })),
+        },
+        {
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitations sent",
+        description: "The booking is confirmed once everyone has paid their share.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      onOpenChange(false);
+      setRows([{ email: "", share: "" }]);
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not split the booking",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "An error occurred while inviting participants.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<InviteRow>) =>
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Split payment</DialogTitle>
+          <DialogDescription>
+            Invite the people you are playing with to pay their share of {format(totalPrice, baseCurrency)}. Shares
+            still unpaid shortly before the booking would expire are charged to your wallet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Split</Label>
+            <Select value={splitMethod} onValueChange={(value) => setSplitMethod(value as "even" | "custom")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="even">Evenly</SelectItem>
+                <SelectItem value="custom">Custom shares</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Participants</Label>
+            {rows.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="friend@example.com"
+                  value={row.email}
+                  onChange={(e) => updateRow(index, { email: e.target.value })}
+                />
+                {splitMethod === "custom" && (
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Share"
+                    className="w-28"
+                    value={row.share}
+                    onChange={(e) => updateRow(index, { share: e.target.value })}
+                  />
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={rows.length === 1}
+                  onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setRows((current) => [...current, { email: "", share: "" }])}
+            >
+              <Plus className="h-4 w-4 mr-2" /> Add participant
+            </Button>
+          </div>
+
+          <p className={`text-sm ${organiserShare < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+            {organiserShare < 0
+              ? "The shares add up to more than the booking costs."
+              : `Your share: ${format(organiserShare, baseCurrency)}`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={invitees.length === 0 || organiserShare < 0 || splitMutation.isPending}
+            onClick={() => splitMutation.mutate()}
+          >
+            {splitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Invitations
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,7 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { Home, Menu, Calendar, Box, Video, User, LogOut, Shield, BookmarkCheck, Wallet, Tag } from "lucide-react";
+import { Home, Menu, Calendar, Box, Video, User, LogOut, Shield, BookmarkCheck, Wallet, Tag, ShoppingCart } from "lucide-react";
 import { NavItem } from "@/types";
 import { useAuth } from "@/context/AuthContext";
 import { Switch } from "@/components/ui/switch";
@@ -40,6 +40,11 @@ const mainNavItems: NavItem[] = [
     href: "/bookings",
     icon: BookmarkCheck,
   },
+  {
+    title: "Cart",
+    href: "/cart",
+    icon: ShoppingCart,
+  },
   {
     title: "Profile",
     href: "/profile",
@@ -11,6 +11,7 @@ import StripeProvider from './StripeProvider';
 import StripePaymentForm from './StripePaymentForm';
 import { useToast } from '@/components/ui/use-toast';
 import { Label } from '@/components/ui/label';
+import { useCurrencies } from '@/hooks/use-currencies';
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
 
@@ -43,6 +44,10 @@ interface BookingDetails {
   subtotalPrice: number;
   status: string;
   paymentStatus: string;
+  deposit?: {
+    amount: number;
+    status: string;
+  };
 }
 
 const BookingPayment: React.FC<BookingPaymentProps> = ({ bookingId, onSuccess, onCancel }) => {
@@ -50,7 +55,9 @@ const BookingPayment: React.FC<BookingPaymentProps> = ({ bookingId, onSuccess, o
   const [booking, setBooking] = useState<BookingDetails | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<'stripe' | 'wallet'>('stripe');
-  const [selectedCurrency, setSelectedCurrency] = useState(localStorage.getItem('preferredCurrency') || 'USD');
+  const { baseCurrency, currencies, rateId, convert, format: formatMoney, resolve } = useCurrencies();
+  const [preferredCurrency, setSelectedCurrency] = useState(localStorage.getItem('preferredCurrency') || baseCurrency);
+  const selectedCurrency = resolve(preferredCurrency);
   const [walletInfo, setWalletInfo] = useState<{ balance: number, currency: string } | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -151,35 +158,16 @@ const BookingPayment: React.FC<BookingPaymentProps> = ({ bookingId, onSuccess, o
   };
 
   // Format price based on currency
-  const formatPrice = (price: number, currency: string) => {
-    return new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : 'en-US', {
-      style: 'currency',
-      currency: currency
-    }).format(price);
-  };
+  const formatPrice = formatMoney;
 
   // Convert price between currencies if needed
-  const convertPrice = (price: number, fromCurrency: string, toCurrency: string): number => {
-    if (fromCurrency === toCurrency) return price;
-    
-    // Exchange rates
-    const USD_TO_INR = 83.0;
-    const INR_TO_USD = 1/83.0;
-    
-    if (fromCurrency === 'USD' && toCurrency === 'INR') {
-      return Math.round(price * USD_TO_INR * 100) / 100;
-    } else if (fromCurrency === 'INR' && toCurrency === 'USD') {
-      return Math.round(price * INR_TO_USD * 100) / 100;
-    }
-    
-    return price;
-  };
+  const convertPrice = convert;
 
   // Get the price in the selected currency
   const getPriceInSelectedCurrency = (): number => {
     if (!booking) return 0;
-    // Booking prices are stored in USD by default
-    return convertPrice(booking.totalPrice, 'USD', selectedCurrency);
+    // Booking prices are stored in the base currency
+    return convertPrice(booking.totalPrice, baseCurrency, selectedCurrency);
   };
 
   const handleWalletPayment = async () => {
@@ -194,7 +182,8 @@ const BookingPayment: React.FC<BookingPaymentProps> = ({ bookingId, onSuccess, o
           amount: getPriceInSelectedCurrency(),
           currency: selectedCurrency,
           bookingId: bookingId,
-          paymentMethod: 'wallet'
+          paymentMethod: 'wallet',
+          exchangeRateId: rateId
         },
         {
           headers: {
@@ -331,28 +320,35 @@ const BookingPayment: React.FC<BookingPaymentProps> = ({ bookingId, onSuccess, o
                 <span className="font-medium">
                   {formatPrice(getPriceInSelectedCurrency(), selectedCurrency)}
                 </span>
+                
+                {booking.deposit && booking.deposit.amount > 0 && (
+                  <>
+                    <span className="text-muted-foreground">Refundable deposit:</span>
+                    <span>
+                      {formatPrice(convertPrice(booking.deposit.amount, baseCurrency, selectedCurrency), selectedCurrency)}
+                      <span className="block text-xs text-muted-foreground">
+                        Held on your {paymentMethod === 'wallet' ? 'wallet' : 'card'} and released when the equipment is returned
+                      </span>
+                    </span>
+                  </>
+                )}
               </div>
             </div>
             
             <div className="space-y-2">
               <Label htmlFor="currency">Currency</Label>
-              <div className="flex space-x-2">
-                <Button
-                  type="button"
-                  variant={selectedCurrency === 'USD' ? 'default' : 'outline'}
-                  onClick={() => setSelectedCurrency('USD')}
-                  className="flex-1"
-                >
-                  USD ($)
-                </Button>
-                <Button
-                  type="button"
-                  variant={selectedCurrency === 'INR' ? 'default' : 'outline'}
-                  onClick={() => setSelectedCurrency('INR')}
-                  className="flex-1"
-                >
-                  INR (₹)
-                </Button>
+              <div className="flex flex-wrap gap-2">
+                {currencies.map((currency) => (
+                  <Button
+                    key={currency.code}
+                    type="button"
+                    variant={selectedCurrency === currency.code ? 'default' : 'outline'}
+                    onClick={() => setSelectedCurrency(currency.code)}
+                    className="flex-1"
+                  >
+                    {currency.code} ({currency.symbol})
+                  </Button>
+                ))}
               </div>
             </div>
 
@@ -386,6 +382,7 @@ const BookingPayment: React.FC<BookingPaymentProps> = ({ bookingId, onSuccess, o
                 <StripePaymentForm
                   amount={getPriceInSelectedCurrency()}
                   currency={selectedCurrency.toLowerCase()}
+                  exchangeRateId={rateId}
                   bookingId={bookingId}
                   onSuccess={handlePaymentSuccess}
                   onError={handlePaymentError}
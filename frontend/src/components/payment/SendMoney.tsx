@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, Send } from 'lucide-react';
+import { API_URL } from '@/lib/constants';
+
+interface TransferLimit {
+  currency: string;
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+interface SendMoneyProps {
+  balance: number;
+  currency: string;
+  formatCurrency: (amount: number, currency: string) => string;
+  // Called once the money is sent, to reload the balance and statement
+  onSent: () => void;
+}
+
+const SendMoney: React.FC<SendMoneyProps> = ({ balance, currency, formatCurrency, onSent }) => {
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [limit, setLimit] = useState<TransferLimit | null>(null);
+  // Sent with each attempt so a double click or retry cannot send twice
+  const transferKey = useRef(crypto.randomUUID());
+  const { toast } = useToast();
+
+  const fetchLimit = async () => {
+    try {
+      const response = await fetch(`${API_URL}/wallet/transfers/limit`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      const data = await response.json();
+      if (data.success) {
+        setLimit(data.limit);
+      }
+    } catch (error) {
+      console.error('Transfer limit fetch error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchLimit();
+  }, []);
+
+  const handleSend = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = Number(amount);
+    if (!recipient.trim() || !value || value <= 0) {
+      toast({
+        title: 'Missing Details',
+        description: 'Enter who to send money to and a valid amount.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (value > balance) {
+      toast({
+        title: 'Insufficient Balance',
+        description: `You have ${formatCurrency(balance, currency)} available.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      const response = await fetch(`${API_URL}/wallet/transfers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Idempotency-Key': transferKey.current
+        },
+        body: JSON.stringify({
+          recipient: recipient.trim(),
+          amount: value,
+          note: note.trim() || undefined
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to send money');
+      }
+
+      toast({
+        title: 'Money Sent',
+        description: data.message,
+        variant: 'default',
+      });
+      setRecipient('');
+      setAmount('');
+      setNote('');
+      onSent();
+    } catch (error) {
+      console.error('Wallet transfer error:', error);
+      toast({
+        title: 'Transfer Failed',
+        description: error instanceof Error ? error.message : 'An error occurred while sending money',
+        variant: 'destructive',
+      });
+    } finally {
+      transferKey.current = crypto.randomUUID();
+      setIsSending(false);
+      fetchLimit();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSend} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="transferRecipient">Send to</Label>
+        <Input
+          id="transferRecipient"
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+          placeholder="Email address of the person to pay"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transferAmount">Amount ({currency})</Label>
+        <Input
+          id="transferAmount"
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Enter amount"
+        />
+        {limit && (
+          <p className="text-xs text-muted-foreground">
+            You can send {formatCurrency(limit.remaining, limit.currency)} more today
+            (daily limit {formatCurrency(limit.limit, limit.currency)}).
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transferNote">Note (optional)</Label>
+        <Textarea
+          id="transferNote"
+          rows={2}
+          maxLength={200}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. My share of Saturday's court"
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSending}>
+        {isSending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Send className="h-4 w-4 mr-2" />
+        )}
+        Send Money
+      </Button>
+    </form>
+  );
+};
+
+export default SendMoney;
@@ -9,12 +9,15 @@ import { Loader2, AlertCircle, RefreshCw } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { API_URL } from '@/lib/constants';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useCurrencies } from '@/hooks/use-currencies';
 
 interface StripePaymentFormProps {
   amount: number;
   currency: string;
   bookingId?: string;
   discountCode?: string;
+  // Rates the amount was converted with, recorded on the payment
+  exchangeRateId?: string;
   onSuccess: (paymentIntent: any) => void;
   onError: (error: any) => void;
   isLoading?: boolean;
@@ -25,6 +28,7 @@ const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
   currency,
   bookingId,
   discountCode,
+  exchangeRateId,
   onSuccess,
   onError,
   isLoading: externalLoading
@@ -36,6 +40,7 @@ const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
   const [retryCount, setRetryCount] = useState(0);
   const [paymentData, setPaymentData] = useState<any>(null);
   const { toast } = useToast();
+  const { format: formatMoney } = useCurrencies();
   
   // Use either external or internal loading state
   const isLoading = externalLoading || internalLoading;
@@ -70,6 +75,7 @@ const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
       currency: currency.toLowerCase(),
       bookingId,
       discountCode,
+      exchangeRateId,
       paymentMethod: 'stripe'
     };
     
@@ -148,6 +154,42 @@ const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
     }
   };
 
+  // Authorise a security deposit on the same card; it is only captured for deductions on return
+  const confirmDepositHold = async (clientSecret: string) => {
+    if (!stripe || !elements) {
+      throw new Error('Stripe not initialized');
+    }
+    
+    const cardElement = elements.getElement(CardElement);
+
+    if (!cardElement) {
+      throw new Error('Card information not provided');
+    }
+
+    const depositResult = await stripe.confirmCardPayment(clientSecret, {
+      payment_method: {
+        card: cardElement,
+      },
+    });
+
+    if (depositResult.error) {
+      throw new Error(depositResult.error.message || 'Security deposit could not be held');
+    }
+    
+    if (depositResult.paymentIntent.status !== 'requires_capture') {
+      throw new Error('Security deposit was not authorised');
+    }
+
+    await fetch(`${API_URL}/payments/deposits/confirm`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${localStorage.getItem('token')}`
+      },
+      body: JSON.stringify({ paymentIntentId: depositResult.paymentIntent.id }),
+    });
+  };
+
   // Handle retry logic
   const handleRetry = async () => {
     if (retryCount >= 3) {
@@ -184,6 +226,19 @@ const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
       // Confirm the payment
       const paymentIntent = await confirmCardPayment(data.clientSecret);
       
+      // Rentals with a security deposit hold it once the payment has gone through
+      if (data.deposit?.clientSecret) {
+        try {
+          await confirmDepositHold(data.deposit.clientSecret);
+        } catch (depositError) {
+          toast({
+            title: 'Security Deposit Not Held',
+            description: `${depositError instanceof Error ? depositError.message : 'Card declined'}. The deposit must be held before you can pick up the equipment.`,
+            variant: 'destructive',
+          });
+        }
+      }
+      
       // Payment succeeded
       toast({
         title: 'Payment Successful',
@@ -279,10 +334,7 @@ const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
             Processing...
           </>
         ) : (
-          `Pay ${new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: currency.toUpperCase(),
-          }).format(amount)}`
+          `Pay ${formatMoney(amount, currency)}`
         )}
       </Button>
     </form>
@@ -20,6 +20,7 @@ import {
   AlertTitle,
 } from '@/components/ui/alert';
 import { Loader2, CreditCard, Wallet, AlertCircle } from 'lucide-react';
+import { useCurrencies } from '@/hooks/use-currencies';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -63,14 +64,12 @@ const TutorialPayment: React.FC<TutorialPaymentProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<'stripe' | 'wallet'>('wallet');
-  const [selectedCurrency, setSelectedCurrency] = useState<'USD' | 'INR'>('USD');
+  const { baseCurrency, currencies, convert, format, resolve } = useCurrencies();
+  const [preferredCurrency, setSelectedCurrency] = useState(baseCurrency);
+  const selectedCurrency = resolve(preferredCurrency);
   const [walletBalance, setWalletBalance] = useState<number | null>(null);
   const [showInsufficientFunds, setShowInsufficientFunds] = useState(false);
 
-  // Exchange rates
-  const USD_TO_INR = 83.0;
-  const INR_TO_USD = 1 / 83.0;
-
   useEffect(() => {
     // Fetch wallet info when component mounts
     fetchWalletInfo();
@@ -106,32 +105,15 @@ const TutorialPayment: React.FC<TutorialPaymentProps> = ({
     onSuccess();
   };
 
-  const formatPrice = (price: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-    }).format(price);
-  };
+  const formatPrice = format;
 
   // Helper to convert between currencies
-  const convertPrice = (price: number, fromCurrency: string = 'USD', toCurrency: string = 'USD'): number => {
-    if (fromCurrency === toCurrency) {
-      return price;
-    }
-    
-    if (fromCurrency === 'USD' && toCurrency === 'INR') {
-      return Math.round(price * USD_TO_INR * 100) / 100;
-    } else if (fromCurrency === 'INR' && toCurrency === 'USD') {
-      return Math.round(price * INR_TO_USD * 100) / 100;
-    }
-    
-    return price;
-  };
+  const convertPrice = convert;
 
   // Get the price in the selected currency
   const getPriceInSelectedCurrency = (): number => {
-    // Tutorial prices are stored in USD by default
-    return convertPrice(price, 'USD', selectedCurrency);
+    // Tutorial prices are stored in the base currency
+    return convertPrice(price, baseCurrency, selectedCurrency);
   };
 
   const handleWalletPayment = async () => {
@@ -298,23 +280,18 @@ const TutorialPayment: React.FC<TutorialPaymentProps> = ({
             
             <div className="space-y-2">
               <Label htmlFor="currency">Currency</Label>
-              <div className="flex space-x-2">
-                <Button
-                  type="button"
-                  variant={selectedCurrency === 'USD' ? 'default' : 'outline'}
-                  onClick={() => setSelectedCurrency('USD')}
-                  className="flex-1"
-                >
-                  USD ($)
-                </Button>
-                <Button
-                  type="button"
-                  variant={selectedCurrency === 'INR' ? 'default' : 'outline'}
-                  onClick={() => setSelectedCurrency('INR')}
-                  className="flex-1"
-                >
-                  INR (₹)
-                </Button>
+              <div className="flex flex-wrap gap-2">
+                {currencies.map((currency) => (
+                  <Button
+                    key={currency.code}
+                    type="button"
+                    variant={selectedCurrency === currency.code ? 'default' : 'outline'}
+                    onClick={() => setSelectedCurrency(currency.code)}
+                    className="flex-1"
+                  >
+                    {currency.code} ({currency.symbol})
+                  </Button>
+                ))}
               </div>
             </div>
 
@@ -5,14 +5,26 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
-import { Loader2, Plus, ArrowDown, ArrowRight, RefreshCw } from 'lucide-react';
+import { Loader2, Plus, ArrowDown, ArrowRight, RefreshCw, Lock } from 'lucide-react';
 import StripeProvider from './StripeProvider';
 import StripePaymentForm from './StripePaymentForm';
+import SendMoney from './SendMoney';
+import WithdrawFunds from './WithdrawFunds';
 import { API_URL } from '@/lib/constants';
+import { useCurrencies } from '@/hooks/use-currencies';
 
 interface WalletTransaction {
   amount: number;
-  type: 'credit' | 'debit' | 'conversion';
+  type:
+    | 'credit'
+    | 'debit'
+    | 'conversion'
+    | 'deposit_hold'
+    | 'deposit_release'
+    | 'deposit_deduction'
+    | 'withdrawal_hold'
+    | 'withdrawal_release'
+    | 'withdrawal';
   description: string;
   reference?: string;
   createdAt: Date;
@@ -24,10 +36,18 @@ interface WalletTransaction {
 
 interface Wallet {
   balance: number;
+  heldBalance?: number;
   currency: string;
   transactions: WalletTransaction[];
 }
 
+// Transactions that add to the spendable balance
+const isIncoming = (type: WalletTransaction['type']) =>
+  type === 'credit' || type === 'deposit_release' || type === 'withdrawal_release';
+
+// Transactions that set money aside without spending it
+const isHold = (type: WalletTransaction['type']) => type === 'deposit_hold' || type === 'withdrawal_hold';
+
 const UserWallet: React.FC = () => {
   const [wallet, setWallet] = useState<Wallet | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -39,13 +59,9 @@ const UserWallet: React.FC = () => {
   const [selectedCurrency, setSelectedCurrency] = useState<string>('USD');
   const [isChangingCurrency, setIsChangingCurrency] = useState(false);
   const { toast } = useToast();
+  const { baseCurrency, currencies, format } = useCurrencies();
 
   useEffect(() => {
-    // Set INR as the default currency if none is set
-    if (!localStorage.getItem('preferredCurrency')) {
-      localStorage.setItem('preferredCurrency', 'INR');
-    }
-    
     fetchWallet();
     
     // Set up automatic refresh every 30 seconds
@@ -116,9 +132,8 @@ const UserWallet: React.FC = () => {
   };
   
   const refreshWalletData = async () => {
-    // Get user's location/region preference - for simplicity we're using 'INR' directly
-    // In a production app, you might determine this from user settings or browser locale
-    const preferredCurrency = localStorage.getItem('preferredCurrency') || 'INR';
+    // New wallets are opened in the user's preferred currency, or the base currency
+    const preferredCurrency = localStorage.getItem('preferredCurrency') || baseCurrency;
 
     const response = await fetch(`${API_URL}/wallet?preferredCurrency=${preferredCurrency}`, {
       headers: {
@@ -210,22 +225,8 @@ const UserWallet: React.FC = () => {
     setFundAmount('');
   };
 
-  const formatCurrency = (amount: number, currency: string) => {
-    const currencyOptions = {
-      style: 'currency',
-      currency: currency || 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    };
-
-    if (currency === 'INR') {
-      // Format INR with Indian locale and ₹ symbol
-      return new Intl.NumberFormat('en-IN', currencyOptions).format(amount);
-    } else {
-      // Format USD with US locale and $ symbol
-      return new Intl.NumberFormat('en-US', currencyOptions).format(amount);
-    }
-  };
+  const formatCurrency = (amount: number, currency: string) => format(amount, currency || baseCurrency);
+  const walletCurrency = currencies.find((currency) => currency.code === wallet?.currency);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -370,35 +371,44 @@ const UserWallet: React.FC = () => {
               <div className="text-3xl font-bold text-primary-foreground mt-1">
                 {formatCurrency(wallet.balance, wallet.currency)}
               </div>
+              {!!wallet.heldBalance && wallet.heldBalance > 0 && (
+                <div className="flex items-center text-sm text-primary-foreground/70 mt-1">
+                  <Lock className="h-3 w-3 mr-1" />
+                  {formatCurrency(wallet.heldBalance, wallet.currency)} held for security deposits
+                </div>
+              )}
               <div className="flex items-center justify-between mt-2">
                 <div className="text-xs text-primary-foreground/70">
-                  Currency: {wallet.currency === 'INR' ? '₹ Indian Rupee' : '$ US Dollar'}
+                  Currency: {walletCurrency ? `${walletCurrency.symbol} ${walletCurrency.name}` : wallet.currency}
                 </div>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={() => {
-                    const newCurrency = wallet.currency === 'USD' ? 'INR' : 'USD';
-                    handleCurrencyChange(newCurrency);
-                  }}
-                  disabled={isChangingCurrency}
-                  className="text-xs"
-                >
-                  {isChangingCurrency ? (
-                    <>
-                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                      Converting...
-                    </>
-                  ) : (
-                    <>Convert to {wallet.currency === 'USD' ? 'INR ₹' : 'USD $'}</>
-                  )}
-                </Button>
+                {isChangingCurrency ? (
+                  <div className="flex items-center text-xs text-primary-foreground/70">
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    Converting...
+                  </div>
+                ) : (
+                  <select
+                    aria-label="Convert wallet currency"
+                    className="h-8 rounded-md border border-input bg-background px-2 text-xs text-foreground"
+                    value={wallet.currency}
+                    onChange={(e) => handleCurrencyChange(e.target.value)}
+                    disabled={currencies.length < 2}
+                  >
+                    {currencies.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code === wallet.currency ? currency.code : `Convert to ${currency.code} ${currency.symbol}`}
+                      </option>
+                    ))}
+                  </select>
+                )}
               </div>
             </div>
             
             <Tabs defaultValue="balance" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="balance">Balance</TabsTrigger>
+                <TabsTrigger value="send">Send</TabsTrigger>
+                <TabsTrigger value="withdraw">Withdraw</TabsTrigger>
                 <TabsTrigger value="transactions">Transactions</TabsTrigger>
               </TabsList>
               
@@ -426,8 +436,11 @@ const UserWallet: React.FC = () => {
                         value={selectedCurrency}
                         onChange={(e) => handleCurrencyChange(e.target.value)}
                       >
-                        <option value="USD">USD ($)</option>
-                        <option value="INR">INR (₹)</option>
+                        {currencies.map((currency) => (
+                          <option key={currency.code} value={currency.code}>
+                            {currency.code} ({currency.symbol})
+                          </option>
+                        ))}
                       </select>
                     </div>
                     
@@ -460,6 +473,22 @@ const UserWallet: React.FC = () => {
                 )}
               </TabsContent>
               
+              <TabsContent value="send" className="mt-4">
+                <SendMoney
+                  balance={wallet.balance}
+                  currency={wallet.currency}
+                  formatCurrency={formatCurrency}
+                  onSent={() => refreshWalletData().catch(err => console.error('Wallet refresh error:', err))}
+                />
+              </TabsContent>
+              
+              <TabsContent value="withdraw" className="mt-4">
+                <WithdrawFunds
+                  formatCurrency={formatCurrency}
+                  onChange={() => refreshWalletData().catch(err => console.error('Wallet refresh error:', err))}
+                />
+              </TabsContent>
+              
               <TabsContent value="transactions" className="mt-4">
                 {wallet.transactions && wallet.transactions.length > 0 ? (
                   <div className="space-y-4">
@@ -469,9 +498,11 @@ const UserWallet: React.FC = () => {
                         className={`flex items-center justify-between p-3 border rounded-md ${transaction.type === 'conversion' ? 'bg-blue-50' : ''}`}
                       >
                         <div className="flex items-center space-x-3">
-                          {transaction.type === 'credit' ? (
+                          {isIncoming(transaction.type) ? (
                             <ArrowDown className="h-5 w-5 text-green-500" />
-                          ) : transaction.type === 'debit' ? (
+                          ) : isHold(transaction.type) ? (
+                            <Lock className="h-5 w-5 text-amber-500" />
+                          ) : transaction.type !== 'conversion' ? (
                             <ArrowRight className="h-5 w-5 text-red-500" />
                           ) : (
                             <RefreshCw className="h-5 w-5 text-blue-500" />
@@ -528,24 +559,26 @@ const UserWallet: React.FC = () => {
                           </div>
                         </div>
                         <div className={`font-medium ${
-                          transaction.type === 'credit' 
+                          isIncoming(transaction.type) 
                             ? 'text-green-500' 
-                            : transaction.type === 'debit' 
-                              ? 'text-red-500' 
-                              : 'text-blue-500'}`}>
+                            : isHold(transaction.type) 
+                              ? 'text-amber-500' 
+                              : transaction.type !== 'conversion' 
+                                ? 'text-red-500' 
+                                : 'text-blue-500'}`}>
                           {transaction.type === 'conversion' 
                             ? 'Currency Conversion' 
                             : (() => {
                                 // Use original currency & amount if available in metadata
                                 if (transaction.metadata?.originalCurrency && transaction.metadata?.originalAmount) {
-                                  return (transaction.type === 'credit' ? '+' : '-') + 
+                                  return (isIncoming(transaction.type) ? '+' : '-') + 
                                     formatCurrency(
                                       transaction.metadata.originalAmount, 
                                       transaction.metadata.originalCurrency
                                     );
                                 }
                                 // Otherwise use current wallet currency
-                                return (transaction.type === 'credit' ? '+' : '-') + 
+                                return (isIncoming(transaction.type) ? '+' : '-') + 
                                   formatCurrency(transaction.amount, wallet.currency);
                               })()
                           }
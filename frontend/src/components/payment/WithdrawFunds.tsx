@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, ArrowUpRight } from 'lucide-react';
+import { API_URL } from '@/lib/constants';
+
+interface Withdrawal {
+  _id: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'processing' | 'paid' | 'rejected' | 'canceled' | 'failed';
+  paidAmount: number;
+  adminNotes?: string;
+  failureReason?: string;
+  createdAt: string;
+}
+
+interface Withdrawable {
+  currency: string;
+  available: number;
+}
+
+const STATUS_LABELS: Record<Withdrawal['status'], string> = {
+  pending: 'Waiting for approval',
+  processing: 'Paying out',
+  paid: 'Paid to card',
+  rejected: 'Rejected',
+  canceled: 'Canceled',
+  failed: 'Failed',
+};
+
+interface WithdrawFundsProps {
+  formatCurrency: (amount: number, currency: string) => string;
+  // Called once a withdrawal is requested or canceled, to reload the balance and statement
+  onChange: () => void;
+}
+
+const WithdrawFunds: React.FC<WithdrawFundsProps> = ({ formatCurrency, onChange }) => {
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [withdrawable, setWithdrawable] = useState<Withdrawable | null>(null);
+  // Sent with each request so a double click or retry cannot withdraw twice
+  const withdrawalKey = useRef(crypto.randomUUID());
+  const { toast } = useToast();
+
+  const fetchWithdrawals = async () => {
+    try {
+      const response = await fetch(`${API_URL}/wallet/withdrawals`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      const data = await response.json();
+      if (data.success) {
+        setWithdrawals(data.withdrawals);
+        setWithdrawable(data.withdrawable);
+      }
+    } catch (error) {
+      console.error('Withdrawals fetch error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchWithdrawals();
+  }, []);
+
+  const openWithdrawal = withdrawals.find(withdrawal => withdrawal.status === 'pending');
+
+  const handleWithdraw = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = Number(amount);
+    if (!value || value <= 0) {
+      toast({
+        title: 'Invalid Amount',
+        description: 'Please enter a valid amount to withdraw.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`${API_URL}/wallet/withdrawals`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          'Idempotency-Key': withdrawalKey.current
+        },
+        body: JSON.stringify({
+          amount: value,
+          reason: reason.trim() || undefined
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to request withdrawal');
+      }
+
+      toast({
+        title: 'Withdrawal Requested',
+        description: data.message,
+        variant: 'default',
+      });
+      setAmount('');
+      setReason('');
+      onChange();
+    } catch (error) {
+      console.error('Withdrawal request error:', error);
+      toast({
+        title: 'Withdrawal Failed',
+        description: error instanceof Error ? error.message : 'An error occurred while requesting the withdrawal',
+        variant: 'destructive',
+      });
+    } finally {
+      withdrawalKey.current = crypto.randomUUID();
+      setIsSubmitting(false);
+      fetchWithdrawals();
+    }
+  };
+
+  const handleCancel = async (withdrawalId: string) => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`${API_URL}/wallet/withdrawals/${withdrawalId}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || 'Failed to cancel withdrawal');
+      }
+
+      toast({
+        title: 'Withdrawal Canceled',
+        description: data.message,
+        variant: 'default',
+      });
+      onChange();
+    } catch (error) {
+      console.error('Withdrawal cancel error:', error);
+      toast({
+        title: 'Cancel Failed',
+        description: error instanceof Error ? error.message : 'An error occurred while canceling the withdrawal',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+      fetchWithdrawals();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {openWithdrawal ? (
+        <div className="p-4 border rounded-md space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="font-medium">
+              {formatCurrency(openWithdrawal.amount, openWithdrawal.currency)} withdrawal
+            </div>
+            <Badge variant="secondary">{STATUS_LABELS[openWithdrawal.status]}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            The amount is held from your balance until it is approved, then refunded to the card you added it with.
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => handleCancel(openWithdrawal._id)}
+            disabled={isSubmitting}
+          >
+            Cancel Withdrawal
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleWithdraw} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="withdrawAmount">Amount to Withdraw</Label>
+            <Input
+              id="withdrawAmount"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Enter amount"
+            />
+            {withdrawable && (
+              <p className="text-xs text-muted-foreground">
+                You can withdraw up to {formatCurrency(withdrawable.available, withdrawable.currency)}. Only money
+                added by card can be withdrawn, and it is refunded to that card.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="withdrawReason">Reason (optional)</Label>
+            <Textarea
+              id="withdrawReason"
+              rows={2}
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting || !withdrawable?.available}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ArrowUpRight className="h-4 w-4 mr-2" />
+            )}
+            Request Withdrawal
+          </Button>
+        </form>
+      )}
+
+      {withdrawals.filter(withdrawal => withdrawal._id !== openWithdrawal?._id).length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Past Withdrawals</div>
+          {withdrawals
+            .filter(withdrawal => withdrawal._id !== openWithdrawal?._id)
+            .slice(0, 5)
+            .map(withdrawal => (
+              <div key={withdrawal._id} className="flex items-center justify-between p-3 border rounded-md text-sm">
+                <div>
+                  <div>{formatCurrency(withdrawal.amount, withdrawal.currency)}</div>
+                  {(withdrawal.failureReason || withdrawal.adminNotes) && (
+                    <div className="text-muted-foreground">{withdrawal.failureReason || withdrawal.adminNotes}</div>
+                  )}
+                </div>
+                <Badge variant={withdrawal.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {STATUS_LABELS[withdrawal.status]}
+                </Badge>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WithdrawFunds;
@@ -0,0 +1,129 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { CalendarPlus, Copy, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { API_URL } from '@/lib/constants';
+import type { CalendarFeeds as CalendarFeedUrls } from '@/types';
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem('token')}`
+});
+
+interface FeedRowProps {
+  label: string;
+  url: string;
+  resetting: boolean;
+  onReset: () => void;
+}
+
+function FeedRow({ label, url, resetting, onReset }: FeedRowProps) {
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(url);
+    toast.success('Feed link copied');
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <div className="flex gap-1">
+        <Input readOnly value={url} className="text-xs" onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" size="icon" title="Copy link" onClick={copyUrl}>
+          <Copy className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          title="Revoke and create a new link"
+          disabled={resetting}
+          onClick={onReset}
+        >
+          <RefreshCw className={`h-4 w-4 ${resetting ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CalendarFeeds() {
+  const queryClient = useQueryClient();
+
+  const { data: feeds, isLoading } = useQuery<CalendarFeedUrls>({
+    queryKey: ['calendarFeeds'],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/calendar/feeds`, { headers: authHeaders() });
+      return response.data;
+    }
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (venueId?: string) => {
+      const response = await axios.post(
+        `${API_URL}/calendar/feeds/reset`,
+        venueId ? { venueId } : {},
+        { headers: authHeaders() }
+      );
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendarFeeds'] });
+      toast.success('The old link no longer works. Subscribe with the new one.');
+    },
+    onError: (error) => {
+      toast.error(
+        axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : 'Failed to reset calendar feed'
+      );
+    }
+  });
+
+  const confirmReset = (venueId?: string) => {
+    if (window.confirm('Calendars subscribed with the current link will stop updating. Create a new link?')) {
+      resetMutation.mutate(venueId);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <CalendarPlus className="h-5 w-5 mr-2" /> Calendar Feeds
+        </CardTitle>
+        <CardDescription>
+          Subscribe to these links in Google Calendar, Outlook or Apple Calendar to see your bookings there.
+          Keep them private: anyone with a link can see the bookings in it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !feeds ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <FeedRow
+              label="My bookings"
+              url={feeds.userFeedUrl}
+              resetting={resetMutation.isPending && !resetMutation.variables}
+              onReset={() => confirmReset()}
+            />
+            {feeds.venues.map((venue) => (
+              <FeedRow
+                key={venue.venueId}
+                label={`Bookings at ${venue.name}`}
+                url={venue.feedUrl}
+                resetting={resetMutation.isPending && resetMutation.variables === venue.venueId}
+                onReset={() => confirmReset(venue.venueId)}
+              />
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import axios from "axios";
+import { API_URL } from "@/lib/constants";
+import { CurrencyConfig, DEFAULT_CURRENCY_CONFIG, convertMoney, formatMoney } from "@/lib/currency";
+
+/**
+ * Supported currencies and current exchange rates, with helpers to convert
+ * and format prices the same way everywhere
+ */
+export function useCurrencies() {
+  const { data: config = DEFAULT_CURRENCY_CONFIG, isLoading } = useQuery<CurrencyConfig>({
+    queryKey: ["currencies"],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/currencies`);
+      return response.data;
+    },
+    staleTime: 60 * 60 * 1000,
+  });
+
+  // A currency prices can be shown in, falling back to the base currency
+  const resolve = (code?: string | null) =>
+    code && config.rates[code.toUpperCase()] ? code.toUpperCase() : config.baseCurrency;
+
+  return {
+    ...config,
+    isLoading,
+    resolve,
+    convert: (amount: number, from: string, to: string) => convertMoney(amount, from, to, config),
+    format: (amount: number, code: string) => formatMoney(amount, code, config),
+  };
+}
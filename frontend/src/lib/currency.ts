@@ -0,0 +1,53 @@
+// Currencies and exchange rates as served by GET /api/currencies
+
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol: string;
+  // Locale amounts in this currency are formatted with
+  locale: string;
+  // Digits after the decimal point
+  decimals: number;
+}
+
+export interface CurrencyConfig {
+  // Currency prices are set in
+  baseCurrency: string;
+  currencies: CurrencyInfo[];
+  // Units of each currency one unit of the base currency buys
+  rates: Record<string, number>;
+  // Stored rates record the rates came from, sent with payments so they record the rate shown
+  rateId?: string;
+  fetchedAt?: string;
+}
+
+// Used until the currencies have loaded: prices are shown in the base currency
+export const DEFAULT_CURRENCY_CONFIG: CurrencyConfig = {
+  baseCurrency: 'USD',
+  currencies: [{ code: 'USD', name: 'US Dollar', symbol: '$', locale: 'en-US', decimals: 2 }],
+  rates: { USD: 1 },
+};
+
+export const findCurrency = (config: CurrencyConfig, code: string): CurrencyInfo | undefined =>
+  config.currencies.find((currency) => currency.code === code.toUpperCase());
+
+// Format an amount in a currency the way the currency is written
+export const formatMoney = (amount: number, code: string, config: CurrencyConfig = DEFAULT_CURRENCY_CONFIG): string => {
+  const currency = findCurrency(config, code);
+  return new Intl.NumberFormat(currency?.locale || 'en-US', {
+    style: 'currency',
+    currency: code.toUpperCase(),
+    minimumFractionDigits: currency?.decimals,
+    maximumFractionDigits: currency?.decimals,
+  }).format(amount);
+};
+
+// Convert an amount between currencies, rounded to cents
+export const convertMoney = (amount: number, from: string, to: string, config: CurrencyConfig): number => {
+  const fromRate = config.rates[from.toUpperCase()];
+  const toRate = config.rates[to.toUpperCase()];
+  if (from.toUpperCase() === to.toUpperCase() || !fromRate || !toRate) {
+    return amount;
+  }
+  return Math.round(amount * (toRate / fromRate) * 100) / 100;
+};
@@ -34,6 +34,9 @@ const equipmentSchema = z.object({
   condition: z.enum(["New", "Like New", "Good", "Fair", "Poor"]),
   purchasePrice: z.number().positive("Price must be positive"),
   rentalPriceDaily: z.number().positive("Rental price must be positive"),
+  rentalPriceWeekly: z.number().positive("Weekly price must be positive").optional(),
+  lateFeeDaily: z.number().min(0, "Late fee cannot be negative").optional(),
+  depositAmount: z.number().min(0, "Deposit cannot be negative").optional(),
   availability: z.enum(["In Stock", "Low Stock", "Out of Stock", "Discontinued"]).default("In Stock"),
   quantity: z.number().int().min(0, "Quantity cannot be negative"),
   features: z.array(z.string()),
@@ -183,6 +186,66 @@ export default function AddEquipment() {
                 </FormItem>
               )}
             />
+
+            <FormField
+              control={form.control}
+              name="rentalPriceWeekly"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Weekly Rental Price ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="Optional"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="lateFeeDaily"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Late Fee per Day ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="Defaults to daily price"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="depositAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Security Deposit per Unit ($)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      placeholder="No deposit"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
         </div>
 
@@ -29,6 +29,17 @@ const timeSlotSchema = z.object({
   closeTime: z.string().min(1, "Closing time is required"),
 });
 
+// A separately bookable court; without its own hours it uses the venue's
+const resourceSchema = z.object({
+  name: z.string().min(1, "Court name is required"),
+  sportType: z.string().min(1, "Sport type is required"),
+  pricePerHour: z.number().positive("Price must be positive").optional(),
+  capacity: z.number().int().positive("Capacity must be positive").optional(),
+  bufferBeforeMinutes: z.number().int().min(0, "Buffer cannot be negative").optional(),
+  bufferAfterMinutes: z.number().int().min(0, "Buffer cannot be negative").optional(),
+  availableTimeSlots: z.array(timeSlotSchema),
+});
+
 const venueSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
@@ -41,7 +52,13 @@ const venueSchema = z.object({
   amenities: z.array(z.string()),
   pricePerHour: z.number().positive("Price must be positive"),
   capacity: z.number().int().positive("Capacity must be positive"),
+  slotGranularityMinutes: z.number().int().refine((value) => [15, 30, 60].includes(value), "Choose 15, 30 or 60 minutes"),
+  minBookingMinutes: z.number().int().min(15, "Minimum booking must be at least 15 minutes"),
+  // Changeover time kept free around each booking; not charged to customers
+  bufferBeforeMinutes: z.number().int().min(0, "Buffer cannot be negative"),
+  bufferAfterMinutes: z.number().int().min(0, "Buffer cannot be negative"),
   availableTimeSlots: z.array(timeSlotSchema).min(1, "At least one time slot is required"),
+  resources: z.array(resourceSchema),
   rules: z.array(z.string()),
   contactInfo: z.object({
     phone: z.string().min(10, "Valid phone number required"),
@@ -81,7 +98,12 @@ export default function AddVenue() {
       amenities: [],
       pricePerHour: 0,
       capacity: 0,
+      slotGranularityMinutes: 60,
+      minBookingMinutes: 60,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0,
       availableTimeSlots: [{ day: "Monday", openTime: "09:00", closeTime: "18:00" }],
+      resources: [],
       rules: [],
       contactInfo: {
         phone: "",
@@ -190,6 +212,35 @@ export default function AddVenue() {
     }
   };
 
+  const addResource = () => {
+    const resources = form.getValues("resources");
+    form.setValue("resources", [
+      ...resources,
+      { name: `Court ${resources.length + 1}`, sportType: "", availableTimeSlots: [] },
+    ]);
+  };
+
+  const removeResource = (index: number) => {
+    form.setValue(
+      "resources",
+      form.getValues("resources").filter((_, i) => i !== index)
+    );
+  };
+
+  const addResourceTimeSlot = (index: number) => {
+    form.setValue(`resources.${index}.availableTimeSlots`, [
+      ...form.getValues(`resources.${index}.availableTimeSlots`),
+      { day: "Monday", openTime: "09:00", closeTime: "18:00" },
+    ]);
+  };
+
+  const removeResourceTimeSlot = (index: number, slotIndex: number) => {
+    form.setValue(
+      `resources.${index}.availableTimeSlots`,
+      form.getValues(`resources.${index}.availableTimeSlots`).filter((_, i) => i !== slotIndex)
+    );
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -247,6 +298,101 @@ export default function AddVenue() {
               )}
             />
           </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="slotGranularityMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Slot Granularity</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                    value={field.value.toString()}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select granularity" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="15">Every 15 minutes</SelectItem>
+                      <SelectItem value="30">Every 30 minutes</SelectItem>
+                      <SelectItem value="60">Every hour</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="minBookingMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum Booking (minutes)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step={15}
+                      placeholder="60"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="bufferBeforeMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Buffer Before Booking (minutes)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={5}
+                      placeholder="0"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseInt(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="bufferAfterMinutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Buffer After Booking (minutes)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={5}
+                      placeholder="0"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value === "" ? 0 : parseInt(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Changeover time for cleaning or setup is kept free between bookings and is not charged to customers.
+          </p>
         </div>
 
         <FormField
@@ -618,6 +764,232 @@ export default function AddVenue() {
           )}
         </div>
 
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-medium">Courts</h3>
+              <p className="text-sm text-muted-foreground">
+                Optional. Add courts to let customers book them separately.
+              </p>
+            </div>
+            <Button type="button" onClick={addResource} variant="outline" size="sm">
+              <PlusIcon className="h-4 w-4 mr-1" /> Add Court
+            </Button>
+          </div>
+
+          {form.watch("resources").map((resource, index) => (
+            <Card key={index}>
+              <CardContent className="p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                  <FormField
+                    control={form.control}
+                    name={`resources.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Court 1" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`resources.${index}.sportType`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sport</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select sport" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {sportTypeOptions.map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {type}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`resources.${index}.pricePerHour`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Price per Hour ($)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="Venue price"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`resources.${index}.capacity`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Capacity</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            placeholder="Optional"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="icon"
+                    className="mb-2"
+                    onClick={() => removeResource(index)}
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name={`resources.${index}.bufferBeforeMinutes`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Buffer Before (minutes)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step={5}
+                            placeholder="Venue buffer"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`resources.${index}.bufferAfterMinutes`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Buffer After (minutes)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step={5}
+                            placeholder="Venue buffer"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Opening Hours</span>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => addResourceTimeSlot(index)}>
+                      <PlusIcon className="h-3 w-3 mr-1" /> Add Hours
+                    </Button>
+                  </div>
+                  {resource.availableTimeSlots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Uses the venue's opening hours</p>
+                  ) : (
+                    resource.availableTimeSlots.map((_, slotIndex) => (
+                      <div key={slotIndex} className="grid grid-cols-4 items-center gap-2">
+                        <FormField
+                          control={form.control}
+                          name={`resources.${index}.availableTimeSlots.${slotIndex}.day`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select day" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {dayOptions.map((day) => (
+                                    <SelectItem key={day} value={day}>
+                                      {day}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`resources.${index}.availableTimeSlots.${slotIndex}.openTime`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="time" {...field} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`resources.${index}.availableTimeSlots.${slotIndex}.closeTime`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="time" {...field} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeResourceTimeSlot(index, slotIndex)}
+                        >
+                          <Trash2Icon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
         <Button type="submit" className="w-full" disabled={createVenue.isPending}>
           {createVenue.isPending ? "Creating..." : "Create Venue"}
         </Button>
@@ -4,6 +4,7 @@ import { AdminNav } from "@/components/admin/AdminNav";
 import AddVenue from "./AddVenue";
 import AddEquipment from "./AddEquipment";
 import AddTutorial from "./AddTutorial";
+import WalletWithdrawals from "@/components/admin/WalletWithdrawals";
 
 export default function AdminDashboard() {
   return (
@@ -13,10 +14,11 @@ export default function AdminDashboard() {
       <AdminNav />
 
       <Tabs defaultValue="venues" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 mb-8">
+        <TabsList className="grid w-full grid-cols-4 mb-8">
           <TabsTrigger value="venues">Venues</TabsTrigger>
           <TabsTrigger value="equipment">Equipment</TabsTrigger>
           <TabsTrigger value="tutorials">Tutorials</TabsTrigger>
+          <TabsTrigger value="withdrawals">Withdrawals</TabsTrigger>
         </TabsList>
 
         <TabsContent value="venues">
@@ -60,6 +62,10 @@ export default function AdminDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="withdrawals">
+          <WalletWithdrawals />
+        </TabsContent>
       </Tabs>
     </div>
   );
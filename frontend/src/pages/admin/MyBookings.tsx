@@ -6,6 +6,8 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Loader2, AlertCircle } from "lucide-react";
 import { AdminNav } from "@/components/admin/AdminNav";
 import { AdminBookingCard } from "@/components/admin/AdminBookingCard";
+import { RentalInspectionValues } from "@/components/admin/RentalInspectionDialog";
+import { RentalCheckIn, RentalDeposit, RentalInspection, Venue } from "@/types";
 import { BookingStatusBadge } from "@/components/booking/BookingStatusBadge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { toast } from "sonner";
@@ -34,18 +36,53 @@ interface Booking {
     start: string;
     end: string;
   };
-  status: 'pending' | 'confirmed' | 'canceled' | 'completed';
+  status: 'pending' | 'confirmed' | 'canceled' | 'completed' | 'no_show';
   totalPrice: number;
   itemType: 'venue' | 'equipment' | 'tutorial';
   venue?: any;
+  resource?: string;
   equipment?: any[];
   tutorial?: any;
+  checkOut?: RentalInspection;
+  checkIn?: RentalCheckIn;
+  deposit?: RentalDeposit;
 }
 
+// Changeover minutes around a venue booking, from its court or else the venue
+const getBookingBuffer = (venue: Venue, resourceId?: string): { before: number; after: number } => {
+  const resource = resourceId ? venue.resources?.find((entry) => entry._id === resourceId) : undefined;
+  return {
+    before: resource?.bufferBeforeMinutes ?? venue.bufferBeforeMinutes ?? 0,
+    after: resource?.bufferAfterMinutes ?? venue.bufferAfterMinutes ?? 0,
+  };
+};
+
+const shiftTime = (time: string, minutes: number): string => {
+  const [hours, mins] = time.split(":").map(Number);
+  const total = Math.min(Math.max(hours * 60 + mins + minutes, 0), 24 * 60);
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+};
+
+// How long the court is kept free around a venue booking; customers only pay for the booked time
+const describeChangeover = (venue: Venue, booking: Pick<Booking, "timeSlot" | "resource">): string | undefined => {
+  if (!booking.timeSlot) return undefined;
+  const { before, after } = getBookingBuffer(venue, booking.resource);
+  if (before === 0 && after === 0) return undefined;
+  return `Blocked ${shiftTime(booking.timeSlot.start, -before)} - ${shiftTime(booking.timeSlot.end, after)} with changeover (${before} min before, ${after} min after, not charged)`;
+};
+
 interface ItemWithBookings {
   item: any;
   type: 'venue' | 'equipment' | 'tutorial';
   bookings: Booking[];
+  resources?: {
+    resource: {
+      _id: string;
+      name: string;
+      sportType: string;
+    };
+    bookings: Booking[];
+  }[];
 }
 
 export default function AdminMyBookingsPage() {
@@ -179,6 +216,38 @@ export default function AdminMyBookingsPage() {
     },
   });
 
+  // Record the hand-over or return of an equipment rental
+  const recordRentalInspection = useMutation({
+    mutationFn: async ({
+      bookingId,
+      mode,
+      values,
+    }: {
+      bookingId: string;
+      mode: "check-out" | "check-in";
+      values: RentalInspectionValues;
+    }) => {
+      const response = await axios.post(
+        `${API_URL}/admin/bookings/${bookingId}/${mode}`,
+        values,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+      return response.data;
+    },
+    onSuccess: (_data, { mode }) => {
+      queryClient.invalidateQueries({ queryKey: ["adminBookings"] });
+      toast.success(mode === "check-in" ? "Rental checked in and completed" : "Rental checked out");
+    },
+    onError: (error) => {
+      const message = axios.isAxiosError(error) ? error.response?.data?.message : undefined;
+      toast.error(`Failed to record rental: ${message || error.message}`);
+    },
+  });
+
   // Handle status change
   const handleStatusChange = (bookingId: string, status: string) => {
     try {
@@ -339,7 +408,16 @@ export default function AdminMyBookingsPage() {
                   item={itemData.item}
                   type={itemData.type}
                   bookings={itemData.bookings}
+                  resources={itemData.resources}
                   onStatusChange={handleStatusChange}
+                  getBookingNote={
+                    itemData.type === "venue"
+                      ? (booking) => describeChangeover(itemData.item, booking)
+                      : undefined
+                  }
+                  onRentalInspection={(bookingId, mode, values) =>
+                    recordRentalInspection.mutate({ bookingId, mode, values })
+                  }
                 />
               ))}
               
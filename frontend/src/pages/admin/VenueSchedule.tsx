@@ -0,0 +1,413 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { format, parseISO } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AlertTriangle, CalendarOff, Loader2, Plus, Trash2 } from "lucide-react";
+import { AdminNav } from "@/components/admin/AdminNav";
+import { VenuePackages } from "@/components/admin/VenuePackages";
+import { VenuePricingRules } from "@/components/admin/VenuePricingRules";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import type { Venue, VenueDateException } from "@/types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+// Value of the court select that applies an exception to the whole venue
+const WHOLE_VENUE = "all";
+
+const formSchema = z
+  .object({
+    date: z.string().min(1, "Date is required"),
+    resourceId: z.string(),
+    isClosed: z.boolean(),
+    openTime: z.string().optional(),
+    closeTime: z.string().optional(),
+    reason: z.string().optional(),
+  })
+  .refine((values) => values.isClosed || (values.openTime && values.closeTime && values.openTime < values.closeTime), {
+    message: "Opening time must be before closing time",
+    path: ["closeTime"],
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("token")}`,
+});
+
+export default function VenueSchedulePage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [venueId, setVenueId] = useState<string>("");
+  const [openDialog, setOpenDialog] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      date: "",
+      resourceId: WHOLE_VENUE,
+      isClosed: true,
+      openTime: "",
+      closeTime: "",
+      reason: "",
+    },
+  });
+
+  // Venues to manage
+  const { data: venues = [], isLoading: isVenuesLoading } = useQuery<Venue[]>({
+    queryKey: ["admin-schedule-venues"],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/venues?limit=100`);
+      return response.data.venues;
+    },
+  });
+
+  const venue = venues.find((entry) => entry._id === venueId);
+
+  // Closures and special hours of the selected venue, with the bookings they affect
+  const { data: exceptions = [], isLoading: isExceptionsLoading } = useQuery<VenueDateException[]>({
+    queryKey: ["venue-exceptions", venueId],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/venues/${venueId}/exceptions`, {
+        headers: authHeaders(),
+      });
+      return response.data;
+    },
+    enabled: !!venueId,
+  });
+
+  const addExceptionMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await axios.post(
+        `${API_URL}/venues/${venueId}/exceptions`,
+        {
+          date: values.date,
+          ...(values.resourceId !== WHOLE_VENUE && { resourceId: values.resourceId }),
+          isClosed: values.isClosed,
+          ...(!values.isClosed && { openTime: values.openTime, closeTime: values.closeTime }),
+          reason: values.reason,
+        },
+        { headers: { "Content-Type": "application/json", ...authHeaders() } }
+      );
+      return response.data as VenueDateException;
+    },
+    onSuccess: (exception) => {
+      toast({
+        title: "Schedule updated",
+        description: exception.conflicts.length > 0
+          ? `${exception.conflicts.length} existing booking(s) fall outside the new hours. The venue owner has been emailed.`
+          : "No existing bookings are affected.",
+        ...(exception.conflicts.length > 0 && { variant: "destructive" as const }),
+      });
+      queryClient.invalidateQueries({ queryKey: ["venue-exceptions", venueId] });
+      setOpenDialog(false);
+      form.reset();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not update schedule",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "An error occurred while saving the exception.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeExceptionMutation = useMutation({
+    mutationFn: async (exceptionId: string) => {
+      const response = await axios.delete(`${API_URL}/venues/${venueId}/exceptions/${exceptionId}`, {
+        headers: authHeaders(),
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Exception removed",
+        description: "The regular weekly hours apply on this date again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["venue-exceptions", venueId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "Failed to remove the exception.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRemove = (exceptionId: string) => {
+    if (window.confirm("Remove this exception and restore the regular hours?")) {
+      removeExceptionMutation.mutate(exceptionId);
+    }
+  };
+
+  const getResourceName = (resourceId?: string) =>
+    resourceId ? venue?.resources?.find((resource) => resource._id === resourceId)?.name || "Court" : "Whole venue";
+
+  const isClosed = form.watch("isClosed");
+
+  return (
+    <div className="container mx-auto py-6">
+      <h1 className="text-3xl font-bold mb-6">Venue Schedule</h1>
+
+      <AdminNav />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Closures and special hours</CardTitle>
+          <CardDescription>
+            Close a venue or court for holidays, maintenance or private events, or change its hours on a particular date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
+            <Select value={venueId} onValueChange={setVenueId} disabled={isVenuesLoading}>
+              <SelectTrigger className="sm:w-[320px]">
+                <SelectValue placeholder={isVenuesLoading ? "Loading venues..." : "Select a venue"} />
+              </SelectTrigger>
+              <SelectContent>
+                {venues.map((entry) => (
+                  <SelectItem key={entry._id} value={entry._id}>
+                    {entry.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Dialog open={openDialog} onOpenChange={setOpenDialog}>
+              <DialogTrigger asChild>
+                <Button disabled={!venueId}>
+                  <Plus className="h-4 w-4 mr-2" /> Add Exception
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add exception</DialogTitle>
+                  <DialogDescription>
+                    Overrides the weekly opening hours of {venue?.name || "the venue"} on one date.
+                  </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                  <form
+                    onSubmit={form.handleSubmit((values) => addExceptionMutation.mutate(values))}
+                    className="space-y-4"
+                  >
+                    <FormField
+                      control={form.control}
+                      name="date"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {venue?.resources && venue.resources.length > 0 && (
+                      <FormField
+                        control={form.control}
+                        name="resourceId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Applies to</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={WHOLE_VENUE}>Whole venue</SelectItem>
+                                {venue.resources.map((resource) => (
+                                  <SelectItem key={resource._id} value={resource._id}>
+                                    {resource.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="isClosed"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                          <div>
+                            <FormLabel>Closed all day</FormLabel>
+                            <FormDescription>Turn off to set special opening hours instead</FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    {!isClosed && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="openTime"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Opens</FormLabel>
+                              <FormControl>
+                                <Input type="time" step={900} {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="closeTime"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Closes</FormLabel>
+                              <FormControl>
+                                <Input type="time" step={900} {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="reason"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Reason</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g. Public holiday, Maintenance, Private event" {...field} />
+                          </FormControl>
+                          <FormDescription>Shown to customers on the booking calendar</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <DialogFooter>
+                      <Button type="submit" disabled={addExceptionMutation.isPending}>
+                        {addExceptionMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Save
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          {!venueId ? (
+            <p className="text-sm text-muted-foreground">Select a venue to manage its schedule.</p>
+          ) : isExceptionsLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : exceptions.length === 0 ? (
+            <div className="text-center py-8">
+              <CalendarOff className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">No closures or special hours. The weekly hours apply every day.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {exceptions.map((exception) => (
+                <div key={exception._id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {format(parseISO(exception.date.split("T")[0]), "EEE, MMM d, yyyy")}
+                        </span>
+                        <Badge variant={exception.isClosed ? "destructive" : "secondary"}>
+                          {exception.isClosed ? "Closed" : `${exception.openTime} - ${exception.closeTime}`}
+                        </Badge>
+                        <Badge variant="outline">{getResourceName(exception.resource)}</Badge>
+                      </div>
+                      {exception.reason && (
+                        <p className="text-sm text-muted-foreground mt-1">{exception.reason}</p>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={removeExceptionMutation.isPending}
+                      onClick={() => handleRemove(exception._id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {exception.conflicts.length > 0 && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>
+                        {exception.conflicts.length} booking(s) fall outside these hours
+                      </AlertTitle>
+                      <AlertDescription>
+                        <ul className="mt-2 space-y-1">
+                          {exception.conflicts.map((conflict) => (
+                            <li key={conflict.bookingId} className="text-sm">
+                              {conflict.customer.name} ({conflict.customer.email})
+                              {conflict.timeSlot && ` · ${conflict.timeSlot.start} - ${conflict.timeSlot.end}`}
+                              {conflict.resourceName && ` · ${conflict.resourceName}`}
+                              {` · ${conflict.status}`}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {venue && <VenuePricingRules key={venue._id} venue={venue} />}
+      {venue && <VenuePackages key={`packages-${venue._id}`} venue={venue} />}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
-import { Loader2, ArrowLeft, CheckCircle, AlertCircle } from 'lucide-react';
+import { Loader2, ArrowLeft, CheckCircle, AlertCircle, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/components/ui/use-toast';
@@ -19,6 +19,8 @@ export default function BookingCheckoutPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [validBooking, setValidBooking] = useState(false);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   // Check if we were redirected from the booking creation
   const isFromBookingCreation = location.state?.fromBookingCreation || false;
@@ -52,6 +54,9 @@ export default function BookingCheckoutPage() {
         });
         
         console.log('Booking verification successful:', response.data);
+        if (response.data.status === 'pending' && response.data.holdExpiresAt) {
+          setHoldExpiresAt(new Date(response.data.holdExpiresAt));
+        }
         setValidBooking(true);
         setIsLoading(false);
       } catch (err: any) {
@@ -82,6 +87,17 @@ export default function BookingCheckoutPage() {
     verifyBooking();
   }, [bookingId, toast]);
 
+  // Tick once a second while the slot is held so the countdown stays current
+  useEffect(() => {
+    if (!holdExpiresAt || isPaymentComplete) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [holdExpiresAt, isPaymentComplete]);
+
+  const holdSecondsLeft = holdExpiresAt
+    ? Math.max(0, Math.floor((holdExpiresAt.getTime() - now) / 1000))
+    : null;
+
   const handlePaymentSuccess = () => {
     setIsPaymentComplete(true);
   };
@@ -193,6 +209,22 @@ export default function BookingCheckoutPage() {
             Back
           </Button>
           
+          {holdSecondsLeft !== null && (
+            <Alert variant={holdSecondsLeft > 0 ? 'default' : 'destructive'} className="mb-4">
+              <Timer className="h-4 w-4" />
+              <AlertTitle>
+                {holdSecondsLeft > 0
+                  ? `Held for you for ${Math.floor(holdSecondsLeft / 60)}:${String(holdSecondsLeft % 60).padStart(2, '0')}`
+                  : 'Your hold has expired'}
+              </AlertTitle>
+              <AlertDescription>
+                {holdSecondsLeft > 0
+                  ? 'Complete your payment before the timer runs out, or the slot will be released to other customers.'
+                  : 'This booking has been released. Please book again.'}
+              </AlertDescription>
+            </Alert>
+          )}
+          
           <BookingPayment 
             bookingId={bookingId} 
             onSuccess={handlePaymentSuccess} 
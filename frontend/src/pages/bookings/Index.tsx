@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import axios from "axios";
+import { Link } from "react-router-dom";
 import { format } from "date-fns";
 import { 
   Loader2, 
@@ -10,7 +11,10 @@ import {
   MoreHorizontal,
   Calendar,
   Check,
-  X
+  X,
+  Hourglass,
+  Users,
+  QrCode
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -26,6 +30,11 @@ import {
   DropdownMenuSeparator
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/components/ui/use-toast";
+import { SplitPaymentDialog } from "@/components/booking/SplitPaymentDialog";
+import { CheckInPassDialog } from "@/components/booking/CheckInPassDialog";
+import { useAuth } from "@/context/AuthContext";
+import { useCurrencies } from "@/hooks/use-currencies";
+import type { BookingParticipant } from "@/types";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
 
@@ -38,7 +47,12 @@ interface Booking {
     city: string;
     state: string;
     images: string[];
+    resources?: {
+      _id: string;
+      name: string;
+    }[];
   };
+  resource?: string;
   equipment?: {
     _id: string;
     name: string;
@@ -46,14 +60,58 @@ interface Booking {
     model: string;
     images: string[];
   }[];
+  equipmentItems?: {
+    equipment: string;
+    quantity: number;
+  }[];
   date: string;
+  returnDate?: string;
   timeSlot?: {
     start: string;
     end: string;
   };
-  status: 'pending' | 'confirmed' | 'canceled' | 'completed';
+  status: 'pending' | 'confirmed' | 'canceled' | 'completed' | 'no_show';
   totalPrice: number;
   notes?: string;
+  user?: {
+    _id: string;
+    name: string;
+  };
+  participants?: BookingParticipant[];
+  holdExpiresAt?: string;
+  createdAt: string;
+}
+
+interface WaitlistEntry {
+  _id: string;
+  itemType: 'venue' | 'equipment';
+  venue?: {
+    _id: string;
+    name: string;
+    city: string;
+    state: string;
+    resources?: {
+      _id: string;
+      name: string;
+    }[];
+  };
+  resourceId?: string;
+  equipmentItems?: {
+    equipment: { _id: string; name: string } | null;
+    quantity: number;
+  }[];
+  date: string;
+  returnDate?: string;
+  timeSlot?: {
+    start: string;
+    end: string;
+  };
+  status: 'waiting' | 'offered' | 'accepted' | 'expired' | 'canceled';
+  offer?: {
+    booking: string;
+    offeredAt: string;
+    expiresAt: string;
+  };
   createdAt: string;
 }
 
@@ -62,6 +120,11 @@ export default function BookingsPage() {
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState("all");
   const [itemTypeFilter, setItemTypeFilter] = useState("all_types");
+  const [splitBooking, setSplitBooking] = useState<Booking | null>(null);
+  const [checkInBooking, setCheckInBooking] = useState<Booking | null>(null);
+  const { user } = useAuth();
+  const { baseCurrency, format: formatMoney } = useCurrencies();
+  const formatPrice = (amount: number) => formatMoney(amount, baseCurrency);
   
   // Fetch user's bookings
   const { data, isLoading, isError } = useQuery({
@@ -121,6 +184,109 @@ export default function BookingsPage() {
     }
   });
 
+  // Fetch user's waitlist entries and offers
+  const { data: waitlist = [] } = useQuery<WaitlistEntry[]>({
+    queryKey: ["waitlist"],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/waitlist`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      return response.data;
+    },
+  });
+
+  // Leave waitlist mutation
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await axios.delete(`${API_URL}/waitlist/${entryId}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Left waitlist",
+        description: "You have been taken off the waitlist.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["waitlist"] });
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "Failed to leave the waitlist.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Group bookings the user has been invited to share the cost of
+  const { data: sharedBookings = [] } = useQuery<Booking[]>({
+    queryKey: ["bookings", "shared"],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/bookings/shared`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      return response.data;
+    },
+  });
+
+  // Pay share mutation (from the wallet)
+  const payShareMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      const response = await axios.post(
+        `${API_URL}/bookings/${bookingId}/participants/pay`,
+        { paymentMethod: 'wallet' },
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${localStorage.getItem('token')}`
+          }
+        }
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Share paid",
+        description: data.booking?.status === 'confirmed'
+          ? "Everyone has paid. The booking is confirmed."
+          : `${formatPrice(data.share)} was taken from your wallet.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not pay your share",
+        description: axios.isAxiosError(error) && error.response?.data?.message
+          ? error.response.data.message
+          : "Failed to pay your share.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // The current user's entry in a group booking
+  const getMyShare = (booking: Booking) =>
+    booking.participants?.find((participant) =>
+      participant.user ? participant.user === user?._id : participant.email === user?.email?.toLowerCase()
+    );
+
+  // How many shares of a group booking have been paid (or covered by the organiser)
+  const getSharesPaid = (booking: Booking) => {
+    const participants = booking.participants || [];
+    const paid = participants.filter((participant) => participant.status !== 'pending').length;
+    return `${paid} of ${participants.length} shares paid`;
+  };
+
   // Status badge variant
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -132,6 +298,8 @@ export default function BookingsPage() {
         return <Badge variant="destructive">Canceled</Badge>;
       case 'completed':
         return <Badge variant="secondary">Completed</Badge>;
+      case 'no_show':
+        return <Badge variant="destructive">No-show</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -141,10 +309,17 @@ export default function BookingsPage() {
   const formatBookingTime = (booking: Booking) => {
     // Format date
     const formattedDate = format(new Date(booking.date), "MMM d, yyyy");
+
+    // Multi-day equipment rentals show the pickup to return period
+    if (booking.returnDate && booking.returnDate !== booking.date) {
+      return `${formattedDate} - ${format(new Date(booking.returnDate), "MMM d, yyyy")}`;
+    }
     
     // Add time slot if available (for venues)
     if (booking.timeSlot) {
-      return `${formattedDate} · ${booking.timeSlot.start} - ${booking.timeSlot.end}`;
+      const court = booking.resource &&
+        booking.venue?.resources?.find((resource) => resource._id === booking.resource);
+      return `${formattedDate} · ${booking.timeSlot.start} - ${booking.timeSlot.end}${court ? ` · ${court.name}` : ""}`;
     }
     
     return formattedDate;
@@ -168,9 +343,11 @@ export default function BookingsPage() {
       // For multiple equipment, show first item + count
       const firstItem = booking.equipment[0];
       const totalItems = booking.equipment.length;
+      const units = booking.equipmentItems?.find((line) => line.equipment === firstItem._id)?.quantity || 1;
+      const name = units > 1 ? `${units} × ${firstItem.name}` : firstItem.name;
       return totalItems > 1 
-        ? `${firstItem.name} + ${totalItems - 1} more` 
-        : firstItem.name;
+        ? `${name} + ${totalItems - 1} more` 
+        : name;
     }
     return "Unknown item";
   };
@@ -186,6 +363,35 @@ export default function BookingsPage() {
     return "";
   };
 
+  // Describe what a waitlist entry is waiting for
+  const getWaitlistItem = (entry: WaitlistEntry) => {
+    const dates = entry.returnDate && entry.returnDate !== entry.date
+      ? `${format(new Date(entry.date), "MMM d, yyyy")} - ${format(new Date(entry.returnDate), "MMM d, yyyy")}`
+      : format(new Date(entry.date), "MMM d, yyyy");
+
+    if (entry.itemType === 'venue') {
+      const court = entry.resourceId &&
+        entry.venue?.resources?.find((resource) => resource._id === entry.resourceId);
+      const slot = entry.timeSlot ? ` · ${entry.timeSlot.start} - ${entry.timeSlot.end}` : "";
+      return `${entry.venue?.name || "Venue"} · ${dates}${slot}${court ? ` · ${court.name}` : ""}`;
+    }
+
+    const items = (entry.equipmentItems || [])
+      .map((line) => `${line.quantity > 1 ? `${line.quantity} × ` : ""}${line.equipment?.name || "Equipment"}`)
+      .join(", ");
+    return `${items} · ${dates}`;
+  };
+
+  // Handle leaving the waitlist
+  const handleLeaveWaitlist = (entry: WaitlistEntry) => {
+    const message = entry.status === 'offered'
+      ? "Leave the waitlist? Your offer will be passed on to the next person in line."
+      : "Are you sure you want to leave the waitlist?";
+    if (window.confirm(message)) {
+      leaveWaitlistMutation.mutate(entry._id);
+    }
+  };
+
   // Handle cancellation
   const handleCancelBooking = (bookingId: string) => {
     if (window.confirm("Are you sure you want to cancel this booking?")) {
@@ -219,6 +425,7 @@ export default function BookingsPage() {
   }
 
   const bookings = data?.bookings || [];
+  const activeWaitlist = waitlist.filter((entry) => entry.status === 'waiting' || entry.status === 'offered');
 
   return (
     <div className="container mx-auto py-6 px-4">
@@ -296,6 +503,14 @@ export default function BookingsPage() {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end">
+                            {!booking.participants?.some((participant) => participant.paidAt) && (
+                              <>
+                                <DropdownMenuItem onClick={() => setSplitBooking(booking)}>
+                                  <Users className="h-4 w-4 mr-2" /> Split Payment
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                              </>
+                            )}
                             <DropdownMenuItem 
                               className="text-destructive"
                               onClick={() => handleCancelBooking(booking._id)}
@@ -332,8 +547,38 @@ export default function BookingsPage() {
                       
                       <div className="flex justify-between pt-1">
                         <span className="text-sm">Total Amount</span>
-                        <span className="font-medium">${booking.totalPrice.toFixed(2)}</span>
+                        <span className="font-medium">{formatPrice(booking.totalPrice)}</span>
                       </div>
+
+                      {booking.participants && booking.participants.length > 0 && (
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="flex items-center text-sm text-muted-foreground">
+                            <Users className="h-4 w-4 mr-2" />
+                            {getSharesPaid(booking)}
+                          </span>
+                          {booking.status === 'pending' && getMyShare(booking)?.status === 'pending' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={payShareMutation.isPending}
+                              onClick={() => payShareMutation.mutate(booking._id)}
+                            >
+                              Pay {formatPrice(getMyShare(booking)!.share)}
+                            </Button>
+                          )}
+                        </div>
+                      )}
+
+                      {booking.status === 'confirmed' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="w-full"
+                          onClick={() => setCheckInBooking(booking)}
+                        >
+                          <QrCode className="h-4 w-4 mr-2" /> Check-in Code
+                        </Button>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -342,6 +587,113 @@ export default function BookingsPage() {
           )}
         </TabsContent>
       </Tabs>
+
+      {sharedBookings.length > 0 && (
+        <div className="mt-8 space-y-4">
+          <h2 className="text-2xl font-semibold">Shared With Me</h2>
+          {sharedBookings.map((booking) => {
+            const myShare = getMyShare(booking);
+            return (
+              <Card key={booking._id}>
+                <CardContent className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4">
+                  <div className="flex items-start gap-3">
+                    <Users className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium">
+                        {getItemName(booking)} · {formatBookingTime(booking)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Organised by {booking.user?.name || "someone"} · {getSharesPaid(booking)}
+                        {booking.status === 'pending' && booking.holdExpiresAt &&
+                          ` · Pay by ${format(new Date(booking.holdExpiresAt), "MMM d, h:mm a")}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {getStatusBadge(booking.status)}
+                    {booking.status === 'confirmed' && (
+                      <Button size="sm" variant="outline" onClick={() => setCheckInBooking(booking)}>
+                        <QrCode className="h-4 w-4 mr-2" /> Check-in Code
+                      </Button>
+                    )}
+                    {myShare?.status === 'pending' && booking.status === 'pending' ? (
+                      <Button
+                        size="sm"
+                        disabled={payShareMutation.isPending}
+                        onClick={() => payShareMutation.mutate(booking._id)}
+                      >
+                        Pay {formatPrice(myShare.share)}
+                      </Button>
+                    ) : myShare && (
+                      <Badge variant="secondary">
+                        {myShare.status === 'pending' ? "Unpaid" : `Your ${formatPrice(myShare.share)} paid`}
+                      </Badge>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {splitBooking && (
+        <SplitPaymentDialog
+          bookingId={splitBooking._id}
+          totalPrice={splitBooking.totalPrice}
+          open={!!splitBooking}
+          onOpenChange={(open) => !open && setSplitBooking(null)}
+        />
+      )}
+
+      {checkInBooking && (
+        <CheckInPassDialog
+          bookingId={checkInBooking._id}
+          title={getItemName(checkInBooking)}
+          open={!!checkInBooking}
+          onOpenChange={(open) => !open && setCheckInBooking(null)}
+        />
+      )}
+
+      {activeWaitlist.length > 0 && (
+        <div className="mt-8 space-y-4">
+          <h2 className="text-2xl font-semibold">Waitlist</h2>
+          {activeWaitlist.map((entry) => (
+            <Card key={entry._id}>
+              <CardContent className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4">
+                <div className="flex items-start gap-3">
+                  <Hourglass className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">{getWaitlistItem(entry)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {entry.status === 'offered' && entry.offer
+                        ? `It's available! Complete your booking by ${format(new Date(entry.offer.expiresAt), "MMM d, h:mm a")}.`
+                        : `Waiting since ${format(new Date(entry.createdAt), "MMM d, yyyy")}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {entry.status === 'offered' && entry.offer && (
+                    <Button asChild size="sm">
+                      <Link to={`/bookings/checkout/${entry.offer.booking}`}>
+                        <Check className="h-4 w-4 mr-2" /> Complete Booking
+                      </Link>
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={leaveWaitlistMutation.isPending}
+                    onClick={() => handleLeaveWaitlist(entry)}
+                  >
+                    {entry.status === 'offered' ? "Decline" : "Leave Waitlist"}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,432 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { format } from "date-fns";
+import { CardElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { AlertCircle, CreditCard, Loader2, ShoppingCart, Trash2, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/components/ui/use-toast";
+import { useCurrencies } from "@/hooks/use-currencies";
+import StripeProvider from "@/components/payment/StripeProvider";
+import type { CartItem, CartLineQuote, CartQuote } from "@/types";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
+
+interface CartResponse {
+  cart: { items: CartItem[]; discountCode?: string };
+  quote: CartQuote;
+}
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem("token")}`,
+});
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.message ? error.response.data.message : fallback;
+
+// Date, time and quantities of a cart line
+const describeItem = (item: CartItem) => {
+  if (item.itemType === "tutorial") {
+    return "Premium tutorial";
+  }
+
+  const date = item.date ? format(new Date(item.date), "MMM d, yyyy") : "";
+  if (item.itemType === "venue" || item.itemType === "package") {
+    return item.timeSlot ? `${date} · ${item.timeSlot.start} - ${item.timeSlot.end}` : date;
+  }
+
+  const returnDate = item.returnDate ? format(new Date(item.returnDate), "MMM d, yyyy") : undefined;
+  const quantities = (item.equipmentItems || [])
+    .filter((line) => line.quantity > 1)
+    .map((line) => `${line.quantity} × ${line.equipment?.name}`)
+    .join(", ");
+  return [returnDate && returnDate !== date ? `${date} - ${returnDate}` : date, quantities]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+interface CardCheckoutProps {
+  total: number;
+  onSuccess: () => void;
+  onUnavailable: (lines: CartLineQuote[]) => void;
+}
+
+// Pays the whole cart with one card payment, then authorises any rental deposits
+function CardCheckout({ total, onSuccess, onUnavailable }: CardCheckoutProps) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { toast } = useToast();
+  const { baseCurrency, format: formatMoney } = useCurrencies();
+  const formatPrice = (amount: number) => formatMoney(amount, baseCurrency);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const cardElement = elements?.getElement(CardElement);
+    if (!stripe || !cardElement) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data } = await axios.post(`${API_URL}/cart/checkout`, { paymentMethod: "stripe" }, {
+        headers: authHeaders(),
+      });
+
+      const result = await stripe.confirmCardPayment(data.clientSecret, {
+        payment_method: { card: cardElement },
+      });
+      if (result.error || result.paymentIntent?.status !== "succeeded") {
+        throw new Error(result.error?.message || "Payment not completed");
+      }
+
+      await axios.post(`${API_URL}/cart/checkout/confirm`, { paymentIntentId: result.paymentIntent.id }, {
+        headers: authHeaders(),
+      });
+
+      // Security deposits are held on the same card and released when the equipment is returned
+      const deposits: { clientSecret?: string }[] = data.deposits || [];
+      for (const deposit of deposits) {
+        if (!deposit.clientSecret) continue;
+        const depositResult = await stripe.confirmCardPayment(deposit.clientSecret, {
+          payment_method: { card: cardElement },
+        });
+        if (depositResult.error || depositResult.paymentIntent?.status !== "requires_capture") {
+          toast({
+            title: "Security Deposit Not Held",
+            description: "The deposit must be held before you can pick up the equipment.",
+            variant: "destructive",
+          });
+          continue;
+        }
+        await axios.post(`${API_URL}/payments/deposits/confirm`, { paymentIntentId: depositResult.paymentIntent.id }, {
+          headers: authHeaders(),
+        });
+      }
+
+      onSuccess();
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
+        onUnavailable(err.response.data.unavailable || []);
+      }
+      setError(err instanceof Error && !axios.isAxiosError(err)
+        ? err.message
+        : getErrorMessage(err, "Payment failed. Please verify your card details and try again."));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="border rounded-md p-4">
+        <CardElement options={{ style: { base: { fontSize: "16px" } } }} />
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <Button type="submit" className="w-full" disabled={!stripe || loading}>
+        {loading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Processing...
+          </>
+        ) : (
+          `Pay ${formatPrice(total)}`
+        )}
+      </Button>
+    </form>
+  );
+}
+
+export default function CartPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Cart prices are in the base currency
+  const { baseCurrency, format: formatMoney } = useCurrencies();
+  const formatPrice = (amount: number) => formatMoney(amount, baseCurrency);
+  const [discountCode, setDiscountCode] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<"stripe" | "wallet">("wallet");
+  const [unavailable, setUnavailable] = useState<CartLineQuote[]>([]);
+  // Sent with a wallet checkout so a double click or retry cannot pay twice; renewed once it settles
+  const checkoutKey = useRef(crypto.randomUUID());
+
+  const { data, isLoading } = useQuery<CartResponse>({
+    queryKey: ["cart"],
+    queryFn: async () => {
+      const response = await axios.get(`${API_URL}/cart`, { headers: authHeaders() });
+      return response.data;
+    },
+  });
+
+  const updateCart = (response: CartResponse) => {
+    queryClient.setQueryData(["cart"], response);
+  };
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const response = await axios.delete(`${API_URL}/cart/items/${itemId}`, { headers: authHeaders() });
+      return response.data;
+    },
+    onSuccess: updateCart,
+    onError: (error) => {
+      toast({ title: "Error", description: getErrorMessage(error, "Failed to remove item"), variant: "destructive" });
+    },
+  });
+
+  const discountMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await axios.post(`${API_URL}/cart/discount`, { code }, { headers: authHeaders() });
+      return response.data;
+    },
+    onSuccess: (response: CartResponse) => {
+      updateCart(response);
+      setDiscountCode("");
+    },
+    onError: (error) => {
+      toast({ title: "Discount not applied", description: getErrorMessage(error, "Invalid discount code"), variant: "destructive" });
+    },
+  });
+
+  const handleCheckoutSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["cart"] });
+    toast({
+      title: "Payment Successful",
+      description: "Your bookings are confirmed and your tutorials unlocked.",
+    });
+    navigate("/bookings");
+  };
+
+  const handleUnavailable = (lines: CartLineQuote[]) => {
+    setUnavailable(lines);
+    queryClient.invalidateQueries({ queryKey: ["cart"] });
+  };
+
+  const walletCheckoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post(`${API_URL}/cart/checkout`, { paymentMethod: "wallet" }, {
+        headers: { ...authHeaders(), "Idempotency-Key": checkoutKey.current },
+      });
+      return response.data;
+    },
+    onSettled: () => {
+      checkoutKey.current = crypto.randomUUID();
+    },
+    onSuccess: handleCheckoutSuccess,
+    onError: (error) => {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        handleUnavailable(error.response.data.unavailable || []);
+      }
+      toast({ title: "Checkout failed", description: getErrorMessage(error, "Failed to check out"), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-12 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const items = data?.cart.items || [];
+  const quote = data?.quote;
+  const findLine = (itemId: string) => quote?.lines.find((line) => line.itemId === itemId);
+
+  if (items.length === 0) {
+    return (
+      <div className="container mx-auto py-12 px-4">
+        <Card className="max-w-md mx-auto text-center">
+          <CardHeader>
+            <ShoppingCart className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+            <CardTitle>Your cart is empty</CardTitle>
+            <CardDescription>Add venue slots, equipment rentals, packages and premium tutorials to pay for them together.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-2">
+            <Button onClick={() => navigate("/venues")}>Browse Venues</Button>
+            <Button variant="outline" onClick={() => navigate("/equipment")}>Browse Equipment</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <h1 className="text-3xl font-bold mb-6">Cart</h1>
+
+      {unavailable.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Some items are no longer available</AlertTitle>
+          <AlertDescription>
+            Nothing was charged. Remove these items and try again:
+            <ul className="list-disc pl-5 mt-1">
+              {unavailable.map((line) => (
+                <li key={line.itemId}>{line.itemName}: {line.reason}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-4">
+          {items.map((item) => {
+            const line = findLine(item._id);
+            return (
+              <Card key={item._id}>
+                <CardContent className="flex items-start justify-between gap-4 p-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="capitalize">{item.itemType}</Badge>
+                      <span className="font-medium">{line?.itemName}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{describeItem(item)}</p>
+                    {line && !line.valid && (
+                      <p className="text-sm text-destructive">{line.reason}</p>
+                    )}
+                    {line && line.depositAmount > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Refundable security deposit of {formatPrice(line.depositAmount)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {line?.valid && (
+                      <div className="text-right">
+                        <p className="font-medium">{formatPrice(line.price - line.discountAmount)}</p>
+                        {line.discountAmount > 0 && (
+                          <p className="text-xs text-muted-foreground line-through">{formatPrice(line.price)}</p>
+                        )}
+                      </div>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeItemMutation.mutate(item._id)}
+                      disabled={removeItemMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle>Order Summary</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatPrice(quote?.subtotal || 0)}</span>
+              </div>
+              {quote?.discountCode && (
+                <div className="flex justify-between text-green-600">
+                  <span>
+                    Discount ({quote.discountCode})
+                    <button
+                      type="button"
+                      className="ml-2 text-xs underline"
+                      onClick={() => discountMutation.mutate("")}
+                    >
+                      Remove
+                    </button>
+                  </span>
+                  <span>-{formatPrice(quote.discountAmount)}</span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between font-bold text-base">
+                <span>Total</span>
+                <span>{formatPrice(quote?.total || 0)}</span>
+              </div>
+              {quote && quote.depositTotal > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Plus {formatPrice(quote.depositTotal)} in security deposits, held on your {paymentMethod === "wallet" ? "wallet" : "card"} and released when the equipment is returned
+                </p>
+              )}
+            </div>
+
+            {!quote?.discountCode && (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Discount code"
+                  value={discountCode}
+                  onChange={(event) => setDiscountCode(event.target.value)}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => discountMutation.mutate(discountCode)}
+                  disabled={!discountCode.trim() || discountMutation.isPending}
+                >
+                  Apply
+                </Button>
+              </div>
+            )}
+
+            <div className="flex space-x-2">
+              <Button
+                variant={paymentMethod === "wallet" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setPaymentMethod("wallet")}
+              >
+                <Wallet className="mr-2 h-4 w-4" />
+                Wallet
+              </Button>
+              <Button
+                variant={paymentMethod === "stripe" ? "default" : "outline"}
+                className="flex-1"
+                onClick={() => setPaymentMethod("stripe")}
+              >
+                <CreditCard className="mr-2 h-4 w-4" />
+                Card
+              </Button>
+            </div>
+          </CardContent>
+          <CardFooter className="flex-col items-stretch">
+            {!quote?.valid ? (
+              <p className="text-sm text-destructive">Remove the items that are no longer available to check out.</p>
+            ) : paymentMethod === "stripe" ? (
+              <StripeProvider>
+                <CardCheckout
+                  total={quote.total}
+                  onSuccess={handleCheckoutSuccess}
+                  onUnavailable={handleUnavailable}
+                />
+              </StripeProvider>
+            ) : (
+              <Button
+                className="w-full"
+                onClick={() => walletCheckoutMutation.mutate()}
+                disabled={walletCheckoutMutation.isPending}
+              >
+                {walletCheckoutMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  `Pay ${formatPrice(quote.total)} from Wallet`
+                )}
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
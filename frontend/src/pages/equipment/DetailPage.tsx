@@ -46,6 +46,8 @@ interface Equipment {
   condition: string;
   purchasePrice: number;
   rentalPriceDaily: number;
+  rentalPriceWeekly?: number;
+  depositAmount?: number;
   availability: string;
   quantity: number;
   specifications: Record<string, any>;
@@ -67,23 +69,6 @@ export default function EquipmentDetailPage() {
     },
   });
 
-  // Fetch existing bookings to disable dates
-  const { data: bookingsData } = useQuery({
-    queryKey: ["equipment-bookings", id],
-    queryFn: async () => {
-      const response = await axios.get(`${API_URL}/bookings?itemType=equipment&itemId=${id}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
-      });
-      return response.data;
-    },
-    enabled: !!id && !!localStorage.getItem('token'),
-  });
-
-  // Extract booked dates
-  const bookedDates = bookingsData?.bookings?.map((booking: any) => new Date(booking.date)) || [];
-
   // Map condition to badge variant
   const conditionVariant = (condition: string) => {
     switch (condition) {
@@ -122,7 +107,8 @@ export default function EquipmentDetailPage() {
     );
   }
 
-  const isBookable = equipment.availability === "In Stock" || equipment.availability === "Low Stock";
+  // Stock status reflects today's rentals only, so later dates may still have free units
+  const isBookable = equipment.availability !== "Discontinued" && equipment.quantity > 0;
 
   return (
     <div className="container mx-auto py-8 px-4">
@@ -150,6 +136,14 @@ export default function EquipmentDetailPage() {
             <div className="flex justify-between items-start mb-4">
               <div>
                 <p className="text-2xl font-bold">${equipment.rentalPriceDaily}<span className="text-base font-normal text-muted-foreground">/day</span></p>
+                {equipment.rentalPriceWeekly && (
+                  <p className="text-sm text-muted-foreground">${equipment.rentalPriceWeekly}/week</p>
+                )}
+                {!!equipment.depositAmount && (
+                  <p className="text-sm text-muted-foreground">
+                    ${equipment.depositAmount} refundable deposit per unit
+                  </p>
+                )}
                 <p className="text-sm text-muted-foreground">Purchase: ${equipment.purchasePrice}</p>
               </div>
               <Badge variant={stockVariant(equipment.availability)} className="text-white">
@@ -180,7 +174,7 @@ export default function EquipmentDetailPage() {
                     itemType="equipment" 
                     itemId={equipment._id} 
                     price={equipment.rentalPriceDaily}
-                    disabledDates={bookedDates}
+                    weeklyPrice={equipment.rentalPriceWeekly}
                     onSuccess={() => setBookingOpen(false)}
                   />
                 </div>
@@ -17,6 +17,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { toast } from 'sonner';
 import { API_URL } from '@/lib/constants';
+import { CalendarFeeds } from '@/components/profile/CalendarFeeds';
 import { Loader2, CalendarIcon, MapPin, Star, Settings, Book, ShoppingBag } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 
@@ -366,6 +367,8 @@ export default function ProfilePage() {
               )}
             </CardContent>
           </Card>
+
+          <CalendarFeeds />
         </div>
 
         {/* Activity Tabs */}
@@ -16,7 +16,8 @@ import {
   Edit,
   Lock,
   DollarSign,
-  Wallet
+  Wallet,
+  ShoppingCart
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -166,6 +167,29 @@ export default function TutorialDetailPage() {
     setShowPaymentDialog(true);
   };
 
+  // Add the tutorial to the cart to pay for it together with bookings
+  const handleAddToCart = async () => {
+    if (!isAuthenticated) {
+      toast.error("Please login to purchase this tutorial");
+      return;
+    }
+
+    try {
+      await axios.post(`${API_URL}/cart/items`, { itemType: 'tutorial', itemId: id }, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`
+        }
+      });
+      toast.success("Tutorial added to your cart", {
+        action: { label: "View cart", onClick: () => navigate('/cart') }
+      });
+    } catch (error) {
+      toast.error(axios.isAxiosError(error) && error.response?.data?.message
+        ? error.response.data.message
+        : "Failed to add tutorial to cart");
+    }
+  };
+
   // Handle payment success
   const handlePaymentSuccess = () => {
     // Close the payment dialog
@@ -347,14 +371,25 @@ export default function TutorialDetailPage() {
             {/* Call to Action */}
             <div className="mb-6">
               {tutorial.tutorialType === 'Premium' && tutorial.isPreview ? (
-                <Button 
-                  className="w-full" 
-                  size="lg"
-                  onClick={handlePurchase}
-                >
-                  <DollarSign className="h-4 w-4 mr-2" />
-                  Purchase for {formatPrice(tutorial.price)}
-                </Button>
+                <>
+                  <Button 
+                    className="w-full" 
+                    size="lg"
+                    onClick={handlePurchase}
+                  >
+                    <DollarSign className="h-4 w-4 mr-2" />
+                    Purchase for {formatPrice(tutorial.price)}
+                  </Button>
+                  <Button 
+                    className="w-full mt-2" 
+                    size="lg"
+                    variant="outline"
+                    onClick={handleAddToCart}
+                  >
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Add to Cart
+                  </Button>
+                </>
               ) : (
                 <Button className="w-full" size="lg">
                   <Play className="h-4 w-4 mr-2" /> Start Learning
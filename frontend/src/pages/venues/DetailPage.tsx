@@ -1,7 +1,8 @@
 import { useParams } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import axios from "axios";
-import { Loader2, MapPin, Clock, Users, Tag, Calendar } from "lucide-react";
+import { format, addDays } from "date-fns";
+import { Loader2, MapPin, Clock, Users, Tag, Calendar, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -19,6 +20,9 @@ import {
 } from "@/components/ui/sheet";
 import { BookingForm } from "@/components/booking/BookingForm";
 import ReviewList from "@/components/reviews/ReviewList";
+import { AvailabilityGrid } from "@/components/booking/AvailabilityGrid";
+import { PackageOffers } from "@/components/booking/PackageOffers";
+import type { VenueAvailability, VenueResource } from "@/types";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:5000/api";
 
@@ -31,6 +35,8 @@ interface Venue {
   sportTypes: string[];
   pricePerHour: number;
   capacity: number;
+  minBookingMinutes?: number;
+  resources?: VenueResource[];
   images: string[];
   rating?: number;
   address?: string;
@@ -53,22 +59,26 @@ export default function VenueDetailPage() {
     },
   });
 
-  // Fetch existing bookings to disable dates
-  const { data: bookingsData } = useQuery({
-    queryKey: ["venue-bookings", id],
+  const [weekOffset, setWeekOffset] = useState(0);
+  const availabilityFrom = format(addDays(new Date(), weekOffset * 7), 'yyyy-MM-dd');
+  const availabilityTo = format(addDays(new Date(), weekOffset * 7 + 6), 'yyyy-MM-dd');
+
+  // Fetch the free/booked slot grid for the visible week
+  const { data: availability, isLoading: isAvailabilityLoading } = useQuery<VenueAvailability>({
+    queryKey: ["venue-availability", id, availabilityFrom, availabilityTo],
     queryFn: async () => {
-      const response = await axios.get(`${API_URL}/bookings?itemType=venue&itemId=${id}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
-        }
+      const response = await axios.get(`${API_URL}/venues/${id}/availability`, {
+        params: { from: availabilityFrom, to: availabilityTo }
       });
       return response.data;
     },
-    enabled: !!id && !!localStorage.getItem('token'),
+    enabled: !!id,
   });
 
-  // Extract booked dates
-  const bookedDates = bookingsData?.bookings?.map((booking: any) => new Date(booking.date)) || [];
+  // Disable dates where the venue is closed or fully booked
+  const bookedDates = (availability?.days || [])
+    .filter((day) => !day.isOpen || !day.slots.some((slot) => slot.status === 'available'))
+    .map((day) => new Date(`${day.date}T00:00:00`));
 
   if (isLoading) {
     return <VenueDetailSkeleton />;
@@ -85,6 +95,8 @@ export default function VenueDetailPage() {
     );
   }
 
+  const activeResources = ((venue as Venue).resources || []).filter((resource) => resource.isActive !== false);
+
   return (
     <div className="container mx-auto py-8 px-4">
       {/* Venue Header */}
@@ -142,6 +154,8 @@ export default function VenueDetailPage() {
                     itemType="venue" 
                     itemId={venue._id} 
                     price={venue.pricePerHour}
+                    minBookingMinutes={venue.minBookingMinutes}
+                    resources={activeResources}
                     disabledDates={bookedDates}
                     onSuccess={() => setBookingOpen(false)}
                   />
@@ -186,6 +200,30 @@ export default function VenueDetailPage() {
         <p className="whitespace-pre-line text-muted-foreground">{venue.description}</p>
       </div>
 
+      {/* Courts */}
+      {activeResources.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Courts</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {activeResources.map((resource) => (
+              <Card key={resource._id}>
+                <CardContent className="p-4">
+                  <p className="font-medium">{resource.name}</p>
+                  <Badge variant="outline" className="mt-1">{resource.sportType}</Badge>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    ${resource.pricePerHour ?? venue.pricePerHour}/hour
+                    {resource.capacity ? ` · Up to ${resource.capacity} people` : ""}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Packages */}
+      <PackageOffers venueId={venue._id} resources={activeResources} />
+
       {/* Details */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
         {/* Amenities */}
@@ -226,6 +264,35 @@ export default function VenueDetailPage() {
         </div>
       </div>
 
+      {/* Availability */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Availability</h2>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={weekOffset === 0}
+              onClick={() => setWeekOffset((offset) => offset - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setWeekOffset((offset) => offset + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {isAvailabilityLoading ? (
+          <Loader2 className="animate-spin h-6 w-6 text-primary" />
+        ) : (
+          <AvailabilityGrid days={availability?.days || []} />
+        )}
+      </div>
+
       {/* Reviews Section */}
       <div className="mb-8">
         <h2 className="text-xl font-semibold mb-4">Reviews</h2>
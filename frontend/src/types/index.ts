@@ -27,6 +27,23 @@ export interface User {
 }
 
 // Venue types
+export interface VenueResource {
+  _id: string;
+  name: string;
+  sportType: string;
+  pricePerHour?: number;
+  capacity?: number;
+  // Override the venue's changeover buffer for this court
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  availableTimeSlots?: {
+    day: string;
+    openTime: string;
+    closeTime: string;
+  }[];
+  isActive?: boolean;
+}
+
 export interface Venue {
   _id: string;
   name: string;
@@ -40,11 +57,17 @@ export interface Venue {
   amenities: string[];
   pricePerHour: number;
   capacity: number;
+  minBookingMinutes?: number;
+  slotGranularityMinutes?: number;
+  // Changeover time kept free before and after each booking; not charged
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
   availableTimeSlots: {
     day: string;
     openTime: string;
     closeTime: string;
   }[];
+  resources?: VenueResource[];
   rules: string[];
   contactInfo: {
     phone: string;
@@ -56,6 +79,108 @@ export interface Venue {
   updatedAt: string;
 }
 
+// A booking that falls outside the hours set by a venue date exception
+export interface VenueExceptionConflict {
+  bookingId: string;
+  status: string;
+  timeSlot?: {
+    start: string;
+    end: string;
+  };
+  resourceId?: string;
+  resourceName?: string;
+  customer: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+}
+
+// A closure or special opening hours of a venue (or one court) on a single date
+export interface VenueDateException {
+  _id: string;
+  date: string;
+  resource?: string;
+  isClosed: boolean;
+  openTime?: string;
+  closeTime?: string;
+  reason?: string;
+  conflicts: VenueExceptionConflict[];
+}
+
+// How a venue's hourly rate is adjusted by a pricing rule
+export type PricingAdjustment = 'set_rate' | 'multiplier' | 'surcharge';
+
+// Peak, off-peak or seasonal rate change for a venue or one of its courts
+export interface VenuePricingRule {
+  _id: string;
+  name: string;
+  resource?: string;
+  days: string[];
+  startTime?: string;
+  endTime?: string;
+  startDate?: string;
+  endDate?: string;
+  adjustment: PricingAdjustment;
+  value: number;
+  isActive: boolean;
+}
+
+// One stretch of a venue booking charged at a single hourly rate
+export interface VenuePriceLine {
+  start: string;
+  end: string;
+  minutes: number;
+  baseRate: number;
+  rate: number;
+  rules: string[];
+  amount: number;
+}
+
+// Server-side price of a booking before it is made
+export interface BookingQuote {
+  itemType: 'venue' | 'equipment';
+  itemName: string;
+  subtotalPrice: number;
+  totalPrice: number;
+  priceBreakdown?: VenuePriceLine[];
+  deposit?: number;
+}
+
+// How a package is priced: a fixed price, or a percentage off its parts
+export type PackagePricingType = 'bundle_price' | 'percentage_off';
+
+// A venue slot sold together with equipment rented for the same day
+export interface VenuePackage {
+  _id: string;
+  name: string;
+  description?: string;
+  venue: { _id: string; name: string; city?: string; state?: string } | string;
+  resource?: string;
+  equipmentItems: {
+    equipment: { _id: string; name: string; images?: string[]; rentalPriceDaily?: number };
+    quantity: number;
+  }[];
+  pricingType: PackagePricingType;
+  value: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// Server-side price of a package against booking its parts separately
+export interface PackageQuote {
+  itemName: string;
+  componentPrice: number;
+  totalPrice: number;
+  saving: number;
+  bookings: {
+    itemType: 'venue' | 'equipment';
+    subtotalPrice: number;
+    totalPrice: number;
+    deposit?: number;
+  }[];
+}
+
 export interface TimeSlot {
   id: string;
   startTime: string;
@@ -63,6 +188,42 @@ export interface TimeSlot {
   isAvailable: boolean;
 }
 
+export type AvailabilitySlotStatus = 'available' | 'booked' | 'past';
+
+export interface AvailabilitySlot {
+  start: string;
+  end: string;
+  status: AvailabilitySlotStatus;
+}
+
+export interface VenueAvailabilityDay {
+  date: string;
+  day: string;
+  isOpen: boolean;
+  openTime?: string;
+  closeTime?: string;
+  // Set when a closure or special opening hours apply on this date
+  note?: string;
+  slots: AvailabilitySlot[];
+}
+
+export interface ResourceAvailability {
+  resourceId: string;
+  name: string;
+  sportType: string;
+  pricePerHour: number;
+  days: VenueAvailabilityDay[];
+}
+
+export interface VenueAvailability {
+  venueId: string;
+  from: string;
+  to: string;
+  resourceId?: string;
+  days: VenueAvailabilityDay[];
+  resources?: ResourceAvailability[];
+}
+
 export interface Booking {
   id: string;
   userId: string;
@@ -73,9 +234,77 @@ export interface Booking {
   totalPrice: number;
 }
 
+// Someone sharing the cost of a group booking; shares are in USD like booking prices
+export interface BookingParticipant {
+  _id: string;
+  user?: string;
+  email: string;
+  name?: string;
+  isOrganiser: boolean;
+  share: number;
+  status: 'pending' | 'paid' | 'covered';
+  paidAt?: string;
+}
+
+// The QR code a customer shows on arrival, as returned by GET /bookings/:id/check-in-pass
+export interface CheckInPass {
+  token: string;
+  expiresAt: string;
+  checkedInAt?: string;
+  qrCode: string;
+}
+
+// Secret iCal feed URLs of the user's bookings and of the venues they own
+export interface CalendarFeeds {
+  userFeedUrl: string;
+  venues: { venueId: string; name: string; feedUrl: string }[];
+}
+
+export interface EquipmentAvailability {
+  equipmentId: string;
+  quantity: number;
+  reserved: number;
+  available: number;
+  from: string;
+  to: string;
+}
+
 export type BookingStatus = 'pending' | 'confirmed' | 'cancelled';
 
 // Equipment types
+export type EquipmentCondition = "New" | "Like New" | "Good" | "Fair" | "Poor";
+
+// Condition, photos and notes recorded when a rental is handed over or returned
+export interface RentalInspection {
+  at: string;
+  by: string;
+  items: { equipment: string; condition: EquipmentCondition }[];
+  photos: string[];
+  notes?: string;
+}
+
+export interface RentalDeposit {
+  amount: number;
+  status: "pending" | "held" | "released" | "partially_released" | "captured" | "failed";
+  paymentMethod?: "wallet" | "stripe";
+  releasedAmount?: number;
+  deductedAmount?: number;
+}
+
+export interface RentalCheckIn extends RentalInspection {
+  daysLate: number;
+  lateFee: number;
+  damageCharge: number;
+  depositDeduction?: number;
+  charge?: {
+    amount: number;
+    currency: string;
+    paymentMethod: "wallet" | "stripe";
+    status: "pending" | "paid" | "failed";
+    payment?: string;
+  };
+}
+
 export interface Equipment {
   _id: string;
   name: string;
@@ -85,9 +314,12 @@ export interface Equipment {
   model: string;
   images: string[];
   sportType: string;
-  condition: "New" | "Like New" | "Good" | "Fair" | "Poor";
+  condition: EquipmentCondition;
   purchasePrice: number;
   rentalPriceDaily: number;
+  rentalPriceWeekly?: number;
+  lateFeeDaily?: number;
+  depositAmount?: number;
   availability: "In Stock" | "Low Stock" | "Out of Stock" | "Discontinued";
   quantity: number;
   specifications?: Record<string, any>;
@@ -136,6 +368,43 @@ export interface Tutorial {
   updatedAt: string;
 }
 
+// Cart types
+export interface CartItem {
+  _id: string;
+  itemType: "venue" | "equipment" | "tutorial" | "package";
+  venue?: { _id: string; name: string };
+  venuePackage?: { _id: string; name: string };
+  resourceId?: string;
+  equipmentItems?: { equipment: { _id: string; name: string }; quantity: number }[];
+  tutorial?: { _id: string; title: string };
+  date?: string;
+  returnDate?: string;
+  timeSlot?: { start: string; end: string };
+  notes?: string;
+}
+
+// A cart line revalidated and priced by the server
+export interface CartLineQuote {
+  itemId: string;
+  itemType: CartItem["itemType"];
+  itemName: string;
+  price: number;
+  depositAmount: number;
+  discountAmount: number;
+  valid: boolean;
+  reason?: string;
+}
+
+export interface CartQuote {
+  lines: CartLineQuote[];
+  subtotal: number;
+  discountCode?: string;
+  discountAmount: number;
+  total: number;
+  depositTotal: number;
+  valid: boolean;
+}
+
 // Navigation types
 export interface NavItem {
   title: string;
@@ -0,0 +1,30 @@
+import { differenceInCalendarDays } from "date-fns";
+
+/**
+ * Count the days a rental holds the equipment, including pickup and return day
+ * @param pickupDate The pickup date
+ * @param returnDate The return date (defaults to the pickup date)
+ * @returns Number of rental days
+ */
+export const getRentalDays = (pickupDate: Date, returnDate?: Date): number => {
+  return differenceInCalendarDays(returnDate || pickupDate, pickupDate) + 1;
+};
+
+/**
+ * Price one unit of equipment for a rental, matching the server's billing:
+ * full weeks at the weekly rate (when it is cheaper than seven days) and the
+ * remaining days at the daily rate, capped at one more week
+ * @param dailyRate The daily rental price
+ * @param days Number of rental days
+ * @param weeklyRate Optional weekly rental price
+ * @returns Price rounded to cents
+ */
+export const calculateRentalPrice = (dailyRate: number, days: number, weeklyRate?: number): number => {
+  if (!weeklyRate || weeklyRate >= dailyRate * 7) {
+    return Math.round(dailyRate * days * 100) / 100;
+  }
+
+  const weeks = Math.floor(days / 7);
+  const extraDays = days % 7;
+  return Math.round((weeks * weeklyRate + Math.min(extraDays * dailyRate, weeklyRate)) * 100) / 100;
+};
@@ -0,0 +1,41 @@
+/**
+ * Convert a "HH:MM" time string into minutes since midnight
+ * @param time The time string to convert
+ * @returns Minutes since midnight, or NaN if the string is malformed
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+};
+
+/**
+ * Get the length of a time range in minutes
+ * @param start Start time in "HH:MM" format
+ * @param end End time in "HH:MM" format
+ * @returns Duration in minutes (zero or negative if end is not after start)
+ */
+export const getDurationMinutes = (start: string, end: string): number => {
+  return timeToMinutes(end) - timeToMinutes(start);
+};
+
+/**
+ * Prorate an hourly price over a time range, matching the server's billing
+ * @param pricePerHour The hourly rate
+ * @param start Start time in "HH:MM" format
+ * @param end End time in "HH:MM" format
+ * @returns Price rounded to cents
+ */
+export const calculateProratedPrice = (pricePerHour: number, start: string, end: string): number => {
+  const minutes = getDurationMinutes(start, end);
+  return Math.round(pricePerHour * (minutes / 60) * 100) / 100;
+};
+
+/**
+ * Format a duration in minutes as a readable label, e.g. "1h 30m"
+ */
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  if (hours === 0) return `${remainder}m`;
+  return remainder === 0 ? `${hours}h` : `${hours}h ${remainder}m`;
+};